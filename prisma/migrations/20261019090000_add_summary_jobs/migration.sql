@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "summary_jobs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "SummaryStatus" NOT NULL DEFAULT 'PENDING',
+    "videoId" TEXT NOT NULL,
+    "videoTitle" TEXT NOT NULL,
+    "videoUrl" TEXT NOT NULL,
+    "request" JSONB NOT NULL,
+    "currentChunk" INTEGER NOT NULL DEFAULT 0,
+    "completedChunks" INTEGER NOT NULL DEFAULT 0,
+    "totalChunks" INTEGER NOT NULL DEFAULT 0,
+    "progressMessage" TEXT,
+    "result" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "summary_jobs_userId_idx" ON "summary_jobs"("userId");
+
+-- CreateIndex
+CREATE INDEX "summary_jobs_status_idx" ON "summary_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "summary_jobs_createdAt_idx" ON "summary_jobs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "summary_jobs" ADD CONSTRAINT "summary_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "detailedNotes" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "examples" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "keyTakeaways" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "quotes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "citations" JSONB NOT NULL DEFAULT '{}';
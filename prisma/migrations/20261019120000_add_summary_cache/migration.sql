@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "token_usage" ADD COLUMN     "cacheHit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "summary_cache" (
+    "id" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "transcriptHash" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "result" JSONB NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summary_cache_cacheKey_key" ON "summary_cache"("cacheKey");
+
+-- CreateIndex
+CREATE INDEX "summary_cache_videoId_idx" ON "summary_cache"("videoId");
+
+-- CreateIndex
+CREATE INDEX "summary_cache_updatedAt_idx" ON "summary_cache"("updatedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "token_usage" ADD COLUMN     "estimatedInputTokens" INTEGER,
+ADD COLUMN     "estimatedOutputTokens" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'detailed',
+ADD COLUMN     "modeContent" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "preferredLanguage" TEXT;
+
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "transcriptLanguage" TEXT;
+
+-- CreateTable
+CREATE TABLE "summary_translations" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "keyPoints" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "fullSummary" TEXT NOT NULL,
+    "keyTakeaways" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "quotes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "examples" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "detailedNotes" JSONB NOT NULL DEFAULT '[]',
+    "citations" JSONB NOT NULL DEFAULT '{}',
+    "modeContent" JSONB NOT NULL DEFAULT '{}',
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summary_translations_summaryId_language_key" ON "summary_translations"("summaryId", "language");
+
+-- AddForeignKey
+ALTER TABLE "summary_translations" ADD CONSTRAINT "summary_translations_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "summary_chat_threads" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_chat_threads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "summary_chat_messages" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "citations" JSONB NOT NULL DEFAULT '[]',
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "summary_chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "summary_chat_threads_summaryId_idx" ON "summary_chat_threads"("summaryId");
+
+-- CreateIndex
+CREATE INDEX "summary_chat_messages_threadId_createdAt_idx" ON "summary_chat_messages"("threadId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "summary_chat_threads" ADD CONSTRAINT "summary_chat_threads_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "summary_chat_messages" ADD CONSTRAINT "summary_chat_messages_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "summary_chat_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "content_embeddings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_embeddings_contentType_contentId_key" ON "content_embeddings"("contentType", "contentId");
+
+-- CreateIndex
+CREATE INDEX "content_embeddings_userId_model_idx" ON "content_embeddings"("userId", "model");
+
+-- AddForeignKey
+ALTER TABLE "content_embeddings" ADD CONSTRAINT "content_embeddings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- pgvector is optional: without it the column is skipped and search ranks
+-- the stored vectors in process
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS vector;
+    ALTER TABLE "content_embeddings" ADD COLUMN "embedding" vector;
+EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'pgvector is not available, semantic search will rank embeddings in process';
+END $$;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "linkedin_posts" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "website_summaries" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_userId_name_key" ON "tags"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "tags" ADD CONSTRAINT "tags_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed each user's vocabulary with the tags already on their summaries
+INSERT INTO "tags" ("id", "userId", "name", "updatedAt")
+SELECT md5(random()::text || clock_timestamp()::text), "userId", "tag", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "userId", unnest("tags") AS "tag" FROM "summaries") AS "existing"
+ON CONFLICT ("userId", "name") DO NOTHING;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "flashcards" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "front" TEXT NOT NULL,
+    "back" TEXT NOT NULL,
+    "timestamp" TEXT,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "flashcards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_questions" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "options" TEXT[],
+    "answerIndex" INTEGER NOT NULL,
+    "explanation" TEXT,
+    "timestamp" TEXT,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "quiz_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "flashcards_summaryId_position_idx" ON "flashcards"("summaryId", "position");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_summaryId_position_idx" ON "quiz_questions"("summaryId", "position");
+
+-- AddForeignKey
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
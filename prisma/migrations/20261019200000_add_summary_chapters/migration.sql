@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "chapters" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "summary_translations" ADD COLUMN     "chapters" JSONB NOT NULL DEFAULT '[]';
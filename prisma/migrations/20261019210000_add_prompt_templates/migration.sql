@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "promptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "token_usage" ADD COLUMN     "promptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "image_generation_usage" ADD COLUMN     "promptVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "system" TEXT,
+    "template" TEXT NOT NULL,
+    "variables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "trafficWeight" INTEGER NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_trafficWeight_idx" ON "prompt_templates"("trafficWeight");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_name_version_key" ON "prompt_templates"("name", "version");
@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "summary_revisions" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "language" TEXT,
+    "authorId" TEXT,
+    "restoredFrom" INTEGER,
+    "changedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "summary_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summary_revisions_summaryId_revision_key" ON "summary_revisions"("summaryId", "revision");
+
+-- CreateIndex
+CREATE INDEX "summary_revisions_summaryId_language_idx" ON "summary_revisions"("summaryId", "language");
+
+-- AddForeignKey
+ALTER TABLE "summary_revisions" ADD CONSTRAINT "summary_revisions_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing summaries and translations start with a baseline revision
+INSERT INTO "summary_revisions" ("id", "summaryId", "revision", "source", "authorId", "content", "createdAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    s."id",
+    1,
+    'baseline',
+    s."userId",
+    jsonb_build_object(
+        'title', s."title",
+        'keyPoints', to_jsonb(s."keyPoints"),
+        'fullSummary', s."fullSummary",
+        'keyTakeaways', to_jsonb(s."keyTakeaways"),
+        'quotes', to_jsonb(s."quotes"),
+        'examples', to_jsonb(s."examples"),
+        'detailedNotes', s."detailedNotes",
+        'citations', s."citations",
+        'chapters', s."chapters",
+        'modeContent', s."modeContent",
+        'mode', s."mode",
+        'language', s."language",
+        'promptVersion', s."promptVersion"
+    ),
+    s."updatedAt"
+FROM "summaries" s;
+
+INSERT INTO "summary_revisions" ("id", "summaryId", "revision", "source", "language", "authorId", "content", "createdAt")
+SELECT
+    gen_random_uuid()::TEXT,
+    t."summaryId",
+    1 + ROW_NUMBER() OVER (PARTITION BY t."summaryId" ORDER BY t."language"),
+    'baseline',
+    t."language",
+    s."userId",
+    jsonb_build_object(
+        'title', t."title",
+        'keyPoints', to_jsonb(t."keyPoints"),
+        'fullSummary', t."fullSummary",
+        'keyTakeaways', to_jsonb(t."keyTakeaways"),
+        'quotes', to_jsonb(t."quotes"),
+        'examples', to_jsonb(t."examples"),
+        'detailedNotes', t."detailedNotes",
+        'citations', t."citations",
+        'chapters', t."chapters",
+        'modeContent', t."modeContent",
+        'language', t."language"
+    ),
+    t."updatedAt"
+FROM "summary_translations" t
+JOIN "summaries" s ON s."id" = t."summaryId";
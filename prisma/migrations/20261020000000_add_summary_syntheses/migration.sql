@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "summary_syntheses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "overview" TEXT NOT NULL,
+    "themes" JSONB NOT NULL DEFAULT '[]',
+    "disagreements" JSONB NOT NULL DEFAULT '[]',
+    "outline" JSONB NOT NULL DEFAULT '[]',
+    "language" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_syntheses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "summary_synthesis_sources" (
+    "id" TEXT NOT NULL,
+    "synthesisId" TEXT NOT NULL,
+    "summaryId" TEXT,
+    "position" INTEGER NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "videoTitle" TEXT NOT NULL,
+    "channelName" TEXT NOT NULL,
+    "videoUrl" TEXT NOT NULL,
+
+    CONSTRAINT "summary_synthesis_sources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "summary_syntheses_userId_idx" ON "summary_syntheses"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summary_synthesis_sources_synthesisId_position_key" ON "summary_synthesis_sources"("synthesisId", "position");
+
+-- CreateIndex
+CREATE INDEX "summary_synthesis_sources_summaryId_idx" ON "summary_synthesis_sources"("summaryId");
+
+-- AddForeignKey
+ALTER TABLE "summary_syntheses" ADD CONSTRAINT "summary_syntheses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "summary_synthesis_sources" ADD CONSTRAINT "summary_synthesis_sources_synthesisId_fkey" FOREIGN KEY ("synthesisId") REFERENCES "summary_syntheses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "summary_synthesis_sources" ADD CONSTRAINT "summary_synthesis_sources_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
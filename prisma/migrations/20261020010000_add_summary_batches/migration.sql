@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "summary_jobs" ADD COLUMN     "batchId" TEXT,
+ADD COLUMN     "batchPosition" INTEGER;
+
+-- CreateTable
+CREATE TABLE "summary_batches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "summary_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "summary_jobs_batchId_idx" ON "summary_jobs"("batchId");
+
+-- CreateIndex
+CREATE INDEX "summary_batches_userId_idx" ON "summary_batches"("userId");
+
+-- AddForeignKey
+ALTER TABLE "summary_jobs" ADD CONSTRAINT "summary_jobs_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "summary_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "summary_batches" ADD CONSTRAINT "summary_batches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
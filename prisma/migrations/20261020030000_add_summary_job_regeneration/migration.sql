@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "summary_jobs" ADD COLUMN     "summaryId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "summary_jobs_summaryId_idx" ON "summary_jobs"("summaryId");
+
+-- AddForeignKey
+ALTER TABLE "summary_jobs" ADD CONSTRAINT "summary_jobs_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "summaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
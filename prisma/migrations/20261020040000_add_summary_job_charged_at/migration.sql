@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "summary_jobs" ADD COLUMN     "chargedAt" TIMESTAMP(3);
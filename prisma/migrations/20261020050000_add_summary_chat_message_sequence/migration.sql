@@ -0,0 +1,20 @@
+-- DropIndex
+DROP INDEX "summary_chat_messages_threadId_createdAt_idx";
+
+-- AlterTable
+ALTER TABLE "summary_chat_messages" ADD COLUMN     "sequence" SERIAL NOT NULL;
+
+-- Number existing messages by time, each question before its answer
+WITH "ordered" AS (
+  SELECT "id", ROW_NUMBER() OVER (
+    ORDER BY "createdAt", CASE "role" WHEN 'user' THEN 0 ELSE 1 END, "id"
+  ) AS "position"
+  FROM "summary_chat_messages"
+)
+UPDATE "summary_chat_messages" AS "message"
+SET "sequence" = "ordered"."position"
+FROM "ordered"
+WHERE "message"."id" = "ordered"."id";
+
+-- CreateIndex
+CREATE INDEX "summary_chat_messages_threadId_sequence_idx" ON "summary_chat_messages"("threadId", "sequence");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "summary_jobs" DROP COLUMN "chargedAt",
+ADD COLUMN     "videoChargedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "summary_jobs" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'generate';
+
+-- Jobs linked to a summary so far were all regenerations
+UPDATE "summary_jobs" SET "kind" = 'regenerate' WHERE "summaryId" IS NOT NULL;
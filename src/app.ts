@@ -10,6 +10,8 @@ import routes from "./routes";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { authService } from "./services/auth";
 import { summaryService } from "./services/summary";
+import { summaryJobService } from "./services/summaryJob";
+import { summaryCacheService } from "./services/summaryCache";
 
 const app = express();
 
@@ -78,6 +80,7 @@ app.use(
       "X-Requested-With",
       "Accept",
       "Origin",
+      "X-Share-Password",
     ],
     exposedHeaders: ["Content-Range", "X-Content-Range"],
     maxAge: 86400, // 24 hours
@@ -165,6 +168,8 @@ const runCleanupTasks = async () => {
     logger.info("Running cleanup tasks");
     await authService.cleanupExpiredTokens();
     await summaryService.cleanupOldSummaries();
+    await summaryJobService.cleanupOldJobs();
+    await summaryCacheService.cleanupExpired();
     logger.info("Cleanup tasks completed");
   } catch (error) {
     logger.error("Cleanup tasks failed", { error });
@@ -182,6 +187,9 @@ const startServer = async () => {
     await prisma.$connect();
     logger.info("Database connected successfully");
 
+    // Pick up summary jobs interrupted by the previous shutdown
+    await summaryJobService.resumeInterruptedJobs();
+
     const server = app.listen(3000, () => {
       logger.info(`🚀 Knugget API server running on port 3000`);
       logger.info(`📡 Environment: ${config.server.nodeEnv}`);
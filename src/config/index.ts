@@ -26,6 +26,24 @@ const configSchema = z.object({
   OPENAI_MODEL: z.string().default("gpt-4-turbo-preview"),
   OPENAI_MAX_TOKENS: z.string().transform(Number).default("4000"),
 
+  // LLM provider used for summary generation
+  LLM_PROVIDER: z.enum(["openai", "google", "local"]).default("openai"),
+  LLM_MODEL: z.string().optional(), // Defaults to the provider's default model
+  GOOGLE_AI_API_KEY: z.string().optional(),
+  LOCAL_LLM_BASE_URL: z.string().url().default("http://localhost:11434/v1"), // Any OpenAI-compatible endpoint
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  EMBEDDING_MODEL: z.string().optional(), // Defaults to the provider's default embedding model
+
+  // Provider call policy: deadline per attempt, retries with backoff, and a
+  // circuit breaker that fails fast after consecutive provider failures
+  LLM_TIMEOUT_MS: z.string().transform(Number).default("180000"),
+  LLM_MAX_RETRIES: z.string().transform(Number).default("2"),
+  LLM_RETRY_BASE_DELAY_MS: z.string().transform(Number).default("1000"),
+  LLM_RETRY_MAX_DELAY_MS: z.string().transform(Number).default("30000"), // Longer Retry-After waits fail instead
+  LLM_CIRCUIT_FAILURE_THRESHOLD: z.string().transform(Number).default("5"),
+  LLM_CIRCUIT_RESET_MS: z.string().transform(Number).default("30000"),
+  INFOGRAPHIC_TIMEOUT_MS: z.string().transform(Number).default("120000"),
+
   // DODOpayment
   DODO_PAYMENTS_API_KEY: z.string().min(1),
   DODO_BASE_URL: z.string().url().default("https://live.dodopayments.com"),
@@ -72,6 +90,65 @@ const configSchema = z.object({
   PRO_INPUT_TOKENS: z.string().transform(Number).default("9000000"), // 9M input tokens
   PRO_OUTPUT_TOKENS: z.string().transform(Number).default("600000"), // 600K output tokens
 
+  // Asynchronous summary jobs
+  SUMMARY_JOB_CONCURRENCY: z.string().transform(Number).default("2"), // Jobs processed in parallel per instance
+  SUMMARY_JOB_RETENTION_DAYS: z.string().transform(Number).default("7"), // Finished jobs are purged after this
+  SUMMARY_BATCH_CONCURRENCY: z.string().transform(Number).default("1"), // Workers one batch may use, so it cannot starve other jobs
+
+  // Map-reduce summarization of long transcripts
+  SUMMARY_SINGLE_PASS_MAX_TOKENS: z.string().transform(Number).default("30000"), // Longer transcripts are chunked
+  SUMMARY_CHUNK_TOKENS: z.string().transform(Number).default("12000"),
+  SUMMARY_CHUNK_OVERLAP_TOKENS: z.string().transform(Number).default("300"), // Repeated from the previous chunk
+  SUMMARY_CHUNK_CONCURRENCY: z.string().transform(Number).default("4"),
+
+  // Noise, filler and rolling-caption cleanup of transcripts before summarization
+  TRANSCRIPT_CLEANUP_ENABLED: z
+    .string()
+    .transform((val) => val === "true")
+    .default("true"),
+
+  // Times an LLM response that fails validation is sent back for repair
+  LLM_OUTPUT_REPAIR_ATTEMPTS: z.string().transform(Number).default("2"),
+
+  // Shared summary cache
+  SUMMARY_CACHE_ENABLED: z
+    .string()
+    .transform((val) => val === "true")
+    .default("true"),
+  SUMMARY_CACHE_TTL_DAYS: z.string().transform(Number).default("30"), // Entries unused for this long are purged
+  SUMMARY_CACHE_COUNTS_TOWARD_LIMIT: z
+    .string()
+    .transform((val) => val === "true")
+    .default("true"), // Whether cache hits still count against monthly video limits
+
+  // Q&A over saved summaries
+  SUMMARY_CHAT_PASSAGE_TOKENS: z.string().transform(Number).default("250"), // Transcript passages searched per question
+  SUMMARY_CHAT_MAX_PASSAGES: z.string().transform(Number).default("8"), // Passages sent with each question
+  SUMMARY_CHAT_HISTORY_MESSAGES: z.string().transform(Number).default("6"), // Earlier thread messages sent for context
+
+  // Semantic search over saved content
+  SEMANTIC_SEARCH_MAX_INPUT_TOKENS: z
+    .string()
+    .transform(Number)
+    .default("8000"), // Longer content is truncated before embedding
+  SEMANTIC_SEARCH_MIN_SCORE: z.string().transform(Number).default("0.2"), // Cosine similarity below this is not a hit
+  SEMANTIC_SEARCH_REINDEX_CONCURRENCY: z
+    .string()
+    .transform(Number)
+    .default("2"),
+
+  // Flashcards and quizzes generated from summaries
+  STUDY_MATERIAL_TRANSCRIPT_TOKENS: z
+    .string()
+    .transform(Number)
+    .default("6000"), // Longer transcripts are cut before generation
+
+  // Prompt registry
+  PROMPT_REGISTRY_CACHE_SECONDS: z.string().transform(Number).default("60"), // Published prompt changes reach every instance within this
+
+  // Comma-separated emails allowed to use the admin API
+  ADMIN_EMAILS: z.string().default(""),
+
   // Feature Flags (for future re-enablement)
   ENABLE_LINKEDIN: z
     .string()
@@ -109,6 +186,23 @@ export const config = {
     model: parsed.data.OPENAI_MODEL,
     maxTokens: parsed.data.OPENAI_MAX_TOKENS,
   },
+  llm: {
+    provider: parsed.data.LLM_PROVIDER,
+    model: parsed.data.LLM_MODEL,
+    googleApiKey: parsed.data.GOOGLE_AI_API_KEY,
+    localBaseUrl: parsed.data.LOCAL_LLM_BASE_URL,
+    localApiKey: parsed.data.LOCAL_LLM_API_KEY,
+    embeddingModel: parsed.data.EMBEDDING_MODEL,
+  },
+  resilience: {
+    timeoutMs: parsed.data.LLM_TIMEOUT_MS,
+    retries: parsed.data.LLM_MAX_RETRIES,
+    baseDelayMs: parsed.data.LLM_RETRY_BASE_DELAY_MS,
+    maxDelayMs: parsed.data.LLM_RETRY_MAX_DELAY_MS,
+    failureThreshold: parsed.data.LLM_CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: parsed.data.LLM_CIRCUIT_RESET_MS,
+    infographicTimeoutMs: parsed.data.INFOGRAPHIC_TIMEOUT_MS,
+  },
   payment: {
     dodoApiKey: parsed.data.DODO_PAYMENTS_API_KEY,
     dodoBaseUrl: parsed.data.DODO_BASE_URL,
@@ -154,6 +248,49 @@ export const config = {
       output: parsed.data.PRO_OUTPUT_TOKENS,
     },
   },
+  summaryJobs: {
+    concurrency: parsed.data.SUMMARY_JOB_CONCURRENCY,
+    retentionDays: parsed.data.SUMMARY_JOB_RETENTION_DAYS,
+    batchConcurrency: parsed.data.SUMMARY_BATCH_CONCURRENCY,
+  },
+  summaryChunking: {
+    singlePassMaxTokens: parsed.data.SUMMARY_SINGLE_PASS_MAX_TOKENS,
+    chunkTokens: parsed.data.SUMMARY_CHUNK_TOKENS,
+    overlapTokens: parsed.data.SUMMARY_CHUNK_OVERLAP_TOKENS,
+    concurrency: parsed.data.SUMMARY_CHUNK_CONCURRENCY,
+  },
+  transcriptCleanup: {
+    enabled: parsed.data.TRANSCRIPT_CLEANUP_ENABLED,
+  },
+  llmOutput: {
+    repairAttempts: parsed.data.LLM_OUTPUT_REPAIR_ATTEMPTS,
+  },
+  summaryCache: {
+    enabled: parsed.data.SUMMARY_CACHE_ENABLED,
+    ttlDays: parsed.data.SUMMARY_CACHE_TTL_DAYS,
+    countsTowardLimit: parsed.data.SUMMARY_CACHE_COUNTS_TOWARD_LIMIT,
+  },
+  summaryChat: {
+    passageTokens: parsed.data.SUMMARY_CHAT_PASSAGE_TOKENS,
+    maxPassages: parsed.data.SUMMARY_CHAT_MAX_PASSAGES,
+    historyMessages: parsed.data.SUMMARY_CHAT_HISTORY_MESSAGES,
+  },
+  semanticSearch: {
+    maxInputTokens: parsed.data.SEMANTIC_SEARCH_MAX_INPUT_TOKENS,
+    minScore: parsed.data.SEMANTIC_SEARCH_MIN_SCORE,
+    reindexConcurrency: parsed.data.SEMANTIC_SEARCH_REINDEX_CONCURRENCY,
+  },
+  studyMaterial: {
+    transcriptTokens: parsed.data.STUDY_MATERIAL_TRANSCRIPT_TOKENS,
+  },
+  promptRegistry: {
+    cacheSeconds: parsed.data.PROMPT_REGISTRY_CACHE_SECONDS,
+  },
+  admin: {
+    emails: parsed.data.ADMIN_EMAILS.split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  },
   features: {
     linkedin: parsed.data.ENABLE_LINKEDIN,
     website: parsed.data.ENABLE_WEBSITE,
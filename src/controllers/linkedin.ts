@@ -9,6 +9,7 @@ import {
 } from "../types";
 import { catchAsync } from "../middleware/errorHandler";
 import { logger } from "../config/logger";
+import { parseTagList } from "../utils/tags";
 
 export class LinkedinController {
   // Save a LinkedIn post
@@ -59,6 +60,7 @@ export class LinkedinController {
         : 20,
       search: req.query.search ? String(req.query.search) : undefined,
       author: req.query.author ? String(req.query.author) : undefined,
+      tags: parseTagList(req.query.tags),
       startDate: req.query.startDate ? String(req.query.startDate) : undefined,
       endDate: req.query.endDate ? String(req.query.endDate) : undefined,
       sortBy: (req.query.sortBy as any) || "savedAt",
@@ -0,0 +1,106 @@
+import { Response } from "express";
+import { promptRegistryService } from "../services/promptRegistry";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  PublishPromptVersionDto,
+  SetPromptTrafficDto,
+} from "../types";
+import { catchAsync } from "../middleware/errorHandler";
+
+export class PromptController {
+  // List every prompt with its versions and traffic split
+  getPrompts = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await promptRegistryService.listPrompts();
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Get one prompt with its versions and traffic split
+  getPrompt = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { name } = req.params;
+    const result = await promptRegistryService.getPrompt(name);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Publish a new version of a prompt
+  publishVersion = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { name } = req.params;
+      const data: PublishPromptVersionDto = req.body;
+      const result = await promptRegistryService.publishVersion(
+        name,
+        data,
+        req.user.email
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Prompt version published successfully",
+      };
+
+      res.status(201).json(response);
+    }
+  );
+
+  // Split traffic between published versions of a prompt
+  setTraffic = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { name } = req.params;
+    const data: SetPromptTrafficDto = req.body;
+    const result = await promptRegistryService.setTraffic(name, data);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: "Prompt traffic updated successfully",
+    };
+
+    res.json(response);
+  });
+}
+
+export const promptController = new PromptController();
@@ -0,0 +1,94 @@
+import { Response } from "express";
+import { embeddingService } from "../services/embedding";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  SEARCH_CONTENT_TYPES,
+  SearchContentType,
+  SemanticSearchParams,
+} from "../types";
+import { catchAsync } from "../middleware/errorHandler";
+
+export class SearchController {
+  // Search the user's summaries, LinkedIn posts and website articles by meaning
+  semanticSearch = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const q = req.query.q ? String(req.query.q).trim() : "";
+
+      if (!q || q.length > 500) {
+        const response: ApiResponse = {
+          success: false,
+          error: "Query parameter q is required (max 500 characters)",
+        };
+        return res.status(400).json(response);
+      }
+
+      const types = req.query.types
+        ? String(req.query.types).split(",")
+        : undefined;
+
+      if (
+        types?.some(
+          (type) => !SEARCH_CONTENT_TYPES.includes(type as SearchContentType)
+        )
+      ) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid content type. Use one of: ${SEARCH_CONTENT_TYPES.join(", ")}`,
+        };
+        return res.status(400).json(response);
+      }
+
+      const params: SemanticSearchParams = {
+        q,
+        limit: req.query.limit
+          ? Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20))
+          : 20,
+        types: types as SearchContentType[] | undefined,
+      };
+
+      const result = await embeddingService.search(req.user.id, params);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Embed saved content that has no up-to-date embedding
+  reindex = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const result = await embeddingService.reindexUser(req.user.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Search index updated successfully",
+      };
+
+      res.json(response);
+    },
+    120000 // 2 minute timeout for embedding a whole library
+  );
+}
+
+export const searchController = new SearchController();
@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import { shareService } from "../services/share";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  CreateShareLinkDto,
+  ShareContentType,
+} from "../types";
+import { catchAsync } from "../middleware/errorHandler";
+
+export class ShareController {
+  // Share links of summaries
+  createSummaryShare = this.createShare("summary");
+  getSummaryShares = this.getShares("summary");
+  revokeSummaryShare = this.revokeShare("summary");
+
+  // Share links of website summaries
+  createWebsiteShare = this.createShare("website");
+  getWebsiteShares = this.getShares("website");
+  revokeWebsiteShare = this.revokeShare("website");
+
+  // Public view of shared content; no authentication, the token is the key
+  getSharedContent = catchAsync(async (req: Request, res: Response) => {
+    // Passwords travel in a header so they stay out of URLs and access logs
+    const password = req.get("X-Share-Password") || undefined;
+    const result = await shareService.getSharedContent(
+      req.params.token,
+      password
+    );
+
+    res.set("Cache-Control", "no-store");
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  private createShare(contentType: ShareContentType) {
+    return catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { expiresInDays, password }: CreateShareLinkDto = req.body;
+      const result = await shareService.createShare(
+        req.user.id,
+        contentType,
+        req.params.id,
+        { expiresInDays, password }
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Share link created",
+      };
+
+      res.status(201).json(response);
+    });
+  }
+
+  private getShares(contentType: ShareContentType) {
+    return catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const result = await shareService.listShares(
+        req.user.id,
+        contentType,
+        req.params.id
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    });
+  }
+
+  private revokeShare(contentType: ShareContentType) {
+    return catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const result = await shareService.revokeShare(
+        req.user.id,
+        contentType,
+        req.params.id,
+        req.params.shareId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Share link revoked",
+      };
+
+      res.json(response);
+    });
+  }
+}
+
+export const shareController = new ShareController();
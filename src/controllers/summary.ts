@@ -1,17 +1,42 @@
 import { Response } from "express";
 import { summaryService } from "../services/summary";
+import { summaryJobService } from "../services/summaryJob";
+import { summaryChatService } from "../services/summaryChat";
+import { summaryRevisionService } from "../services/summaryRevision";
+import { summarySynthesisService } from "../services/summarySynthesis";
+import { studyMaterialService } from "../services/studyMaterial";
+import { transcriptService } from "../services/transcript";
+import { summaryExportService } from "../services/summaryExport";
 import {
   AuthenticatedRequest,
   ApiResponse,
   GenerateSummaryDto,
   UpdateSummaryDto,
+  RegenerateSummaryDto,
+  CreateSynthesisDto,
+  CreateSummaryBatchDto,
+  TranslateSummaryDto,
+  SummaryChatDto,
+  GenerateStudyMaterialDto,
+  FlashcardDto,
+  QuizQuestionDto,
+  StudyMaterialKind,
+  StudyExportFormat,
+  SummaryExportFormat,
+  ExportFile,
   SummaryQueryParams,
+  SUMMARY_MODES,
+  TranscriptSegment,
 } from "../types";
-import { catchAsync } from "../middleware/errorHandler";
+import { AppError, catchAsync } from "../middleware/errorHandler";
 import { logger } from "../config/logger";
+import { SUMMARY_MODE_DEFINITIONS } from "../utils/summaryModes";
+import { isSupportedLanguage } from "../utils/languages";
+import { parseTagList } from "../utils/tags";
+import { attachmentHeader } from "../utils/fileNames";
 
 export class SummaryController {
-  // Generate AI summary from transcript
+  // Queue AI summary generation from transcript
   generateHandler = async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       const response: ApiResponse = {
@@ -34,6 +59,11 @@ export class SummaryController {
       videoMetadata = req.body.videoMetadata;
     }
 
+    // Caption files are converted into segments up front
+    if (req.body.transcriptFile) {
+      transcript = this.readTranscriptFile(req.body);
+    }
+
     if (!transcript || !videoMetadata) {
       const response: ApiResponse = {
         success: false,
@@ -42,45 +72,165 @@ export class SummaryController {
       return res.status(400).json(response);
     }
 
-    try {
-      const result = await summaryService.generateSummary(req.user.id, {
-        transcript,
-        videoMetadata,
-      });
+    const { mode, language } = req.body;
 
+    if (mode !== undefined && !SUMMARY_MODES.includes(mode)) {
       const response: ApiResponse = {
-        success: true,
-        data: result.data,
-        message: "Summary generated successfully",
+        success: false,
+        error: `Invalid summary mode. Use one of: ${SUMMARY_MODES.join(", ")}`,
       };
+      return res.status(400).json(response);
+    }
 
-      logger.info("Summary generated", {
-        userId: req.user.id,
-        videoId: videoMetadata.videoId,
-        summaryId: result.data?.id,
-      });
+    if (language !== undefined && !isSupportedLanguage(language)) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unsupported language",
+      };
+      return res.status(400).json(response);
+    }
+
+    // Queue generation and return immediately; clients poll the job for progress
+    const result = await summaryJobService.enqueue(req.user.id, {
+      transcript,
+      videoMetadata,
+      mode,
+      language,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: "Summary generation queued",
+    };
+
+    logger.info("Summary generation queued", {
+      userId: req.user.id,
+      videoId: videoMetadata.videoId,
+      jobId: result.data?.id,
+    });
+
+    res.status(202).json(response);
+  };
+
+  // Generate AI summary while streaming progress and sections as Server-Sent Events
+  generateStreamHandler = async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { videoMetadata, mode, language }: GenerateSummaryDto = req.body;
+    const transcript = req.body.transcriptFile
+      ? this.readTranscriptFile(req.body)
+      : req.body.transcript;
+
+    if (!transcript || !videoMetadata) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Missing transcript or video metadata",
+      };
+      return res.status(400).json(response);
+    }
+
+    if (mode !== undefined && !SUMMARY_MODES.includes(mode)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Invalid summary mode. Use one of: ${SUMMARY_MODES.join(", ")}`,
+      };
+      return res.status(400).json(response);
+    }
+
+    if (language !== undefined && !isSupportedLanguage(language)) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unsupported language",
+      };
+      return res.status(400).json(response);
+    }
 
-      if (!res.headersSent) {
-        res.json(response);
+    const userId = req.user.id;
+
+    // Limit errors are returned as regular JSON before the stream opens
+    await summaryService.checkGenerationAllowance(
+      userId,
+      { transcript, videoMetadata, mode, language },
+      await summaryJobService.countActiveJobs(userId)
+    );
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
       }
-    } catch (error) {
-      logger.error("Summary generation failed", {
-        error: error instanceof Error ? error.message : "Unknown error",
-        userId: req.user.id,
-        videoId: videoMetadata?.videoId,
+    };
+
+    // Closing the connection cancels generation; produced output is still charged
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    // Keep intermediaries from timing out the idle connection
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded) {
+        res.write(": heartbeat\n\n");
+      }
+    }, 15000);
+
+    try {
+      const result = await summaryService.generateSummary(
+        userId,
+        { transcript, videoMetadata, mode, language },
+        {
+          signal: abortController.signal,
+          onProgress: (event) => sendEvent(event.type, event),
+          onSection: (event) => sendEvent("section", event),
+        }
+      );
+
+      sendEvent("done", result.data);
+
+      logger.info("Summary streamed", {
+        userId,
+        videoId: videoMetadata.videoId,
       });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        logger.info("Summary stream cancelled by client", {
+          userId,
+          videoId: videoMetadata.videoId,
+        });
+      } else {
+        logger.error("Summary stream failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          userId,
+          videoId: videoMetadata.videoId,
+        });
 
-      if (!res.headersSent) {
-        const response: ApiResponse = {
-          success: false,
+        sendEvent("error", {
           error:
             error instanceof Error
               ? error.message
               : "Failed to generate summary",
-        };
-
-        res.status(500).json(response);
+          statusCode: error instanceof AppError ? error.statusCode : 500,
+          code: error instanceof AppError ? error.code : undefined,
+        });
       }
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
     }
   };
 
@@ -204,6 +354,7 @@ export class SummaryController {
         search: req.query.search ? String(req.query.search) : undefined,
         status: (req.query.status as any) || undefined,
         videoId: req.query.videoId ? String(req.query.videoId) : undefined,
+        tags: parseTagList(req.query.tags),
         startDate: req.query.startDate
           ? String(req.query.startDate)
           : undefined,
@@ -226,6 +377,171 @@ export class SummaryController {
     }
   );
 
+  // Get summary generation job status and result
+  getJob = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await summaryJobService.getJob(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Queue summary generation for many videos at once, e.g. a playlist
+  generateBatch = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { name, items, mode, language }: CreateSummaryBatchDto = req.body;
+
+      // Caption files are converted up front so a bad file fails the batch
+      const batchItems = items.map((item, i) => {
+        if (!item.transcriptFile) {
+          return item;
+        }
+        try {
+          return { ...item, transcript: this.readTranscriptFile(item) };
+        } catch (error) {
+          if (error instanceof AppError) {
+            throw new AppError(
+              `Item ${i + 1} (${item.videoMetadata.videoId}): ${error.message}`,
+              error.statusCode
+            );
+          }
+          throw error;
+        }
+      });
+
+      const result = await summaryJobService.enqueueBatch(req.user.id, {
+        name,
+        items: batchItems,
+        mode,
+        language,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Batch summarization queued",
+      };
+
+      res.status(202).json(response);
+    }
+  );
+
+  // List the user's summary batches with their progress
+  getBatches = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await summaryJobService.listBatches(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Get a summary batch with the status of each item
+  getBatch = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { batchId } = req.params;
+
+    const result = await summaryJobService.getBatch(req.user.id, batchId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Download a summary (?format=markdown|pdf|docx|obsidian)
+  exportSummary = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const format = (req.query.format as SummaryExportFormat) || "markdown";
+
+      const result = await summaryExportService.exportSummary(
+        req.user.id,
+        id,
+        format
+      );
+
+      this.sendFile(res, result.data!);
+    }
+  );
+
+  // Download the library or part of it (?format=, tags=a,b, ids=x,y)
+  exportLibrary = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const ids =
+        typeof req.query.ids === "string"
+          ? req.query.ids
+              .split(",")
+              .map((id) => id.trim())
+              .filter(Boolean)
+          : undefined;
+
+      const result = await summaryExportService.exportLibrary(req.user.id, {
+        format: (req.query.format as SummaryExportFormat) || "markdown",
+        tags: parseTagList(req.query.tags),
+        ids: ids?.length ? ids : undefined,
+      });
+
+      this.sendFile(res, result.data!);
+    }
+  );
+
   // Get single summary by ID
   getSummaryById = catchAsync(
     async (req: AuthenticatedRequest, res: Response) => {
@@ -286,8 +602,8 @@ export class SummaryController {
     }
   );
 
-  // Delete summary
-  deleteSummary = catchAsync(
+  // Queue regeneration of a summary in another mode from its stored transcript
+  regenerateSummary = catchAsync(
     async (req: AuthenticatedRequest, res: Response) => {
       if (!req.user) {
         const response: ApiResponse = {
@@ -298,25 +614,95 @@ export class SummaryController {
       }
 
       const { id } = req.params;
+      const { mode }: RegenerateSummaryDto = req.body;
 
-      await summaryService.deleteSummary(req.user.id, id);
+      // Queue regeneration and return immediately; clients poll the job
+      const result = await summaryJobService.enqueueRegeneration(
+        req.user.id,
+        id,
+        mode
+      );
 
       const response: ApiResponse = {
         success: true,
-        message: "Summary deleted successfully",
+        data: result.data,
+        message: "Summary regeneration queued",
       };
 
-      logger.info("Summary deleted", {
+      logger.info("Summary regeneration queued", {
+        userId: req.user.id,
+        summaryId: id,
+        mode,
+        jobId: result.data?.id,
+      });
+
+      res.status(202).json(response);
+    }
+  );
+
+  // Translate summary and store the variant alongside the original
+  translateSummary = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const { language }: TranslateSummaryDto = req.body;
+
+      const result = await summaryService.translateSummary(
+        req.user.id,
+        id,
+        language
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Summary translated successfully",
+      };
+
+      logger.info("Summary translated", {
         userId: req.user.id,
         summaryId: id,
+        language,
       });
 
+      res.json(response);
+    },
+    120000 // 2 minute timeout for AI processing
+  );
+
+  // Get stored translations of a summary
+  getTranslations = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+
+      const result = await summaryService.getTranslations(req.user.id, id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
       res.json(response);
     }
   );
 
-  // Get summary by video ID
-  getSummaryByVideoId = catchAsync(
+  // Get the revision history of a summary (?language= for one translation, "original" for the summary)
+  getRevisions = catchAsync(
     async (req: AuthenticatedRequest, res: Response) => {
       if (!req.user) {
         const response: ApiResponse = {
@@ -326,11 +712,13 @@ export class SummaryController {
         return res.status(401).json(response);
       }
 
-      const { videoId } = req.params;
+      const { id } = req.params;
+      const language = req.query.language as string | undefined;
 
-      const result = await summaryService.getSummaryByVideoId(
+      const result = await summaryRevisionService.listRevisions(
         req.user.id,
-        videoId
+        id,
+        language
       );
 
       const response: ApiResponse = {
@@ -342,8 +730,8 @@ export class SummaryController {
     }
   );
 
-  // Get summary statistics
-  getStats = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  // Get one revision of a summary with its content
+  getRevision = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       const response: ApiResponse = {
         success: false,
@@ -352,7 +740,13 @@ export class SummaryController {
       return res.status(401).json(response);
     }
 
-    const result = await summaryService.getSummaryStats(req.user.id);
+    const { id, revision } = req.params;
+
+    const result = await summaryRevisionService.getRevision(
+      req.user.id,
+      id,
+      Number(revision)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -361,6 +755,712 @@ export class SummaryController {
 
     res.json(response);
   });
+
+  // Compare two revisions of a summary field by field
+  diffRevisions = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const from = Number(req.query.from);
+      const to = Number(req.query.to);
+
+      const result = await summaryRevisionService.diffRevisions(
+        req.user.id,
+        id,
+        from,
+        to
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Restore a summary or translation to an earlier revision
+  restoreRevision = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, revision } = req.params;
+
+      const result = await summaryService.restoreRevision(
+        req.user.id,
+        id,
+        Number(revision)
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // List available summary modes
+  getModes = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const response: ApiResponse = {
+      success: true,
+      data: SUMMARY_MODES.map((mode) => ({
+        mode,
+        label: SUMMARY_MODE_DEFINITIONS[mode].label,
+        description: SUMMARY_MODE_DEFINITIONS[mode].description,
+      })),
+    };
+
+    res.json(response);
+  });
+
+  // Delete summary
+  deleteSummary = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+
+      await summaryService.deleteSummary(req.user.id, id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Summary deleted successfully",
+      };
+
+      logger.info("Summary deleted", {
+        userId: req.user.id,
+        summaryId: id,
+      });
+
+      res.json(response);
+    }
+  );
+
+  // Combine several saved summaries into one synthesis
+  synthesize = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { summaryIds, title, language }: CreateSynthesisDto = req.body;
+
+      const result = await summarySynthesisService.createSynthesis(
+        req.user.id,
+        {
+          summaryIds,
+          title,
+          language,
+        }
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Synthesis created successfully",
+      };
+
+      res.status(201).json(response);
+    },
+    120000 // 2 minute timeout for AI processing
+  );
+
+  // List the user's syntheses (?summaryId= for those built from one summary)
+  getSyntheses = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const summaryId = req.query.summaryId as string | undefined;
+
+      const result = await summarySynthesisService.listSyntheses(
+        req.user.id,
+        summaryId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Get a synthesis with its content and sources
+  getSynthesis = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { synthesisId } = req.params;
+
+      const result = await summarySynthesisService.getSynthesis(
+        req.user.id,
+        synthesisId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Delete a synthesis
+  deleteSynthesis = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { synthesisId } = req.params;
+
+      await summarySynthesisService.deleteSynthesis(req.user.id, synthesisId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Synthesis deleted successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Answer a follow-up question about a summary from its transcript
+  askQuestion = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const data: SummaryChatDto = req.body;
+
+      const result = await summaryChatService.ask(req.user.id, id, data);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    },
+    120000 // 2 minute timeout for AI processing
+  );
+
+  // Get chat threads of a summary
+  getChatThreads = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+
+      const result = await summaryChatService.getThreads(req.user.id, id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Get a chat thread with its messages
+  getChatThread = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, threadId } = req.params;
+
+      const result = await summaryChatService.getThread(
+        req.user.id,
+        id,
+        threadId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Delete a chat thread
+  deleteChatThread = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, threadId } = req.params;
+
+      await summaryChatService.deleteThread(req.user.id, id, threadId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Chat thread deleted successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Generate flashcards from a summary, replacing its current cards
+  generateFlashcards = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const { count }: GenerateStudyMaterialDto = req.body ?? {};
+
+      const result = await studyMaterialService.generateFlashcards(
+        req.user.id,
+        id,
+        count
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Flashcards generated successfully",
+      };
+
+      res.json(response);
+    },
+    120000 // 2 minute timeout for AI processing
+  );
+
+  // Get the flashcards of a summary
+  getFlashcards = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+
+      const result = await studyMaterialService.getFlashcards(req.user.id, id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Add a flashcard to a summary
+  addFlashcard = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const data: FlashcardDto = req.body;
+
+      const result = await studyMaterialService.addFlashcard(
+        req.user.id,
+        id,
+        data
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Flashcard added successfully",
+      };
+
+      res.status(201).json(response);
+    }
+  );
+
+  // Edit a flashcard
+  updateFlashcard = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, cardId } = req.params;
+      const data: Partial<FlashcardDto> = req.body;
+
+      const result = await studyMaterialService.updateFlashcard(
+        req.user.id,
+        id,
+        cardId,
+        data
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Flashcard updated successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Delete a flashcard
+  deleteFlashcard = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, cardId } = req.params;
+
+      await studyMaterialService.deleteFlashcard(req.user.id, id, cardId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Flashcard deleted successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Generate a multiple-choice quiz from a summary, replacing its current questions
+  generateQuiz = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const { count }: GenerateStudyMaterialDto = req.body ?? {};
+
+      const result = await studyMaterialService.generateQuiz(
+        req.user.id,
+        id,
+        count
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Quiz generated successfully",
+      };
+
+      res.json(response);
+    },
+    120000 // 2 minute timeout for AI processing
+  );
+
+  // Get the quiz questions of a summary
+  getQuiz = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await studyMaterialService.getQuiz(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Add a question to a summary's quiz
+  addQuizQuestion = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id } = req.params;
+      const data: QuizQuestionDto = req.body;
+
+      const result = await studyMaterialService.addQuizQuestion(
+        req.user.id,
+        id,
+        data
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Quiz question added successfully",
+      };
+
+      res.status(201).json(response);
+    }
+  );
+
+  // Edit a quiz question
+  updateQuizQuestion = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, questionId } = req.params;
+      const data: Partial<QuizQuestionDto> = req.body;
+
+      const result = await studyMaterialService.updateQuizQuestion(
+        req.user.id,
+        id,
+        questionId,
+        data
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+        message: "Quiz question updated successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Delete a quiz question
+  deleteQuizQuestion = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { id, questionId } = req.params;
+
+      await studyMaterialService.deleteQuizQuestion(
+        req.user.id,
+        id,
+        questionId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Quiz question deleted successfully",
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Download flashcards as an Anki package or CSV
+  exportFlashcards = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      await this.sendStudyExport(req.user.id, req, res, "flashcards");
+    }
+  );
+
+  // Download a quiz as an Anki package or CSV
+  exportQuiz = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    await this.sendStudyExport(req.user.id, req, res, "quiz");
+  });
+
+  // Get summary by video ID
+  getSummaryByVideoId = catchAsync(
+    async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User not authenticated",
+        };
+        return res.status(401).json(response);
+      }
+
+      const { videoId } = req.params;
+
+      const result = await summaryService.getSummaryByVideoId(
+        req.user.id,
+        videoId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result.data,
+      };
+
+      res.json(response);
+    }
+  );
+
+  // Get summary statistics
+  getStats = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await summaryService.getSummaryStats(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Segments from an uploaded caption file, sent instead of the extension's segments
+  private readTranscriptFile(
+    body: Pick<GenerateSummaryDto, "transcript" | "transcriptFile">
+  ): TranscriptSegment[] {
+    if (body.transcript) {
+      throw new AppError(
+        "Send either transcript segments or a transcript file, not both",
+        400
+      );
+    }
+
+    return transcriptService.parse(body.transcriptFile!).data!.segments;
+  }
+
+  private async sendStudyExport(
+    userId: string,
+    req: AuthenticatedRequest,
+    res: Response,
+    kind: StudyMaterialKind
+  ) {
+    const { id } = req.params;
+    const format = (req.query.format as StudyExportFormat) || "apkg";
+
+    const result = await studyMaterialService.export(userId, id, kind, format);
+
+    this.sendFile(res, result.data!);
+  }
+
+  private sendFile(res: Response, file: ExportFile) {
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", attachmentHeader(file.filename));
+    res.send(file.body);
+  }
 }
 
 export const summaryController = new SummaryController();
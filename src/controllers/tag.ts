@@ -0,0 +1,151 @@
+import { Response } from "express";
+import { tagService } from "../services/tag";
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  MergeTagsDto,
+  SetItemTagsDto,
+  TagNameDto,
+  TaggableContentType,
+} from "../types";
+import { catchAsync } from "../middleware/errorHandler";
+
+export class TagController {
+  // List the user's tags with usage counts
+  getTags = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await tagService.getVocabulary(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Add a tag to the user's vocabulary
+  createTag = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { name }: TagNameDto = req.body;
+    const result = await tagService.createTag(req.user.id, name);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: "Tag created successfully",
+    };
+
+    res.status(201).json(response);
+  });
+
+  // Rename a tag on every item using it
+  renameTag = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { name }: TagNameDto = req.body;
+    const result = await tagService.renameTag(req.user.id, id, name);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: "Tag renamed successfully",
+    };
+
+    res.json(response);
+  });
+
+  // Merge tags into one
+  mergeTags = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { sourceIds, targetId }: MergeTagsDto = req.body;
+    const result = await tagService.mergeTags(req.user.id, sourceIds, targetId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: "Tags merged successfully",
+    };
+
+    res.json(response);
+  });
+
+  // Delete a tag and remove it from every item
+  deleteTag = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    await tagService.deleteTag(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Tag deleted successfully",
+    };
+
+    res.json(response);
+  });
+
+  // Replace the tags of a summary, LinkedIn post or website article
+  setItemTags = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { type, id } = req.params;
+    const { tags }: SetItemTagsDto = req.body;
+    const result = await tagService.setItemTags(
+      req.user.id,
+      type as TaggableContentType,
+      id,
+      tags
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: { type, id, tags: result.data },
+      message: "Tags updated successfully",
+    };
+
+    res.json(response);
+  });
+}
+
+export const tagController = new TagController();
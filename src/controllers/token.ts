@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { tokenService } from "../services/token";
+import { tokenUsageService } from "../services/tokenUsage";
 import { logger } from "../config/logger";
 import { AuthenticatedRequest, ApiResponse } from "../types";
 
@@ -46,6 +47,36 @@ class TokenController {
     }
   }
 
+  /**
+   * Get how closely token estimates matched actual usage for authenticated user
+   */
+  async getEstimationAccuracy(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user = req.user!;
+
+      const accuracy = await tokenUsageService.getEstimationAccuracy(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: accuracy,
+        message: "Token estimation accuracy retrieved successfully",
+      } as ApiResponse);
+    } catch (error) {
+      logger.error("Error getting token estimation accuracy", {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        success: false,
+        error: "Failed to get token estimation accuracy",
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Initialize premium tokens (admin endpoint)
    */
@@ -0,0 +1,29 @@
+import { Response } from "express";
+import { transcriptService } from "../services/transcript";
+import { AuthenticatedRequest, ApiResponse, TranscriptFileDto } from "../types";
+import { catchAsync } from "../middleware/errorHandler";
+
+export class TranscriptController {
+  // Convert a caption or transcript file into transcript segments
+  parse = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User not authenticated",
+      };
+      return res.status(401).json(response);
+    }
+
+    const { content, format }: TranscriptFileDto = req.body;
+    const result = transcriptService.parse({ content, format });
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+}
+
+export const transcriptController = new TranscriptController();
@@ -8,6 +8,7 @@ import {
 } from "../types";
 import { catchAsync } from "../middleware/errorHandler";
 import { logger } from "../config/logger";
+import { parseTagList } from "../utils/tags";
 
 export class WebsiteSummaryController {
   // Create or get existing website summary
@@ -93,6 +94,7 @@ export class WebsiteSummaryController {
             )
           : 20,
         search: req.query.search ? String(req.query.search) : undefined,
+        tags: parseTagList(req.query.tags),
         startDate: req.query.startDate
           ? String(req.query.startDate)
           : undefined,
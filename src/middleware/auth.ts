@@ -3,6 +3,7 @@ import { firebaseAuth } from "../config/firebase";
 import { authService } from "../services/auth";
 import { AuthenticatedRequest, ApiResponse } from "../types";
 import { logger } from "../config/logger";
+import { config } from "../config";
 
 export const authenticate = async (
   req: AuthenticatedRequest,
@@ -116,6 +117,33 @@ export const requirePlan =
     }
   };
 
+// Restrict a route to the emails listed in ADMIN_EMAILS
+export const requireAdmin = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    const response: ApiResponse = {
+      success: false,
+      error: "Authentication required",
+    };
+    res.status(401).json(response);
+    return;
+  }
+
+  if (!config.admin.emails.includes(req.user.email.toLowerCase())) {
+    const response: ApiResponse = {
+      success: false,
+      error: "Admin access required",
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  next();
+};
+
 // DEPRECATED: Credits system removed - video limits checked in service layer
 // This middleware now only checks authentication
 export const requireCredits =
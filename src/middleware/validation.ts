@@ -1,6 +1,36 @@
 import { z } from "zod";
 import { Request, Response, NextFunction } from "express";
-import { ApiResponse, ValidationError } from "../types";
+import {
+  ApiResponse,
+  MAX_STUDY_ITEMS,
+  MAX_SUMMARY_BATCH_ITEMS,
+  MAX_SYNTHESIS_SOURCES,
+  MIN_SYNTHESIS_SOURCES,
+  PROMPT_NAMES,
+  SEARCH_CONTENT_TYPES,
+  STUDY_EXPORT_FORMATS,
+  SUMMARY_EXPORT_FORMATS,
+  SUMMARY_MODES,
+  TRANSCRIPT_FORMATS,
+  ValidationError,
+} from "../types";
+import { isSupportedLanguage } from "../utils/languages";
+import { MAX_TAG_LENGTH } from "../utils/tags";
+import {
+  MAX_CHAPTERS,
+  MAX_CHAPTER_SUMMARY_LENGTH,
+  MAX_CHAPTER_TITLE_LENGTH,
+} from "../utils/chapters";
+import {
+  MAX_EXPLANATION_LENGTH,
+  MAX_FLASHCARD_BACK_LENGTH,
+  MAX_FLASHCARD_FRONT_LENGTH,
+  MAX_OPTION_LENGTH,
+  MAX_QUESTION_LENGTH,
+  MAX_QUIZ_OPTIONS,
+  MIN_QUIZ_OPTIONS,
+} from "../utils/studyMaterial";
+import { MAX_TRANSCRIPT_FILE_LENGTH } from "../utils/transcriptFormats";
 
 // Auth validation schemas
 export const registerSchema = z.object({
@@ -53,6 +83,11 @@ export const verifyEmailSchema = z.object({
   }),
 });
 
+// ISO 639-1 code of a supported summary language
+const languageSchema = z
+  .string()
+  .refine(isSupportedLanguage, "Unsupported language");
+
 // User validation schemas
 export const updateProfileSchema = z.object({
   body: z.object({
@@ -62,6 +97,7 @@ export const updateProfileSchema = z.object({
       .max(100, "Name too long")
       .optional(),
     avatar: z.string().url("Invalid avatar URL").optional(),
+    preferredLanguage: languageSchema.nullable().optional(),
   }),
 });
 
@@ -73,6 +109,15 @@ const transcriptSegmentSchema = z.object({
   endSeconds: z.number().optional(),
 });
 
+const transcriptFileSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, "Transcript file content is required")
+    .max(MAX_TRANSCRIPT_FILE_LENGTH, "Transcript file too large"),
+  format: z.enum(TRANSCRIPT_FORMATS).optional(),
+});
+
 const videoMetadataSchema = z.object({
   videoId: z.string().min(1, "Video ID is required"),
   title: z.string().min(1, "Video title is required"),
@@ -86,12 +131,132 @@ const videoMetadataSchema = z.object({
   likeCount: z.number().optional(),
 });
 
+const summaryNoteSchema = z.object({
+  title: z
+    .string()
+    .min(1, "Note title is required")
+    .max(200, "Note title too long"),
+  content: z.string().min(1, "Note content is required"),
+});
+
+const summaryCitationSchema = z.object({
+  timestamp: z.string().min(1, "Citation timestamp is required"),
+  startSeconds: z.number().min(0),
+  endSeconds: z.number().min(0).optional(),
+});
+
+const sectionCitationsSchema = z.array(z.array(summaryCitationSchema));
+
+const summaryChapterSchema = z.object({
+  title: z
+    .string()
+    .min(1, "Chapter title is required")
+    .max(MAX_CHAPTER_TITLE_LENGTH, "Chapter title too long"),
+  summary: z
+    .string()
+    .max(MAX_CHAPTER_SUMMARY_LENGTH, "Chapter summary too long"),
+  timestamp: z.string().min(1, "Chapter timestamp is required"),
+  startSeconds: z.number().min(0),
+  endSeconds: z.number().min(0),
+});
+
+const summarySectionsSchema = z.object({
+  keyTakeaways: z.array(z.string().min(1)).max(20, "Too many key takeaways"),
+  quotes: z.array(z.string().min(1)).max(20, "Too many quotes"),
+  examples: z.array(z.string().min(1)).max(20, "Too many examples"),
+  detailedNotes: z.array(summaryNoteSchema).max(50, "Too many detailed notes"),
+  // One citation list per item, aligned with each section
+  citations: z
+    .object({
+      keyTakeaways: sectionCitationsSchema,
+      quotes: sectionCitationsSchema,
+      examples: sectionCitationsSchema,
+      detailedNotes: sectionCitationsSchema,
+    })
+    .partial()
+    .optional(),
+});
+
+const summaryModeSchema = z.enum(SUMMARY_MODES);
+
+const summaryModeContentSchema = z.object({
+  overview: z.string().max(2000, "Overview too long").optional(),
+  reviewQuestions: z.array(z.string().min(1)).max(20).optional(),
+  recommendations: z.array(z.string().min(1)).max(20).optional(),
+  risks: z.array(z.string().min(1)).max(20).optional(),
+});
+
 export const generateSummarySchema = z.object({
+  body: z
+    .object({
+      transcript: z
+        .array(transcriptSegmentSchema)
+        .min(1, "Transcript segments are required")
+        .optional(),
+      transcriptFile: transcriptFileSchema.optional(),
+      videoMetadata: videoMetadataSchema,
+      mode: summaryModeSchema.optional(),
+      language: languageSchema.optional(),
+    })
+    .refine((body) => !!body.transcript !== !!body.transcriptFile, {
+      message: "Send either transcript segments or a transcript file",
+      path: ["transcript"],
+    }),
+});
+
+export const createSummaryBatchSchema = z.object({
+  body: z.object({
+    name: z.string().trim().max(200, "Batch name too long").optional(),
+    items: z
+      .array(
+        z
+          .object({
+            transcript: z
+              .array(transcriptSegmentSchema)
+              .min(1, "Transcript segments are required")
+              .optional(),
+            transcriptFile: transcriptFileSchema.optional(),
+            videoMetadata: videoMetadataSchema,
+          })
+          .refine((item) => !!item.transcript !== !!item.transcriptFile, {
+            message: "Send either transcript segments or a transcript file",
+            path: ["transcript"],
+          })
+      )
+      .min(1, "At least one video is required")
+      .max(
+        MAX_SUMMARY_BATCH_ITEMS,
+        `At most ${MAX_SUMMARY_BATCH_ITEMS} videos can be queued at once`
+      ),
+    mode: summaryModeSchema.optional(),
+    language: languageSchema.optional(),
+  }),
+});
+
+export const parseTranscriptSchema = z.object({
+  body: transcriptFileSchema,
+});
+
+export const regenerateSummarySchema = z.object({
   body: z.object({
-    transcript: z
-      .array(transcriptSegmentSchema)
-      .min(1, "Transcript segments are required"),
-    videoMetadata: videoMetadataSchema,
+    mode: summaryModeSchema,
+  }),
+});
+
+export const translateSummarySchema = z.object({
+  body: z.object({
+    language: languageSchema,
+  }),
+});
+
+export const summaryChatSchema = z.object({
+  body: z.object({
+    question: z
+      .string()
+      .trim()
+      .min(1, "Question is required")
+      .max(2000, "Question too long"),
+    threadId: z.string().min(1).optional(),
   }),
 });
 
@@ -104,7 +269,17 @@ export const saveSummarySchema = z.object({
         .string()
         .min(1, "Full summary is required")
         .max(5000, "Summary too long"),
+      sections: summarySectionsSchema.optional(),
+      mode: summaryModeSchema.optional(),
+      modeContent: summaryModeContentSchema.optional(),
+      chapters: z
+        .array(summaryChapterSchema)
+        .max(MAX_CHAPTERS, "Too many chapters")
+        .optional(),
+      language: languageSchema.nullable().optional(),
+      transcriptLanguage: z.string().nullable().optional(),
       tags: z.array(z.string()).max(10, "Too many tags"),
+      promptVersion: z.string().max(200).nullable().optional(),
       // Flattened video metadata fields (for new format)
       videoId: z.string().min(1, "Video ID is required").optional(),
       videoTitle: z.string().min(1, "Video title is required").optional(),
@@ -141,6 +316,126 @@ export const saveSummarySchema = z.object({
     ),
 });
 
+// Flashcard and quiz schemas
+const studyTimestampSchema = z
+  .string()
+  .regex(/^\d{1,2}(:\d{2}){1,2}$/, "Timestamp must look like 02:15")
+  .nullable()
+  .optional();
+
+export const generateStudyMaterialSchema = z.object({
+  body: z
+    .object({
+      count: z.number().int().min(1).max(MAX_STUDY_ITEMS).optional(),
+    })
+    .optional(),
+});
+
+const flashcardBodySchema = z.object({
+  front: z
+    .string()
+    .trim()
+    .min(1, "Front cannot be empty")
+    .max(MAX_FLASHCARD_FRONT_LENGTH, "Front too long"),
+  back: z
+    .string()
+    .trim()
+    .min(1, "Back cannot be empty")
+    .max(MAX_FLASHCARD_BACK_LENGTH, "Back too long"),
+  timestamp: studyTimestampSchema,
+});
+
+export const flashcardSchema = z.object({
+  body: flashcardBodySchema,
+});
+
+export const updateFlashcardSchema = z.object({
+  body: flashcardBodySchema
+    .partial()
+    .refine((body) => Object.keys(body).length > 0, "Nothing to update"),
+});
+
+const quizQuestionBodySchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(1, "Question cannot be empty")
+    .max(MAX_QUESTION_LENGTH, "Question too long"),
+  options: z
+    .array(z.string().trim().min(1).max(MAX_OPTION_LENGTH, "Option too long"))
+    .min(MIN_QUIZ_OPTIONS, "Too few options")
+    .max(MAX_QUIZ_OPTIONS, "Too many options"),
+  answerIndex: z.number().int().min(0),
+  explanation: z
+    .string()
+    .max(MAX_EXPLANATION_LENGTH, "Explanation too long")
+    .nullable()
+    .optional(),
+  timestamp: studyTimestampSchema,
+});
+
+export const quizQuestionSchema = z.object({
+  body: quizQuestionBodySchema.refine(
+    (body) => body.answerIndex < body.options.length,
+    {
+      message: "answerIndex must point to one of the options",
+      path: ["answerIndex"],
+    }
+  ),
+});
+
+// The answer is checked against the stored options by the service
+export const updateQuizQuestionSchema = z.object({
+  body: quizQuestionBodySchema
+    .partial()
+    .refine((body) => Object.keys(body).length > 0, "Nothing to update"),
+});
+
+export const studyExportSchema = z.object({
+  query: z.object({
+    format: z.enum(STUDY_EXPORT_FORMATS).optional(), // Defaults to apkg
+  }),
+});
+
+export const summaryExportSchema = z.object({
+  query: z.object({
+    format: z.enum(SUMMARY_EXPORT_FORMATS).optional(), // Defaults to markdown
+  }),
+});
+
+export const libraryExportSchema = z.object({
+  query: z.object({
+    format: z.enum(SUMMARY_EXPORT_FORMATS).optional(), // Defaults to markdown
+    tags: z.string().optional(), // Comma-separated, summaries must have all
+    ids: z.string().optional(), // Comma-separated summary IDs
+  }),
+});
+
+export const createShareLinkSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    expiresInDays: z
+      .number()
+      .int("Expiry must be a whole number of days")
+      .min(1, "Expiry must be at least 1 day")
+      .max(365, "Expiry cannot be more than 365 days")
+      .optional(),
+    password: z
+      .string()
+      .min(4, "Password must be at least 4 characters")
+      .max(128, "Password too long")
+      .optional(),
+  }),
+});
+
+export const publicShareSchema = z.object({
+  params: z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, "Invalid share link"),
+  }),
+});
+
 export const updateSummarySchema = z.object({
   body: z.object({
     title: z
@@ -154,10 +449,65 @@ export const updateSummarySchema = z.object({
       .min(1, "Summary cannot be empty")
       .max(5000, "Summary too long")
       .optional(),
+    // Only the sections present are replaced
+    sections: summarySectionsSchema.partial().optional(),
+    modeContent: summaryModeContentSchema.optional(), // Fields the mode does not use are dropped
     tags: z.array(z.string()).max(10, "Too many tags").optional(),
   }),
 });
 
+// Revision numbers arrive as path or query strings
+const revisionNumberSchema = z
+  .string()
+  .regex(/^[1-9]\d*$/, "Revision must be a positive whole number");
+
+export const summaryRevisionSchema = z.object({
+  params: z.object({
+    revision: revisionNumberSchema,
+  }),
+});
+
+export const summaryRevisionsQuerySchema = z.object({
+  query: z.object({
+    // "original" lists only revisions of the summary itself
+    language: z
+      .string()
+      .refine(
+        (value) => value === "original" || isSupportedLanguage(value),
+        "Unsupported language"
+      )
+      .optional(),
+  }),
+});
+
+export const summaryRevisionDiffSchema = z.object({
+  query: z.object({
+    from: revisionNumberSchema,
+    to: revisionNumberSchema,
+  }),
+});
+
+export const createSynthesisSchema = z.object({
+  body: z.object({
+    summaryIds: z
+      .array(z.string().min(1, "Summary ID is required"))
+      .min(
+        MIN_SYNTHESIS_SOURCES,
+        `At least ${MIN_SYNTHESIS_SOURCES} summaries are required`
+      )
+      .max(
+        MAX_SYNTHESIS_SOURCES,
+        `At most ${MAX_SYNTHESIS_SOURCES} summaries can be combined`
+      ),
+    title: z
+      .string()
+      .min(1, "Title cannot be empty")
+      .max(200, "Title too long")
+      .optional(),
+    language: languageSchema.optional(),
+  }),
+});
+
 // Query parameter validation schemas
 export const paginationSchema = z.object({
   query: z.object({
@@ -191,6 +541,7 @@ export const summaryQuerySchema = z.object({
     search: z.string().max(100).optional(),
     status: z.enum(["PENDING", "PROCESSING", "COMPLETED", "FAILED"]).optional(),
     videoId: z.string().optional(),
+    tags: z.string().max(500).optional(), // Comma-separated
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
     sortBy: z
@@ -263,6 +614,7 @@ export const saveLinkedinPostSchema = z.object({
         source: z.string().optional(),
       })
       .optional(),
+    tags: z.array(z.string()).max(10, "Too many tags").optional(),
   }),
 });
 
@@ -292,6 +644,7 @@ export const updateLinkedinPostSchema = z.object({
         source: z.string().optional(),
       })
       .optional(),
+    tags: z.array(z.string()).max(10, "Too many tags").optional(),
   }),
 });
 
@@ -311,6 +664,7 @@ export const linkedinPostQuerySchema = z.object({
       .optional(),
     search: z.string().max(100).optional(),
     author: z.string().max(200).optional(),
+    tags: z.string().max(500).optional(), // Comma-separated
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
     sortBy: z
@@ -337,6 +691,7 @@ export const createWebsiteSummarySchema = z.object({
       .max(100000, "Content too long. Maximum 100,000 characters allowed.")
       .trim(),
     url: z.string().url("Invalid URL format").max(2000, "URL too long"),
+    tags: z.array(z.string()).max(10, "Too many tags").optional(),
   }),
 });
 
@@ -346,6 +701,76 @@ export const getWebsiteSummarySchema = z.object({
   }),
 });
 
+// Tag schemas
+const tagNameSchema = z
+  .string()
+  .min(1, "Tag name is required")
+  .max(MAX_TAG_LENGTH, "Tag name too long");
+
+export const tagNameBodySchema = z.object({
+  body: z.object({
+    name: tagNameSchema,
+  }),
+});
+
+export const mergeTagsSchema = z.object({
+  body: z.object({
+    sourceIds: z
+      .array(z.string().min(1))
+      .min(1, "At least one tag to merge is required")
+      .max(50, "Too many tags"),
+    targetId: z.string().min(1, "Target tag is required"),
+  }),
+});
+
+export const setItemTagsSchema = z.object({
+  params: z.object({
+    type: z.enum(SEARCH_CONTENT_TYPES),
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    tags: z.array(tagNameSchema).max(10, "Too many tags"),
+  }),
+});
+
+// Prompt registry schemas (admin)
+const promptNameParamsSchema = z.object({
+  name: z.enum(PROMPT_NAMES),
+});
+
+const trafficWeightSchema = z
+  .number()
+  .int("Traffic weight must be a whole number")
+  .min(0, "Traffic weight cannot be negative")
+  .max(1000, "Traffic weight too large");
+
+export const publishPromptVersionSchema = z.object({
+  params: promptNameParamsSchema,
+  body: z.object({
+    system: z
+      .string()
+      .max(10000, "System prompt too long")
+      .nullable()
+      .optional(),
+    template: z
+      .string()
+      .min(1, "Template is required")
+      .max(50000, "Template too long"),
+    notes: z.string().max(1000, "Notes too long").optional(),
+    trafficWeight: trafficWeightSchema.optional(),
+  }),
+});
+
+export const setPromptTrafficSchema = z.object({
+  params: promptNameParamsSchema,
+  body: z.object({
+    weights: z.record(
+      z.string().regex(/^[1-9]\d*$/, "Weights are keyed by published version"),
+      trafficWeightSchema
+    ),
+  }),
+});
+
 // URL validation helper
 export const validateWebsiteUrl = (url: string): boolean => {
   try {
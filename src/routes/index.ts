@@ -4,6 +4,7 @@ import { openaiService } from "../services/openai";
 import { prisma } from "../config/database";
 import { logger } from "../config/logger";
 import { config } from "../config";
+import { getCircuitStatuses } from "../utils/resilience";
 
 // Import existing routes
 import authRoutes from "./auth";
@@ -14,6 +15,11 @@ import tokenRoutes from "./token";
 import infographicRoutes from "./infographic";
 import linkedinRoutes from "./linkedin";
 import websiteRoutes from "./website";
+import searchRoutes from "./search";
+import tagRoutes from "./tag";
+import promptRoutes from "./prompt";
+import transcriptRoutes from "./transcript";
+import publicRoutes from "./public";
 
 const router = Router();
 
@@ -26,15 +32,20 @@ router.get("/health", async (req, res) => {
     // Test OpenAI connection
     const openaiTest = await openaiService.testConnection();
 
+    // Providers whose circuit is open are failing fast
+    const circuits = getCircuitStatuses();
+    const degraded = circuits.some((circuit) => circuit.state !== "closed");
+
     const response: ApiResponse = {
       success: true,
       data: {
-        status: "healthy",
+        status: degraded ? "degraded" : "healthy",
         timestamp: new Date().toISOString(),
         services: {
           database: "connected",
           openai: openaiTest.success ? "connected" : "disconnected",
         },
+        circuits,
         version: "1.0.0",
         uptime: process.uptime(),
       },
@@ -76,6 +87,11 @@ router.get("/", (req, res) => {
         infographic: "/api/infographic",
         linkedin: "/api/linkedin",
         website: "/api/website",
+        search: "/api/search",
+        tags: "/api/tags",
+        transcripts: "/api/transcripts",
+        public: "/api/public",
+        prompts: "/api/admin/prompts",
         health: "/api/health",
       },
       documentation: "https://docs.knugget.com/api",
@@ -94,5 +110,10 @@ router.use("/token", tokenRoutes);
 router.use("/infographic", infographicRoutes);
 router.use("/linkedin", linkedinRoutes);
 router.use("/website", websiteRoutes);
+router.use("/search", searchRoutes);
+router.use("/tags", tagRoutes);
+router.use("/transcripts", transcriptRoutes);
+router.use("/public", publicRoutes);
+router.use("/admin/prompts", promptRoutes);
 
 export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { promptController } from "../controllers/prompt";
+import { authenticate, requireAdmin } from "../middleware/auth";
+import {
+  validate,
+  publishPromptVersionSchema,
+  setPromptTrafficSchema,
+} from "../middleware/validation";
+
+const router = Router();
+
+// Prompt registry routes are limited to admins
+router.use(authenticate as any);
+router.use(requireAdmin as any);
+
+// Every prompt with its versions and traffic split
+router.get("/", promptController.getPrompts);
+
+// One prompt with its versions and traffic split
+router.get("/:name", promptController.getPrompt);
+
+// Publish a new version
+router.post(
+  "/:name/versions",
+  validate(publishPromptVersionSchema) as any,
+  promptController.publishVersion
+);
+
+// Split traffic between published versions
+router.put(
+  "/:name/traffic",
+  validate(setPromptTrafficSchema) as any,
+  promptController.setTraffic
+);
+
+export default router;
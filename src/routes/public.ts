@@ -0,0 +1,33 @@
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import { shareController } from "../controllers/share";
+import { validate, publicShareSchema } from "../middleware/validation";
+import { ApiResponse } from "../types";
+
+const router = Router();
+
+// Failed views per share link, so passwords cannot be guessed; views that
+// succeed are not counted
+const sharedContentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 10,
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => req.params.token,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  validate: false,
+  message: {
+    success: false,
+    error: "Too many failed attempts for this share link. Try again later.",
+  } satisfies ApiResponse,
+});
+
+// Read-only view of a shared summary or website summary (no auth required)
+router.get(
+  "/summaries/:token",
+  validate(publicShareSchema) as any,
+  sharedContentLimiter,
+  shareController.getSharedContent
+);
+
+export default router;
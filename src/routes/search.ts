@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { searchController } from "../controllers/search";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+// All search routes require authentication
+router.use(authenticate as any);
+
+// Semantic search across summaries, LinkedIn posts and website articles
+router.get("/semantic", searchController.semanticSearch);
+
+// Embed saved content that is missing from the search index
+router.post("/reindex", searchController.reindex);
+
+export default router;
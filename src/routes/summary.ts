@@ -1,11 +1,29 @@
 import { Router } from "express";
 import { summaryController } from "../controllers/summary";
+import { shareController } from "../controllers/share";
 import { authenticate, requireCredits } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import {
   generateSummarySchema,
   saveSummarySchema,
   updateSummarySchema,
+  regenerateSummarySchema,
+  translateSummarySchema,
+  summaryChatSchema,
+  generateStudyMaterialSchema,
+  flashcardSchema,
+  updateFlashcardSchema,
+  quizQuestionSchema,
+  updateQuizQuestionSchema,
+  studyExportSchema,
+  summaryRevisionSchema,
+  summaryRevisionsQuerySchema,
+  summaryRevisionDiffSchema,
+  createSynthesisSchema,
+  createSummaryBatchSchema,
+  summaryExportSchema,
+  libraryExportSchema,
+  createShareLinkSchema,
 } from "../middleware/validation";
 import { config } from "../config";
 import { catchAsync } from "../middleware/errorHandler";
@@ -15,14 +33,37 @@ const router = Router();
 // All summary routes require authentication - NO RATE LIMITING
 router.use(authenticate as any);
 
-// Generate AI summary from transcript - NO RATE LIMITING (Extended timeout for AI processing)
-// Video limits and token checks are now done in the service layer
+// Queue AI summary generation from transcript - NO RATE LIMITING
+// Returns a job immediately; video limits and token checks are done in the service layer
+// Takes transcript segments from the extension or a caption file as transcriptFile
 router.post(
   "/generate",
   // Remove the validate middleware temporarily or update the schema
-  catchAsync(summaryController.generateHandler, 120000) // 2 minutes timeout for AI processing
+  catchAsync(summaryController.generateHandler)
 );
 
+// Generate AI summary streamed as Server-Sent Events - NO RATE LIMITING
+// The timeout only applies until the stream opens; closing the connection cancels generation
+router.post(
+  "/generate/stream",
+  catchAsync(summaryController.generateStreamHandler)
+);
+
+// Get summary generation job progress and result - NO RATE LIMITING
+router.get("/jobs/:id", summaryController.getJob);
+
+// Queue many videos (e.g. a playlist) as one batch - NO RATE LIMITING
+// Video limits and the token budget are checked for the whole batch before anything is queued
+router.post(
+  "/batch",
+  validate(createSummaryBatchSchema) as any,
+  summaryController.generateBatch
+);
+
+// Summary batches with per-item status and progress - NO RATE LIMITING
+router.get("/batches", summaryController.getBatches);
+router.get("/batches/:batchId", summaryController.getBatch);
+
 // Save summary - NO RATE LIMITING (Validation temporarily disabled for debugging)
 router.post(
   "/save",
@@ -36,6 +77,28 @@ router.get("/", summaryController.getSummaries);
 // Get summary statistics - NO RATE LIMITING
 router.get("/stats", summaryController.getStats);
 
+// List available summary modes - NO RATE LIMITING
+router.get("/modes", summaryController.getModes);
+
+// Download the library as a zip of Markdown notes, an Obsidian vault, PDF or DOCX - NO RATE LIMITING
+router.get(
+  "/export",
+  validate(libraryExportSchema) as any,
+  summaryController.exportLibrary
+);
+
+// Combine several saved summaries into one synthesis - NO RATE LIMITING
+router.post(
+  "/synthesize",
+  validate(createSynthesisSchema) as any,
+  summaryController.synthesize
+);
+
+// Saved syntheses - NO RATE LIMITING
+router.get("/syntheses", summaryController.getSyntheses);
+router.get("/syntheses/:synthesisId", summaryController.getSynthesis);
+router.delete("/syntheses/:synthesisId", summaryController.deleteSynthesis);
+
 // Get single summary by ID - NO RATE LIMITING
 router.get("/:id", summaryController.getSummaryById);
 
@@ -49,6 +112,124 @@ router.put(
 // Delete summary - NO RATE LIMITING
 router.delete("/:id", summaryController.deleteSummary);
 
+// Queue regeneration in another mode from the stored transcript (returns a job) - NO RATE LIMITING
+router.post(
+  "/:id/regenerate",
+  validate(regenerateSummarySchema) as any,
+  summaryController.regenerateSummary
+);
+
+// Translate summary and store the variant alongside the original - NO RATE LIMITING
+router.post(
+  "/:id/translate",
+  validate(translateSummarySchema) as any,
+  summaryController.translateSummary
+);
+
+// Download a summary as Markdown, PDF, DOCX or an Obsidian note (?format=) - NO RATE LIMITING
+router.get(
+  "/:id/export",
+  validate(summaryExportSchema) as any,
+  summaryController.exportSummary
+);
+
+// Public read-only share links of a summary, with expiry, password and revocation - NO RATE LIMITING
+router.post(
+  "/:id/shares",
+  validate(createShareLinkSchema) as any,
+  shareController.createSummaryShare
+);
+router.get("/:id/shares", shareController.getSummaryShares);
+router.delete("/:id/shares/:shareId", shareController.revokeSummaryShare);
+
+// Get stored translations of a summary - NO RATE LIMITING
+router.get("/:id/translations", summaryController.getTranslations);
+
+// Revision history of a summary and its translations, with diff and restore - NO RATE LIMITING
+router.get(
+  "/:id/revisions",
+  validate(summaryRevisionsQuerySchema) as any,
+  summaryController.getRevisions
+);
+router.get(
+  "/:id/revisions/diff",
+  validate(summaryRevisionDiffSchema) as any,
+  summaryController.diffRevisions
+);
+router.get(
+  "/:id/revisions/:revision",
+  validate(summaryRevisionSchema) as any,
+  summaryController.getRevision
+);
+router.post(
+  "/:id/revisions/:revision/restore",
+  validate(summaryRevisionSchema) as any,
+  summaryController.restoreRevision
+);
+
+// Ask a follow-up question about a summary - NO RATE LIMITING
+router.post(
+  "/:id/chat",
+  validate(summaryChatSchema) as any,
+  summaryController.askQuestion
+);
+
+// Chat threads of a summary - NO RATE LIMITING
+router.get("/:id/chat/threads", summaryController.getChatThreads);
+router.get("/:id/chat/threads/:threadId", summaryController.getChatThread);
+router.delete(
+  "/:id/chat/threads/:threadId",
+  summaryController.deleteChatThread
+);
+
+// Flashcards of a summary, editable and exportable (?format=apkg|csv) - NO RATE LIMITING
+router.post(
+  "/:id/flashcards/generate",
+  validate(generateStudyMaterialSchema) as any,
+  summaryController.generateFlashcards
+);
+router.get(
+  "/:id/flashcards/export",
+  validate(studyExportSchema) as any,
+  summaryController.exportFlashcards
+);
+router.get("/:id/flashcards", summaryController.getFlashcards);
+router.post(
+  "/:id/flashcards",
+  validate(flashcardSchema) as any,
+  summaryController.addFlashcard
+);
+router.put(
+  "/:id/flashcards/:cardId",
+  validate(updateFlashcardSchema) as any,
+  summaryController.updateFlashcard
+);
+router.delete("/:id/flashcards/:cardId", summaryController.deleteFlashcard);
+
+// Multiple-choice quiz of a summary, editable and exportable - NO RATE LIMITING
+router.post(
+  "/:id/quiz/generate",
+  validate(generateStudyMaterialSchema) as any,
+  summaryController.generateQuiz
+);
+router.get(
+  "/:id/quiz/export",
+  validate(studyExportSchema) as any,
+  summaryController.exportQuiz
+);
+router.get("/:id/quiz", summaryController.getQuiz);
+router.post(
+  "/:id/quiz",
+  validate(quizQuestionSchema) as any,
+  summaryController.addQuizQuestion
+);
+router.put(
+  "/:id/quiz/:questionId",
+  validate(updateQuizQuestionSchema) as any,
+  summaryController.updateQuizQuestion
+);
+router.delete("/:id/quiz/:questionId", summaryController.deleteQuizQuestion);
+
 // Get summary by video ID - NO RATE LIMITING
 router.get("/video/:videoId", summaryController.getSummaryByVideoId);
 
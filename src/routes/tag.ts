@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { tagController } from "../controllers/tag";
+import { authenticate } from "../middleware/auth";
+import {
+  validate,
+  tagNameBodySchema,
+  mergeTagsSchema,
+  setItemTagsSchema,
+} from "../middleware/validation";
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(authenticate as any);
+
+// Tag vocabulary with usage counts
+router.get("/", tagController.getTags);
+
+// Add a tag
+router.post("/", validate(tagNameBodySchema) as any, tagController.createTag);
+
+// Merge tags into one
+router.post(
+  "/merge",
+  validate(mergeTagsSchema) as any,
+  tagController.mergeTags
+);
+
+// Set the tags of a saved item (summary, linkedin_post or website_summary)
+router.put(
+  "/items/:type/:id",
+  validate(setItemTagsSchema) as any,
+  tagController.setItemTags
+);
+
+// Rename a tag
+router.put("/:id", validate(tagNameBodySchema) as any, tagController.renameTag);
+
+// Delete a tag
+router.delete("/:id", tagController.deleteTag);
+
+export default router;
@@ -11,6 +11,11 @@ router.post(
   authenticate,
   tokenController.checkTokenAvailability
 );
+router.get(
+  "/estimation-accuracy",
+  authenticate,
+  tokenController.getEstimationAccuracy
+);
 
 // Admin endpoints (require authentication - add admin middleware if needed)
 router.post(
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { transcriptController } from "../controllers/transcript";
+import { authenticate } from "../middleware/auth";
+import { validate, parseTranscriptSchema } from "../middleware/validation";
+
+const router = Router();
+
+// All transcript routes require authentication
+router.use(authenticate as any);
+
+// Convert an SRT, WebVTT, YouTube timedtext or timestamped text file into transcript segments
+router.post(
+  "/parse",
+  validate(parseTranscriptSchema) as any,
+  transcriptController.parse
+);
+
+export default router;
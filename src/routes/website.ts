@@ -1,8 +1,12 @@
 import { Router } from "express";
 import { websiteSummaryController } from "../controllers/website";
+import { shareController } from "../controllers/share";
 import { authenticate } from "../middleware/auth";
 import { validate } from "../middleware/validation";
-import { createWebsiteSummarySchema } from "../middleware/validation";
+import {
+  createWebsiteSummarySchema,
+  createShareLinkSchema,
+} from "../middleware/validation";
 import { catchAsync } from "../middleware/errorHandler";
 
 const router = Router();
@@ -35,5 +39,14 @@ router.get("/:id", websiteSummaryController.getSummaryById);
 // Delete a website summary
 router.delete("/:id", websiteSummaryController.deleteSummary);
 
+// Public read-only share links of a website summary
+router.post(
+  "/:id/shares",
+  validate(createShareLinkSchema) as any,
+  shareController.createWebsiteShare
+);
+router.get("/:id/shares", shareController.getWebsiteShares);
+router.delete("/:id/shares/:shareId", shareController.revokeWebsiteShare);
+
 export default router;
 
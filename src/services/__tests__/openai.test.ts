@@ -0,0 +1,199 @@
+import { openaiService } from "../openai";
+import { llmProvider } from "../llm";
+import { BUILT_IN_PROMPTS } from "../../utils/promptTemplates";
+import { countChatTokens } from "../../utils/tokenizer";
+import {
+  LLMMessage,
+  PromptName,
+  ResolvedPrompt,
+  SummaryProgressEvent,
+  SummaryPrompts,
+  TranscriptSegment,
+} from "../../types";
+
+// Chunk after a few segments so a short transcript takes the map-reduce path
+jest.mock("../../config", () => {
+  const { config } = jest.requireActual("../../config");
+  return {
+    config: {
+      ...config,
+      summaryChunking: {
+        singlePassMaxTokens: 60,
+        chunkTokens: 50,
+        overlapTokens: 20,
+        concurrency: 1,
+      },
+    },
+  };
+});
+jest.mock("../../config/database", () => ({ prisma: {} }));
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../llm", () => ({
+  llmProvider: { model: "gpt-4o-mini", complete: jest.fn() },
+}));
+jest.mock("../promptRegistry", () => {
+  const { BUILT_IN_PROMPTS } = jest.requireActual(
+    "../../utils/promptTemplates"
+  );
+  return {
+    promptRegistryService: {
+      resolve: jest.fn(async (name: string) => ({
+        name,
+        version: 0,
+        ...BUILT_IN_PROMPTS[name],
+      })),
+    },
+  };
+});
+
+const complete = llmProvider.complete as jest.Mock;
+
+const prompt = (name: PromptName): ResolvedPrompt => ({
+  name,
+  version: 0,
+  system: BUILT_IN_PROMPTS[name].system,
+  template: BUILT_IN_PROMPTS[name].template,
+});
+
+const prompts: SummaryPrompts = {
+  single: prompt("summary"),
+  chunk: prompt("summary_chunk"),
+  final: prompt("summary_final"),
+};
+
+const transcript: TranscriptSegment[] = Array.from({ length: 8 }, (_, i) => ({
+  timestamp: `0:${String(i * 5).padStart(2, "0")}`,
+  text: `Point number ${i + 1} about saving money every single month`,
+}));
+
+const reply = (content: unknown) => ({
+  content: typeof content === "string" ? content : JSON.stringify(content),
+  provider: "openai",
+  model: "gpt-4o-mini",
+});
+
+type CompletionRequest = { messages: LLMMessage[] };
+
+// Timestamps of the transcript lines sent with a request; the final
+// synthesis call sends merged notes instead
+const sentTimestamps = ({ messages }: CompletionRequest): string[] =>
+  [...messages[messages.length - 1].content.matchAll(/\[(\d+:\d+)\]/g)].map(
+    ([, timestamp]) => timestamp
+  );
+
+const chunkNotes = {
+  keyTakeaways: [{ text: "Save money every month", timestamps: ["0:00"] }],
+  detailedNotes: [
+    { title: "Saving", content: "Set money aside monthly.", timestamps: [] },
+  ],
+};
+
+const finalSummary = {
+  keyTakeaways: [{ text: "Save every month", timestamps: ["0:05"] }],
+  tags: ["personal finance"],
+};
+
+// Reply to chunk requests with notes and to the final one with finalContent
+const respond = (finalContent: unknown) =>
+  complete.mockImplementation(async (request: CompletionRequest) =>
+    reply(sentTimestamps(request).length > 0 ? chunkNotes : finalContent)
+  );
+
+const summarize = (events: SummaryProgressEvent[] = []) =>
+  openaiService.generateSummary(
+    transcript,
+    { videoId: "vid-1", title: "Saving", channelName: "Money", url: "" },
+    undefined,
+    {
+      mode: "brief",
+      language: "en",
+      prompts,
+      onProgress: (event) => {
+        events.push(event);
+      },
+    }
+  );
+
+describe("OpenAIService map-reduce summarization", () => {
+  beforeEach(() => {
+    complete.mockReset();
+  });
+
+  it("summarizes overlapping chunks and synthesizes the merged notes", async () => {
+    respond(finalSummary);
+    const events: SummaryProgressEvent[] = [];
+
+    const result = await summarize(events);
+
+    const chunks = complete.mock.calls
+      .map(([request]) => sentTimestamps(request))
+      .filter((timestamps) => timestamps.length > 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(complete).toHaveBeenCalledTimes(chunks.length + 1);
+    expect(new Set(chunks.flat())).toEqual(
+      new Set(transcript.map((segment) => segment.timestamp))
+    );
+    chunks.slice(1).forEach((current, i) => {
+      // Each chunk starts with the tail of the previous one
+      expect(chunks[i]).toContain(current[0]);
+    });
+    expect(events.filter((e) => e.type === "chunk_started")).toHaveLength(
+      chunks.length
+    );
+    expect(events[events.length - 1]).toEqual({
+      type: "finalizing",
+      totalChunks: chunks.length,
+    });
+    expect(result.data?.sections.keyTakeaways).toEqual(["Save every month"]);
+    expect(result.data?.tags).toEqual(["personal-finance"]);
+  });
+
+  it("estimates at least the tokens of the chunk prompts it sends", async () => {
+    respond(finalSummary);
+
+    await summarize();
+
+    const chunkRequests = complete.mock.calls
+      .map(([request]) => request as CompletionRequest)
+      .filter((request) => sentTimestamps(request).length > 0);
+    const sentTokens = chunkRequests.reduce(
+      (total, { messages }) => total + countChatTokens(messages, "gpt-4o-mini"),
+      0
+    );
+
+    expect(
+      openaiService.estimateSummaryUsage(transcript, "brief", "en", prompts)
+        .inputTokens
+    ).toBeGreaterThanOrEqual(sentTokens);
+  });
+
+  it("falls back to the merged chunk notes when synthesis fails", async () => {
+    respond("not json");
+
+    const result = await summarize();
+
+    // Chunks repeating a point are merged into one takeaway
+    expect(result.data?.sections.keyTakeaways).toEqual([
+      "Save money every month",
+    ]);
+    expect(result.data?.sections.detailedNotes).toEqual([
+      { title: "Saving", content: "Set money aside monthly." },
+    ]);
+  });
+
+  it("carries on when a chunk fails", async () => {
+    let calls = 0;
+    complete.mockImplementation(async (request: CompletionRequest) => {
+      const isChunk = sentTimestamps(request).length > 0;
+      if (isChunk && calls++ === 0) {
+        throw new Error("Chunk request failed");
+      }
+      return reply(isChunk ? chunkNotes : finalSummary);
+    });
+
+    await expect(summarize()).resolves.toMatchObject({ success: true });
+  });
+});
@@ -0,0 +1,171 @@
+import { prisma } from "../../config/database";
+import { shareService } from "../share";
+
+jest.mock("../../config/database", () => ({
+  prisma: {
+    summary: { findFirst: jest.fn() },
+    shareLink: {
+      count: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../summaryExport", () => ({
+  summaryExportService: {
+    toExportable: jest.fn((summary: object) => summary),
+  },
+}));
+
+const db = prisma as unknown as {
+  summary: Record<"findFirst", jest.Mock>;
+  shareLink: Record<"count" | "create" | "findUnique" | "update", jest.Mock>;
+};
+
+const summary = {
+  id: "summary-1",
+  userId: "user-1",
+  title: "Compound interest",
+  tags: ["finance"],
+  status: "COMPLETED",
+};
+
+// Create a link and return the row that would have been stored
+const createLink = async (
+  options: { password?: string; expiresInDays?: number } = {}
+) => {
+  await shareService.createShare("user-1", "summary", "summary-1", options);
+  const { data } = db.shareLink.create.mock.calls.at(-1)![0];
+
+  return {
+    id: "share-1",
+    revokedAt: null,
+    viewCount: 0,
+    lastViewedAt: null,
+    createdAt: new Date(),
+    websiteSummaryId: null,
+    ...data,
+    summary,
+    websiteSummary: null,
+  };
+};
+
+const open = async (link: object, password?: string) => {
+  db.shareLink.findUnique.mockResolvedValue(link);
+  return shareService.getSharedContent("token", password);
+};
+
+describe("ShareService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.summary.findFirst.mockResolvedValue({ status: "COMPLETED" });
+    db.shareLink.count.mockResolvedValue(0);
+    db.shareLink.create.mockImplementation(async ({ data }) => ({
+      id: "share-1",
+      revokedAt: null,
+      viewCount: 0,
+      lastViewedAt: null,
+      createdAt: new Date(),
+      websiteSummaryId: null,
+      ...data,
+    }));
+  });
+
+  describe("createShare", () => {
+    it("creates an unguessable URL-safe token", async () => {
+      const first = await createLink();
+      const second = await createLink();
+
+      expect(first.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(second.token).not.toBe(first.token);
+    });
+
+    it("stores a salted hash instead of the password", async () => {
+      const first = await createLink({ password: "hunter22" });
+      const second = await createLink({ password: "hunter22" });
+
+      expect(first.passwordHash).toMatch(/^[0-9a-f]{32}:[0-9a-f]{128}$/);
+      expect(first.passwordHash).not.toContain("hunter22");
+      expect(second.passwordHash).not.toBe(first.passwordHash);
+    });
+
+    it("does not share summaries that are still being generated", async () => {
+      db.summary.findFirst.mockResolvedValue({ status: "PROCESSING" });
+
+      await expect(createLink()).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.shareLink.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getSharedContent", () => {
+    it("serves the summary without its owner and counts the view", async () => {
+      const result = await open(await createLink());
+
+      expect(result.data).toEqual({
+        contentType: "summary",
+        summary: { title: "Compound interest" },
+      });
+      expect(db.shareLink.update).toHaveBeenCalledWith({
+        where: { id: "share-1" },
+        data: { viewCount: { increment: 1 }, lastViewedAt: expect.any(Date) },
+      });
+    });
+
+    it("accepts the right password", async () => {
+      const link = await createLink({ password: "hunter22" });
+
+      await expect(open(link, "hunter22")).resolves.toMatchObject({
+        success: true,
+      });
+    });
+
+    it("asks for a missing password and rejects a wrong one", async () => {
+      const link = await createLink({ password: "hunter22" });
+
+      await expect(open(link)).rejects.toMatchObject({
+        statusCode: 401,
+        code: "SHARE_PASSWORD_REQUIRED",
+      });
+      await expect(open(link, "hunter2")).rejects.toMatchObject({
+        statusCode: 403,
+        code: "INVALID_SHARE_PASSWORD",
+      });
+      expect(db.shareLink.update).not.toHaveBeenCalled();
+    });
+
+    it("rejects a malformed stored hash", async () => {
+      const link = await createLink();
+
+      await expect(
+        open({ ...link, passwordHash: "not-a-hash" }, "hunter22")
+      ).rejects.toMatchObject({ code: "INVALID_SHARE_PASSWORD" });
+    });
+
+    it("reports expired links", async () => {
+      const link = await createLink({ expiresInDays: 7 });
+
+      await expect(
+        open({ ...link, expiresAt: new Date(Date.now() - 1000) })
+      ).rejects.toMatchObject({ statusCode: 410, code: "SHARE_LINK_EXPIRED" });
+    });
+
+    it("treats revoked and unknown links alike", async () => {
+      const link = await createLink();
+
+      await expect(
+        open({ ...link, revokedAt: new Date() })
+      ).rejects.toMatchObject({
+        statusCode: 404,
+        code: "SHARE_LINK_NOT_FOUND",
+      });
+      await expect(open(null as unknown as object)).rejects.toMatchObject({
+        statusCode: 404,
+        code: "SHARE_LINK_NOT_FOUND",
+      });
+    });
+  });
+});
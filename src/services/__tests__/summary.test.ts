@@ -0,0 +1,219 @@
+import { prisma } from "../../config/database";
+import { summaryService } from "../summary";
+import { openaiService } from "../openai";
+import { tokenService } from "../token";
+import { summaryCacheService } from "../summaryCache";
+import { GenerateSummaryRequest, OpenAISummaryResponse } from "../../types";
+
+jest.mock("../../config/database", () => {
+  const prisma = {
+    summary: { findFirst: jest.fn(), updateMany: jest.fn(), update: jest.fn() },
+    summaryJob: { findUnique: jest.fn(), updateMany: jest.fn() },
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((run) => run(prisma));
+  return { prisma };
+});
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../openai", () => ({
+  openaiService: {
+    generateSummary: jest.fn(),
+    estimateSummaryUsage: jest.fn(),
+  },
+}));
+jest.mock("../token", () => ({
+  tokenService: { checkTokenAvailability: jest.fn() },
+}));
+jest.mock("../tokenUsage", () => ({
+  tokenUsageService: { markAsSaved: jest.fn() },
+}));
+jest.mock("../summaryCache", () => ({
+  summaryCacheService: {
+    find: jest.fn(),
+    store: jest.fn(),
+    recordHit: jest.fn(),
+  },
+}));
+jest.mock("../embedding", () => ({
+  embeddingService: { indexInBackground: jest.fn() },
+}));
+jest.mock("../tag", () => ({
+  tagService: {
+    matchUserVocabulary: jest.fn((_userId: string, tags: string[]) => tags),
+    addToVocabulary: jest.fn(),
+  },
+}));
+jest.mock("../promptRegistry", () => ({
+  promptRegistryService: { resolveSummaryPrompts: jest.fn() },
+}));
+jest.mock("../summaryRevision", () => ({
+  summaryRevisionService: { record: jest.fn() },
+}));
+jest.mock("../llm", () => ({ llmProvider: { model: "gpt-4o-mini" } }));
+
+const db = prisma as unknown as {
+  summary: Record<"findFirst" | "updateMany" | "update", jest.Mock>;
+  summaryJob: Record<"findUnique" | "updateMany", jest.Mock>;
+  user: Record<"findUnique" | "update", jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+const request: GenerateSummaryRequest = {
+  transcript: [
+    { timestamp: "0:00", text: "Compound interest grows savings over time." },
+    { timestamp: "0:05", text: "Starting early matters more than amount." },
+  ],
+  videoMetadata: {
+    videoId: "vid-1",
+    title: "Compound interest",
+    channelName: "Money Basics",
+    url: "https://www.youtube.com/watch?v=vid-1",
+  },
+  mode: "detailed",
+  language: "en",
+};
+
+const aiData = {
+  keyPoints: ["Start early"],
+  fullSummary: "Compound interest rewards time.",
+  sections: {
+    keyTakeaways: [],
+    quotes: [],
+    examples: [],
+    detailedNotes: [],
+    citations: {},
+  },
+  mode: "detailed",
+  modeContent: {},
+  chapters: [],
+  language: "en",
+  tags: ["finance"],
+} as unknown as OpenAISummaryResponse;
+
+const completedRow = {
+  ...aiData,
+  ...aiData.sections,
+  id: "summary-1",
+  userId: "user-1",
+  title: "Compound interest",
+  status: "COMPLETED",
+  videoId: "vid-1",
+  videoTitle: "Compound interest",
+  channelName: "Money Basics",
+  videoUrl: "https://www.youtube.com/watch?v=vid-1",
+  transcript: request.transcript,
+  transcriptText: "",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const generate = () =>
+  summaryService.generatePendingSummary("user-1", "summary-1", request, {
+    jobId: "job-1",
+  });
+
+describe("SummaryService.generatePendingSummary", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.summary.findFirst.mockResolvedValue(null);
+    db.summary.updateMany.mockResolvedValue({ count: 1 });
+    db.summary.update.mockResolvedValue(completedRow);
+    db.user.findUnique.mockResolvedValue({
+      plan: "FREE",
+      videosProcessedThisMonth: 0,
+      videoResetDate: new Date(),
+    });
+    db.summaryJob.findUnique.mockResolvedValue({ videoChargedAt: null });
+    db.summaryJob.updateMany.mockResolvedValue({ count: 1 });
+    (summaryCacheService.find as jest.Mock).mockResolvedValue(null);
+    (openaiService.estimateSummaryUsage as jest.Mock).mockReturnValue({
+      inputTokens: 100,
+      outputTokens: 50,
+    });
+    (tokenService.checkTokenAvailability as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { hasEnoughTokens: true, isTokensExhausted: false },
+    });
+    (openaiService.generateSummary as jest.Mock).mockResolvedValue({
+      success: true,
+      data: aiData,
+    });
+  });
+
+  it("counts the video once and stamps the job that counted it", async () => {
+    const result = await generate();
+
+    expect(result.data?.status).toBe("COMPLETED");
+    expect(db.summaryJob.updateMany).toHaveBeenCalledWith({
+      where: { id: "job-1", videoChargedAt: null },
+      data: { videoChargedAt: expect.any(Date) },
+    });
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { videosProcessedThisMonth: { increment: 1 } },
+    });
+  });
+
+  it("charges the tokens of a resumed job but not its video again", async () => {
+    db.summaryJob.findUnique.mockResolvedValue({ videoChargedAt: new Date() });
+
+    await generate();
+
+    // Token usage is recorded by the LLM call itself
+    expect(tokenService.checkTokenAvailability).toHaveBeenCalled();
+    expect(openaiService.generateSummary).toHaveBeenCalledWith(
+      request.transcript,
+      request.videoMetadata,
+      "user-1",
+      expect.objectContaining({ jobId: "job-1" })
+    );
+    expect(db.summaryJob.updateMany).not.toHaveBeenCalled();
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it("does not count the video when another run stamped the job first", async () => {
+    db.summaryJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await generate();
+
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it("does not check the video limit of a job that already counted it", async () => {
+    db.summaryJob.findUnique.mockResolvedValue({ videoChargedAt: new Date() });
+    db.user.findUnique.mockResolvedValue({
+      plan: "FREE",
+      videosProcessedThisMonth: 5,
+      videoResetDate: new Date(),
+    });
+
+    await expect(generate()).resolves.toMatchObject({ success: true });
+  });
+
+  it("marks the summary failed without counting the video", async () => {
+    (openaiService.generateSummary as jest.Mock).mockResolvedValue({
+      success: false,
+      error: "Provider unavailable",
+    });
+
+    await expect(generate()).rejects.toThrow("Provider unavailable");
+    expect(db.summary.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "summary-1", status: "PROCESSING" },
+      data: { status: "FAILED" },
+    });
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it("returns a summary saved while the job was queued", async () => {
+    db.summary.findFirst.mockResolvedValue(completedRow);
+
+    const result = await generate();
+
+    expect(result.data?.id).toBe("summary-1");
+    expect(db.summary.updateMany).not.toHaveBeenCalled();
+    expect(openaiService.generateSummary).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { prisma } from "../../config/database";
+import { summaryCacheService } from "../summaryCache";
+import { llmProvider } from "../llm";
+import {
+  OpenAISummaryResponse,
+  PromptName,
+  ResolvedPrompt,
+  SummaryPrompts,
+  TranscriptSegment,
+} from "../../types";
+
+jest.mock("../../config/database", () => ({
+  prisma: { summaryCache: { findUnique: jest.fn(), upsert: jest.fn() } },
+}));
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../llm", () => ({ llmProvider: { model: "gpt-4o-mini" } }));
+
+const provider = llmProvider as { model: string };
+const db = prisma as unknown as {
+  summaryCache: Record<"findUnique" | "upsert", jest.Mock>;
+};
+
+const transcript: TranscriptSegment[] = [
+  { timestamp: "0:00", text: "Welcome to the show" },
+  { timestamp: "0:04", text: "Today we cover caching" },
+];
+
+const prompt = (name: PromptName, version = 0): ResolvedPrompt => ({
+  name,
+  version,
+  system: null,
+  template: "",
+});
+
+const prompts: SummaryPrompts = {
+  single: prompt("summary"),
+  chunk: prompt("summary_chunk"),
+  final: prompt("summary_final"),
+};
+
+const key = (overrides: Partial<{ mode: "tldr"; language: string }> = {}) =>
+  summaryCacheService.buildKey(
+    "vid-1",
+    transcript,
+    overrides.mode ?? "detailed",
+    overrides.language ?? "en",
+    "summary@0,summary_chunk@0,summary_final@0"
+  );
+
+describe("SummaryCacheService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider.model = "gpt-4o-mini";
+  });
+
+  describe("hashTranscript", () => {
+    it("ignores casing and whitespace differences between clients", () => {
+      const reformatted = [
+        { timestamp: " 0:00 ", text: "  WELCOME to  the\nshow " },
+        { timestamp: "0:04", text: "today we cover caching" },
+      ];
+
+      expect(summaryCacheService.hashTranscript(reformatted)).toBe(
+        summaryCacheService.hashTranscript(transcript)
+      );
+    });
+
+    it("keeps timestamps, which citations point into", () => {
+      const shifted = [{ ...transcript[0], timestamp: "0:01" }, transcript[1]];
+
+      expect(summaryCacheService.hashTranscript(shifted)).not.toBe(
+        summaryCacheService.hashTranscript(transcript)
+      );
+    });
+  });
+
+  describe("buildKey", () => {
+    it("is stable for the same request", () => {
+      expect(key()).toBe(key());
+      expect(key()).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("separates modes, languages, prompt versions and models", () => {
+      const keys = [
+        key(),
+        key({ mode: "tldr" }),
+        key({ language: "de" }),
+        summaryCacheService.buildKey(
+          "vid-1",
+          transcript,
+          "detailed",
+          "en",
+          "summary@2,summary_chunk@0,summary_final@0"
+        ),
+      ];
+      provider.model = "gemini-2.5-flash";
+      keys.push(key());
+
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  it("finds an entry under the key it was stored with", async () => {
+    const result = {
+      mode: "detailed",
+      language: "en",
+      usage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+    } as OpenAISummaryResponse;
+
+    await summaryCacheService.store("vid-1", transcript, prompts, result);
+    const { create } = db.summaryCache.upsert.mock.calls[0][0];
+    db.summaryCache.findUnique.mockResolvedValue(create);
+
+    const entry = await summaryCacheService.find(
+      "vid-1",
+      transcript,
+      "detailed",
+      "en",
+      prompts
+    );
+
+    expect(create).toMatchObject({
+      cacheKey: key(),
+      inputTokens: 1200,
+      outputTokens: 300,
+      promptVersion: "summary@0,summary_chunk@0,summary_final@0",
+    });
+    expect(create.result).not.toHaveProperty("usage");
+    expect(db.summaryCache.findUnique).toHaveBeenCalledWith({
+      where: { cacheKey: key() },
+    });
+    expect(entry?.cacheKey).toBe(key());
+  });
+
+  it("treats a failed lookup as a miss", async () => {
+    db.summaryCache.findUnique.mockRejectedValue(new Error("connection lost"));
+
+    await expect(
+      summaryCacheService.find("vid-1", transcript, "detailed", "en", prompts)
+    ).resolves.toBeNull();
+  });
+});
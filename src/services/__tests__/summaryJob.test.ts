@@ -0,0 +1,187 @@
+import { prisma } from "../../config/database";
+import { summaryJobService } from "../summaryJob";
+import { summaryService } from "../summary";
+
+jest.mock("../../config/database", () => {
+  const prisma = {
+    summary: { updateMany: jest.fn(), deleteMany: jest.fn() },
+    summaryJob: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((operations) =>
+    Array.isArray(operations) ? Promise.all(operations) : operations(prisma)
+  );
+  return { prisma };
+});
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../summary", () => ({
+  summaryService: {
+    generatePendingSummary: jest.fn(),
+    regenerateSummary: jest.fn(),
+    createPendingSummary: jest.fn(),
+  },
+}));
+
+const db = prisma as unknown as {
+  summary: Record<"updateMany" | "deleteMany", jest.Mock>;
+  summaryJob: Record<
+    "count" | "findMany" | "findUnique" | "update" | "updateMany",
+    jest.Mock
+  >;
+};
+
+const request = {
+  transcript: [{ timestamp: "0:00", text: "Hello" }],
+  videoMetadata: { videoId: "vid-1", title: "Video", channelName: "", url: "" },
+};
+
+const job = {
+  id: "job-1",
+  userId: "user-1",
+  kind: "generate",
+  summaryId: "summary-1",
+  videoId: "vid-1",
+  batchId: null,
+  request,
+};
+
+// Let a scheduled job run to completion
+const flushJobs = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("SummaryJobService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.summaryJob.updateMany.mockResolvedValue({ count: 1 });
+    db.summaryJob.findMany.mockResolvedValue([{ id: "job-1", batchId: null }]);
+    db.summaryJob.findUnique.mockResolvedValue(job);
+    db.summary.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe("resumeInterruptedJobs", () => {
+    it("re-queues interrupted jobs and the summaries they were generating", async () => {
+      db.summaryJob.updateMany.mockResolvedValueOnce({ count: 1 });
+      db.summaryJob.updateMany.mockResolvedValueOnce({ count: 0 }); // Claimed elsewhere
+
+      await summaryJobService.resumeInterruptedJobs();
+      await flushJobs();
+
+      expect(db.summaryJob.updateMany).toHaveBeenCalledWith({
+        where: { status: "PROCESSING" },
+        data: expect.objectContaining({ status: "PENDING" }),
+      });
+      expect(db.summary.updateMany).toHaveBeenCalledWith({
+        where: { status: "PROCESSING" },
+        data: { status: "PENDING" },
+      });
+      expect(db.summaryJob.updateMany).toHaveBeenCalledWith({
+        where: { id: "job-1", status: "PENDING" },
+        data: expect.objectContaining({ status: "PROCESSING" }),
+      });
+      expect(summaryService.generatePendingSummary).not.toHaveBeenCalled();
+    });
+
+    it("runs a resumed job with its ID so its video is counted once", async () => {
+      (summaryService.generatePendingSummary as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: "summary-1" },
+      });
+
+      await summaryJobService.resumeInterruptedJobs();
+      await flushJobs();
+
+      expect(summaryService.generatePendingSummary).toHaveBeenCalledWith(
+        "user-1",
+        "summary-1",
+        request,
+        expect.objectContaining({ jobId: "job-1" })
+      );
+      expect(db.summaryJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({
+          status: "COMPLETED",
+          summaryId: "summary-1",
+        }),
+      });
+      expect(db.summary.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it("drops the pending summary when the video was saved another way", async () => {
+      (summaryService.generatePendingSummary as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: "summary-2" },
+      });
+
+      await summaryJobService.resumeInterruptedJobs();
+      await flushJobs();
+
+      expect(db.summary.deleteMany).toHaveBeenCalledWith({
+        where: { id: "summary-1", status: { not: "COMPLETED" } },
+      });
+    });
+
+    it("marks a job failed when generation fails", async () => {
+      (summaryService.generatePendingSummary as jest.Mock).mockRejectedValue(
+        new Error("Provider unavailable")
+      );
+
+      await summaryJobService.resumeInterruptedJobs();
+      await flushJobs();
+
+      expect(db.summaryJob.updateMany).toHaveBeenLastCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({
+          status: "FAILED",
+          errorMessage: "Provider unavailable",
+        }),
+      });
+    });
+
+    it("regenerates the saved summary of a regeneration job", async () => {
+      db.summaryJob.findUnique.mockResolvedValue({
+        ...job,
+        kind: "regenerate",
+        request: { mode: "tldr" },
+      });
+      (summaryService.regenerateSummary as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: "summary-1" },
+      });
+
+      await summaryJobService.resumeInterruptedJobs();
+      await flushJobs();
+
+      expect(summaryService.regenerateSummary).toHaveBeenCalledWith(
+        "user-1",
+        "summary-1",
+        "tldr",
+        expect.objectContaining({ jobId: "job-1" })
+      );
+      expect(summaryService.generatePendingSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("countActiveJobs", () => {
+    it("counts queued and running generations only", async () => {
+      db.summaryJob.count.mockResolvedValue(2);
+
+      await expect(summaryJobService.countActiveJobs("user-1")).resolves.toBe(
+        2
+      );
+      expect(db.summaryJob.count).toHaveBeenCalledWith({
+        where: {
+          userId: "user-1",
+          kind: "generate",
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+      });
+    });
+  });
+});
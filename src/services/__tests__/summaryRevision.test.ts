@@ -0,0 +1,89 @@
+import { Prisma } from "@prisma/client";
+import { summaryRevisionService } from "../summaryRevision";
+import { SummaryRevisionContent } from "../../types";
+
+jest.mock("../../config/database", () => ({ prisma: {} }));
+jest.mock("../../config/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const content: SummaryRevisionContent = {
+  title: "Compound interest",
+  keyPoints: ["Start early"],
+  fullSummary: "Time matters more than amount.",
+  keyTakeaways: ["Start early"],
+  quotes: [],
+  examples: [],
+  detailedNotes: [],
+  citations: { keyTakeaways: [], quotes: [], examples: [], detailedNotes: [] },
+  chapters: [],
+  modeContent: {},
+  mode: "detailed",
+  language: "en",
+};
+
+const tx = {
+  $queryRaw: jest.fn(),
+  summaryRevision: {
+    findFirst: jest.fn(),
+    aggregate: jest.fn(),
+    create: jest.fn(async ({ data }) => data),
+  },
+};
+
+const record = (revisionContent: SummaryRevisionContent, language?: string) =>
+  summaryRevisionService.record(
+    tx as unknown as Prisma.TransactionClient,
+    "summary-1",
+    revisionContent,
+    { source: "edit", authorId: "user-1", language }
+  );
+
+describe("SummaryRevisionService.record", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.summaryRevision.findFirst.mockResolvedValue(null);
+    tx.summaryRevision.aggregate.mockResolvedValue({
+      _max: { revision: null },
+    });
+  });
+
+  it("records the first revision of a summary", async () => {
+    await expect(record(content)).resolves.toMatchObject({
+      summaryId: "summary-1",
+      revision: 1,
+      source: "edit",
+      language: null,
+      authorId: "user-1",
+      changedFields: [],
+      content,
+    });
+    // The summary row is locked before revisions are numbered
+    expect(tx.$queryRaw).toHaveBeenCalled();
+  });
+
+  it("numbers a change after the latest revision in any language", async () => {
+    tx.summaryRevision.findFirst.mockResolvedValue({ content });
+    tx.summaryRevision.aggregate.mockResolvedValue({ _max: { revision: 4 } });
+
+    await expect(
+      record({ ...content, title: "Compound interest, explained" })
+    ).resolves.toMatchObject({ revision: 5, changedFields: ["title"] });
+  });
+
+  it("compares a translation with its own previous revision", async () => {
+    await record(content, "de");
+
+    expect(tx.summaryRevision.findFirst).toHaveBeenCalledWith({
+      where: { summaryId: "summary-1", language: "de" },
+      orderBy: { revision: "desc" },
+    });
+  });
+
+  it("records nothing when the content did not change", async () => {
+    tx.summaryRevision.findFirst.mockResolvedValue({ content });
+
+    await expect(record({ ...content })).resolves.toBeNull();
+    expect(tx.summaryRevision.create).not.toHaveBeenCalled();
+  });
+});
@@ -60,6 +60,7 @@ export class AuthService {
         cancelAtBillingDate: false,
         firebaseUid: firebaseUser.uid,
         emailVerified: false,
+        preferredLanguage: null,
         lastLoginAt: new Date(),
       };
 
@@ -495,6 +496,7 @@ export class AuthService {
             cancelAtBillingDate: false,
             firebaseUid: firebaseUser.uid,
             emailVerified: firebaseUser.emailVerified || false,
+            preferredLanguage: null,
             lastLoginAt: new Date(),
           };
 
@@ -0,0 +1,500 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { llmProvider } from "./llm";
+import {
+  SEARCH_CONTENT_TYPES,
+  SearchContentType,
+  SemanticReindexResult,
+  SemanticSearchHit,
+  SemanticSearchParams,
+  SemanticSearchResult,
+  ServiceResponse,
+} from "../types";
+import { countTokens, truncateToTokens } from "../utils/tokenizer";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { InMemoryVectorIndex, toVectorLiteral } from "../utils/vectorIndex";
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const SNIPPET_LENGTH = 240;
+
+// Text of a saved item that is embedded for search
+interface EmbeddableContent {
+  userId: string;
+  text: string;
+}
+
+interface RankedContent {
+  contentType: SearchContentType;
+  contentId: string;
+  score: number;
+}
+
+type IndexOutcome = "indexed" | "unchanged" | "removed";
+
+const toSnippet = (text: string): string => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SNIPPET_LENGTH
+    ? `${flat.slice(0, SNIPPET_LENGTH).trimEnd()}...`
+    : flat;
+};
+
+export class EmbeddingService {
+  private pgvectorCheck?: Promise<boolean>;
+
+  /**
+   * Embed a saved item and store its vector, skipping the call when the
+   * text has not changed since it was last embedded. Embeddings of deleted
+   * items are removed.
+   */
+  async indexContent(
+    contentType: SearchContentType,
+    contentId: string
+  ): Promise<IndexOutcome> {
+    const content = await this.loadContent(contentType, contentId);
+
+    if (!content) {
+      await prisma.contentEmbedding.deleteMany({
+        where: { contentType, contentId },
+      });
+      return "removed";
+    }
+
+    const text = truncateToTokens(
+      content.text,
+      config.semanticSearch.maxInputTokens
+    );
+    const contentHash = createHash("sha256").update(text).digest("hex");
+    const model = llmProvider.embeddingModel;
+
+    const existing = await prisma.contentEmbedding.findUnique({
+      where: { contentType_contentId: { contentType, contentId } },
+      select: { contentHash: true, model: true },
+    });
+
+    if (existing?.contentHash === contentHash && existing.model === model) {
+      return "unchanged";
+    }
+
+    const [vector] = await this.embed([text], content.userId);
+
+    const record = await prisma.contentEmbedding.upsert({
+      where: { contentType_contentId: { contentType, contentId } },
+      create: {
+        userId: content.userId,
+        contentType,
+        contentId,
+        model,
+        contentHash,
+        vector,
+      },
+      update: { model, contentHash, vector },
+    });
+
+    if (await this.hasPgvector()) {
+      await prisma.$executeRaw`
+        UPDATE "content_embeddings"
+        SET "embedding" = ${toVectorLiteral(vector)}::vector
+        WHERE "id" = ${record.id}`;
+    }
+
+    return "indexed";
+  }
+
+  // Index without holding up the request; failed items are picked up by reindexing
+  indexInBackground(contentType: SearchContentType, contentId: string): void {
+    this.indexContent(contentType, contentId).catch((error) => {
+      logger.warn("Failed to index content for semantic search", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        contentType,
+        contentId,
+      });
+    });
+  }
+
+  /**
+   * Embed every saved item of a user that has no up-to-date embedding
+   */
+  async reindexUser(
+    userId: string
+  ): Promise<ServiceResponse<SemanticReindexResult>> {
+    try {
+      const [summaries, posts, articles] = await Promise.all([
+        prisma.summary.findMany({ where: { userId }, select: { id: true } }),
+        prisma.linkedinPost.findMany({
+          where: { userId },
+          select: { id: true },
+        }),
+        prisma.websiteSummary.findMany({
+          where: { userId },
+          select: { id: true },
+        }),
+      ]);
+
+      const items: { type: SearchContentType; id: string }[] = [
+        ...summaries.map(({ id }) => ({ type: "summary" as const, id })),
+        ...posts.map(({ id }) => ({ type: "linkedin_post" as const, id })),
+        ...articles.map(({ id }) => ({ type: "website_summary" as const, id })),
+      ];
+
+      const outcomes = await mapWithConcurrency(
+        items,
+        config.semanticSearch.reindexConcurrency,
+        async ({ type, id }): Promise<IndexOutcome | "failed"> => {
+          try {
+            return await this.indexContent(type, id);
+          } catch (error) {
+            logger.warn("Failed to reindex content", {
+              error: error instanceof Error ? error.message : "Unknown error",
+              contentType: type,
+              contentId: id,
+            });
+            return "failed";
+          }
+        }
+      );
+
+      const result: SemanticReindexResult = {
+        indexed: outcomes.filter((outcome) => outcome === "indexed").length,
+        unchanged: outcomes.filter((outcome) => outcome === "unchanged").length,
+        failed: outcomes.filter((outcome) => outcome === "failed").length,
+      };
+
+      logger.info("Semantic search index rebuilt", { userId, ...result });
+
+      return { success: true, data: result };
+    } catch (error) {
+      logger.error("Semantic reindex failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to rebuild search index", 500);
+    }
+  }
+
+  /**
+   * Rank a user's summaries, LinkedIn posts and website articles by
+   * similarity to the query
+   */
+  async search(
+    userId: string,
+    params: SemanticSearchParams
+  ): Promise<ServiceResponse<SemanticSearchResult>> {
+    try {
+      const limit = params.limit ?? DEFAULT_SEARCH_LIMIT;
+      const types = params.types?.length
+        ? params.types
+        : [...SEARCH_CONTENT_TYPES];
+      const [queryVector] = await this.embed([params.q], userId);
+
+      // Extra candidates make up for hits whose content was deleted
+      const candidates = limit * 2;
+      let engine: SemanticSearchResult["engine"] = "in_process";
+      let ranked: RankedContent[] | null = null;
+
+      if (await this.hasPgvector()) {
+        try {
+          ranked = await this.searchPgvector(
+            userId,
+            queryVector,
+            types,
+            candidates
+          );
+          engine = "pgvector";
+        } catch (error) {
+          logger.warn("pgvector search failed, ranking in process", {
+            error: error instanceof Error ? error.message : "Unknown error",
+            userId,
+          });
+        }
+      }
+
+      if (!ranked) {
+        ranked = await this.searchInProcess(
+          userId,
+          queryVector,
+          types,
+          candidates
+        );
+      }
+
+      const hits = (await this.hydrate(userId, ranked)).slice(0, limit);
+
+      logger.info("Semantic search completed", {
+        userId,
+        engine,
+        hits: hits.length,
+      });
+
+      return {
+        success: true,
+        data: { query: params.q, hits, engine },
+      };
+    } catch (error) {
+      logger.error("Semantic search failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to search", 500);
+    }
+  }
+
+  private async searchPgvector(
+    userId: string,
+    queryVector: number[],
+    types: SearchContentType[],
+    limit: number
+  ): Promise<RankedContent[]> {
+    const vector = toVectorLiteral(queryVector);
+
+    const rows = await prisma.$queryRaw<RankedContent[]>`
+      SELECT "contentType", "contentId",
+        1 - ("embedding" <=> ${vector}::vector) AS "score"
+      FROM "content_embeddings"
+      WHERE "userId" = ${userId}
+        AND "model" = ${llmProvider.embeddingModel}
+        AND "contentType" IN (${Prisma.join(types)})
+        AND "embedding" IS NOT NULL
+      ORDER BY "embedding" <=> ${vector}::vector
+      LIMIT ${limit}`;
+
+    return rows
+      .map((row) => ({ ...row, score: Number(row.score) }))
+      .filter((row) => row.score >= config.semanticSearch.minScore);
+  }
+
+  private async searchInProcess(
+    userId: string,
+    queryVector: number[],
+    types: SearchContentType[],
+    limit: number
+  ): Promise<RankedContent[]> {
+    const rows = await prisma.contentEmbedding.findMany({
+      where: {
+        userId,
+        model: llmProvider.embeddingModel,
+        contentType: { in: types },
+      },
+      select: { contentType: true, contentId: true, vector: true },
+    });
+
+    const index = new InMemoryVectorIndex<{
+      contentType: SearchContentType;
+      contentId: string;
+    }>();
+    for (const row of rows) {
+      index.add(
+        {
+          contentType: row.contentType as SearchContentType,
+          contentId: row.contentId,
+        },
+        row.vector
+      );
+    }
+
+    return index
+      .search(queryVector, limit, config.semanticSearch.minScore)
+      .map(({ item, score }) => ({ ...item, score }));
+  }
+
+  // Load ranked items for display, dropping (and cleaning up) deleted ones
+  private async hydrate(
+    userId: string,
+    ranked: RankedContent[]
+  ): Promise<SemanticSearchHit[]> {
+    const idsOf = (type: SearchContentType) =>
+      ranked
+        .filter((item) => item.contentType === type)
+        .map((item) => item.contentId);
+
+    const [summaries, posts, articles] = await Promise.all([
+      prisma.summary.findMany({
+        where: { id: { in: idsOf("summary") }, userId },
+      }),
+      prisma.linkedinPost.findMany({
+        where: { id: { in: idsOf("linkedin_post") }, userId },
+      }),
+      prisma.websiteSummary.findMany({
+        where: { id: { in: idsOf("website_summary") }, userId },
+      }),
+    ]);
+
+    const hits = new Map<string, Omit<SemanticSearchHit, "score">>();
+
+    for (const summary of summaries) {
+      hits.set(`summary:${summary.id}`, {
+        type: "summary",
+        id: summary.id,
+        title: summary.title,
+        snippet: toSnippet(summary.fullSummary),
+        url: summary.videoUrl,
+        createdAt: summary.createdAt,
+      });
+    }
+    for (const post of posts) {
+      hits.set(`linkedin_post:${post.id}`, {
+        type: "linkedin_post",
+        id: post.id,
+        title: post.title || `Post by ${post.author}`,
+        snippet: toSnippet(post.content),
+        url: post.postUrl,
+        createdAt: post.savedAt,
+      });
+    }
+    for (const article of articles) {
+      hits.set(`website_summary:${article.id}`, {
+        type: "website_summary",
+        id: article.id,
+        title: article.title,
+        snippet: toSnippet(
+          article.excerpt || article.textContent || article.content
+        ),
+        url: article.url,
+        createdAt: article.savedAt,
+      });
+    }
+
+    const deleted = ranked.filter(
+      (item) => !hits.has(`${item.contentType}:${item.contentId}`)
+    );
+    deleted.forEach((item) =>
+      this.indexInBackground(item.contentType, item.contentId)
+    );
+
+    return ranked.flatMap((item) => {
+      const hit = hits.get(`${item.contentType}:${item.contentId}`);
+      return hit ? [{ ...hit, score: item.score }] : [];
+    });
+  }
+
+  // Text that represents each kind of saved item
+  private async loadContent(
+    contentType: SearchContentType,
+    contentId: string
+  ): Promise<EmbeddableContent | null> {
+    switch (contentType) {
+      case "summary": {
+        const summary = await prisma.summary.findUnique({
+          where: { id: contentId },
+        });
+        return summary
+          ? {
+              userId: summary.userId,
+              text: [
+                summary.title,
+                summary.videoTitle,
+                summary.channelName,
+                summary.tags.join(", "),
+                summary.fullSummary,
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            }
+          : null;
+      }
+      case "linkedin_post": {
+        const post = await prisma.linkedinPost.findUnique({
+          where: { id: contentId },
+        });
+        return post
+          ? {
+              userId: post.userId,
+              text: [
+                post.title,
+                post.author,
+                post.tags.join(", "),
+                post.content,
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            }
+          : null;
+      }
+      case "website_summary": {
+        const article = await prisma.websiteSummary.findUnique({
+          where: { id: contentId },
+        });
+        return article
+          ? {
+              userId: article.userId,
+              text: [
+                article.title,
+                article.websiteName,
+                article.byline,
+                article.tags.join(", "),
+                article.textContent || article.content.replace(/<[^>]*>/g, " "),
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            }
+          : null;
+      }
+    }
+  }
+
+  // Embed texts with the configured provider and record the usage
+  private async embed(input: string[], userId: string): Promise<number[][]> {
+    const result = await llmProvider.embed({ input });
+
+    if (
+      result.embeddings.length !== input.length ||
+      result.embeddings.some((vector) => vector.length === 0)
+    ) {
+      throw new AppError("Embedding provider returned no vectors", 502);
+    }
+
+    const promptTokens =
+      result.promptTokens ??
+      input.reduce((total, text) => total + countTokens(text), 0);
+
+    try {
+      await prisma.openAIUsage.create({
+        data: {
+          userId,
+          operation: "embedding",
+          model: result.model,
+          promptTokens,
+          completionTokens: 0,
+          totalTokens: promptTokens,
+        },
+      });
+    } catch (error) {
+      logger.warn("Failed to track embedding usage", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+    }
+
+    return result.embeddings;
+  }
+
+  // The embedding column only exists when pgvector was available at migration
+  private hasPgvector(): Promise<boolean> {
+    if (!this.pgvectorCheck) {
+      this.pgvectorCheck = prisma.$queryRaw<{ exists: boolean }[]>`
+        SELECT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'content_embeddings' AND column_name = 'embedding'
+        ) AS "exists"`
+        .then((rows) => rows[0]?.exists === true)
+        .catch((error) => {
+          this.pgvectorCheck = undefined; // Check again on the next call
+          logger.warn("Failed to detect pgvector", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          return false;
+        });
+    }
+
+    return this.pgvectorCheck;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
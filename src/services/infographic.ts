@@ -1,4 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GoogleGenAI } from "@google/genai";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { prisma } from "../config/database";
@@ -6,6 +6,13 @@ import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
 import { ServiceResponse } from "../types";
+import { promptRegistryService } from "./promptRegistry";
+import { promptLabel, renderTemplate } from "../utils/promptTemplates";
+import {
+  CircuitBreaker,
+  ProviderError,
+  callWithPolicy,
+} from "../utils/resilience";
 
 export interface InfographicGenerationRequest {
   summaryId: string;
@@ -20,6 +27,10 @@ export interface InfographicGenerationResponse {
 export class InfographicService {
   private ai: GoogleGenAI;
   private uploadsDir: string;
+  private breaker = new CircuitBreaker("infographic", "Image generation", {
+    failureThreshold: config.resilience.failureThreshold,
+    resetTimeoutMs: config.resilience.resetTimeoutMs,
+  });
 
   constructor() {
     // Initialize Google GenAI
@@ -41,6 +52,8 @@ export class InfographicService {
     userId: string,
     data: InfographicGenerationRequest
   ): Promise<ServiceResponse<InfographicGenerationResponse>> {
+    let promptVersion: string | undefined;
+
     try {
       logger.info("Starting infographic generation", {
         userId,
@@ -91,10 +104,16 @@ export class InfographicService {
       });
 
       // Create prompt for infographic generation
-      const prompt = this.createInfographicPrompt(
-        transcriptText,
-        summary.videoTitle
+      const template = await promptRegistryService.resolve(
+        "infographic",
+        userId
       );
+      const variables = {
+        title: summary.videoTitle,
+        transcript: transcriptText,
+      };
+      const prompt = renderTemplate(template.template, variables);
+      promptVersion = promptLabel(template);
 
       logger.info("Generating infographic with Google AI", {
         userId,
@@ -104,17 +123,45 @@ export class InfographicService {
 
       // Generate image using Gemini 3 Pro Image (Nano Banana Pro)
       // State-of-the-art image generation with thinking mode
-      const response = await this.ai.models.generateContent({
-        model: "gemini-3-pro-image-preview",
-        contents: prompt,
-        config: {
-          responseModalities: ["TEXT", "IMAGE"], // BOTH required for this model
-          imageConfig: {
-            aspectRatio: "16:9",
-            imageSize: "2K",
-          },
+      const response = await callWithPolicy(
+        this.breaker,
+        {
+          timeoutMs: config.resilience.infographicTimeoutMs,
+          retries: config.resilience.retries,
+          baseDelayMs: config.resilience.baseDelayMs,
+          maxDelayMs: config.resilience.maxDelayMs,
         },
-      });
+        async (signal) => {
+          try {
+            return await this.ai.models.generateContent({
+              model: "gemini-3-pro-image-preview",
+              contents: prompt,
+              config: {
+                ...(template.system && {
+                  systemInstruction: renderTemplate(
+                    template.system,
+                    variables
+                  ),
+                }),
+                responseModalities: ["TEXT", "IMAGE"], // BOTH required for this model
+                imageConfig: {
+                  aspectRatio: "16:9",
+                  imageSize: "2K",
+                },
+                abortSignal: signal,
+              },
+            });
+          } catch (error) {
+            if (error instanceof ApiError) {
+              throw new ProviderError(
+                `Google GenAI API error: ${error.status}`,
+                error.status
+              );
+            }
+            throw error;
+          }
+        }
+      );
 
       // Extract image from response parts
       if (!response.candidates || response.candidates.length === 0) {
@@ -222,6 +269,7 @@ export class InfographicService {
         outputTokens,
         totalTokens,
         status: "success",
+        promptVersion,
       });
 
       logger.info("Infographic generated successfully", {
@@ -262,6 +310,7 @@ export class InfographicService {
           status: "failed",
           errorMessage:
             error instanceof Error ? error.message : "Unknown error",
+          promptVersion,
         });
       } catch (trackError) {
         logger.warn("Failed to track image generation error", { trackError });
@@ -273,20 +322,6 @@ export class InfographicService {
     }
   }
 
-  /**
-   * Create a prompt for infographic generation
-   */
-  private createInfographicPrompt(
-    transcript: string,
-    videoTitle: string
-  ): string {
-    return `Generate Image :- Take the following transcript and generate a detailed infographic image.
-    Video Title: ${videoTitle}
-    Transcript:
-    ${transcript}
-`;
-  }
-
   /**
    * Track image generation usage in the database
    */
@@ -304,6 +339,7 @@ export class InfographicService {
     totalTokens?: number;
     status: string;
     errorMessage?: string;
+    promptVersion?: string;
   }): Promise<void> {
     try {
       // Get user email if not provided
@@ -333,6 +369,7 @@ export class InfographicService {
           errorMessage: data.errorMessage,
           model: "gemini-3-pro-image-preview",
           operation: "infographic_generation",
+          promptVersion: data.promptVersion,
         },
       });
 
@@ -2,6 +2,8 @@ import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
+import { embeddingService } from "./embedding";
+import { tagService } from "./tag";
 import {
   ServiceResponse,
   PaginatedResponse,
@@ -11,6 +13,7 @@ import {
   LinkedinPostQueryParams,
   LinkedinPostStats,
 } from "../types";
+import { normalizeTags } from "../utils/tags";
 
 export class LinkedinService {
   // Save a LinkedIn post
@@ -41,6 +44,8 @@ export class LinkedinService {
         };
       }
 
+      const tags = normalizeTags(data.tags);
+
       // Create new post
       const post = await prisma.linkedinPost.create({
         data: {
@@ -56,9 +61,19 @@ export class LinkedinService {
           platform: data.platform || "linkedin",
           engagement: data.engagement as any,
           metadata: data.metadata as any,
+          tags,
         },
       });
 
+      embeddingService.indexInBackground("linkedin_post", post.id);
+
+      // Suggest tags when the user did not pick any
+      if (tags.length > 0) {
+        await tagService.addToVocabulary(userId, tags);
+      } else {
+        tagService.autoTagInBackground("linkedin_post", post.id);
+      }
+
       logger.info("LinkedIn post saved successfully", {
         userId,
         postId: post.id,
@@ -92,6 +107,7 @@ export class LinkedinService {
         limit = 20,
         search,
         author,
+        tags,
         startDate,
         endDate,
         sortBy = "savedAt",
@@ -104,6 +120,7 @@ export class LinkedinService {
         ...(author && {
           author: { contains: author, mode: "insensitive" },
         }),
+        ...(tags?.length && { tags: { hasEvery: tags } }),
         ...(startDate &&
           endDate && {
             savedAt: {
@@ -219,9 +236,13 @@ export class LinkedinService {
           metadata: data.metadata
             ? (data.metadata as any)
             : existingPost.metadata,
+          tags: data.tags ? normalizeTags(data.tags) : existingPost.tags,
         },
       });
 
+      await tagService.addToVocabulary(userId, updatedPost.tags);
+      embeddingService.indexInBackground("linkedin_post", postId);
+
       logger.info("LinkedIn post updated", {
         userId,
         postId,
@@ -442,6 +463,7 @@ export class LinkedinService {
       platform: post.platform,
       engagement: this.parseJson(post.engagement),
       metadata: this.parseJson(post.metadata),
+      tags: post.tags,
       savedAt: post.savedAt,
       createdAt: post.createdAt,
       updatedAt: post.updatedAt,
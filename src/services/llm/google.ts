@@ -0,0 +1,152 @@
+import {
+  ApiError,
+  Content,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GoogleGenAI,
+} from "@google/genai";
+import { ProviderError } from "../../utils/resilience";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResult,
+  LLMProvider,
+  LLMUsage,
+} from "../../types";
+
+/**
+ * Google GenAI (Gemini) provider
+ */
+export class GoogleGenAIProvider implements LLMProvider {
+  readonly name = "google" as const;
+  readonly model: string;
+  readonly embeddingModel: string;
+  private ai: GoogleGenAI;
+
+  constructor(options: {
+    apiKey: string;
+    model: string;
+    embeddingModel: string;
+  }) {
+    this.ai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model;
+    this.embeddingModel = options.embeddingModel;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const model = request.model || this.model;
+
+    // Gemini takes system prompts separately and calls the assistant "model"
+    const systemInstruction = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    const contents: Content[] = request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [{ text: message.content }],
+      }));
+
+    const generationConfig: GenerateContentConfig = {
+      ...(systemInstruction && { systemInstruction }),
+      ...(request.jsonResponse && { responseMimeType: "application/json" }),
+      ...(request.maxTokens && { maxOutputTokens: request.maxTokens }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      abortSignal: request.signal,
+    };
+
+    try {
+      if (request.onContent) {
+        const stream = await this.ai.models.generateContentStream({
+          model,
+          contents,
+          config: generationConfig,
+        });
+
+        let content = "";
+        let usage: LLMUsage | undefined;
+
+        for await (const chunk of stream) {
+          const delta = chunk.text;
+          if (delta) {
+            content += delta;
+            request.onContent(delta);
+          }
+          usage = this.mapUsage(chunk) ?? usage;
+        }
+
+        return { content, provider: this.name, model, usage };
+      }
+
+      const response = await this.ai.models.generateContent({
+        model,
+        contents,
+        config: generationConfig,
+      });
+
+      return {
+        content: response.text ?? "",
+        provider: this.name,
+        model,
+        usage: this.mapUsage(response),
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ProviderError(
+          `Google GenAI API error: ${error.status}`,
+          error.status
+        );
+      }
+      throw error;
+    }
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    const model = request.model || this.embeddingModel;
+
+    try {
+      const response = await this.ai.models.embedContent({
+        model,
+        contents: request.input,
+        config: { abortSignal: request.signal },
+      });
+
+      return {
+        embeddings: (response.embeddings ?? []).map(
+          (embedding) => embedding.values ?? []
+        ),
+        provider: this.name,
+        model,
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ProviderError(
+          `Google GenAI API error: ${error.status}`,
+          error.status
+        );
+      }
+      throw error;
+    }
+  }
+
+  private mapUsage(response: GenerateContentResponse): LLMUsage | undefined {
+    const metadata = response.usageMetadata;
+    if (!metadata) {
+      return undefined;
+    }
+
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const completionTokens = metadata.candidatesTokenCount ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens,
+    };
+  }
+}
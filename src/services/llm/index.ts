@@ -0,0 +1,81 @@
+import { config } from "../../config";
+import { logger } from "../../config/logger";
+import { LLMProvider } from "../../types";
+import { GoogleGenAIProvider } from "./google";
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import { ResilientLLMProvider } from "./resilient";
+
+// Models used when LLM_MODEL is not set
+const DEFAULT_MODELS = {
+  openai: "gpt-5-nano",
+  google: "gemini-2.5-flash",
+  local: "llama3.1",
+};
+
+// Embedding models used when EMBEDDING_MODEL is not set
+const DEFAULT_EMBEDDING_MODELS = {
+  openai: "text-embedding-3-small",
+  google: "text-embedding-004",
+  local: "nomic-embed-text",
+};
+
+// Build the provider selected by LLM_PROVIDER
+export const createLLMProvider = (): LLMProvider => {
+  const { provider } = config.llm;
+  const model = config.llm.model || DEFAULT_MODELS[provider];
+  const embeddingModel =
+    config.llm.embeddingModel || DEFAULT_EMBEDDING_MODELS[provider];
+
+  switch (provider) {
+    case "google":
+      if (!config.llm.googleApiKey) {
+        throw new Error(
+          "GOOGLE_AI_API_KEY is required when LLM_PROVIDER=google"
+        );
+      }
+      return new GoogleGenAIProvider({
+        apiKey: config.llm.googleApiKey,
+        model,
+        embeddingModel,
+      });
+    case "local":
+      return new OpenAICompatibleProvider("local", {
+        baseUrl: config.llm.localBaseUrl,
+        apiKey: config.llm.localApiKey,
+        model,
+        embeddingModel,
+      });
+    case "openai":
+      return new OpenAICompatibleProvider("openai", {
+        baseUrl: "https://api.openai.com/v1",
+        apiKey: config.openai.apiKey,
+        model,
+        embeddingModel,
+      });
+  }
+};
+
+// Every provider call goes through the shared call policy
+export const llmProvider: LLMProvider = new ResilientLLMProvider(
+  createLLMProvider(),
+  {
+    timeoutMs: config.resilience.timeoutMs,
+    retries: config.resilience.retries,
+    baseDelayMs: config.resilience.baseDelayMs,
+    maxDelayMs: config.resilience.maxDelayMs,
+  },
+  {
+    failureThreshold: config.resilience.failureThreshold,
+    resetTimeoutMs: config.resilience.resetTimeoutMs,
+  }
+);
+
+logger.info("LLM provider configured", {
+  provider: llmProvider.name,
+  model: llmProvider.model,
+  embeddingModel: llmProvider.embeddingModel,
+});
+
+export { GoogleGenAIProvider } from "./google";
+export { OpenAICompatibleProvider } from "./openaiCompatible";
+export { ResilientLLMProvider } from "./resilient";
@@ -0,0 +1,237 @@
+import { logger } from "../../config/logger";
+import { AppError } from "../../middleware/errorHandler";
+import { ProviderError, parseRetryAfter } from "../../utils/resilience";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResult,
+  LLMProvider,
+  LLMProviderName,
+  LLMUsage,
+} from "../../types";
+
+interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Chat completions provider for OpenAI and any OpenAI-compatible endpoint
+ * (Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly embeddingModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(name: LLMProviderName, options: OpenAICompatibleOptions) {
+    this.name = name;
+    this.model = options.model;
+    this.embeddingModel = options.embeddingModel;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const model = request.model || this.model;
+    const stream = !!request.onContent;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        ...this.modelParameters(model, request),
+        ...(request.jsonResponse && {
+          response_format: { type: "json_object" },
+        }),
+        ...(stream && {
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw this.responseError(response);
+    }
+
+    if (stream) {
+      const { content, usage } = await this.readStream(
+        response,
+        request.onContent!
+      );
+      return { content, provider: this.name, model, usage };
+    }
+
+    const responseData = await response.json();
+
+    return {
+      content: responseData.choices?.[0]?.message?.content ?? "",
+      provider: this.name,
+      model,
+      usage: this.mapUsage(responseData.usage),
+    };
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    const model = request.model || this.embeddingModel;
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ model, input: request.input }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw this.responseError(response);
+    }
+
+    const responseData = await response.json();
+    const data: { index: number; embedding: number[] }[] =
+      responseData.data ?? [];
+
+    return {
+      embeddings: [...data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding),
+      provider: this.name,
+      model,
+      promptTokens: responseData.usage?.prompt_tokens,
+    };
+  }
+
+  // GPT-5 models on OpenAI take reasoning controls instead of a temperature
+  private modelParameters(
+    model: string,
+    request: LLMCompletionRequest
+  ): Record<string, unknown> {
+    if (this.name === "openai" && model.startsWith("gpt-5")) {
+      return {
+        reasoning_effort: "minimal",
+        verbosity: "high",
+        ...(request.maxTokens && { max_completion_tokens: request.maxTokens }),
+      };
+    }
+
+    return {
+      ...(request.maxTokens && { max_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+    };
+  }
+
+  // Read a streamed chat completion, forwarding content as it arrives
+  private async readStream(
+    response: Response,
+    onContent: (delta: string) => void
+  ): Promise<{ content: string; usage?: LLMUsage }> {
+    if (!response.body) {
+      throw new AppError(
+        `Empty response stream from ${this.displayName()}`,
+        500
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let content = "";
+    let usage: LLMUsage | undefined;
+    let pending = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) {
+          continue;
+        }
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") {
+          continue;
+        }
+
+        let event;
+        try {
+          event = JSON.parse(payload);
+        } catch {
+          // A malformed line loses at most one delta; keep reading the rest
+          logger.warn(
+            `Skipping unparseable stream line from ${this.displayName()}`,
+            {
+              line: payload.slice(0, 200),
+            }
+          );
+          continue;
+        }
+
+        const delta: string | undefined = event.choices?.[0]?.delta?.content;
+
+        if (delta) {
+          content += delta;
+          onContent(delta);
+        }
+
+        if (event.usage) {
+          usage = this.mapUsage(event.usage);
+        }
+      }
+    }
+
+    return { content, usage };
+  }
+
+  private mapUsage(usage?: ChatCompletionUsage): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  private responseError(response: Response): ProviderError {
+    return new ProviderError(
+      `${this.displayName()} API error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  private displayName(): string {
+    return this.name === "openai" ? "OpenAI" : "Local LLM";
+  }
+}
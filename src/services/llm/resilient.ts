@@ -0,0 +1,63 @@
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResult,
+  LLMProvider,
+  LLMProviderName,
+} from "../../types";
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  RetryPolicy,
+  callWithPolicy,
+} from "../../utils/resilience";
+
+/**
+ * Runs every call to a provider under the shared call policy: a deadline
+ * per attempt, retries with backoff and a circuit breaker
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly embeddingModel: string;
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private provider: LLMProvider,
+    private policy: RetryPolicy,
+    breakerOptions: CircuitBreakerOptions
+  ) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.embeddingModel = provider.embeddingModel;
+    this.breaker = new CircuitBreaker("llm", "The AI service", breakerOptions);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    // Output already passed on to the caller cannot be taken back
+    let streamed = false;
+    const onContent =
+      request.onContent &&
+      ((delta: string) => {
+        streamed = true;
+        request.onContent!(delta);
+      });
+
+    return callWithPolicy(
+      this.breaker,
+      this.policy,
+      (signal) => this.provider.complete({ ...request, signal, onContent }),
+      { signal: request.signal, canRetry: () => !streamed }
+    );
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    return callWithPolicy(
+      this.breaker,
+      this.policy,
+      (signal) => this.provider.embed({ ...request, signal }),
+      { signal: request.signal }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
@@ -8,21 +8,103 @@ import {
   VideoMetadata,
   OpenAISummaryResponse,
   ServiceResponse,
-  MAX_TRANSCRIPT_LENGTH,
+  GenerateSummaryOptions,
+  SummaryProgressEvent,
+  LLMCompletionResult,
+  LLMMessage,
+  LLMUsage,
+  SummaryMode,
+  SummaryTranslationContent,
+  SummaryModeContent,
+  SummaryChatContext,
+  StudyMaterialContext,
+  StudyMaterialKind,
+  SynthesisContext,
+  PromptName,
+  ResolvedPrompt,
+  SummaryPrompts,
 } from "../types";
-import { tokenService } from "./token";
+import { tokenService, TokenUsage } from "./token";
 import { tokenUsageService } from "./tokenUsage";
+import { llmProvider } from "./llm";
+import { promptRegistryService } from "./promptRegistry";
+import { SummarySectionStreamParser } from "../utils/summarySectionParser";
+import { toItemText } from "../utils/summarySections";
+import { TranscriptCitationResolver } from "../utils/transcriptCitations";
+import { formatTranscriptLines } from "../utils/transcriptCleanup";
+import { MergedChunkSummary, mergeChunkSummaries } from "../utils/summaryMerge";
+import {
+  ChunkSummaryOutput,
+  chatAnswerOutputSchema,
+  chunkSummaryOutputSchema,
+  parseLLMOutput,
+  studyMaterialOutputSchemas,
+  SummaryOutput,
+  summaryOutputSchema,
+  SynthesisOutput,
+  synthesisOutputSchema,
+  tagsOutputSchema,
+  translationOutputSchema,
+} from "../utils/llmOutput";
+import {
+  DEFAULT_SUMMARY_MODE,
+  SUMMARY_MODE_DEFINITIONS,
+  formatModeInstructions,
+  formatModeStructure,
+  formatModeSummary,
+  normalizeModeContent,
+} from "../utils/summaryModes";
+import { DEFAULT_LANGUAGE, languageName } from "../utils/languages";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { MAX_TAGS, normalizeTags } from "../utils/tags";
+import {
+  joinPromptLabels,
+  promptLabel,
+  renderTemplate,
+} from "../utils/promptTemplates";
+import {
+  countChatTokens,
+  countTokens,
+  truncateToTokens,
+} from "../utils/tokenizer";
 
 interface OpenAICompletionRequest {
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
+  messages: LLMMessage[];
   maxTokens?: number;
   temperature?: number;
   model?: string;
 }
 
+interface ChatCompletionCall {
+  operation: string; // Operation name recorded with usage
+  userId?: string;
+  videoMetadata?: VideoMetadata; // Omitted for content that is not a video
+  signal?: AbortSignal;
+  onContent?: (delta: string) => void; // Streams the response when provided
+  expectedOutputTokens?: number; // When the reply size does not follow the prompt size
+  promptVersion?: string; // Template used, recorded with usage
+}
+
+// Expected completion size relative to the prompt, within fixed bounds
+const OUTPUT_TOKEN_RATIO = 0.15;
+const MIN_OUTPUT_TOKENS = 800;
+const MAX_OUTPUT_TOKENS = 4000;
+const TRANSLATION_OUTPUT_RATIO = 1.5;
+const CHAT_OUTPUT_TOKENS = 600;
+const SYNTHESIS_OUTPUT_TOKENS = 3000;
+const TAGGING_INPUT_TOKENS = 3000; // Longer content is cut before tagging
+const TAGGING_OUTPUT_TOKENS = 100;
+const CONNECTION_TEST_TIMEOUT_MS = 10000;
+// Completion tokens expected per generated flashcard or quiz question
+const STUDY_ITEM_OUTPUT_TOKENS: Record<StudyMaterialKind, number> = {
+  flashcards: 80,
+  quiz: 160,
+};
+const STUDY_MATERIAL_PROMPTS: Record<StudyMaterialKind, PromptName> = {
+  flashcards: "study_flashcards",
+  quiz: "study_quiz",
+};
+
 interface OpenAICompletionResponse {
   trim(): string | undefined;
   content: string;
@@ -33,24 +115,12 @@ interface OpenAICompletionResponse {
   };
 }
 export class OpenAIService {
-  private client: OpenAI;
-
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
-  }
-
-  // Track OpenAI usage
+  // Track LLM usage
   private async trackUsage(
     userId: string,
     operation: string,
     model: string,
-    usage: {
-      prompt_tokens: number;
-      completion_tokens: number;
-      total_tokens: number;
-    },
+    usage: LLMUsage,
     videoId?: string,
     summaryId?: string
   ): Promise<void> {
@@ -60,9 +130,9 @@ export class OpenAIService {
           userId,
           operation,
           model,
-          promptTokens: usage.prompt_tokens,
-          completionTokens: usage.completion_tokens,
-          totalTokens: usage.total_tokens,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
           videoId,
           summaryId,
         },
@@ -72,9 +142,9 @@ export class OpenAIService {
         userId,
         operation,
         model,
-        promptTokens: usage.prompt_tokens,
-        completionTokens: usage.completion_tokens,
-        totalTokens: usage.total_tokens,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
       });
     } catch (error) {
       logger.error("Failed to track OpenAI usage", {
@@ -90,10 +160,17 @@ export class OpenAIService {
   async generateSummary(
     transcript: TranscriptSegment[],
     videoMetadata: VideoMetadata,
-    userId?: string
+    userId?: string,
+    options: GenerateSummaryOptions = {}
   ): Promise<ServiceResponse<OpenAISummaryResponse>> {
+    const prompts =
+      options.prompts ??
+      (await promptRegistryService.resolveSummaryPrompts(userId));
+
     try {
       const transcriptText = this.formatTranscriptForAI(transcript);
+      const mode = options.mode ?? DEFAULT_SUMMARY_MODE;
+      const language = options.language ?? DEFAULT_LANGUAGE;
 
       // Check token availability for all users (FREE, LITE, PRO)
       if (userId) {
@@ -104,8 +181,12 @@ export class OpenAIService {
 
         if (user) {
           // Estimate token usage
-          const estimatedUsage =
-            tokenService.estimateTokenUsage(transcriptText);
+          const estimatedUsage = this.estimateSummaryUsage(
+            transcript,
+            mode,
+            language,
+            prompts
+          );
 
           // Check if user has enough tokens
           const tokenStatus = await tokenService.checkTokenAvailability(
@@ -134,165 +215,61 @@ export class OpenAIService {
         }
       }
 
-      if (transcriptText.length > MAX_TRANSCRIPT_LENGTH) {
+      if (this.needsChunking(transcriptText)) {
         // Chunk large transcripts
         return this.generateSummaryFromChunks(
           transcript,
           videoMetadata,
-          userId
+          userId,
+          options,
+          prompts
         );
       }
 
-      const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
-      const OPENAI_API_KEY = config.openai.apiKey;
+      await this.emitProgress(options, {
+        type: "chunk_started",
+        chunkIndex: 1,
+        totalChunks: 1,
+      });
 
-      const response = await fetch(OPENAI_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
+      const sectionParser = this.createSectionParser(transcript, options);
+
+      const { output, usage } = await this.requestValidatedCompletion(
+        this.buildSummaryMessages(
+          prompts.single,
+          transcriptText,
+          mode,
+          language
+        ),
+        {
+          operation: "summary_generation",
+          userId,
+          videoMetadata,
+          signal: options.signal,
+          onContent: sectionParser && ((delta) => sectionParser.write(delta)),
+          promptVersion: promptLabel(prompts.single),
         },
-        body: JSON.stringify({
-          model: "gpt-5-nano",
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are a helpful assistant that creates structured summaries in JSON format. Always respond with valid JSON only.",
-            },
-            {
-              role: "user",
-              content: `Analyze this transcript and create a comprehensive summary in JSON format.
-
-**REQUIRED JSON STRUCTURE:**
-{
-  "keyTakeaways": [
-    "First key takeaway - be very specific and detailed with full context",
-    "Second key takeaway - be very specific and detailed with full context",
-    "Third key takeaway - be very specific and detailed with full context"
-  ],
-  "quotes": [
-    "First memorable quote from the transcript",
-    "Second memorable quote from the transcript",
-    "Third memorable quote from the transcript"
-  ],
-  "examples": [
-    "First example or case study mentioned with full description",
-    "Second example or case study mentioned with full description",
-    "Third example or case study mentioned with full description"
-  ],
-  "detailedNotes": [
-    {
-      "title": "Topic or Section Title",
-      "content": "Detailed explanation of this topic with full context and key details"
-    }
-  ]
-}
-
-**INSTRUCTIONS:**
-1. Extract exactly 3 key takeaways (most important insights)
-2. Extract exactly 3 memorable quotes (actual quotes from the transcript)
-3. Extract exactly 3 examples (case studies, projects, or specific examples mentioned)
-4. Create multiple detailed notes covering all major topics (as many as needed)
-5. Make each item detailed and comprehensive
-6. Return ONLY valid JSON, no additional text
+        summaryOutputSchema(mode)
+      );
 
-**Transcript to analyze:**
-${transcriptText}`,
-            },
-          ],
-          reasoning_effort: "minimal",
-          verbosity: "high",
-          response_format: { type: "json_object" },
-        }),
+      await this.emitProgress(options, {
+        type: "chunk_finished",
+        chunkIndex: 1,
+        totalChunks: 1,
       });
 
-      if (!response.ok) {
-        throw new AppError(
-          `OpenAI API error: ${response.status}`,
-          response.status
-        );
-      }
-
-      const responseData = await response.json();
-      const responseText = responseData.choices?.[0]?.message?.content;
-
-      if (!responseText) {
-        throw new AppError("Empty response from OpenAI", 500);
-      }
-
-      // Track OpenAI usage if userId is provided
-      if (userId && responseData.usage) {
-        try {
-          await this.trackUsage(
-            userId,
-            "summary_generation",
-            "gpt-5-nano",
-            responseData.usage,
-            videoMetadata.videoId
-          );
-
-          // Consume tokens for all users (FREE, LITE, PRO)
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-            select: { plan: true, email: true },
-          });
-
-          if (user) {
-            try {
-              await tokenService.consumeTokens(userId, {
-                inputTokens: responseData.usage.prompt_tokens,
-                outputTokens: responseData.usage.completion_tokens,
-              });
-            } catch (tokenError) {
-              logger.warn("Failed to consume tokens", {
-                tokenError,
-                userId,
-                usage: responseData.usage,
-              });
-            }
-
-            // Track token usage in the new TOKEN_USAGE table
-            try {
-              await tokenUsageService.trackTokenUsage({
-                userId,
-                userEmail: user.email,
-                videoId: videoMetadata.videoId,
-                videoUrl:
-                  videoMetadata.url ||
-                  `https://www.youtube.com/watch?v=${videoMetadata.videoId}`,
-                videoTitle: videoMetadata.title,
-                inputTokens: responseData.usage.prompt_tokens,
-                outputTokens: responseData.usage.completion_tokens,
-                model: "gpt-5-nano",
-                status: "success",
-              });
-            } catch (tokenUsageError) {
-              logger.warn("Failed to track token usage in TOKEN_USAGE table", {
-                tokenUsageError,
-                userId,
-              });
-            }
-          }
-        } catch (trackingError) {
-          // Continue operation even if tracking fails
-          logger.warn("Failed to track OpenAI usage", {
-            trackingError,
-            userId,
-          });
-        }
-      }
+      const summaryData = this.buildSummaryResponse(
+        output,
+        transcript,
+        mode,
+        language
+      );
 
-      // Parse the JSON response
-      const summaryData = this.parseJSONResponse(responseText, videoMetadata);
+      summaryData.promptVersion = promptLabel(prompts.single);
 
       // Add usage information to response
-      if (responseData.usage) {
-        summaryData.usage = {
-          promptTokens: responseData.usage.prompt_tokens,
-          completionTokens: responseData.usage.completion_tokens,
-          totalTokens: responseData.usage.total_tokens,
-        };
+      if (usage) {
+        summaryData.usage = usage;
       }
 
       logger.info("Summary generated successfully", {
@@ -300,7 +277,7 @@ ${transcriptText}`,
         keyPointsCount: summaryData.keyPoints.length,
         tagsCount: summaryData.tags.length,
         transcriptLength: transcriptText.length,
-        usage: responseData.usage,
+        usage,
       });
 
       return { success: true, data: summaryData };
@@ -311,8 +288,8 @@ ${transcriptText}`,
         transcriptLength: transcript.length,
       });
 
-      // Track failed attempts in TOKEN_USAGE table
-      if (userId) {
+      // Track failed attempts in TOKEN_USAGE table (cancellations were settled as partial)
+      if (userId && !this.isCancellation(error)) {
         try {
           const user = await prisma.user.findUnique({
             where: { id: userId },
@@ -330,10 +307,11 @@ ${transcriptText}`,
               videoTitle: videoMetadata.title,
               inputTokens: 0,
               outputTokens: 0,
-              model: "gpt-5-nano",
+              model: llmProvider.model,
               status: "failed",
               errorMessage:
                 error instanceof Error ? error.message : "Unknown error",
+              promptVersion: promptLabel(prompts.single),
             });
           }
         } catch (tokenUsageError) {
@@ -356,331 +334,120 @@ ${transcriptText}`,
   private async generateSummaryFromChunks(
     transcript: TranscriptSegment[],
     videoMetadata: VideoMetadata,
-    userId?: string
+    userId: string | undefined,
+    options: GenerateSummaryOptions,
+    prompts: SummaryPrompts
   ): Promise<ServiceResponse<OpenAISummaryResponse>> {
+    const promptVersion = joinPromptLabels([prompts.chunk, prompts.final]);
+
     try {
       const chunks = this.chunkTranscript(transcript);
-      const chunkSummaries: string[] = [];
-
-      // Process each chunk with the same detailed prompt
-      for (let i = 0; i < chunks.length; i++) {
-        try {
-          const chunkText = this.formatTranscriptForAI(chunks[i]);
-
-          logger.info("Processing chunk", {
-            chunkIndex: i + 1,
-            totalChunks: chunks.length,
-            chunkLength: chunkText.length,
-          });
-
-          const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
-          const OPENAI_API_KEY = config.openai.apiKey;
-
-          const response = await fetch(OPENAI_API_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${OPENAI_API_KEY}`,
-            },
-            body: JSON.stringify({
-              model: "gpt-5-nano",
-              messages: [
-                {
-                  role: "system",
-                  content:
-                    "You are a helpful assistant that creates structured summaries in JSON format. Always respond with valid JSON only.",
-                },
-                {
-                  role: "user",
-                  content: `Analyze this transcript chunk (Part ${i + 1} of ${
-                    chunks.length
-                  }) and extract key information in JSON format.
-
-**REQUIRED JSON STRUCTURE:**
-{
-  "keyTakeaways": ["insight 1", "insight 2", ...],
-  "quotes": ["quote 1", "quote 2", ...],
-  "examples": ["example 1", "example 2", ...],
-  "detailedNotes": [
-    { "title": "Topic 1", "content": "Detailed explanation..." },
-    { "title": "Topic 2", "content": "Detailed explanation..." }
-  ]
-}
-
-Extract all relevant information from this chunk. Return ONLY valid JSON, no additional text.
-
-Transcript Chunk ${i + 1}/${chunks.length}:
-${chunkText}`,
-                },
-              ],
-              reasoning_effort: "minimal",
-              verbosity: "high",
-              response_format: { type: "json_object" },
-            }),
-          });
-
-          if (!response.ok) {
-            throw new AppError(
-              `OpenAI API error for chunk ${i + 1}: ${response.status}`,
-              response.status
-            );
-          }
-
-          const responseData = await response.json();
-          const chunkSummary = responseData.choices?.[0]?.message?.content;
-
-          // Track usage for chunk processing
-          if (userId && responseData.usage) {
-            try {
-              await this.trackUsage(
-                userId,
-                "chunk_summary",
-                "gpt-5-nano",
-                responseData.usage,
-                videoMetadata.videoId
-              );
-
-              // Consume tokens for all users (FREE, LITE, PRO)
-              const user = await prisma.user.findUnique({
-                where: { id: userId },
-                select: { plan: true, email: true },
-              });
-
-              if (user) {
-                try {
-                  await tokenService.consumeTokens(userId, {
-                    inputTokens: responseData.usage.prompt_tokens,
-                    outputTokens: responseData.usage.completion_tokens,
-                  });
-                } catch (tokenError) {
-                  logger.warn("Failed to consume tokens for chunk", {
-                    tokenError,
-                    userId,
-                    usage: responseData.usage,
-                  });
-                }
-
-                // Track token usage for this chunk in the TOKEN_USAGE table
-                try {
-                  await tokenUsageService.trackTokenUsage({
-                    userId,
-                    userEmail: user.email,
-                    videoId: videoMetadata.videoId,
-                    videoUrl:
-                      videoMetadata.url ||
-                      `https://www.youtube.com/watch?v=${videoMetadata.videoId}`,
-                    videoTitle: videoMetadata.title,
-                    inputTokens: responseData.usage.prompt_tokens,
-                    outputTokens: responseData.usage.completion_tokens,
-                    model: "gpt-5-nano",
-                    status: "success",
-                  });
-                } catch (tokenUsageError) {
-                  logger.warn(
-                    "Failed to track token usage in TOKEN_USAGE table for chunk",
-                    {
-                      tokenUsageError,
-                      userId,
-                      chunkIndex: i + 1,
-                    }
-                  );
-                }
-              }
-            } catch (trackingError) {
-              logger.warn("Failed to track chunk usage", {
-                trackingError,
-                userId,
-              });
-            }
-          }
+      const mode = options.mode ?? DEFAULT_SUMMARY_MODE;
+      const language = options.language ?? DEFAULT_LANGUAGE;
+
+      // Map: summarize chunks in parallel under the concurrency limit
+      const chunkResults = await mapWithConcurrency(
+        chunks,
+        config.summaryChunking.concurrency,
+        (chunk, i) =>
+          this.summarizeChunk(
+            chunk,
+            i,
+            chunks.length,
+            videoMetadata,
+            userId,
+            options,
+            prompts.chunk
+          )
+      );
 
-          if (chunkSummary) {
-            chunkSummaries.push(chunkSummary);
-          }
+      const chunkSummaries = chunkResults.filter(
+        (summary): summary is ChunkSummaryOutput => !!summary
+      );
 
-          // Add delay to avoid rate limiting
-          if (i < chunks.length - 1) {
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-          }
-        } catch (chunkError) {
-          logger.error("Error processing chunk", {
-            chunkIndex: i + 1,
-            totalChunks: chunks.length,
-            error:
-              chunkError instanceof Error
-                ? chunkError.message
-                : "Unknown error",
-          });
-          // Continue with other chunks even if one fails
-        }
+      if (chunkSummaries.length === 0) {
+        throw new AppError("Failed to summarize any transcript chunk", 502);
       }
 
-      // Combine chunk summaries into final summary using the same detailed prompt
-      const combinedSummary = chunkSummaries.join("\n\n");
-
-      const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
-      const OPENAI_API_KEY = config.openai.apiKey;
+      // Reduce: merge chunk results and drop points repeated across chunks
+      const mergedSummary = mergeChunkSummaries(chunkSummaries);
+      const combinedSummary = JSON.stringify(mergedSummary, null, 2);
 
-      const finalResponse = await fetch(OPENAI_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-5-nano",
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are a helpful assistant that creates structured summaries in JSON format. Always respond with valid JSON only.",
-            },
-            {
-              role: "user",
-              content: `I have processed a long transcript in multiple parts. Here are the JSON summaries from each part:
-
-${combinedSummary}
-
-Now synthesize all parts into a comprehensive final summary in JSON format.
-
-**REQUIRED JSON STRUCTURE:**
-{
-  "keyTakeaways": [
-    "First key takeaway - synthesized from all parts",
-    "Second key takeaway - synthesized from all parts",
-    "Third key takeaway - synthesized from all parts"
-  ],
-  "quotes": [
-    "First memorable quote from the transcript",
-    "Second memorable quote from the transcript",
-    "Third memorable quote from the transcript"
-  ],
-  "examples": [
-    "First example or case study mentioned across all parts",
-    "Second example or case study mentioned across all parts",
-    "Third example or case study mentioned across all parts"
-  ],
-  "detailedNotes": [
-    {
-      "title": "Topic Title",
-      "content": "Detailed explanation synthesizing information from all parts"
-    }
-  ]
-}
-
-**INSTRUCTIONS:**
-1. Synthesize the top 3 key takeaways from all parts
-2. Select the top 3 most memorable quotes from all parts
-3. Select the top 3 best examples from all parts
-4. Create comprehensive detailed notes covering all major topics
-5. Return ONLY valid JSON, no additional text`,
-            },
-          ],
-          reasoning_effort: "minimal",
-          verbosity: "high",
-          response_format: { type: "json_object" },
-        }),
+      await this.emitProgress(options, {
+        type: "finalizing",
+        totalChunks: chunks.length,
       });
 
-      if (!finalResponse.ok) {
-        throw new AppError(
-          `OpenAI API error for final summary: ${finalResponse.status}`,
-          finalResponse.status
-        );
-      }
+      const sectionParser = this.createSectionParser(transcript, options);
 
-      const finalResponseData = await finalResponse.json();
+      let finalOutput: SummaryOutput | MergedChunkSummary;
+      let finalUsage: LLMUsage | undefined;
 
-      // Track usage for final summary
-      if (userId && finalResponseData.usage) {
-        try {
-          await this.trackUsage(
-            userId,
-            "final_summary",
-            "gpt-5-nano",
-            finalResponseData.usage,
-            videoMetadata.videoId
-          );
-
-          // Consume tokens for all users (FREE, LITE, PRO)
-          const user = await prisma.user.findUnique({
-            where: { id: userId },
-            select: { plan: true, email: true },
-          });
-
-          if (user) {
-            try {
-              await tokenService.consumeTokens(userId, {
-                inputTokens: finalResponseData.usage.prompt_tokens,
-                outputTokens: finalResponseData.usage.completion_tokens,
-              });
-            } catch (tokenError) {
-              logger.warn("Failed to consume tokens for final summary", {
-                tokenError,
-                userId,
-                usage: finalResponseData.usage,
-              });
-            }
+      try {
+        ({ output: finalOutput, usage: finalUsage } =
+          await this.requestValidatedCompletion(
+            this.buildFinalSummaryMessages(
+              prompts.final,
+              combinedSummary,
+              mode,
+              language
+            ),
+            {
+              operation: "final_summary",
+              userId,
+              videoMetadata,
+              signal: options.signal,
+              onContent:
+                sectionParser && ((delta) => sectionParser.write(delta)),
+              promptVersion: promptLabel(prompts.final),
+            },
+            summaryOutputSchema(mode)
+          ));
+      } catch (reduceError) {
+        if (this.isCancellation(reduceError)) {
+          throw reduceError;
+        }
 
-            // Track token usage in the new TOKEN_USAGE table
-            try {
-              await tokenUsageService.trackTokenUsage({
-                userId,
-                userEmail: user.email,
-                videoId: videoMetadata.videoId,
-                videoUrl:
-                  videoMetadata.url ||
-                  `https://www.youtube.com/watch?v=${videoMetadata.videoId}`,
-                videoTitle: videoMetadata.title,
-                inputTokens: finalResponseData.usage.prompt_tokens,
-                outputTokens: finalResponseData.usage.completion_tokens,
-                model: "gpt-5-nano",
-                status: "success",
-              });
-            } catch (tokenUsageError) {
-              logger.warn(
-                "Failed to track token usage in TOKEN_USAGE table for chunked summary",
-                {
-                  tokenUsageError,
-                  userId,
-                }
-              );
-            }
+        // Fall back to the merged chunk notes rather than losing the whole run
+        logger.warn(
+          "Final summary synthesis failed, using merged chunk notes",
+          {
+            error:
+              reduceError instanceof Error
+                ? reduceError.message
+                : "Unknown error",
+            videoId: videoMetadata.videoId,
           }
-        } catch (trackingError) {
-          logger.warn("Failed to track final summary usage", {
-            trackingError,
-            userId,
-          });
-        }
-      }
+        );
 
-      const finalResponseText =
-        finalResponseData.choices?.[0]?.message?.content;
-      if (!finalResponseText) {
-        throw new AppError("Empty response from OpenAI for final summary", 500);
+        finalOutput = {
+          ...mergedSummary,
+          keyTakeaways: mergedSummary.keyTakeaways.slice(0, 3),
+          quotes: mergedSummary.quotes.slice(0, 3),
+          examples: mergedSummary.examples.slice(0, 3),
+        };
       }
 
-      // Parse the JSON response
-      const summaryData = this.parseJSONResponse(
-        finalResponseText,
-        videoMetadata
+      const summaryData = this.buildSummaryResponse(
+        finalOutput,
+        transcript,
+        mode,
+        language
       );
 
+      summaryData.promptVersion = promptVersion;
+
       // Add usage information to response
-      if (finalResponseData.usage) {
-        summaryData.usage = {
-          promptTokens: finalResponseData.usage.prompt_tokens,
-          completionTokens: finalResponseData.usage.completion_tokens,
-          totalTokens: finalResponseData.usage.total_tokens,
-        };
+      if (finalUsage) {
+        summaryData.usage = finalUsage;
       }
 
       logger.info("Chunked summary generated successfully", {
         videoId: videoMetadata.videoId,
-        chunksProcessed: chunks.length,
+        chunksProcessed: chunkSummaries.length,
+        chunksFailed: chunks.length - chunkSummaries.length,
         keyPointsCount: summaryData.keyPoints.length,
-        usage: finalResponseData.usage,
+        usage: finalUsage,
       });
 
       return { success: true, data: summaryData };
@@ -690,8 +457,8 @@ Now synthesize all parts into a comprehensive final summary in JSON format.
         videoId: videoMetadata.videoId,
       });
 
-      // Track failed attempts in TOKEN_USAGE table
-      if (userId) {
+      // Track failed attempts in TOKEN_USAGE table (cancellations were settled as partial)
+      if (userId && !this.isCancellation(error)) {
         try {
           const user = await prisma.user.findUnique({
             where: { id: userId },
@@ -709,10 +476,11 @@ Now synthesize all parts into a comprehensive final summary in JSON format.
               videoTitle: videoMetadata.title,
               inputTokens: 0,
               outputTokens: 0,
-              model: "gpt-5-nano",
+              model: llmProvider.model,
               status: "failed",
               errorMessage:
                 error instanceof Error ? error.message : "Unknown error",
+              promptVersion,
             });
           }
         } catch (tokenUsageError) {
@@ -729,189 +497,985 @@ Now synthesize all parts into a comprehensive final summary in JSON format.
     }
   }
 
-  // Chunk transcript into manageable pieces
-  private chunkTranscript(
-    transcript: TranscriptSegment[]
-  ): TranscriptSegment[][] {
-    const chunks: TranscriptSegment[][] = [];
-    const maxChunkLength = Math.floor(MAX_TRANSCRIPT_LENGTH / 3); // Conservative chunking
+  /**
+   * Translate the text of a summary into another language, keeping the
+   * order of items so citations still line up with the original
+   */
+  async translateSummary(
+    content: SummaryTranslationContent,
+    language: string,
+    videoMetadata: VideoMetadata,
+    userId?: string
+  ): Promise<
+    ServiceResponse<{ content: SummaryTranslationContent; model: string }>
+  > {
+    const prompt = await promptRegistryService.resolve(
+      "summary_translation",
+      userId
+    );
+    const { output, model } = await this.requestValidatedCompletion(
+      this.buildTranslationMessages(prompt, content, language),
+      {
+        operation: "summary_translation",
+        userId,
+        videoMetadata,
+        promptVersion: promptLabel(prompt),
+      },
+      translationOutputSchema(content)
+    );
 
-    let currentChunk: TranscriptSegment[] = [];
-    let currentLength = 0;
+    // Items may come back with the timestamps they were sent with; only the
+    // text is kept. Mode content is normalized against the summary's mode by
+    // the caller.
+    return {
+      success: true,
+      data: {
+        content: {
+          title: output.title,
+          keyTakeaways: output.keyTakeaways.map((item) => toItemText(item)!),
+          quotes: output.quotes.map((item) => toItemText(item)!),
+          examples: output.examples.map((item) => toItemText(item)!),
+          detailedNotes: output.detailedNotes.map(({ title, content }) => ({
+            title,
+            content,
+          })),
+          modeContent: (output.modeContent ?? {}) as SummaryModeContent,
+          chapters: output.chapters.map(({ title, summary }) => ({
+            title,
+            summary,
+          })),
+        },
+        model,
+      },
+    };
+  }
 
-    for (const segment of transcript) {
-      const segmentLength = segment.text.length;
+  /**
+   * Answer a question about a video from the transcript passages retrieved
+   * for it. The answer cites transcript lines inline as [timestamp].
+   */
+  async answerQuestion(
+    context: SummaryChatContext,
+    videoMetadata: VideoMetadata,
+    userId?: string
+  ): Promise<
+    ServiceResponse<{ answer: string; model: string; usage?: LLMUsage }>
+  > {
+    const prompt = await promptRegistryService.resolve("summary_chat", userId);
+    const result = await this.requestValidatedCompletion(
+      this.buildChatMessages(prompt, context, videoMetadata),
+      {
+        operation: "summary_chat",
+        userId,
+        videoMetadata,
+        expectedOutputTokens: CHAT_OUTPUT_TOKENS,
+        promptVersion: promptLabel(prompt),
+      },
+      chatAnswerOutputSchema
+    );
 
-      if (
-        currentLength + segmentLength > maxChunkLength &&
-        currentChunk.length > 0
-      ) {
-        chunks.push([...currentChunk]);
-        currentChunk = [segment];
-        currentLength = segmentLength;
-      } else {
-        currentChunk.push(segment);
-        currentLength += segmentLength;
-      }
-    }
+    return {
+      success: true,
+      data: {
+        answer: result.output.answer,
+        model: result.model,
+        usage: result.usage,
+      },
+    };
+  }
 
-    if (currentChunk.length > 0) {
-      chunks.push(currentChunk);
+  /**
+   * Combine the summaries of several videos into shared themes,
+   * disagreements and one outline, each attributed to its source videos
+   */
+  async synthesizeSummaries(
+    context: SynthesisContext,
+    language: string,
+    userId?: string
+  ): Promise<
+    ServiceResponse<{
+      output: SynthesisOutput;
+      model: string;
+      promptVersion: string;
+    }>
+  > {
+    const prompt = await promptRegistryService.resolve(
+      "summary_synthesis",
+      userId
+    );
+    const { output, model } = await this.requestValidatedCompletion(
+      this.buildSynthesisMessages(prompt, context, language),
+      {
+        operation: "summary_synthesis",
+        userId,
+        expectedOutputTokens: SYNTHESIS_OUTPUT_TOKENS,
+        promptVersion: promptLabel(prompt),
+      },
+      synthesisOutputSchema(context.sources.length)
+    );
+
+    return {
+      success: true,
+      data: { output, model, promptVersion: promptLabel(prompt) },
+    };
+  }
+
+  /**
+   * Generate flashcards or multiple-choice questions about a video. Returns
+   * the raw items, which are validated by the caller.
+   */
+  async generateStudyMaterial(
+    context: StudyMaterialContext,
+    videoMetadata: VideoMetadata,
+    userId?: string
+  ): Promise<ServiceResponse<{ items: unknown[]; model: string }>> {
+    const prompt = await promptRegistryService.resolve(
+      STUDY_MATERIAL_PROMPTS[context.kind],
+      userId
+    );
+    const call: ChatCompletionCall = {
+      operation: `summary_${context.kind}`,
+      userId,
+      videoMetadata,
+      expectedOutputTokens:
+        context.count * STUDY_ITEM_OUTPUT_TOKENS[context.kind],
+      promptVersion: promptLabel(prompt),
+    };
+    const messages = this.buildStudyMaterialMessages(prompt, context);
+
+    if (context.kind === "flashcards") {
+      const result = await this.requestValidatedCompletion(
+        messages,
+        call,
+        studyMaterialOutputSchemas.flashcards
+      );
+      return {
+        success: true,
+        data: { items: result.output.flashcards, model: result.model },
+      };
     }
 
-    return chunks;
+    const result = await this.requestValidatedCompletion(
+      messages,
+      call,
+      studyMaterialOutputSchemas.quiz
+    );
+    return {
+      success: true,
+      data: { items: result.output.questions, model: result.model },
+    };
   }
 
-  // Format transcript segments for AI processing
-  private formatTranscriptForAI(transcript: TranscriptSegment[]): string {
-    return transcript
-      .map((segment) => `[${segment.timestamp}] ${segment.text}`)
-      .join("\n");
+  /**
+   * Propose topical tags for saved content other than video summaries,
+   * such as LinkedIn posts and website articles
+   */
+  async suggestTags(
+    title: string,
+    text: string,
+    userId?: string
+  ): Promise<ServiceResponse<string[]>> {
+    const prompt = await promptRegistryService.resolve(
+      "content_tagging",
+      userId
+    );
+    const { output } = await this.requestValidatedCompletion(
+      this.buildTaggingMessages(prompt, title, text),
+      {
+        operation: "content_tagging",
+        userId,
+        expectedOutputTokens: TAGGING_OUTPUT_TOKENS,
+        promptVersion: promptLabel(prompt),
+      },
+      tagsOutputSchema
+    );
+
+    return { success: true, data: normalizeTags(output.tags, MAX_TAGS) };
   }
 
-  // Create chunk summary prompt
-  private createChunkSummaryPrompt(
-    chunkText: string,
-    chunkNumber: number,
-    totalChunks: number
-  ): string {
-    return `Generate a very very detailed note of all the key points mentioned in this transcript. From that generate the top 3 key takeaways, top 3 memorable quotes, top 3 examples. Present the final output starting with the top 3 key takeaways, top 3 memorable quotes, top 3 examples followed by the detailed note of all the key points.
-                    Transcript: ${chunkText}`;
+  // Call the configured LLM provider and settle token usage for the call.
+  // Requests are streamed when cancellable so partial output can be charged.
+  private async requestChatCompletion(
+    messages: LLMMessage[],
+    call: ChatCompletionCall
+  ): Promise<LLMCompletionResult> {
+    const stream = !!call.signal || !!call.onContent;
+    const estimatedInputTokens = countChatTokens(messages, llmProvider.model);
+    const estimate: TokenUsage = {
+      inputTokens: estimatedInputTokens,
+      outputTokens:
+        call.expectedOutputTokens ??
+        this.expectedOutputTokens(estimatedInputTokens),
+    };
+    let received = "";
+    let result: LLMCompletionResult;
+
+    try {
+      result = await llmProvider.complete({
+        messages,
+        jsonResponse: true,
+        signal: call.signal,
+        onContent: stream
+          ? (delta) => {
+              received += delta;
+              call.onContent?.(delta);
+            }
+          : undefined,
+      });
+    } catch (error) {
+      if (call.signal?.aborted) {
+        // Charge the prompt and whatever the model produced before cancellation
+        if (received.length > 0) {
+          const completionTokens = countTokens(received, llmProvider.model);
+
+          await this.settleUsage(
+            call,
+            llmProvider.model,
+            {
+              promptTokens: estimatedInputTokens,
+              completionTokens,
+              totalTokens: estimatedInputTokens + completionTokens,
+            },
+            estimate,
+            "partial"
+          );
+        }
+
+        throw new AppError(
+          "Summary generation cancelled",
+          499,
+          true,
+          undefined,
+          "GENERATION_CANCELLED"
+        );
+      }
+
+      throw error;
+    }
+
+    if (result.usage) {
+      await this.settleUsage(
+        call,
+        result.model,
+        result.usage,
+        estimate,
+        "success"
+      );
+    }
+
+    return result;
   }
 
-  // Create final summary prompt for chunked content
-  private createFinalSummaryPrompt(
-    combinedSummary: string,
-    videoMetadata: VideoMetadata
-  ): string {
-    return `Generate a very very detailed note of all the key points mentioned in this transcript. From that generate the top 3 key takeaways, top 3 memorable quotes, top 3 examples. Present the final output starting with the top 3 key takeaways, top 3 memorable quotes, top 3 examples followed by the detailed note of all the key points.
-                    Transcript: ${combinedSummary}`;
+  // Request JSON that must match the schema. An invalid response is sent
+  // back with its validation errors for the model to correct, up to the
+  // configured number of repairs; each attempt is charged like any call.
+  private async requestValidatedCompletion<T>(
+    messages: LLMMessage[],
+    call: ChatCompletionCall,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<LLMCompletionResult & { output: T }> {
+    let attemptMessages = messages;
+    let attemptCall = call;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.requestChatCompletion(
+        attemptMessages,
+        attemptCall
+      );
+      const parsed = parseLLMOutput(schema, result.content);
+
+      if (parsed.success) {
+        return { ...result, output: parsed.data };
+      }
+
+      logger.warn("LLM output failed validation", {
+        operation: call.operation,
+        attempt: attempt + 1,
+        errors: parsed.errors,
+        responsePreview: result.content.substring(0, 200),
+      });
+
+      if (attempt >= config.llmOutput.repairAttempts) {
+        throw new AppError(
+          "The AI model returned an invalid response",
+          502,
+          true,
+          parsed.errors,
+          "INVALID_MODEL_OUTPUT"
+        );
+      }
+
+      const repairPrompt = await promptRegistryService.resolve(
+        "output_repair",
+        call.userId
+      );
+
+      // Repairs are not streamed, as listeners already saw the first attempt
+      attemptMessages = [
+        ...messages,
+        { role: "assistant", content: result.content },
+        ...this.renderMessages(repairPrompt, {
+          errors: parsed.errors.map((error) => `- ${error}`).join("\n"),
+        }),
+      ];
+      attemptCall = {
+        ...call,
+        operation: `${call.operation}_repair`,
+        onContent: undefined,
+        promptVersion: [call.promptVersion, promptLabel(repairPrompt)]
+          .filter(Boolean)
+          .join(","),
+      };
+    }
   }
 
-  // Parse the new format response from gpt-5-nano
-  private parseJSONResponse(
-    responseText: string,
-    videoMetadata: VideoMetadata
-  ): OpenAISummaryResponse {
+  // Record usage, consume plan tokens and log to TOKEN_USAGE for one call
+  private async settleUsage(
+    call: ChatCompletionCall,
+    model: string,
+    usage: LLMUsage,
+    estimate: TokenUsage,
+    status: "success" | "partial"
+  ): Promise<void> {
+    const { userId, videoMetadata } = call;
+
+    if (status === "success") {
+      logger.info("Token estimate reconciled", {
+        operation: call.operation,
+        model,
+        estimatedInputTokens: estimate.inputTokens,
+        actualInputTokens: usage.promptTokens,
+        estimatedOutputTokens: estimate.outputTokens,
+        actualOutputTokens: usage.completionTokens,
+      });
+    }
+
+    if (!userId) {
+      return;
+    }
+
     try {
-      // Parse the JSON response
-      const jsonResponse = JSON.parse(responseText);
+      await this.trackUsage(
+        userId,
+        call.operation,
+        model,
+        usage,
+        videoMetadata?.videoId
+      );
 
-      // Format the fullSummary from the structured JSON
-      let fullSummary = "";
+      // Consume tokens for all users (FREE, LITE, PRO)
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { plan: true, email: true },
+      });
 
-      // Add Top 3 Key Takeaways
-      if (jsonResponse.keyTakeaways && jsonResponse.keyTakeaways.length > 0) {
-        fullSummary += "Top 3 Key Takeaways\n";
-        jsonResponse.keyTakeaways.forEach((item: string) => {
-          fullSummary += `- ${item}\n`;
-        });
-        fullSummary += "\n";
+      if (!user) {
+        return;
       }
 
-      // Add Top 3 Memorable Quotes
-      if (jsonResponse.quotes && jsonResponse.quotes.length > 0) {
-        fullSummary += "Top 3 Memorable Quotes\n";
-        jsonResponse.quotes.forEach((item: string) => {
-          fullSummary += `- ${item}\n`;
+      try {
+        await tokenService.consumeTokens(userId, {
+          inputTokens: usage.promptTokens,
+          outputTokens: usage.completionTokens,
+        });
+      } catch (tokenError) {
+        logger.warn("Failed to consume tokens", {
+          tokenError,
+          userId,
+          operation: call.operation,
+          usage,
         });
-        fullSummary += "\n";
       }
 
-      // Add Top 3 Examples
-      if (jsonResponse.examples && jsonResponse.examples.length > 0) {
-        fullSummary += "Top 3 Examples\n";
-        jsonResponse.examples.forEach((item: string) => {
-          fullSummary += `- ${item}\n`;
-        });
-        fullSummary += "\n";
+      // Track token usage in the TOKEN_USAGE table (per video)
+      if (!videoMetadata) {
+        return;
       }
 
-      // Add Detailed Note of All Key Points
-      if (jsonResponse.detailedNotes && jsonResponse.detailedNotes.length > 0) {
-        fullSummary += "Detailed Note of All Key Points\n";
-        jsonResponse.detailedNotes.forEach(
-          (note: { title: string; content: string }) => {
-            fullSummary += `- ${note.title}: ${note.content}\n`;
-          }
-        );
+      try {
+        await tokenUsageService.trackTokenUsage({
+          userId,
+          userEmail: user.email,
+          videoId: videoMetadata.videoId,
+          videoUrl:
+            videoMetadata.url ||
+            `https://www.youtube.com/watch?v=${videoMetadata.videoId}`,
+          videoTitle: videoMetadata.title,
+          inputTokens: usage.promptTokens,
+          outputTokens: usage.completionTokens,
+          estimatedInputTokens: estimate.inputTokens,
+          estimatedOutputTokens: estimate.outputTokens,
+          model,
+          operation: call.operation,
+          status,
+          promptVersion: call.promptVersion,
+        });
+      } catch (tokenUsageError) {
+        logger.warn("Failed to track token usage in TOKEN_USAGE table", {
+          tokenUsageError,
+          userId,
+          operation: call.operation,
+        });
       }
+    } catch (trackingError) {
+      // Continue operation even if tracking fails
+      logger.warn("Failed to track OpenAI usage", {
+        trackingError,
+        userId,
+        operation: call.operation,
+      });
+    }
+  }
 
-      // Extract key points for backward compatibility
-      const keyPoints = jsonResponse.keyTakeaways || [
-        "Key insights extracted from the video",
-      ];
+  private isCancellation(error: unknown): boolean {
+    return error instanceof AppError && error.code === "GENERATION_CANCELLED";
+  }
 
-      // Generate tags from the content
-      const allText = fullSummary.toLowerCase();
-      const commonTags = [
-        "education",
-        "tutorial",
-        "tips",
-        "guide",
-        "learning",
-        "insights",
-        "analysis",
-      ];
-      const tags = commonTags.filter((tag) => allText.includes(tag));
+  // Stream parser that forwards completed section items with validated citations
+  private createSectionParser(
+    transcript: TranscriptSegment[],
+    options: GenerateSummaryOptions
+  ): SummarySectionStreamParser | undefined {
+    const { onSection } = options;
+    if (!onSection) {
+      return undefined;
+    }
+
+    const resolver = new TranscriptCitationResolver(transcript);
 
-      // If no tags found, create some generic ones
-      if (tags.length === 0) {
-        tags.push("video-summary", "key-insights", "learning");
+    return new SummarySectionStreamParser((event) => {
+      // Quotes that are not in the transcript are dropped, as in the final result
+      const resolved = resolver.resolveItem(event.section, event.item);
+      if (resolved) {
+        onSection({ ...event, ...resolved });
       }
+    });
+  }
 
-      return {
-        keyPoints: keyPoints.slice(0, 5), // Limit to 5 key points
-        fullSummary:
-          fullSummary.trim() || "Detailed summary of the video content",
-        tags: tags.slice(0, 5), // Limit to 5 tags
-      };
+  // Report generation progress without letting listener failures break generation
+  private async emitProgress(
+    options: GenerateSummaryOptions,
+    event: SummaryProgressEvent
+  ): Promise<void> {
+    if (!options.onProgress) {
+      return;
+    }
+
+    try {
+      await options.onProgress(event);
     } catch (error) {
-      logger.error("Failed to parse JSON response, falling back to text", {
-        error,
-        responsePreview: responseText.substring(0, 200),
+      logger.warn("Summary progress listener failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        event,
+      });
+    }
+  }
+
+  // Map step: summarize one chunk; provider calls are retried by the call
+  // policy. Returns null when the chunk still fails so the others can carry on.
+  private async summarizeChunk(
+    chunk: TranscriptSegment[],
+    index: number,
+    totalChunks: number,
+    videoMetadata: VideoMetadata,
+    userId: string | undefined,
+    options: GenerateSummaryOptions,
+    prompt: ResolvedPrompt
+  ): Promise<ChunkSummaryOutput | null> {
+    const chunkText = this.formatTranscriptForAI(chunk);
+
+    logger.info("Processing chunk", {
+      chunkIndex: index + 1,
+      totalChunks,
+      chunkTokens: tokenService.countTokens(chunkText),
+    });
+
+    await this.emitProgress(options, {
+      type: "chunk_started",
+      chunkIndex: index + 1,
+      totalChunks,
+    });
+
+    let chunkSummary: ChunkSummaryOutput | null = null;
+
+    try {
+      const { output } = await this.requestValidatedCompletion(
+        this.buildChunkSummaryMessages(prompt, chunkText, index, totalChunks),
+        {
+          operation: "chunk_summary",
+          userId,
+          videoMetadata,
+          signal: options.signal,
+          promptVersion: promptLabel(prompt),
+        },
+        chunkSummaryOutputSchema
+      );
+
+      chunkSummary = output;
+    } catch (chunkError) {
+      // A cancelled request or an unavailable provider stops the whole generation
+      if (
+        this.isCancellation(chunkError) ||
+        (chunkError instanceof AppError &&
+          chunkError.code === "PROVIDER_UNAVAILABLE")
+      ) {
+        throw chunkError;
+      }
+
+      logger.error("Error processing chunk", {
+        chunkIndex: index + 1,
+        totalChunks,
+        error:
+          chunkError instanceof Error ? chunkError.message : "Unknown error",
       });
+    }
+
+    await this.emitProgress(options, {
+      type: "chunk_finished",
+      chunkIndex: index + 1,
+      totalChunks,
+    });
 
-      // Fallback: return the text as-is
+    return chunkSummary;
+  }
+
+  /**
+   * Estimate the tokens a summary of this transcript will use. Counts every
+   * prompt the generation will send with the model's tokenizer, including
+   * system and instruction text and, for long transcripts, the per-chunk
+   * prompts, overlap and final synthesis call.
+   */
+  estimateSummaryUsage(
+    transcript: TranscriptSegment[],
+    mode: SummaryMode,
+    language: string,
+    prompts: SummaryPrompts
+  ): TokenUsage {
+    const model = llmProvider.model;
+    const transcriptText = this.formatTranscriptForAI(transcript);
+
+    if (!this.needsChunking(transcriptText)) {
+      const inputTokens = countChatTokens(
+        this.buildSummaryMessages(
+          prompts.single,
+          transcriptText,
+          mode,
+          language
+        ),
+        model
+      );
       return {
-        keyPoints: ["Key insights extracted from the video"],
-        fullSummary: responseText,
-        tags: ["video-summary", "key-insights", "learning"],
+        inputTokens,
+        outputTokens: this.expectedOutputTokens(inputTokens),
       };
     }
+
+    const chunks = this.chunkTranscript(transcript);
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    chunks.forEach((chunk, index) => {
+      const promptTokens = countChatTokens(
+        this.buildChunkSummaryMessages(
+          prompts.chunk,
+          this.formatTranscriptForAI(chunk),
+          index,
+          chunks.length
+        ),
+        model
+      );
+      inputTokens += promptTokens;
+      outputTokens += this.expectedOutputTokens(promptTokens);
+    });
+
+    // The final prompt carries the chunk notes (an upper bound, as
+    // duplicates are merged away before the call)
+    const finalPromptTokens =
+      countChatTokens(
+        this.buildFinalSummaryMessages(prompts.final, "", mode, language),
+        model
+      ) + outputTokens;
+
+    return {
+      inputTokens: inputTokens + finalPromptTokens,
+      outputTokens: outputTokens + this.expectedOutputTokens(finalPromptTokens),
+    };
   }
 
-  // Validate AI response structure
-  private validateSummaryResponse(
-    response: any
-  ): response is OpenAISummaryResponse {
+  /**
+   * Estimate the tokens a translation will use. Translated text is assumed
+   * to be longer than the source, as non-Latin scripts take more tokens.
+   */
+  async estimateTranslationUsage(
+    content: SummaryTranslationContent,
+    language: string,
+    userId?: string
+  ): Promise<TokenUsage> {
+    const model = llmProvider.model;
+    const prompt = await promptRegistryService.resolve(
+      "summary_translation",
+      userId
+    );
+
+    return {
+      inputTokens: countChatTokens(
+        this.buildTranslationMessages(prompt, content, language),
+        model
+      ),
+      outputTokens: Math.ceil(
+        countTokens(JSON.stringify(content), model) * TRANSLATION_OUTPUT_RATIO
+      ),
+    };
+  }
+
+  // Estimate the tokens answering a chat question will use
+  async estimateChatUsage(
+    context: SummaryChatContext,
+    videoMetadata: VideoMetadata,
+    userId?: string
+  ): Promise<TokenUsage> {
+    const prompt = await promptRegistryService.resolve("summary_chat", userId);
+
+    return {
+      inputTokens: countChatTokens(
+        this.buildChatMessages(prompt, context, videoMetadata),
+        llmProvider.model
+      ),
+      outputTokens: CHAT_OUTPUT_TOKENS,
+    };
+  }
+
+  // Estimate the tokens a synthesis of several summaries will use
+  async estimateSynthesisUsage(
+    context: SynthesisContext,
+    language: string,
+    userId?: string
+  ): Promise<TokenUsage> {
+    const prompt = await promptRegistryService.resolve(
+      "summary_synthesis",
+      userId
+    );
+
+    return {
+      inputTokens: countChatTokens(
+        this.buildSynthesisMessages(prompt, context, language),
+        llmProvider.model
+      ),
+      outputTokens: SYNTHESIS_OUTPUT_TOKENS,
+    };
+  }
+
+  // Estimate the tokens generating flashcards or a quiz will use
+  async estimateStudyMaterialUsage(
+    context: StudyMaterialContext,
+    userId?: string
+  ): Promise<TokenUsage> {
+    const prompt = await promptRegistryService.resolve(
+      STUDY_MATERIAL_PROMPTS[context.kind],
+      userId
+    );
+
+    return {
+      inputTokens: countChatTokens(
+        this.buildStudyMaterialMessages(prompt, context),
+        llmProvider.model
+      ),
+      outputTokens: context.count * STUDY_ITEM_OUTPUT_TOKENS[context.kind],
+    };
+  }
+
+  // Estimate the tokens tagging a saved item will use
+  async estimateTaggingUsage(
+    title: string,
+    text: string,
+    userId?: string
+  ): Promise<TokenUsage> {
+    const prompt = await promptRegistryService.resolve(
+      "content_tagging",
+      userId
+    );
+
+    return {
+      inputTokens: countChatTokens(
+        this.buildTaggingMessages(prompt, title, text),
+        llmProvider.model
+      ),
+      outputTokens: TAGGING_OUTPUT_TOKENS,
+    };
+  }
+
+  // Expected completion tokens for a prompt of the given size
+  private expectedOutputTokens(promptTokens: number): number {
+    return Math.min(
+      MAX_OUTPUT_TOKENS,
+      Math.max(MIN_OUTPUT_TOKENS, Math.ceil(promptTokens * OUTPUT_TOKEN_RATIO))
+    );
+  }
+
+  private needsChunking(transcriptText: string): boolean {
     return (
-      response &&
-      Array.isArray(response.keyPoints) &&
-      response.keyPoints.length > 0 &&
-      response.keyPoints.every((point: any) => typeof point === "string") &&
-      typeof response.fullSummary === "string" &&
-      response.fullSummary.length > 0 &&
-      Array.isArray(response.tags) &&
-      response.tags.every((tag: any) => typeof tag === "string")
+      countTokens(transcriptText, llmProvider.model) >
+      config.summaryChunking.singlePassMaxTokens
+    );
+  }
+
+  // Split the transcript into token-bounded chunks on segment boundaries.
+  // Each chunk starts with the tail of the previous one (up to the overlap
+  // budget) so points spanning a boundary are not cut in half.
+  private chunkTranscript(
+    transcript: TranscriptSegment[]
+  ): TranscriptSegment[][] {
+    const { chunkTokens, overlapTokens } = config.summaryChunking;
+    const segmentTokens = (segment: TranscriptSegment) =>
+      tokenService.countTokens(`[${segment.timestamp}] ${segment.text}\n`);
+
+    const chunks: TranscriptSegment[][] = [];
+    let currentChunk: TranscriptSegment[] = [];
+    let currentTokens = 0;
+    let newSegments = 0; // Segments not carried over from the previous chunk
+
+    for (const segment of transcript) {
+      const tokens = segmentTokens(segment);
+
+      if (currentTokens + tokens > chunkTokens && newSegments > 0) {
+        chunks.push(currentChunk);
+
+        const overlap: TranscriptSegment[] = [];
+        let overlapCount = 0;
+        for (let j = currentChunk.length - 1; j >= 0; j--) {
+          const overlapSegmentTokens = segmentTokens(currentChunk[j]);
+          if (overlapCount + overlapSegmentTokens > overlapTokens) {
+            break;
+          }
+          overlap.unshift(currentChunk[j]);
+          overlapCount += overlapSegmentTokens;
+        }
+
+        currentChunk = overlap;
+        currentTokens = overlapCount;
+        newSegments = 0;
+      }
+
+      currentChunk.push(segment);
+      currentTokens += tokens;
+      newSegments++;
+    }
+
+    if (newSegments > 0) {
+      chunks.push(currentChunk);
+    }
+
+    return chunks;
+  }
+
+  // Format transcript segments for AI processing
+  private formatTranscriptForAI(transcript: TranscriptSegment[]): string {
+    return formatTranscriptLines(transcript);
+  }
+
+  // System and user messages for a template version, with any earlier
+  // conversation turns in between
+  private renderMessages(
+    prompt: ResolvedPrompt,
+    variables: Record<string, string | number>,
+    history: LLMMessage[] = []
+  ): LLMMessage[] {
+    return [
+      ...(prompt.system
+        ? [
+            {
+              role: "system" as const,
+              content: renderTemplate(prompt.system, variables),
+            },
+          ]
+        : []),
+      ...history,
+      { role: "user", content: renderTemplate(prompt.template, variables) },
+    ];
+  }
+
+  // Prompt for summarizing a whole transcript in one call
+  private buildSummaryMessages(
+    prompt: ResolvedPrompt,
+    transcriptText: string,
+    mode: SummaryMode,
+    language: string
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      task: SUMMARY_MODE_DEFINITIONS[mode].task,
+      structure: formatModeStructure(mode),
+      instructions: formatModeInstructions(mode, "transcript", language),
+      transcript: transcriptText,
+    });
+  }
+
+  // Prompt for the reduce step that synthesizes the merged chunk notes
+  private buildFinalSummaryMessages(
+    prompt: ResolvedPrompt,
+    combinedSummary: string,
+    mode: SummaryMode,
+    language: string
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      notes: combinedSummary,
+      task: SUMMARY_MODE_DEFINITIONS[mode].task,
+      structure: formatModeStructure(mode),
+      instructions: formatModeInstructions(mode, "chunks", language),
+    });
+  }
+
+  // Prompt for the map step that extracts notes from one chunk
+  private buildChunkSummaryMessages(
+    prompt: ResolvedPrompt,
+    chunkText: string,
+    index: number,
+    totalChunks: number
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      part: index + 1,
+      totalParts: totalChunks,
+      transcript: chunkText,
+    });
+  }
+
+  // Prompt for translating the text of a finished summary
+  private buildTranslationMessages(
+    prompt: ResolvedPrompt,
+    content: SummaryTranslationContent,
+    language: string
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      language: languageName(language),
+      summary: JSON.stringify(content, null, 2),
+    });
+  }
+
+  // Prompt for a synthesis, with each summary numbered as a source
+  private buildSynthesisMessages(
+    prompt: ResolvedPrompt,
+    context: SynthesisContext,
+    language: string
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      sourceCount: context.sources.length,
+      language: languageName(language),
+      sources: context.sources
+        .map(
+          (source, i) =>
+            `**Source ${i + 1}: "${source.title}" by ${source.channelName}**\n\nKey points:\n${source.keyPoints.map((point) => `- ${point}`).join("\n")}\n\nSummary:\n${source.summary}`
+        )
+        .join("\n\n"),
+    });
+  }
+
+  // Prompt for answering a question from retrieved transcript passages,
+  // preceded by the earlier turns of the thread
+  private buildChatMessages(
+    prompt: ResolvedPrompt,
+    context: SummaryChatContext,
+    videoMetadata: VideoMetadata
+  ): LLMMessage[] {
+    return this.renderMessages(
+      prompt,
+      {
+        title: videoMetadata.title,
+        question: context.question,
+        summary: context.summary,
+        excerpts: context.passages.length
+          ? context.passages.join("\n\n...\n\n")
+          : "(No part of the transcript matched the question)",
+      },
+      context.history.map((message) => ({
+        role: message.role,
+        content: message.content,
+      }))
     );
   }
 
-  // Test OpenAI connection
+  // Prompt for flashcards or a quiz about a video
+  private buildStudyMaterialMessages(
+    prompt: ResolvedPrompt,
+    context: StudyMaterialContext
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      count: context.count,
+      title: context.title,
+      keyPoints: context.keyPoints.map((point) => `- ${point}`).join("\n"),
+      summary: context.summary,
+      transcript: context.transcript || "(No transcript stored)",
+    });
+  }
+
+  // Prompt for tagging a saved post or article
+  private buildTaggingMessages(
+    prompt: ResolvedPrompt,
+    title: string,
+    text: string
+  ): LLMMessage[] {
+    return this.renderMessages(prompt, {
+      maxTags: MAX_TAGS,
+      title,
+      content: truncateToTokens(text, TAGGING_INPUT_TOKENS, llmProvider.model),
+    });
+  }
+
+  // Build the summary from validated model output (or the merged chunk notes
+  // when the final synthesis failed), citing it against the submitted
+  // transcript. A summary left with no key points is not stored.
+  private buildSummaryResponse(
+    output: SummaryOutput | MergedChunkSummary,
+    transcript: TranscriptSegment[],
+    mode: SummaryMode,
+    language: string
+  ): OpenAISummaryResponse {
+    const resolver = new TranscriptCitationResolver(transcript);
+    const sections = resolver.resolveSections(output);
+    const modeContent = normalizeModeContent(mode, output);
+    const fullSummary = formatModeSummary(mode, sections, modeContent);
+    const chapters = resolver.resolveChapters(output.chapters);
+
+    if (sections.keyTakeaways.length === 0 || !fullSummary) {
+      throw new AppError(
+        "The AI model returned an invalid response",
+        502,
+        true,
+        ["keyTakeaways: At least one item is required"],
+        "INVALID_MODEL_OUTPUT"
+      );
+    }
+
+    return {
+      keyPoints: sections.keyTakeaways.slice(0, 5), // Limit to 5 key points
+      fullSummary,
+      sections,
+      mode,
+      modeContent,
+      chapters,
+      language,
+      // Topical tags proposed by the model
+      tags: normalizeTags("tags" in output ? output.tags : [], MAX_TAGS),
+    };
+  }
+
+  // Test the configured LLM provider connection
   async testConnection(): Promise<ServiceResponse<boolean>> {
     try {
-      const completion = await this.client.chat.completions.create({
-        model: "gpt-3.5-turbo",
+      // Health checks should not wait out retries or the full call deadline
+      const completion = await llmProvider.complete({
         messages: [{ role: "user", content: "Hello" }],
-        max_tokens: 5,
+        maxTokens: 5,
+        signal: AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS),
       });
 
-      const hasResponse = !!completion.choices[0]?.message?.content;
+      const hasResponse = !!completion.content;
 
       return { success: true, data: hasResponse };
     } catch (error) {
-      logger.error("OpenAI connection test failed", { error });
-      return { success: false, error: "OpenAI connection failed" };
+      logger.error("LLM connection test failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        provider: llmProvider.name,
+      });
+      return { success: false, error: "LLM provider connection failed" };
     }
   }
 
@@ -919,25 +1483,24 @@ Now synthesize all parts into a comprehensive final summary in JSON format.
     request: OpenAICompletionRequest
   ): Promise<ServiceResponse<OpenAICompletionResponse>> {
     try {
-      const completion = await this.client.chat.completions.create({
-        model: request.model || config.openai.model,
+      const completion = await llmProvider.complete({
+        model: request.model,
         messages: request.messages,
-        max_tokens: request.maxTokens || 500,
+        maxTokens: request.maxTokens || 500,
         temperature: request.temperature || 0.3,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
-      if (!responseContent) {
+      if (!completion.content) {
         throw new AppError("Empty response from OpenAI", 500);
       }
 
       const response: OpenAICompletionResponse = {
-        content: responseContent,
+        content: completion.content,
         usage: completion.usage
           ? {
-              prompt_tokens: completion.usage.prompt_tokens,
-              completion_tokens: completion.usage.completion_tokens,
-              total_tokens: completion.usage.total_tokens,
+              prompt_tokens: completion.usage.promptTokens,
+              completion_tokens: completion.usage.completionTokens,
+              total_tokens: completion.usage.totalTokens,
             }
           : undefined,
         trim: function (): string | undefined {
@@ -946,36 +1509,32 @@ Now synthesize all parts into a comprehensive final summary in JSON format.
       };
 
       logger.info("OpenAI completion generated successfully", {
-        model: request.model || config.openai.model,
-        prompt_tokens: completion.usage?.prompt_tokens,
-        completion_tokens: completion.usage?.completion_tokens,
-        total_tokens: completion.usage?.total_tokens,
+        provider: completion.provider,
+        model: completion.model,
+        prompt_tokens: completion.usage?.promptTokens,
+        completion_tokens: completion.usage?.completionTokens,
+        total_tokens: completion.usage?.totalTokens,
       });
 
       return { success: true, data: response };
     } catch (error: unknown) {
       logger.error("OpenAI completion generation failed", {
         error: error instanceof Error ? error.message : "Unknown error",
-        model: request.model || config.openai.model,
+        provider: llmProvider.name,
+        model: request.model || llmProvider.model,
         maxTokens: request.maxTokens,
         temperature: request.temperature,
       });
 
+      // Handle provider errors by HTTP status
       if (error instanceof AppError) {
-        throw error;
-      }
-
-      // Handle OpenAI specific errors
-      if (error instanceof OpenAI.APIError) {
-        if (error.code === "insufficient_quota") {
-          throw new AppError("AI service quota exceeded", 503);
-        }
-        if (error.code === "rate_limit_exceeded") {
+        if (error.statusCode === 429) {
           throw new AppError("AI service rate limit exceeded", 429);
         }
-        if (error.code === "context_length_exceeded") {
+        if (error.statusCode === 413) {
           throw new AppError("Content too long for AI processing", 413);
         }
+        throw error;
       }
 
       throw new AppError("OpenAI completion generation failed", 500);
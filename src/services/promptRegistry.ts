@@ -0,0 +1,395 @@
+import crypto from "crypto";
+import { Prisma, PromptTemplate } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  PROMPT_NAMES,
+  PromptData,
+  PromptName,
+  PromptVersionData,
+  PublishPromptVersionDto,
+  ResolvedPrompt,
+  ServiceResponse,
+  SetPromptTrafficDto,
+  SummaryPrompts,
+} from "../types";
+import { BUILT_IN_PROMPTS, templateVariables } from "../utils/promptTemplates";
+
+// Versions currently serving traffic, shared by every call until it expires
+interface ServingSnapshot {
+  loadedAt: number;
+  versions: PromptTemplate[];
+}
+
+export class PromptRegistryService {
+  private snapshot: ServingSnapshot | null = null;
+  private loading: Promise<PromptTemplate[]> | null = null;
+
+  /**
+   * Pick the template version for a call. Serving versions share calls in
+   * proportion to their traffic weight, and a user keeps getting the same
+   * version while the weights are unchanged. The built-in template is used
+   * when no version is serving or the registry cannot be read.
+   */
+  async resolve(name: PromptName, userId?: string): Promise<ResolvedPrompt> {
+    const serving = (await this.servingVersions()).filter(
+      (version) => version.name === name
+    );
+
+    if (serving.length === 0) {
+      const builtIn = BUILT_IN_PROMPTS[name];
+      return {
+        name,
+        version: 0,
+        system: builtIn.system,
+        template: builtIn.template,
+      };
+    }
+
+    const picked = this.pickVersion(serving, name, userId);
+
+    return {
+      name,
+      version: picked.version,
+      system: picked.system,
+      template: picked.template,
+    };
+  }
+
+  /**
+   * Resolve every template a summary generation may use, so the shared
+   * cache can be keyed on them before knowing whether chunking is needed
+   */
+  async resolveSummaryPrompts(userId?: string): Promise<SummaryPrompts> {
+    const [single, chunk, final] = await Promise.all([
+      this.resolve("summary", userId),
+      this.resolve("summary_chunk", userId),
+      this.resolve("summary_final", userId),
+    ]);
+
+    return { single, chunk, final };
+  }
+
+  /**
+   * List every prompt with its built-in template and published versions
+   */
+  async listPrompts(): Promise<ServiceResponse<PromptData[]>> {
+    try {
+      const versions = await prisma.promptTemplate.findMany({
+        orderBy: [{ name: "asc" }, { version: "desc" }],
+      });
+
+      return {
+        success: true,
+        data: PROMPT_NAMES.map((name) =>
+          this.formatPrompt(
+            name,
+            versions.filter((version) => version.name === name)
+          )
+        ),
+      };
+    } catch (error) {
+      logger.error("Failed to list prompts", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw new AppError("Failed to list prompts", 500);
+    }
+  }
+
+  /**
+   * Get one prompt with its built-in template and published versions
+   */
+  async getPrompt(name: string): Promise<ServiceResponse<PromptData>> {
+    try {
+      const promptName = this.toPromptName(name);
+      const versions = await prisma.promptTemplate.findMany({
+        where: { name: promptName },
+        orderBy: { version: "desc" },
+      });
+
+      return { success: true, data: this.formatPrompt(promptName, versions) };
+    } catch (error) {
+      logger.error("Failed to get prompt", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        name,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get prompt", 500);
+    }
+  }
+
+  /**
+   * Publish a new version of a prompt. Without a traffic weight it takes
+   * all traffic; with one it joins the versions already serving.
+   */
+  async publishVersion(
+    name: string,
+    data: PublishPromptVersionDto,
+    createdBy: string
+  ): Promise<ServiceResponse<PromptVersionData>> {
+    try {
+      const promptName = this.toPromptName(name);
+      const template = data.template?.trim();
+      const system = data.system?.trim() || null;
+
+      if (!template) {
+        throw new AppError("Template is required", 400);
+      }
+
+      const variables = templateVariables(`${system ?? ""}\n${template}`);
+      const allowed = BUILT_IN_PROMPTS[promptName].variables;
+      const unknown = variables.filter(
+        (variable) => !allowed.includes(variable)
+      );
+
+      if (unknown.length > 0) {
+        throw new AppError(
+          `Unknown template variables: ${unknown.join(", ")}. Available: ${allowed.join(", ")}`,
+          400
+        );
+      }
+
+      const takesAllTraffic = data.trafficWeight === undefined;
+
+      const created = await prisma.$transaction(async (tx) => {
+        const latest = await tx.promptTemplate.findFirst({
+          where: { name: promptName },
+          orderBy: { version: "desc" },
+          select: { version: true },
+        });
+
+        if (takesAllTraffic) {
+          await tx.promptTemplate.updateMany({
+            where: { name: promptName, trafficWeight: { gt: 0 } },
+            data: { trafficWeight: 0 },
+          });
+        }
+
+        return tx.promptTemplate.create({
+          data: {
+            name: promptName,
+            version: (latest?.version ?? 0) + 1,
+            system,
+            template,
+            variables,
+            trafficWeight: takesAllTraffic ? 100 : data.trafficWeight!,
+            notes: data.notes?.trim() || null,
+            createdBy,
+          },
+        });
+      });
+
+      this.snapshot = null;
+
+      logger.info("Prompt version published", {
+        name: promptName,
+        version: created.version,
+        trafficWeight: created.trafficWeight,
+        createdBy,
+      });
+
+      return { success: true, data: this.formatVersion(created) };
+    } catch (error) {
+      logger.error("Prompt publish failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        name,
+      });
+
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new AppError(
+          "Another version was published at the same time. Try again.",
+          409
+        );
+      }
+
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to publish prompt version", 500);
+    }
+  }
+
+  /**
+   * Split traffic between published versions. Versions left out of the
+   * weights stop serving; with no weights the built-in template serves.
+   */
+  async setTraffic(
+    name: string,
+    data: SetPromptTrafficDto
+  ): Promise<ServiceResponse<PromptData>> {
+    try {
+      const promptName = this.toPromptName(name);
+      const weights = Object.entries(data.weights ?? {}).map(
+        ([version, weight]) => ({ version: Number(version), weight })
+      );
+
+      const versions = await prisma.promptTemplate.findMany({
+        where: { name: promptName },
+        select: { version: true },
+      });
+      const published = new Set(versions.map(({ version }) => version));
+      const missing = weights.filter(({ version }) => !published.has(version));
+
+      if (missing.length > 0) {
+        throw new AppError(
+          `Unknown prompt versions: ${missing.map(({ version }) => version).join(", ")}`,
+          404
+        );
+      }
+
+      await prisma.$transaction([
+        prisma.promptTemplate.updateMany({
+          where: { name: promptName },
+          data: { trafficWeight: 0 },
+        }),
+        ...weights
+          .filter(({ weight }) => weight > 0)
+          .map(({ version, weight }) =>
+            prisma.promptTemplate.update({
+              where: { name_version: { name: promptName, version } },
+              data: { trafficWeight: weight },
+            })
+          ),
+      ]);
+
+      this.snapshot = null;
+
+      logger.info("Prompt traffic updated", {
+        name: promptName,
+        weights: data.weights,
+      });
+
+      return this.getPrompt(promptName);
+    } catch (error) {
+      logger.error("Prompt traffic update failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        name,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update prompt traffic", 500);
+    }
+  }
+
+  // Serving versions from memory, reloaded once the snapshot expires.
+  // Concurrent callers share one load; a failed load serves built-ins.
+  private async servingVersions(): Promise<PromptTemplate[]> {
+    const maxAge = config.promptRegistry.cacheSeconds * 1000;
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < maxAge) {
+      return this.snapshot.versions;
+    }
+
+    if (!this.loading) {
+      this.loading = prisma.promptTemplate
+        .findMany({
+          where: { trafficWeight: { gt: 0 } },
+          orderBy: [{ name: "asc" }, { version: "asc" }],
+        })
+        .then((versions) => {
+          this.snapshot = { loadedAt: Date.now(), versions };
+          return versions;
+        })
+        .catch((error) => {
+          logger.warn(
+            "Failed to load prompt registry, using built-in prompts",
+            {
+              error: error instanceof Error ? error.message : "Unknown error",
+            }
+          );
+          return this.snapshot?.versions ?? [];
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    return this.loading;
+  }
+
+  // Weighted pick; users are hashed into a stable bucket so they keep the
+  // same version, anonymous calls are spread at random
+  private pickVersion(
+    serving: PromptTemplate[],
+    name: PromptName,
+    userId?: string
+  ): PromptTemplate {
+    const total = serving.reduce(
+      (sum, version) => sum + version.trafficWeight,
+      0
+    );
+    const bucket = userId
+      ? crypto
+          .createHash("sha256")
+          .update(`${name}:${userId}`)
+          .digest()
+          .readUInt32BE(0) % total
+      : Math.floor(Math.random() * total);
+
+    let cumulative = 0;
+    for (const version of serving) {
+      cumulative += version.trafficWeight;
+      if (bucket < cumulative) {
+        return version;
+      }
+    }
+
+    return serving[serving.length - 1];
+  }
+
+  private toPromptName(name: string): PromptName {
+    if (!(PROMPT_NAMES as readonly string[]).includes(name)) {
+      throw new AppError("Prompt not found", 404);
+    }
+    return name as PromptName;
+  }
+
+  private formatPrompt(
+    name: PromptName,
+    versions: PromptTemplate[]
+  ): PromptData {
+    const builtIn = BUILT_IN_PROMPTS[name];
+    const serving = versions.filter((version) => version.trafficWeight > 0);
+
+    return {
+      name,
+      variables: builtIn.variables,
+      servingVersions:
+        serving.length > 0
+          ? serving.map(({ version }) => version).sort((a, b) => a - b)
+          : [0],
+      builtIn: {
+        version: 0,
+        system: builtIn.system,
+        template: builtIn.template,
+        variables: templateVariables(
+          `${builtIn.system ?? ""}\n${builtIn.template}`
+        ),
+        trafficWeight: serving.length > 0 ? 0 : 100,
+        notes: "Built-in template",
+        createdBy: null,
+        createdAt: null,
+      },
+      versions: versions.map((version) => this.formatVersion(version)),
+    };
+  }
+
+  private formatVersion(version: PromptTemplate): PromptVersionData {
+    return {
+      version: version.version,
+      system: version.system,
+      template: version.template,
+      variables: version.variables,
+      trafficWeight: version.trafficWeight,
+      notes: version.notes,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+    };
+  }
+}
+
+export const promptRegistryService = new PromptRegistryService();
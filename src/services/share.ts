@@ -0,0 +1,383 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ShareLink } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { config } from "../config";
+import { AppError } from "../middleware/errorHandler";
+import { summaryExportService } from "./summaryExport";
+import {
+  CreateShareLinkDto,
+  MAX_SHARE_LINKS_PER_ITEM,
+  ServiceResponse,
+  ShareContentType,
+  ShareLinkData,
+  SharedContent,
+} from "../types";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const TOKEN_BYTES = 24; // 32 URL-safe characters
+const PASSWORD_KEY_LENGTH = 64;
+
+// Column holding the shared item of each content type
+const CONTENT_FIELDS = {
+  summary: "summaryId",
+  website: "websiteSummaryId",
+} as const;
+
+// Stored as "salt:hash", both hex
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+};
+
+const verifyPassword = async (
+  password: string,
+  stored: string
+): Promise<boolean> => {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+};
+
+const isExpired = (link: ShareLink, now: Date = new Date()): boolean =>
+  link.expiresAt !== null && link.expiresAt <= now;
+
+export class ShareService {
+  /**
+   * Create a read-only public link to a summary or website summary, with an
+   * optional expiry and password
+   */
+  async createShare(
+    userId: string,
+    contentType: ShareContentType,
+    contentId: string,
+    data: CreateShareLinkDto
+  ): Promise<ServiceResponse<ShareLinkData>> {
+    try {
+      await this.assertShareable(userId, contentType, contentId);
+
+      const now = new Date();
+      const activeLinks = await prisma.shareLink.count({
+        where: {
+          userId,
+          [CONTENT_FIELDS[contentType]]: contentId,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+      });
+
+      if (activeLinks >= MAX_SHARE_LINKS_PER_ITEM) {
+        throw new AppError(
+          `At most ${MAX_SHARE_LINKS_PER_ITEM} active share links per item. Revoke one to create another.`,
+          400
+        );
+      }
+
+      const link = await prisma.shareLink.create({
+        data: {
+          token: randomBytes(TOKEN_BYTES).toString("base64url"),
+          userId,
+          [CONTENT_FIELDS[contentType]]: contentId,
+          passwordHash: data.password
+            ? await hashPassword(data.password)
+            : null,
+          expiresAt: data.expiresInDays
+            ? new Date(now.getTime() + data.expiresInDays * 24 * 60 * 60 * 1000)
+            : null,
+        },
+      });
+
+      logger.info("Share link created", {
+        userId,
+        contentType,
+        contentId,
+        shareId: link.id,
+        expiresAt: link.expiresAt,
+        hasPassword: link.passwordHash !== null,
+      });
+
+      return { success: true, data: this.formatShare(link) };
+    } catch (error) {
+      logger.error("Share link creation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        contentType,
+        contentId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to create share link", 500);
+    }
+  }
+
+  /**
+   * Share links of an item, newest first, including expired and revoked ones
+   */
+  async listShares(
+    userId: string,
+    contentType: ShareContentType,
+    contentId: string
+  ): Promise<ServiceResponse<ShareLinkData[]>> {
+    try {
+      await this.assertShareable(userId, contentType, contentId, false);
+
+      const links = await prisma.shareLink.findMany({
+        where: { userId, [CONTENT_FIELDS[contentType]]: contentId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return {
+        success: true,
+        data: links.map((link) => this.formatShare(link)),
+      };
+    } catch (error) {
+      logger.error("Failed to get share links", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        contentType,
+        contentId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get share links", 500);
+    }
+  }
+
+  /**
+   * Revoke a share link; its URL stops working at once
+   */
+  async revokeShare(
+    userId: string,
+    contentType: ShareContentType,
+    contentId: string,
+    shareId: string
+  ): Promise<ServiceResponse<ShareLinkData>> {
+    try {
+      const link = await prisma.shareLink.findFirst({
+        where: {
+          id: shareId,
+          userId,
+          [CONTENT_FIELDS[contentType]]: contentId,
+        },
+      });
+
+      if (!link) {
+        throw new AppError("Share link not found", 404);
+      }
+
+      if (link.revokedAt) {
+        return { success: true, data: this.formatShare(link) };
+      }
+
+      const revoked = await prisma.shareLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info("Share link revoked", {
+        userId,
+        contentType,
+        contentId,
+        shareId,
+      });
+
+      return { success: true, data: this.formatShare(revoked) };
+    } catch (error) {
+      logger.error("Share link revocation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        shareId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to revoke share link", 500);
+    }
+  }
+
+  /**
+   * Content behind a public share link, without the transcript or anything
+   * about its owner. Each successful view is counted.
+   */
+  async getSharedContent(
+    token: string,
+    password?: string
+  ): Promise<ServiceResponse<SharedContent>> {
+    try {
+      const link = await prisma.shareLink.findUnique({
+        where: { token },
+        include: {
+          summary: { omit: { transcript: true, transcriptText: true } },
+          websiteSummary: { omit: { content: true } },
+        },
+      });
+
+      // Revoked links look like links that never existed
+      if (!link || link.revokedAt || (!link.summary && !link.websiteSummary)) {
+        throw new AppError(
+          "Share link not found",
+          404,
+          true,
+          undefined,
+          "SHARE_LINK_NOT_FOUND"
+        );
+      }
+
+      if (isExpired(link)) {
+        throw new AppError(
+          "This share link has expired",
+          410,
+          true,
+          undefined,
+          "SHARE_LINK_EXPIRED"
+        );
+      }
+
+      if (link.passwordHash) {
+        if (!password) {
+          throw new AppError(
+            "This share link is password protected",
+            401,
+            true,
+            undefined,
+            "SHARE_PASSWORD_REQUIRED"
+          );
+        }
+
+        if (!(await verifyPassword(password, link.passwordHash))) {
+          throw new AppError(
+            "Incorrect share link password",
+            403,
+            true,
+            undefined,
+            "INVALID_SHARE_PASSWORD"
+          );
+        }
+      }
+
+      await prisma.shareLink.update({
+        where: { id: link.id },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+      });
+
+      if (link.summary) {
+        const {
+          id,
+          userId,
+          tags,
+          status,
+          promptVersion,
+          transcriptLanguage,
+          updatedAt,
+          ...summary
+        } = summaryExportService.toExportable(link.summary);
+
+        return { success: true, data: { contentType: "summary", summary } };
+      }
+
+      const website = link.websiteSummary!;
+
+      return {
+        success: true,
+        data: {
+          contentType: "website",
+          websiteSummary: {
+            url: website.url,
+            title: website.title,
+            textContent: website.textContent,
+            excerpt: website.excerpt,
+            byline: website.byline,
+            websiteName: website.websiteName,
+            favicon: website.favicon,
+            wordCount: website.wordCount,
+            readTime: website.readTime,
+            language: website.language,
+            direction: website.direction,
+            publishedTime: website.publishedTime,
+            createdAt: website.createdAt,
+          },
+        },
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error("Failed to get shared content", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw new AppError("Failed to get shared content", 500);
+    }
+  }
+
+  // The item must belong to the user; new links also need a finished summary
+  private async assertShareable(
+    userId: string,
+    contentType: ShareContentType,
+    contentId: string,
+    requireCompleted: boolean = true
+  ): Promise<void> {
+    if (contentType === "website") {
+      const website = await prisma.websiteSummary.findFirst({
+        where: { id: contentId, userId },
+        select: { id: true },
+      });
+
+      if (!website) {
+        throw new AppError("Website summary not found", 404);
+      }
+      return;
+    }
+
+    const summary = await prisma.summary.findFirst({
+      where: { id: contentId, userId },
+      select: { status: true },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+
+    if (requireCompleted && summary.status !== "COMPLETED") {
+      throw new AppError("Only completed summaries can be shared", 400);
+    }
+  }
+
+  private formatShare(link: ShareLink): ShareLinkData {
+    return {
+      id: link.id,
+      token: link.token,
+      url: `${config.server.apiBaseUrl}/public/summaries/${link.token}`,
+      contentType: link.summaryId ? "summary" : "website",
+      contentId: (link.summaryId ?? link.websiteSummaryId)!,
+      hasPassword: link.passwordHash !== null,
+      status: link.revokedAt
+        ? "revoked"
+        : isExpired(link)
+          ? "expired"
+          : "active",
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt,
+      createdAt: link.createdAt,
+    };
+  }
+}
+
+export const shareService = new ShareService();
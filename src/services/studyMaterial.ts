@@ -0,0 +1,654 @@
+import { Flashcard, Prisma, QuizQuestion } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { openaiService } from "./openai";
+import { summaryService } from "./summary";
+import {
+  DEFAULT_STUDY_ITEMS,
+  FlashcardData,
+  FlashcardDto,
+  QuizQuestionData,
+  QuizQuestionDto,
+  ServiceResponse,
+  StudyExport,
+  StudyExportFormat,
+  StudyMaterialContext,
+  StudyMaterialKind,
+  TranscriptSegment,
+} from "../types";
+import { TranscriptCitationResolver } from "../utils/transcriptCitations";
+import { formatSegment } from "../utils/transcriptRetrieval";
+import { truncateToTokens } from "../utils/tokenizer";
+import { toFileName } from "../utils/fileNames";
+import {
+  MIN_QUIZ_OPTIONS,
+  flashcardsToAnkiPackage,
+  flashcardsToCsv,
+  normalizeFlashcards,
+  normalizeQuizQuestions,
+  quizToAnkiPackage,
+  quizToCsv,
+} from "../utils/studyMaterial";
+
+type SummaryRecord = Prisma.SummaryGetPayload<object>;
+
+export class StudyMaterialService {
+  /**
+   * Generate flashcards for a summary from its transcript and key points,
+   * replacing the summary's current cards
+   */
+  async generateFlashcards(
+    userId: string,
+    summaryId: string,
+    count = DEFAULT_STUDY_ITEMS
+  ): Promise<ServiceResponse<FlashcardData[]>> {
+    try {
+      const summary = await this.findSummary(userId, summaryId);
+      const { items, resolveTimestamp } = await this.generate(
+        userId,
+        summary,
+        "flashcards",
+        count
+      );
+
+      const cards = normalizeFlashcards(items, resolveTimestamp, count);
+      if (cards.length === 0) {
+        throw new AppError("No usable flashcards were generated", 502);
+      }
+
+      const [, saved] = await prisma.$transaction([
+        prisma.flashcard.deleteMany({ where: { summaryId } }),
+        prisma.flashcard.createManyAndReturn({
+          data: cards.map((card, position) => ({
+            summaryId,
+            ...card,
+            position,
+          })),
+        }),
+      ]);
+
+      logger.info("Flashcards generated", {
+        userId,
+        summaryId,
+        requested: count,
+        generated: saved.length,
+      });
+
+      return {
+        success: true,
+        data: saved
+          .sort((a, b) => a.position - b.position)
+          .map((card) => this.formatFlashcard(card)),
+      };
+    } catch (error) {
+      logger.error("Flashcard generation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to generate flashcards", 500);
+    }
+  }
+
+  /**
+   * Generate a multiple-choice quiz for a summary, replacing its current
+   * questions
+   */
+  async generateQuiz(
+    userId: string,
+    summaryId: string,
+    count = DEFAULT_STUDY_ITEMS
+  ): Promise<ServiceResponse<QuizQuestionData[]>> {
+    try {
+      const summary = await this.findSummary(userId, summaryId);
+      const { items, resolveTimestamp } = await this.generate(
+        userId,
+        summary,
+        "quiz",
+        count
+      );
+
+      const questions = normalizeQuizQuestions(items, resolveTimestamp, count);
+      if (questions.length === 0) {
+        throw new AppError("No usable quiz questions were generated", 502);
+      }
+
+      const [, saved] = await prisma.$transaction([
+        prisma.quizQuestion.deleteMany({ where: { summaryId } }),
+        prisma.quizQuestion.createManyAndReturn({
+          data: questions.map((question, position) => ({
+            summaryId,
+            ...question,
+            position,
+          })),
+        }),
+      ]);
+
+      logger.info("Quiz generated", {
+        userId,
+        summaryId,
+        requested: count,
+        generated: saved.length,
+      });
+
+      return {
+        success: true,
+        data: saved
+          .sort((a, b) => a.position - b.position)
+          .map((question) => this.formatQuizQuestion(question)),
+      };
+    } catch (error) {
+      logger.error("Quiz generation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to generate quiz", 500);
+    }
+  }
+
+  /**
+   * Get the flashcards of a summary in deck order
+   */
+  async getFlashcards(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<FlashcardData[]>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const cards = await prisma.flashcard.findMany({
+        where: { summaryId },
+        orderBy: { position: "asc" },
+      });
+
+      return {
+        success: true,
+        data: cards.map((card) => this.formatFlashcard(card)),
+      };
+    } catch (error) {
+      logger.error("Get flashcards failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get flashcards", 500);
+    }
+  }
+
+  /**
+   * Add a flashcard to the end of a summary's deck
+   */
+  async addFlashcard(
+    userId: string,
+    summaryId: string,
+    data: FlashcardDto
+  ): Promise<ServiceResponse<FlashcardData>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const last = await prisma.flashcard.findFirst({
+        where: { summaryId },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+
+      const card = await prisma.flashcard.create({
+        data: {
+          summaryId,
+          front: data.front.trim(),
+          back: data.back.trim(),
+          timestamp: data.timestamp || null,
+          position: (last?.position ?? -1) + 1,
+        },
+      });
+
+      return { success: true, data: this.formatFlashcard(card) };
+    } catch (error) {
+      logger.error("Add flashcard failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to add flashcard", 500);
+    }
+  }
+
+  /**
+   * Edit a flashcard; omitted fields are kept
+   */
+  async updateFlashcard(
+    userId: string,
+    summaryId: string,
+    cardId: string,
+    data: Partial<FlashcardDto>
+  ): Promise<ServiceResponse<FlashcardData>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const existing = await prisma.flashcard.findFirst({
+        where: { id: cardId, summaryId },
+      });
+
+      if (!existing) {
+        throw new AppError("Flashcard not found", 404);
+      }
+
+      const card = await prisma.flashcard.update({
+        where: { id: cardId },
+        data: {
+          ...(data.front !== undefined && { front: data.front.trim() }),
+          ...(data.back !== undefined && { back: data.back.trim() }),
+          ...(data.timestamp !== undefined && {
+            timestamp: data.timestamp || null,
+          }),
+        },
+      });
+
+      return { success: true, data: this.formatFlashcard(card) };
+    } catch (error) {
+      logger.error("Update flashcard failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        cardId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update flashcard", 500);
+    }
+  }
+
+  /**
+   * Delete a flashcard
+   */
+  async deleteFlashcard(
+    userId: string,
+    summaryId: string,
+    cardId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const { count } = await prisma.flashcard.deleteMany({
+        where: { id: cardId, summaryId },
+      });
+
+      if (count === 0) {
+        throw new AppError("Flashcard not found", 404);
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Delete flashcard failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        cardId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete flashcard", 500);
+    }
+  }
+
+  /**
+   * Get the quiz questions of a summary in order
+   */
+  async getQuiz(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<QuizQuestionData[]>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const questions = await prisma.quizQuestion.findMany({
+        where: { summaryId },
+        orderBy: { position: "asc" },
+      });
+
+      return {
+        success: true,
+        data: questions.map((question) => this.formatQuizQuestion(question)),
+      };
+    } catch (error) {
+      logger.error("Get quiz failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get quiz", 500);
+    }
+  }
+
+  /**
+   * Add a question to the end of a summary's quiz
+   */
+  async addQuizQuestion(
+    userId: string,
+    summaryId: string,
+    data: QuizQuestionDto
+  ): Promise<ServiceResponse<QuizQuestionData>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const content = this.toQuizContent(data);
+
+      const last = await prisma.quizQuestion.findFirst({
+        where: { summaryId },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+
+      const question = await prisma.quizQuestion.create({
+        data: {
+          summaryId,
+          ...content,
+          position: (last?.position ?? -1) + 1,
+        },
+      });
+
+      return { success: true, data: this.formatQuizQuestion(question) };
+    } catch (error) {
+      logger.error("Add quiz question failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to add quiz question", 500);
+    }
+  }
+
+  /**
+   * Edit a quiz question; omitted fields are kept
+   */
+  async updateQuizQuestion(
+    userId: string,
+    summaryId: string,
+    questionId: string,
+    data: Partial<QuizQuestionDto>
+  ): Promise<ServiceResponse<QuizQuestionData>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const existing = await prisma.quizQuestion.findFirst({
+        where: { id: questionId, summaryId },
+      });
+
+      if (!existing) {
+        throw new AppError("Quiz question not found", 404);
+      }
+
+      // The answer is validated against the options it will be saved with
+      const content = this.toQuizContent({
+        question: data.question ?? existing.question,
+        options: data.options ?? existing.options,
+        answerIndex: data.answerIndex ?? existing.answerIndex,
+        explanation:
+          data.explanation !== undefined
+            ? data.explanation
+            : existing.explanation,
+        timestamp:
+          data.timestamp !== undefined ? data.timestamp : existing.timestamp,
+      });
+
+      const question = await prisma.quizQuestion.update({
+        where: { id: questionId },
+        data: content,
+      });
+
+      return { success: true, data: this.formatQuizQuestion(question) };
+    } catch (error) {
+      logger.error("Update quiz question failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        questionId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update quiz question", 500);
+    }
+  }
+
+  /**
+   * Delete a quiz question
+   */
+  async deleteQuizQuestion(
+    userId: string,
+    summaryId: string,
+    questionId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      await this.findSummary(userId, summaryId);
+
+      const { count } = await prisma.quizQuestion.deleteMany({
+        where: { id: questionId, summaryId },
+      });
+
+      if (count === 0) {
+        throw new AppError("Quiz question not found", 404);
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Delete quiz question failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        questionId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete quiz question", 500);
+    }
+  }
+
+  /**
+   * Export flashcards or a quiz as an Anki package or CSV
+   */
+  async export(
+    userId: string,
+    summaryId: string,
+    kind: StudyMaterialKind,
+    format: StudyExportFormat
+  ): Promise<ServiceResponse<StudyExport>> {
+    try {
+      const summary = await this.findSummary(userId, summaryId);
+      const baseName = `${toFileName(summary.title)}-${kind}`;
+      let body: string | Buffer;
+
+      if (kind === "flashcards") {
+        const { data: cards = [] } = await this.getFlashcards(
+          userId,
+          summaryId
+        );
+        if (cards.length === 0) {
+          throw new AppError("Summary has no flashcards to export", 404);
+        }
+
+        body =
+          format === "apkg"
+            ? await flashcardsToAnkiPackage(cards, summary)
+            : flashcardsToCsv(cards);
+      } else {
+        const { data: questions = [] } = await this.getQuiz(userId, summaryId);
+        if (questions.length === 0) {
+          throw new AppError("Summary has no quiz questions to export", 404);
+        }
+
+        body =
+          format === "apkg"
+            ? await quizToAnkiPackage(questions, summary)
+            : quizToCsv(questions);
+      }
+
+      return {
+        success: true,
+        data:
+          format === "apkg"
+            ? {
+                filename: `${baseName}.apkg`,
+                contentType: "application/octet-stream",
+                body,
+              }
+            : {
+                filename: `${baseName}.csv`,
+                contentType: "text/csv; charset=utf-8",
+                body,
+              },
+      };
+    } catch (error) {
+      logger.error("Study material export failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        kind,
+        format,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError(`Failed to export ${kind}`, 500);
+    }
+  }
+
+  // Check tokens and ask the model for raw items; tokens are consumed by the
+  // OpenAI service once the items are in
+  private async generate(
+    userId: string,
+    summary: SummaryRecord,
+    kind: StudyMaterialKind,
+    count: number
+  ): Promise<{
+    items: unknown[];
+    resolveTimestamp: (value: unknown) => string | null;
+  }> {
+    const transcript = Array.isArray(summary.transcript)
+      ? (summary.transcript as unknown as TranscriptSegment[])
+      : [];
+    const transcriptText = transcript.length
+      ? transcript.map(formatSegment).join("\n")
+      : summary.transcriptText || "";
+
+    const context: StudyMaterialContext = {
+      kind,
+      count,
+      title: summary.videoTitle,
+      keyPoints: summary.keyPoints,
+      summary: summary.fullSummary,
+      transcript: truncateToTokens(
+        transcriptText,
+        config.studyMaterial.transcriptTokens
+      ),
+    };
+    const videoMetadata = summaryService.toVideoMetadata(summary);
+
+    await summaryService.checkTokenAllowance(
+      userId,
+      await openaiService.estimateStudyMaterialUsage(context, userId)
+    );
+
+    const result = await openaiService.generateStudyMaterial(
+      context,
+      videoMetadata,
+      userId
+    );
+
+    if (!result.success || !result.data) {
+      throw new AppError(`Failed to generate ${kind}`, 500);
+    }
+
+    // Timestamps are kept only when they fall on a transcript line
+    const resolver = new TranscriptCitationResolver(transcript);
+
+    return {
+      items: result.data.items,
+      resolveTimestamp: (value) =>
+        resolver.fromTimestamps(value)[0]?.timestamp ?? null,
+    };
+  }
+
+  private toQuizContent(data: QuizQuestionDto) {
+    const options = data.options.map((option) => option.trim());
+
+    if (
+      options.length < MIN_QUIZ_OPTIONS ||
+      options.some((option) => !option) ||
+      new Set(options).size !== options.length
+    ) {
+      throw new AppError(
+        `A question needs at least ${MIN_QUIZ_OPTIONS} distinct, non-empty options`,
+        400
+      );
+    }
+
+    if (data.answerIndex < 0 || data.answerIndex >= options.length) {
+      throw new AppError("answerIndex must point to one of the options", 400);
+    }
+
+    return {
+      question: data.question.trim(),
+      options,
+      answerIndex: data.answerIndex,
+      explanation: data.explanation?.trim() || null,
+      timestamp: data.timestamp || null,
+    };
+  }
+
+  private async findSummary(
+    userId: string,
+    summaryId: string
+  ): Promise<SummaryRecord> {
+    const summary = await prisma.summary.findFirst({
+      where: { id: summaryId, userId },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+
+    return summary;
+  }
+
+  private formatFlashcard(card: Flashcard): FlashcardData {
+    return {
+      id: card.id,
+      front: card.front,
+      back: card.back,
+      timestamp: card.timestamp,
+      position: card.position,
+      createdAt: card.createdAt,
+      updatedAt: card.updatedAt,
+    };
+  }
+
+  private formatQuizQuestion(question: QuizQuestion): QuizQuestionData {
+    return {
+      id: question.id,
+      question: question.question,
+      options: question.options,
+      answerIndex: question.answerIndex,
+      explanation: question.explanation,
+      timestamp: question.timestamp,
+      position: question.position,
+      createdAt: question.createdAt,
+      updatedAt: question.updatedAt,
+    };
+  }
+}
+
+export const studyMaterialService = new StudyMaterialService();
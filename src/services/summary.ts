@@ -1,139 +1,443 @@
-import { Prisma } from "@prisma/client";
+import { Prisma, SummaryTranslation } from "@prisma/client";
 import { prisma } from "../config/database";
 import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
 import { openaiService } from "./openai";
-import { tokenService } from "./token";
+import { tokenService, TokenUsage } from "./token";
 import { tokenUsageService } from "./tokenUsage";
+import { summaryCacheService } from "./summaryCache";
+import { embeddingService } from "./embedding";
+import { tagService } from "./tag";
+import { promptRegistryService } from "./promptRegistry";
+import { summaryRevisionService } from "./summaryRevision";
+import { llmProvider } from "./llm";
 import {
   SummaryData,
   GenerateSummaryRequest,
+  GenerateSummaryOptions,
   ServiceResponse,
   PaginatedResponse,
   SummaryQueryParams,
   CreateSummaryData,
   TranscriptSegment,
   VideoMetadata,
+  SummarySections,
+  UpdateSummaryDto,
+  OpenAISummaryResponse,
+  SummaryMode,
+  SummaryModeContent,
+  SummaryTranslationContent,
+  SummaryTranslationData,
+  SummaryPrompts,
+  SummaryRevisionSource,
+  TranscriptCleanupStats,
   MAX_SUMMARY_HISTORY,
 } from "../types";
+import {
+  SUMMARY_SECTION_NAMES,
+  normalizeSummarySections,
+} from "../utils/summarySections";
+import {
+  formatModeSummary,
+  normalizeModeContent,
+  toSummaryMode,
+} from "../utils/summaryModes";
+import { DEFAULT_LANGUAGE, detectLanguage } from "../utils/languages";
+import { normalizeTags } from "../utils/tags";
+import { applyChapterTranslation, normalizeChapters } from "../utils/chapters";
+import {
+  summaryRevisionContent,
+  translationRevisionContent,
+} from "../utils/summaryRevisions";
+import { cleanTranscript } from "../utils/transcriptCleanup";
+
+// Generation request with mode and output language settled
+interface ResolvedSummaryRequest extends GenerateSummaryRequest {
+  mode: SummaryMode;
+  language: string;
+  transcriptLanguage: string | null;
+  transcriptCleanup: TranscriptCleanupStats | null;
+  prompts: SummaryPrompts; // Picked before the cache lookup, which is keyed on them
+}
+
+interface AllowanceCheck {
+  reservedVideos: number; // Generations queued but not yet completed
+  cacheHit: boolean;
+  countsAsVideo: boolean; // False when regenerating a saved summary
+}
 
 export class SummaryService {
-  // Generate AI summary from transcript (without auto-saving)
-  async generateSummary(
+  // Verify the user still has videos and tokens left for another generation
+  // reservedVideos counts generations already queued but not yet completed
+  async checkGenerationAllowance(
     userId: string,
-    data: GenerateSummaryRequest
-  ): Promise<ServiceResponse<SummaryData>> {
-    try {
-      // Check if user has enough videos and tokens for their plan
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          plan: true,
-          videosProcessedThisMonth: true,
-          videoResetDate: true,
-        },
-      });
+    data: GenerateSummaryRequest,
+    reservedVideos: number = 0
+  ): Promise<void> {
+    const request = await this.resolveRequest(userId, data);
+    const { existingSummary, ...reusable } = await this.findReusable(
+      userId,
+      request
+    );
+    this.rejectModeChange(existingSummary, data.mode);
+
+    // The saved summary is returned as is, nothing is generated
+    if (existingSummary) {
+      return;
+    }
 
-      if (!user) {
-        throw new AppError("User not found", 404);
-      }
+    await this.checkAllowance(userId, request, {
+      reservedVideos,
+      ...reusable,
+    });
+  }
 
-      // Get video limit based on plan
-      let videoLimit: number;
-      switch (user.plan) {
-        case "FREE":
-          videoLimit = config.videoLimits.free;
-          break;
-        case "LITE":
-          videoLimit = config.videoLimits.lite;
-          break;
-        case "PRO":
-          videoLimit = config.videoLimits.pro;
-          break;
-        default:
-          videoLimit = config.videoLimits.free;
-      }
+  // Verify the user has tokens left to regenerate a saved summary in
+  // another mode; regenerations never count as a new video
+  async checkRegenerationAllowance(
+    userId: string,
+    summaryId: string,
+    mode: SummaryMode
+  ): Promise<void> {
+    const { summary, transcript } = await this.loadForRegeneration(
+      userId,
+      summaryId
+    );
+    const request = await this.resolveRequest(
+      userId,
+      this.regenerationRequest(summary, transcript, mode)
+    );
+    const { cacheHit } = await this.findReusable(userId, request);
+
+    await this.checkAllowance(userId, request, {
+      reservedVideos: 0,
+      cacheHit,
+      countsAsVideo: false,
+    });
+  }
 
-      // Check video limit
-      if (user.videosProcessedThisMonth >= videoLimit) {
-        throw new AppError(
-          `Video limit reached. You have processed ${user.videosProcessedThisMonth}/${videoLimit} videos this month. Upgrade your plan for more videos!`,
-          402
+  // Verify the user has videos and tokens left for a whole batch at once,
+  // so a batch is either queued completely or rejected before any work
+  async checkBatchAllowance(
+    userId: string,
+    requests: GenerateSummaryRequest[],
+    reservedVideos: number = 0
+  ): Promise<void> {
+    let videos = 0;
+    const estimatedUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    for (const [i, data] of requests.entries()) {
+      let request: ResolvedSummaryRequest;
+      let reusable: { cacheHit: boolean; countsAsVideo: boolean };
+      try {
+        request = await this.resolveRequest(userId, data);
+        const { existingSummary, ...rest } = await this.findReusable(
+          userId,
+          request
         );
-      }
+        this.rejectModeChange(existingSummary, data.mode);
 
-      // Check token availability (ALL users now use tokens)
-      const transcriptText = this.formatTranscriptText(data.transcript);
-      const estimatedUsage = tokenService.estimateTokenUsage(transcriptText);
+        if (existingSummary) {
+          continue; // Already summarized, nothing to generate
+        }
+        reusable = rest;
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw new AppError(
+            `Item ${i + 1} (${data.videoMetadata.videoId}): ${error.message}`,
+            error.statusCode,
+            true,
+            undefined,
+            error.code
+          );
+        }
+        throw error;
+      }
 
-      const tokenStatus = await tokenService.checkTokenAvailability(
-        userId,
-        estimatedUsage.inputTokens,
-        estimatedUsage.outputTokens
-      );
+      const { cacheHit, countsAsVideo } = reusable;
 
-      if (!tokenStatus.success) {
-        throw new AppError("Failed to check token availability", 500);
+      if (
+        countsAsVideo &&
+        (!cacheHit || config.summaryCache.countsTowardLimit)
+      ) {
+        videos++;
       }
 
-      if (tokenStatus.data?.isTokensExhausted) {
-        throw new AppError(
-          "Token limit exceeded. Your tokens will reset on your next billing date.",
-          402
+      if (!cacheHit) {
+        const usage = openaiService.estimateSummaryUsage(
+          request.transcript,
+          request.mode,
+          request.language,
+          request.prompts
         );
+        estimatedUsage.inputTokens += usage.inputTokens;
+        estimatedUsage.outputTokens += usage.outputTokens;
       }
+    }
+
+    if (videos > 0) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { plan: true, videosProcessedThisMonth: true },
+      });
 
-      if (!tokenStatus.data?.hasEnoughTokens) {
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      const videoLimit = this.videoLimitFor(user.plan);
+      const videosLeft = Math.max(
+        0,
+        videoLimit - user.videosProcessedThisMonth - reservedVideos
+      );
+
+      if (videos > videosLeft) {
         throw new AppError(
-          `Insufficient tokens. Required: ${estimatedUsage.inputTokens} input, ${estimatedUsage.outputTokens} output. Available: ${tokenStatus.data?.inputTokensRemaining} input, ${tokenStatus.data?.outputTokensRemaining} output.`,
+          `Video limit reached. This batch needs ${videos} videos but only ${videosLeft} of your ${videoLimit} videos are left this month${reservedVideos > 0 ? ` (${reservedVideos} more are in progress)` : ""}.`,
           402
         );
       }
+    }
 
-      // Check if summary already exists for this video
-      const existingSummary = await prisma.summary.findFirst({
+    if (estimatedUsage.inputTokens > 0 || estimatedUsage.outputTokens > 0) {
+      await this.checkTokenAllowance(userId, estimatedUsage);
+    }
+  }
+
+  // Whether a request is served from the cache and whether it adds a video
+  // (a video that already has a saved summary does not)
+  private async findReusable(
+    userId: string,
+    request: ResolvedSummaryRequest
+  ): Promise<{
+    cacheHit: boolean;
+    countsAsVideo: boolean;
+    existingSummary: { id: string; mode: string } | null;
+  }> {
+    const [cached, existingSummary] = await Promise.all([
+      summaryCacheService.find(
+        request.videoMetadata.videoId,
+        request.transcript,
+        request.mode,
+        request.language,
+        request.prompts
+      ),
+      prisma.summary.findFirst({
         where: {
           userId,
-          videoId: data.videoMetadata.videoId,
+          videoId: request.videoMetadata.videoId,
           status: "COMPLETED",
         },
-      });
+        select: { id: true, mode: true },
+      }),
+    ]);
 
-      if (existingSummary) {
-        return {
-          success: true,
-          data: this.formatSummary(existingSummary),
-        };
-      }
+    return {
+      cacheHit: !!cached,
+      countsAsVideo: !existingSummary,
+      existingSummary,
+    };
+  }
 
-      // Generate summary using OpenAI without saving to database
-      const aiResult = await openaiService.generateSummary(
-        data.transcript,
-        data.videoMetadata,
-        userId
+  // A saved summary only changes mode through /:id/regenerate, never as a
+  // side effect of generating the same video again
+  private rejectModeChange(
+    existingSummary: { id: string; mode: string } | null,
+    mode: SummaryMode | undefined
+  ): void {
+    if (existingSummary && mode && existingSummary.mode !== mode) {
+      throw new AppError(
+        `This video is already summarized in ${existingSummary.mode} mode. Use POST /api/summary/${existingSummary.id}/regenerate to switch it to ${mode}.`,
+        409,
+        true,
+        undefined,
+        "SUMMARY_MODE_CONFLICT"
       );
+    }
+  }
 
-      if (!aiResult.success || !aiResult.data) {
-        throw new AppError(
-          aiResult.error || "AI summary generation failed",
-          500
-        );
-      }
+  // Settle the summary mode and output language. The language defaults to
+  // the user's preference, then to the language of the transcript.
+  // The transcript is cleaned first, so token estimates, the cache key and
+  // the stored transcript all use the cleaned text.
+  private async resolveRequest(
+    userId: string,
+    data: GenerateSummaryRequest
+  ): Promise<ResolvedSummaryRequest> {
+    const transcriptLanguage = detectLanguage(
+      this.formatTranscriptText(data.transcript)
+    );
+
+    const cleanup = config.transcriptCleanup.enabled
+      ? cleanTranscript(data.transcript, {
+          removeFillers: transcriptLanguage === "en",
+          model: llmProvider.model,
+        })
+      : null;
+
+    if (cleanup && cleanup.transcript.length === 0) {
+      throw new AppError("Transcript has no speech to summarize", 400);
+    }
 
-      // Increment video count immediately after successful generation
-      await prisma.user.update({
+    let language = data.language;
+    if (!language) {
+      const user = await prisma.user.findUnique({
         where: { id: userId },
-        data: { videosProcessedThisMonth: { increment: 1 } },
+        select: { preferredLanguage: true },
       });
+      language =
+        user?.preferredLanguage ?? transcriptLanguage ?? DEFAULT_LANGUAGE;
+    }
+
+    return {
+      ...data,
+      transcript: cleanup?.transcript ?? data.transcript,
+      mode: toSummaryMode(data.mode),
+      language,
+      transcriptLanguage,
+      transcriptCleanup: cleanup?.stats ?? null,
+      prompts: await promptRegistryService.resolveSummaryPrompts(userId),
+    };
+  }
+
+  // Cache hits use no LLM tokens and only count as a video if configured to
+  private async checkAllowance(
+    userId: string,
+    request: ResolvedSummaryRequest,
+    { reservedVideos, cacheHit, countsAsVideo }: AllowanceCheck
+  ): Promise<void> {
+    if (
+      cacheHit &&
+      (!countsAsVideo || !config.summaryCache.countsTowardLimit)
+    ) {
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        plan: true,
+        videosProcessedThisMonth: true,
+        videoResetDate: true,
+      },
+    });
+
+    if (!user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const videoLimit = this.videoLimitFor(user.plan);
+
+    // Check video limit
+    if (
+      countsAsVideo &&
+      user.videosProcessedThisMonth + reservedVideos >= videoLimit
+    ) {
+      throw new AppError(
+        reservedVideos > 0
+          ? `Video limit reached. You have processed ${user.videosProcessedThisMonth}/${videoLimit} videos this month and ${reservedVideos} more are in progress.`
+          : `Video limit reached. You have processed ${user.videosProcessedThisMonth}/${videoLimit} videos this month. Upgrade your plan for more videos!`,
+        402
+      );
+    }
+
+    if (cacheHit) {
+      return;
+    }
+
+    // Check token availability (ALL users now use tokens)
+    await this.checkTokenAllowance(
+      userId,
+      openaiService.estimateSummaryUsage(
+        request.transcript,
+        request.mode,
+        request.language,
+        request.prompts
+      )
+    );
+  }
+
+  // Get video limit based on plan
+  private videoLimitFor(plan: string): number {
+    switch (plan) {
+      case "FREE":
+        return config.videoLimits.free;
+      case "LITE":
+        return config.videoLimits.lite;
+      case "PRO":
+        return config.videoLimits.pro;
+      default:
+        return config.videoLimits.free;
+    }
+  }
+
+  // Reject work the user does not have enough tokens left for
+  async checkTokenAllowance(
+    userId: string,
+    estimatedUsage: TokenUsage
+  ): Promise<void> {
+    const tokenStatus = await tokenService.checkTokenAvailability(
+      userId,
+      estimatedUsage.inputTokens,
+      estimatedUsage.outputTokens
+    );
+
+    if (!tokenStatus.success) {
+      throw new AppError("Failed to check token availability", 500);
+    }
+
+    if (tokenStatus.data?.isTokensExhausted) {
+      throw new AppError(
+        "Token limit exceeded. Your tokens will reset on your next billing date.",
+        402
+      );
+    }
+
+    if (!tokenStatus.data?.hasEnoughTokens) {
+      throw new AppError(
+        `Insufficient tokens. Required: ${estimatedUsage.inputTokens} input, ${estimatedUsage.outputTokens} output. Available: ${tokenStatus.data?.inputTokensRemaining} input, ${tokenStatus.data?.outputTokensRemaining} output.`,
+        402
+      );
+    }
+  }
+
+  // Generate AI summary from transcript (without auto-saving)
+  async generateSummary(
+    userId: string,
+    data: GenerateSummaryRequest,
+    options: GenerateSummaryOptions = {}
+  ): Promise<ServiceResponse<SummaryData>> {
+    try {
+      // Check if summary already exists for this video
+      const savedSummary = await this.findSavedSummary(userId, data);
+
+      if (savedSummary) {
+        return { success: true, data: savedSummary };
+      }
+
+      const request = await this.resolveRequest(userId, data);
+      const { aiData, cacheHit } = await this.produceSummary(
+        userId,
+        request,
+        options,
+        true
+      );
 
       // Return generated summary data without saving to database
       const summaryData: SummaryData = {
         id: "", // Empty ID indicates this hasn't been saved yet
         title: data.videoMetadata.title,
-        keyPoints: aiResult.data.keyPoints,
-        fullSummary: aiResult.data.fullSummary,
-        tags: aiResult.data.tags,
+        keyPoints: aiData.keyPoints,
+        fullSummary: aiData.fullSummary,
+        sections: aiData.sections,
+        mode: aiData.mode,
+        modeContent: aiData.modeContent,
+        chapters: aiData.chapters,
+        language: aiData.language,
+        transcriptLanguage: request.transcriptLanguage,
+        tags: aiData.tags,
+        promptVersion: aiData.promptVersion,
         status: "COMPLETED",
         videoId: data.videoMetadata.videoId,
         videoTitle: data.videoMetadata.title,
@@ -141,19 +445,24 @@ export class SummaryService {
         videoDuration: data.videoMetadata.duration,
         videoUrl: data.videoMetadata.url,
         thumbnailUrl: data.videoMetadata.thumbnailUrl,
-        transcript: data.transcript as any,
-        transcriptText: this.formatTranscriptText(data.transcript),
+        transcript: request.transcript as any,
+        transcriptText: this.formatTranscriptText(request.transcript),
+        transcriptCleanup: request.transcriptCleanup ?? undefined,
         userId,
         createdAt: new Date(),
         updatedAt: new Date(),
         isUnsaved: true, // Flag to indicate this summary hasn't been saved
       };
 
-      logger.info("Summary generated successfully (video count incremented)", {
+      logger.info("Summary generated successfully", {
         userId,
         videoId: data.videoMetadata.videoId,
-        keyPointsCount: aiResult.data.keyPoints.length,
-        tagsCount: aiResult.data.tags.length,
+        keyPointsCount: aiData.keyPoints.length,
+        tagsCount: aiData.tags.length,
+        mode: aiData.mode,
+        language: aiData.language,
+        cacheHit,
+        transcriptTokensSaved: request.transcriptCleanup?.tokensSaved,
       });
 
       return {
@@ -172,6 +481,740 @@ export class SummaryService {
     }
   }
 
+  // The user's completed summary of a video, which generating it again
+  // returns. Asking for it in another mode is a conflict.
+  async findSavedSummary(
+    userId: string,
+    data: GenerateSummaryRequest
+  ): Promise<SummaryData | null> {
+    const existingSummary = await prisma.summary.findFirst({
+      where: {
+        userId,
+        videoId: data.videoMetadata.videoId,
+        status: "COMPLETED",
+      },
+    });
+
+    if (!existingSummary) {
+      return null;
+    }
+
+    this.rejectModeChange(existingSummary, data.mode);
+    return this.formatSummary(existingSummary);
+  }
+
+  // Create the PENDING summary a generation job fills in. A failed attempt
+  // at the same video is reused, so retries do not pile up rows.
+  async createPendingSummary(
+    userId: string,
+    data: GenerateSummaryRequest,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<SummaryData> {
+    const { videoMetadata } = data;
+    const fields = {
+      title: videoMetadata.title,
+      fullSummary: "",
+      mode: toSummaryMode(data.mode),
+      language: data.language ?? null,
+      status: "PENDING" as const,
+      videoTitle: videoMetadata.title,
+      channelName: videoMetadata.channelName,
+      videoDuration: videoMetadata.duration,
+      videoUrl:
+        videoMetadata.url ||
+        `https://youtube.com/watch?v=${videoMetadata.videoId}`,
+      thumbnailUrl: videoMetadata.thumbnailUrl,
+      transcript: data.transcript as unknown as Prisma.InputJsonValue,
+      transcriptText: this.formatTranscriptText(data.transcript),
+    };
+
+    const failed = await db.summary.findFirst({
+      where: { userId, videoId: videoMetadata.videoId, status: "FAILED" },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+
+    const summary = failed
+      ? await db.summary.update({ where: { id: failed.id }, data: fields })
+      : await db.summary.create({
+          data: { ...fields, videoId: videoMetadata.videoId, userId },
+        });
+
+    return this.formatSummary(summary);
+  }
+
+  // Generate the content of a job's PENDING summary, driving it through
+  // PROCESSING to COMPLETED (or FAILED). When the video was saved another
+  // way in the meantime, that summary is returned instead.
+  async generatePendingSummary(
+    userId: string,
+    summaryId: string,
+    data: GenerateSummaryRequest,
+    options: GenerateSummaryOptions = {}
+  ): Promise<ServiceResponse<SummaryData>> {
+    try {
+      const savedSummary = await this.findSavedSummary(userId, data);
+
+      if (savedSummary) {
+        return { success: true, data: savedSummary };
+      }
+
+      const { count } = await prisma.summary.updateMany({
+        where: {
+          id: summaryId,
+          userId,
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+        data: { status: "PROCESSING" },
+      });
+
+      if (count === 0) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      const request = await this.resolveRequest(userId, data);
+      const { aiData, cacheHit } = await this.produceSummary(
+        userId,
+        request,
+        options,
+        true
+      );
+
+      // The summary's history starts with this generation
+      const summary = await prisma.$transaction(async (tx) => {
+        const completed = await tx.summary.update({
+          where: { id: summaryId },
+          data: {
+            keyPoints: aiData.keyPoints,
+            fullSummary: aiData.fullSummary,
+            ...this.sectionColumns(aiData.sections),
+            mode: aiData.mode,
+            modeContent: aiData.modeContent as Prisma.InputJsonValue,
+            chapters: aiData.chapters as unknown as Prisma.InputJsonValue,
+            language: aiData.language,
+            transcriptLanguage: request.transcriptLanguage,
+            tags: normalizeTags(aiData.tags),
+            promptVersion: aiData.promptVersion,
+            status: "COMPLETED",
+            // Citations point into the cleaned transcript
+            transcript: request.transcript as unknown as Prisma.InputJsonValue,
+            transcriptText: this.formatTranscriptText(request.transcript),
+          },
+        });
+
+        await summaryRevisionService.record(
+          tx,
+          summaryId,
+          summaryRevisionContent(completed),
+          { source: "generation", authorId: userId }
+        );
+
+        return completed;
+      });
+
+      await tokenUsageService.markAsSaved(userId, summary.videoId, summary.id);
+      await tagService.addToVocabulary(userId, summary.tags);
+      embeddingService.indexInBackground("summary", summary.id);
+
+      logger.info("Summary generated successfully", {
+        userId,
+        summaryId,
+        videoId: summary.videoId,
+        mode: aiData.mode,
+        language: aiData.language,
+        cacheHit,
+        transcriptTokensSaved: request.transcriptCleanup?.tokensSaved,
+      });
+
+      return { success: true, data: this.formatSummary(summary) };
+    } catch (error) {
+      try {
+        await prisma.summary.updateMany({
+          where: { id: summaryId, status: "PROCESSING" },
+          data: { status: "FAILED" },
+        });
+      } catch (statusError) {
+        logger.warn("Failed to mark summary as failed", {
+          statusError,
+          userId,
+          summaryId,
+        });
+      }
+
+      logger.error("Summary generation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        videoId: data.videoMetadata.videoId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Summary generation failed", 500);
+    }
+  }
+
+  // Regenerate a saved summary in another mode from its stored transcript
+  // (run by a summary job, see summaryJobService.enqueueRegeneration)
+  async regenerateSummary(
+    userId: string,
+    summaryId: string,
+    mode: SummaryMode,
+    options: GenerateSummaryOptions = {}
+  ): Promise<ServiceResponse<SummaryData>> {
+    try {
+      const { summary, transcript } = await this.loadForRegeneration(
+        userId,
+        summaryId
+      );
+
+      return await this.rewriteSummary(
+        userId,
+        summary,
+        transcript,
+        mode,
+        options
+      );
+    } catch (error) {
+      logger.error("Summary regeneration failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        mode,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to regenerate summary", 500);
+    }
+  }
+
+  // Translate a saved summary and store the variant alongside the original.
+  // Stored translations are reused until the summary changes.
+  async translateSummary(
+    userId: string,
+    summaryId: string,
+    language: string
+  ): Promise<ServiceResponse<SummaryTranslationData>> {
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: {
+          id: summaryId,
+          userId,
+        },
+      });
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      if (summary.language === language) {
+        throw new AppError("Summary is already written in this language", 400);
+      }
+
+      const existingTranslation = await prisma.summaryTranslation.findUnique({
+        where: { summaryId_language: { summaryId, language } },
+      });
+
+      if (
+        existingTranslation &&
+        existingTranslation.updatedAt >= summary.updatedAt
+      ) {
+        return {
+          success: true,
+          data: this.formatTranslation(existingTranslation),
+        };
+      }
+
+      const current = this.formatSummary(summary);
+      const content: SummaryTranslationContent = {
+        title: current.title,
+        keyTakeaways: current.sections.keyTakeaways,
+        quotes: current.sections.quotes,
+        examples: current.sections.examples,
+        detailedNotes: current.sections.detailedNotes,
+        modeContent: current.modeContent,
+        chapters: current.chapters.map(({ title, summary }) => ({
+          title,
+          summary,
+        })),
+      };
+
+      await this.checkTokenAllowance(
+        userId,
+        await openaiService.estimateTranslationUsage(content, language, userId)
+      );
+
+      const aiResult = await openaiService.translateSummary(
+        content,
+        language,
+        this.toVideoMetadata(summary),
+        userId
+      );
+
+      if (!aiResult.success || !aiResult.data) {
+        throw new AppError(aiResult.error || "AI translation failed", 500);
+      }
+
+      const translated = aiResult.data.content;
+
+      // Items keep their order, so the original citations still apply
+      const sections = normalizeSummarySections({
+        ...translated,
+        citations: current.sections.citations,
+      });
+      const modeContent = normalizeModeContent(
+        current.mode,
+        translated?.modeContent
+      );
+      const fields = {
+        title:
+          typeof translated?.title === "string" && translated.title.trim()
+            ? translated.title
+            : current.title,
+        keyPoints: sections.keyTakeaways.slice(0, 5),
+        fullSummary: formatModeSummary(current.mode, sections, modeContent),
+        ...this.sectionColumns(sections),
+        modeContent: modeContent as Prisma.InputJsonValue,
+        chapters: applyChapterTranslation(
+          current.chapters,
+          translated?.chapters
+        ) as unknown as Prisma.InputJsonValue,
+        model: aiResult.data.model,
+      };
+
+      const translation = await prisma.$transaction(async (tx) => {
+        const stored = await tx.summaryTranslation.upsert({
+          where: { summaryId_language: { summaryId, language } },
+          create: { summaryId, language, ...fields },
+          update: fields,
+        });
+
+        await summaryRevisionService.record(
+          tx,
+          summaryId,
+          translationRevisionContent(stored),
+          { source: "translation", authorId: userId, language }
+        );
+
+        return stored;
+      });
+
+      logger.info("Summary translated successfully", {
+        userId,
+        summaryId,
+        language,
+      });
+
+      return {
+        success: true,
+        data: this.formatTranslation(translation),
+      };
+    } catch (error) {
+      logger.error("Summary translation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        language,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to translate summary", 500);
+    }
+  }
+
+  // Get the stored translations of a summary
+  async getTranslations(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<SummaryTranslationData[]>> {
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: {
+          id: summaryId,
+          userId,
+        },
+        select: {
+          translations: { orderBy: { language: "asc" } },
+        },
+      });
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      return {
+        success: true,
+        data: summary.translations.map((translation) =>
+          this.formatTranslation(translation)
+        ),
+      };
+    } catch (error) {
+      logger.error("Get summary translations failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary translations", 500);
+    }
+  }
+
+  /**
+   * Put a summary, or one of its translations, back to an earlier revision.
+   * The restore is recorded as a new revision, so it can be undone too.
+   */
+  async restoreRevision(
+    userId: string,
+    summaryId: string,
+    revisionNumber: number
+  ): Promise<ServiceResponse<SummaryData | SummaryTranslationData>> {
+    try {
+      const { data: revision } = await summaryRevisionService.getRevision(
+        userId,
+        summaryId,
+        revisionNumber
+      );
+      const content = revision!.content!;
+      const entry = {
+        source: "restore" as const,
+        authorId: userId,
+        restoredFrom: revisionNumber,
+      };
+      const fields = {
+        title: content.title,
+        keyPoints: content.keyPoints,
+        fullSummary: content.fullSummary,
+        ...this.sectionColumns(normalizeSummarySections(content)),
+        chapters: normalizeChapters(
+          content.chapters
+        ) as unknown as Prisma.InputJsonValue,
+      };
+
+      if (revision!.language) {
+        const language = revision!.language;
+        const existing = await prisma.summaryTranslation.findUnique({
+          where: { summaryId_language: { summaryId, language } },
+        });
+
+        if (!existing) {
+          throw new AppError("Translation no longer exists", 404);
+        }
+
+        const translation = await prisma.$transaction(async (tx) => {
+          const restored = await tx.summaryTranslation.update({
+            where: { id: existing.id },
+            data: {
+              ...fields,
+              modeContent: (content.modeContent ?? {}) as Prisma.InputJsonValue,
+            },
+          });
+
+          await summaryRevisionService.record(
+            tx,
+            summaryId,
+            translationRevisionContent(restored),
+            { ...entry, language }
+          );
+
+          return restored;
+        });
+
+        logger.info("Summary translation restored", {
+          userId,
+          summaryId,
+          language,
+          revision: revisionNumber,
+        });
+
+        return { success: true, data: this.formatTranslation(translation) };
+      }
+
+      const mode = toSummaryMode(content.mode);
+      const summary = await prisma.$transaction(async (tx) => {
+        const restored = await tx.summary.update({
+          where: { id: summaryId },
+          data: {
+            ...fields,
+            mode,
+            modeContent: normalizeModeContent(
+              mode,
+              content.modeContent
+            ) as Prisma.InputJsonValue,
+            language: content.language ?? null,
+            promptVersion: content.promptVersion ?? null,
+          },
+        });
+
+        await summaryRevisionService.record(
+          tx,
+          summaryId,
+          summaryRevisionContent(restored),
+          entry
+        );
+
+        return restored;
+      });
+
+      embeddingService.indexInBackground("summary", summaryId);
+
+      logger.info("Summary restored", {
+        userId,
+        summaryId,
+        revision: revisionNumber,
+      });
+
+      return { success: true, data: this.formatSummary(summary) };
+    } catch (error) {
+      logger.error("Summary restore failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        revision: revisionNumber,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to restore summary revision", 500);
+    }
+  }
+
+  // Produce summary content from the shared cache or the LLM.
+  // countsAsVideo is false when an already counted video is regenerated.
+  private async produceSummary(
+    userId: string,
+    data: ResolvedSummaryRequest,
+    options: GenerateSummaryOptions,
+    countsAsVideo: boolean
+  ): Promise<{ aiData: OpenAISummaryResponse; cacheHit: boolean }> {
+    const { mode, language, prompts } = data;
+
+    // Another user may already have summarized the same transcript
+    const cached = await summaryCacheService.find(
+      data.videoMetadata.videoId,
+      data.transcript,
+      mode,
+      language,
+      prompts
+    );
+
+    // A job replayed after a restart may already have counted its video;
+    // the LLM calls it makes again are still charged
+    if (countsAsVideo && options.jobId) {
+      countsAsVideo = !(await this.jobCountedVideo(options.jobId));
+    }
+
+    // Check if user has enough videos and tokens for their plan
+    await this.checkAllowance(userId, data, {
+      reservedVideos: 0,
+      cacheHit: !!cached,
+      countsAsVideo,
+    });
+
+    if (cached) {
+      await summaryCacheService.recordHit(cached.cacheKey);
+      logger.info("Summary served from shared cache", {
+        userId,
+        videoId: data.videoMetadata.videoId,
+        mode,
+        language,
+        tokensSaved: cached.inputTokens + cached.outputTokens,
+      });
+
+      await this.trackCacheHit(
+        userId,
+        data,
+        cached.model,
+        cached.result.promptVersion
+      );
+      this.emitCachedSections(cached.result.sections, options);
+
+      if (countsAsVideo && config.summaryCache.countsTowardLimit) {
+        await this.countVideo(userId, options.jobId);
+      }
+
+      return {
+        aiData: await this.withUserTags(userId, cached.result),
+        cacheHit: true,
+      };
+    }
+
+    // Generate summary using OpenAI without saving to database
+    const aiResult = await openaiService.generateSummary(
+      data.transcript,
+      data.videoMetadata,
+      userId,
+      { ...options, mode, language, prompts }
+    );
+
+    if (!aiResult.success || !aiResult.data) {
+      throw new AppError(aiResult.error || "AI summary generation failed", 500);
+    }
+
+    if (countsAsVideo) {
+      // Increment video count immediately after successful generation
+      await this.countVideo(userId, options.jobId);
+    }
+
+    await summaryCacheService.store(
+      data.videoMetadata.videoId,
+      data.transcript,
+      prompts,
+      aiResult.data
+    );
+
+    return {
+      aiData: await this.withUserTags(userId, aiResult.data),
+      cacheHit: false,
+    };
+  }
+
+  // Add a generated video to the user's monthly count. A job stamps its
+  // count in the same transaction, so a replayed job never counts twice.
+  private async countVideo(userId: string, jobId?: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      if (jobId) {
+        const { count } = await tx.summaryJob.updateMany({
+          where: { id: jobId, videoChargedAt: null },
+          data: { videoChargedAt: new Date() },
+        });
+
+        if (count === 0) {
+          return;
+        }
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { videosProcessedThisMonth: { increment: 1 } },
+      });
+    });
+  }
+
+  private async jobCountedVideo(jobId: string): Promise<boolean> {
+    const job = await prisma.summaryJob.findUnique({
+      where: { id: jobId },
+      select: { videoChargedAt: true },
+    });
+    return job?.videoChargedAt != null;
+  }
+
+  // Prefer the user's existing spelling of generated tags; cached results
+  // are shared between users so this happens after the cache lookup
+  private async withUserTags(
+    userId: string,
+    aiData: OpenAISummaryResponse
+  ): Promise<OpenAISummaryResponse> {
+    return {
+      ...aiData,
+      tags: await tagService.matchUserVocabulary(userId, aiData.tags),
+    };
+  }
+
+  // A saved summary with the transcript it can be regenerated from
+  private async loadForRegeneration(
+    userId: string,
+    summaryId: string
+  ): Promise<{
+    summary: Prisma.SummaryGetPayload<object>;
+    transcript: TranscriptSegment[];
+  }> {
+    const summary = await prisma.summary.findFirst({
+      where: {
+        id: summaryId,
+        userId,
+      },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+
+    if (summary.status !== "COMPLETED") {
+      throw new AppError("Only completed summaries can be regenerated", 400);
+    }
+
+    const transcript = Array.isArray(summary.transcript)
+      ? (summary.transcript as unknown as TranscriptSegment[])
+      : [];
+
+    if (transcript.length === 0) {
+      throw new AppError(
+        "Summary has no stored transcript to regenerate from",
+        400
+      );
+    }
+
+    return { summary, transcript };
+  }
+
+  // Keep the language the summary is already written in
+  private regenerationRequest(
+    summary: Prisma.SummaryGetPayload<object>,
+    transcript: TranscriptSegment[],
+    mode: SummaryMode
+  ): GenerateSummaryRequest {
+    return {
+      transcript,
+      videoMetadata: this.toVideoMetadata(summary),
+      mode,
+      language: summary.language ?? undefined,
+    };
+  }
+
+  // Replace a saved summary's content with a generation in the given mode
+  private async rewriteSummary(
+    userId: string,
+    summary: Prisma.SummaryGetPayload<object>,
+    transcript: TranscriptSegment[],
+    mode: SummaryMode,
+    options: GenerateSummaryOptions
+  ): Promise<ServiceResponse<SummaryData>> {
+    const request = await this.resolveRequest(
+      userId,
+      this.regenerationRequest(summary, transcript, mode)
+    );
+    const { aiData } = await this.produceSummary(
+      userId,
+      request,
+      options,
+      false
+    );
+
+    const updatedSummary = await this.updateWithRevision(
+      summary.id,
+      {
+        keyPoints: aiData.keyPoints,
+        fullSummary: aiData.fullSummary,
+        ...this.sectionColumns(aiData.sections),
+        mode,
+        modeContent: aiData.modeContent as Prisma.InputJsonValue,
+        chapters: aiData.chapters as unknown as Prisma.InputJsonValue,
+        language: aiData.language,
+        transcriptLanguage: request.transcriptLanguage,
+        promptVersion: aiData.promptVersion,
+        // Citations point into the cleaned transcript
+        transcript: request.transcript as unknown as Prisma.InputJsonValue,
+        transcriptText: this.formatTranscriptText(request.transcript),
+      },
+      "regeneration",
+      userId
+    );
+
+    await tokenUsageService.markAsSaved(userId, summary.videoId, summary.id);
+    embeddingService.indexInBackground("summary", summary.id);
+
+    logger.info("Summary regenerated successfully", {
+      userId,
+      summaryId: summary.id,
+      previousMode: summary.mode,
+      mode,
+    });
+
+    return {
+      success: true,
+      data: this.formatSummary(updatedSummary),
+    };
+  }
+
   // Save/update summary
   async saveSummary(
     userId: string,
@@ -194,15 +1237,36 @@ export class SummaryService {
           throw new AppError("Summary not found", 404);
         }
 
-        summary = await prisma.summary.update({
-          where: { id: summaryData.id },
-          data: {
+        summary = await this.updateWithRevision(
+          summaryData.id,
+          {
             title: summaryData.title ?? summary.title,
             keyPoints: summaryData.keyPoints ?? summary.keyPoints,
             fullSummary: summaryData.fullSummary ?? summary.fullSummary,
-            tags: summaryData.tags ?? summary.tags,
+            ...(summaryData.sections &&
+              this.sectionColumns(
+                normalizeSummarySections(summaryData.sections)
+              )),
+            ...(summaryData.language && { language: summaryData.language }),
+            ...(summaryData.mode && {
+              mode: toSummaryMode(summaryData.mode),
+              modeContent: normalizeModeContent(
+                toSummaryMode(summaryData.mode),
+                summaryData.modeContent
+              ) as Prisma.InputJsonValue,
+            }),
+            ...(summaryData.chapters && {
+              chapters: normalizeChapters(
+                summaryData.chapters
+              ) as unknown as Prisma.InputJsonValue,
+            }),
+            tags: summaryData.tags
+              ? normalizeTags(summaryData.tags)
+              : summary.tags,
           },
-        });
+          "edit",
+          userId
+        );
       } else {
         // Create new summary
         if (
@@ -212,6 +1276,7 @@ export class SummaryService {
         ) {
           throw new AppError("Missing required video metadata", 400);
         }
+        const { videoId, videoTitle, channelName } = summaryData;
 
         // Check if summary already exists for this video FIRST
         const existingSummary = await prisma.summary.findFirst({
@@ -275,25 +1340,54 @@ export class SummaryService {
         }
         // If isFromExtensionGeneration = true, skip limit check because count was already incremented
 
-        summary = await prisma.summary.create({
-          data: {
-            title: summaryData.title || summaryData.videoTitle,
-            keyPoints: summaryData.keyPoints || [],
-            fullSummary: summaryData.fullSummary || "",
-            tags: summaryData.tags || [],
-            status: "COMPLETED",
-            videoId: summaryData.videoId,
-            videoTitle: summaryData.videoTitle,
-            channelName: summaryData.channelName,
-            videoDuration: summaryData.videoDuration,
-            videoUrl:
-              summaryData.videoUrl ||
-              `https://youtube.com/watch?v=${summaryData.videoId}`,
-            thumbnailUrl: summaryData.thumbnailUrl,
-            transcript: summaryData.transcript,
-            transcriptText: summaryData.transcriptText,
-            userId,
-          },
+        // A summary saved from a generation starts its history as that generation
+        summary = await prisma.$transaction(async (tx) => {
+          const created = await tx.summary.create({
+            data: {
+              title: summaryData.title || videoTitle,
+              keyPoints: summaryData.keyPoints || [],
+              fullSummary: summaryData.fullSummary || "",
+              ...this.sectionColumns(
+                normalizeSummarySections(summaryData.sections)
+              ),
+              mode: toSummaryMode(summaryData.mode),
+              modeContent: normalizeModeContent(
+                toSummaryMode(summaryData.mode),
+                summaryData.modeContent
+              ) as Prisma.InputJsonValue,
+              chapters: normalizeChapters(
+                summaryData.chapters
+              ) as unknown as Prisma.InputJsonValue,
+              language: summaryData.language,
+              transcriptLanguage: summaryData.transcriptLanguage,
+              tags: normalizeTags(summaryData.tags),
+              promptVersion: summaryData.promptVersion,
+              status: "COMPLETED",
+              videoId,
+              videoTitle,
+              channelName,
+              videoDuration: summaryData.videoDuration,
+              videoUrl:
+                summaryData.videoUrl ||
+                `https://youtube.com/watch?v=${videoId}`,
+              thumbnailUrl: summaryData.thumbnailUrl,
+              transcript: summaryData.transcript,
+              transcriptText: summaryData.transcriptText,
+              userId,
+            },
+          });
+
+          await summaryRevisionService.record(
+            tx,
+            created.id,
+            summaryRevisionContent(created),
+            {
+              source: isFromExtensionGeneration ? "generation" : "edit",
+              authorId: userId,
+            }
+          );
+
+          return created;
         });
 
         // Mark token usage as saved in TOKEN_USAGE table
@@ -316,6 +1410,9 @@ export class SummaryService {
         // Video count already incremented during generation, don't increment again
       }
 
+      await tagService.addToVocabulary(userId, summary.tags);
+      embeddingService.indexInBackground("summary", summary.id);
+
       logger.info("Summary saved successfully", {
         userId,
         summaryId: summary.id,
@@ -350,6 +1447,7 @@ export class SummaryService {
         search,
         status,
         videoId,
+        tags,
         startDate,
         endDate,
         sortBy = "createdAt",
@@ -361,6 +1459,7 @@ export class SummaryService {
         userId,
         ...(status && { status }),
         ...(videoId && { videoId }),
+        ...(tags?.length && { tags: { hasEvery: tags } }),
         ...(startDate &&
           endDate && {
             createdAt: {
@@ -447,13 +1546,11 @@ export class SummaryService {
     }
   }
 
-  // Update summary
+  // Update summary; sections are replaced individually
   async updateSummary(
     userId: string,
     summaryId: string,
-    updates: Partial<
-      Pick<SummaryData, "title" | "keyPoints" | "fullSummary" | "tags">
-    >
+    updates: UpdateSummaryDto
   ): Promise<ServiceResponse<SummaryData>> {
     try {
       const existingSummary = await prisma.summary.findFirst({
@@ -467,10 +1564,70 @@ export class SummaryService {
         throw new AppError("Summary not found", 404);
       }
 
-      const updatedSummary = await prisma.summary.update({
-        where: { id: summaryId },
-        data: updates,
-      });
+      const {
+        sections: sectionUpdates,
+        modeContent: modeContentUpdates,
+        ...fields
+      } = updates;
+      const data: Prisma.SummaryUpdateInput = {
+        ...fields,
+        ...(fields.tags && { tags: normalizeTags(fields.tags) }),
+      };
+      const current = this.formatSummary(existingSummary);
+      let sections = current.sections;
+      let modeContent = current.modeContent;
+
+      if (sectionUpdates) {
+        // Edited sections lose their citations unless new ones are supplied
+        const citations = { ...current.sections.citations };
+        for (const section of SUMMARY_SECTION_NAMES) {
+          if (sectionUpdates[section]) {
+            citations[section] = sectionUpdates.citations?.[section] ?? [];
+          }
+        }
+
+        sections = normalizeSummarySections({
+          ...current.sections,
+          ...sectionUpdates,
+          citations,
+        });
+
+        Object.assign(data, this.sectionColumns(sections));
+
+        if (fields.keyPoints === undefined && sectionUpdates.keyTakeaways) {
+          data.keyPoints = sections.keyTakeaways.slice(0, 5);
+        }
+      }
+
+      if (modeContentUpdates) {
+        modeContent = normalizeModeContent(current.mode, {
+          ...current.modeContent,
+          ...modeContentUpdates,
+        });
+        data.modeContent = modeContent as Prisma.InputJsonValue;
+      }
+
+      // Keep the flattened text in sync unless it was edited directly
+      if (
+        (sectionUpdates || modeContentUpdates) &&
+        fields.fullSummary === undefined
+      ) {
+        data.fullSummary = formatModeSummary(
+          current.mode,
+          sections,
+          modeContent
+        );
+      }
+
+      const updatedSummary = await this.updateWithRevision(
+        summaryId,
+        data,
+        "edit",
+        userId
+      );
+
+      await tagService.addToVocabulary(userId, updatedSummary.tags);
+      embeddingService.indexInBackground("summary", summaryId);
 
       logger.info("Summary updated successfully", {
         userId,
@@ -612,12 +1769,21 @@ export class SummaryService {
 
   // Format summary for API response
   private formatSummary(summary: any): SummaryData {
+    const mode = toSummaryMode(summary.mode);
+
     return {
       id: summary.id,
       title: summary.title,
       keyPoints: summary.keyPoints,
       fullSummary: summary.fullSummary,
+      sections: normalizeSummarySections(summary),
+      mode,
+      modeContent: normalizeModeContent(mode, summary.modeContent),
+      chapters: normalizeChapters(summary.chapters),
+      language: summary.language,
+      transcriptLanguage: summary.transcriptLanguage,
       tags: summary.tags,
+      promptVersion: summary.promptVersion,
       status: summary.status,
       videoId: summary.videoId,
       videoTitle: summary.videoTitle,
@@ -633,6 +1799,127 @@ export class SummaryService {
     };
   }
 
+  // Format a stored translation for API response
+  private formatTranslation(
+    translation: SummaryTranslation
+  ): SummaryTranslationData {
+    return {
+      id: translation.id,
+      summaryId: translation.summaryId,
+      language: translation.language,
+      title: translation.title,
+      keyPoints: translation.keyPoints,
+      fullSummary: translation.fullSummary,
+      sections: normalizeSummarySections(translation),
+      modeContent: (translation.modeContent ??
+        {}) as unknown as SummaryModeContent,
+      chapters: normalizeChapters(translation.chapters),
+      createdAt: translation.createdAt,
+      updatedAt: translation.updatedAt,
+    };
+  }
+
+  // Record a cache hit in TOKEN_USAGE so it can be saved and reported like a generation
+  private async trackCacheHit(
+    userId: string,
+    data: GenerateSummaryRequest,
+    model: string,
+    promptVersion?: string
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    await tokenUsageService.trackTokenUsage({
+      userId,
+      userEmail: user.email,
+      videoId: data.videoMetadata.videoId,
+      videoUrl:
+        data.videoMetadata.url ||
+        `https://www.youtube.com/watch?v=${data.videoMetadata.videoId}`,
+      videoTitle: data.videoMetadata.title,
+      inputTokens: 0,
+      outputTokens: 0,
+      model,
+      operation: "summary_cache_hit",
+      cacheHit: true,
+      promptVersion,
+    });
+  }
+
+  // Replay cached sections to streaming listeners
+  private emitCachedSections(
+    sections: SummarySections,
+    options: GenerateSummaryOptions
+  ): void {
+    if (!options.onSection) {
+      return;
+    }
+
+    for (const section of SUMMARY_SECTION_NAMES) {
+      sections[section].forEach((item, index) => {
+        options.onSection!({
+          section,
+          index,
+          item,
+          citations: sections.citations[section][index],
+        });
+      });
+    }
+  }
+
+  // Save changes to a summary together with the revision they make
+  private async updateWithRevision(
+    summaryId: string,
+    data: Prisma.SummaryUpdateInput,
+    source: SummaryRevisionSource,
+    authorId: string
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const summary = await tx.summary.update({
+        where: { id: summaryId },
+        data,
+      });
+
+      await summaryRevisionService.record(
+        tx,
+        summaryId,
+        summaryRevisionContent(summary),
+        { source, authorId }
+      );
+
+      return summary;
+    });
+  }
+
+  // Map sections onto their Summary columns
+  private sectionColumns(sections: SummarySections) {
+    return {
+      keyTakeaways: sections.keyTakeaways,
+      quotes: sections.quotes,
+      examples: sections.examples,
+      detailedNotes: sections.detailedNotes as unknown as Prisma.InputJsonValue,
+      citations: sections.citations as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  // Rebuild the video metadata of a saved summary
+  toVideoMetadata(summary: Prisma.SummaryGetPayload<object>): VideoMetadata {
+    return {
+      videoId: summary.videoId,
+      title: summary.videoTitle,
+      channelName: summary.channelName,
+      duration: summary.videoDuration ?? undefined,
+      url: summary.videoUrl,
+      thumbnailUrl: summary.thumbnailUrl ?? undefined,
+    };
+  }
+
   // Format transcript segments to plain text
   private formatTranscriptText(transcript: TranscriptSegment[]): string {
     return transcript.map((segment) => segment.text).join(" ");
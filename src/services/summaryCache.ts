@@ -0,0 +1,204 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { llmProvider } from "./llm";
+import {
+  OpenAISummaryResponse,
+  SUMMARY_PROMPT_VERSION,
+  SummaryMode,
+  SummaryPrompts,
+  TranscriptSegment,
+} from "../types";
+import { summaryPromptsLabel } from "../utils/promptTemplates";
+
+interface SummaryCacheEntry {
+  cacheKey: string;
+  model: string;
+  result: OpenAISummaryResponse;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export class SummaryCacheService {
+  /**
+   * Hash the transcript so whitespace and casing differences between
+   * clients still hit the same entry. Timestamps are kept because
+   * citations point into them.
+   */
+  hashTranscript(transcript: TranscriptSegment[]): string {
+    const normalized = transcript
+      .map(
+        (segment) =>
+          `${segment.timestamp.trim()}|${segment.text
+            .toLowerCase()
+            .replace(/\s+/g, " ")
+            .trim()}`
+      )
+      .join("\n");
+
+    return createHash("sha256").update(normalized).digest("hex");
+  }
+
+  /**
+   * Build the content-addressed key for a generation request
+   */
+  buildKey(
+    videoId: string,
+    transcript: TranscriptSegment[],
+    mode: SummaryMode,
+    language: string,
+    promptVersion: string
+  ): string {
+    return createHash("sha256")
+      .update(
+        [
+          videoId,
+          this.hashTranscript(transcript),
+          mode,
+          language,
+          SUMMARY_PROMPT_VERSION,
+          promptVersion,
+          llmProvider.model,
+        ].join(":")
+      )
+      .digest("hex");
+  }
+
+  /**
+   * Look up a cached summary without recording a hit
+   */
+  async find(
+    videoId: string,
+    transcript: TranscriptSegment[],
+    mode: SummaryMode,
+    language: string,
+    prompts: SummaryPrompts
+  ): Promise<SummaryCacheEntry | null> {
+    if (!config.summaryCache.enabled) {
+      return null;
+    }
+
+    try {
+      const entry = await prisma.summaryCache.findUnique({
+        where: {
+          cacheKey: this.buildKey(
+            videoId,
+            transcript,
+            mode,
+            language,
+            summaryPromptsLabel(prompts)
+          ),
+        },
+      });
+
+      if (!entry) {
+        return null;
+      }
+
+      return {
+        cacheKey: entry.cacheKey,
+        model: entry.model,
+        result: entry.result as unknown as OpenAISummaryResponse,
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+      };
+    } catch (error) {
+      // A broken cache must never block generation
+      logger.warn("Summary cache lookup failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record that a cached summary was served
+   */
+  async recordHit(cacheKey: string): Promise<void> {
+    try {
+      await prisma.summaryCache.update({
+        where: { cacheKey },
+        data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+      });
+    } catch (error) {
+      logger.warn("Failed to record summary cache hit", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        cacheKey,
+      });
+    }
+  }
+
+  /**
+   * Store a freshly generated summary for other users
+   */
+  async store(
+    videoId: string,
+    transcript: TranscriptSegment[],
+    prompts: SummaryPrompts,
+    result: OpenAISummaryResponse
+  ): Promise<void> {
+    if (!config.summaryCache.enabled) {
+      return;
+    }
+
+    const { usage, ...summary } = result;
+    const promptVersion = summaryPromptsLabel(prompts);
+    const cacheKey = this.buildKey(
+      videoId,
+      transcript,
+      result.mode,
+      result.language,
+      promptVersion
+    );
+
+    try {
+      await prisma.summaryCache.upsert({
+        where: { cacheKey },
+        create: {
+          cacheKey,
+          videoId,
+          transcriptHash: this.hashTranscript(transcript),
+          promptVersion,
+          model: llmProvider.model,
+          result: summary as unknown as Prisma.InputJsonValue,
+          inputTokens: usage?.promptTokens ?? 0,
+          outputTokens: usage?.completionTokens ?? 0,
+        },
+        update: {},
+      });
+    } catch (error) {
+      logger.warn("Failed to store summary in cache", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      });
+    }
+  }
+
+  /**
+   * Delete entries that have not been used within the TTL
+   */
+  async cleanupExpired(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - config.summaryCache.ttlDays * 24 * 60 * 60 * 1000
+      );
+
+      const { count } = await prisma.summaryCache.deleteMany({
+        where: { updatedAt: { lt: cutoff } },
+      });
+
+      if (count > 0) {
+        logger.info("Expired summary cache entries cleaned up", {
+          deletedCount: count,
+        });
+      }
+    } catch (error) {
+      logger.error("Summary cache cleanup failed", { error });
+    }
+  }
+}
+
+export const summaryCacheService = new SummaryCacheService();
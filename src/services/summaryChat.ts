@@ -0,0 +1,351 @@
+import { Prisma, SummaryChatMessage, SummaryChatThread } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { openaiService } from "./openai";
+import { summaryService } from "./summary";
+import {
+  ServiceResponse,
+  SummaryChatContext,
+  SummaryChatDto,
+  SummaryChatMessageData,
+  SummaryChatResult,
+  SummaryChatRole,
+  SummaryChatThreadData,
+  SummaryCitation,
+  TranscriptSegment,
+} from "../types";
+import { TranscriptCitationResolver } from "../utils/transcriptCitations";
+import {
+  TranscriptRetriever,
+  formatSegment,
+  segmentsFromText,
+} from "../utils/transcriptRetrieval";
+
+const MAX_THREAD_TITLE_LENGTH = 100;
+
+export class SummaryChatService {
+  /**
+   * Answer a follow-up question about a saved summary from its transcript.
+   * Starts a new thread unless threadId continues an existing one.
+   */
+  async ask(
+    userId: string,
+    summaryId: string,
+    data: SummaryChatDto
+  ): Promise<ServiceResponse<SummaryChatResult>> {
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: { id: summaryId, userId },
+      });
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      const transcript = this.getTranscript(summary);
+      if (transcript.length === 0) {
+        throw new AppError(
+          "Summary has no stored transcript to answer from",
+          400
+        );
+      }
+
+      const thread = data.threadId
+        ? await prisma.summaryChatThread.findFirst({
+            where: { id: data.threadId, summaryId },
+          })
+        : null;
+
+      if (data.threadId && !thread) {
+        throw new AppError("Chat thread not found", 404);
+      }
+
+      // Latest messages of the thread, oldest first
+      const history = thread
+        ? (
+            await prisma.summaryChatMessage.findMany({
+              where: { threadId: thread.id },
+              orderBy: { sequence: "desc" },
+              take: config.summaryChat.historyMessages,
+            })
+          ).reverse()
+        : [];
+
+      // Include the previous question so follow-ups like "why?" still
+      // retrieve the part of the video being discussed
+      const previousQuestion = [...history]
+        .reverse()
+        .find((message) => message.role === "user");
+      const query = [previousQuestion?.content, data.question]
+        .filter(Boolean)
+        .join(" ");
+
+      const passages = new TranscriptRetriever(
+        transcript,
+        config.summaryChat.passageTokens
+      ).search(query, config.summaryChat.maxPassages);
+
+      const context: SummaryChatContext = {
+        question: data.question,
+        summary: summary.fullSummary,
+        passages: passages.map((passage) =>
+          passage.segments.map(formatSegment).join("\n")
+        ),
+        history: history.map((message) => ({
+          role: message.role as SummaryChatRole,
+          content: message.content,
+        })),
+      };
+
+      const videoMetadata = summaryService.toVideoMetadata(summary);
+
+      await summaryService.checkTokenAllowance(
+        userId,
+        await openaiService.estimateChatUsage(context, videoMetadata, userId)
+      );
+
+      // Tokens are consumed by the OpenAI service once the answer is in
+      const aiResult = await openaiService.answerQuestion(
+        context,
+        videoMetadata,
+        userId
+      );
+
+      if (!aiResult.success || !aiResult.data) {
+        throw new AppError("Failed to answer question", 500);
+      }
+
+      const { text: answer, citations } = new TranscriptCitationResolver(
+        transcript
+      ).resolveInline(aiResult.data.answer);
+      const usage = aiResult.data.usage;
+
+      const [savedThread, question, reply] = await prisma.$transaction(
+        async (tx) => {
+          const chatThread = thread
+            ? await tx.summaryChatThread.update({
+                where: { id: thread.id },
+                data: { updatedAt: new Date() },
+              })
+            : await tx.summaryChatThread.create({
+                data: {
+                  summaryId,
+                  title: data.question.slice(0, MAX_THREAD_TITLE_LENGTH),
+                },
+              });
+
+          const questionMessage = await tx.summaryChatMessage.create({
+            data: {
+              threadId: chatThread.id,
+              role: "user",
+              content: data.question,
+            },
+          });
+
+          const answerMessage = await tx.summaryChatMessage.create({
+            data: {
+              threadId: chatThread.id,
+              role: "assistant",
+              content: answer,
+              citations: citations as unknown as Prisma.InputJsonValue,
+              inputTokens: usage?.promptTokens ?? 0,
+              outputTokens: usage?.completionTokens ?? 0,
+            },
+          });
+
+          return [chatThread, questionMessage, answerMessage] as const;
+        }
+      );
+
+      logger.info("Summary question answered", {
+        userId,
+        summaryId,
+        threadId: savedThread.id,
+        passages: passages.length,
+        citations: citations.length,
+      });
+
+      return {
+        success: true,
+        data: {
+          thread: this.formatThread(savedThread),
+          question: this.formatMessage(question),
+          answer: this.formatMessage(reply),
+        },
+      };
+    } catch (error) {
+      logger.error("Summary chat failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        threadId: data.threadId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to answer question", 500);
+    }
+  }
+
+  /**
+   * List the chat threads of a summary, most recently active first
+   */
+  async getThreads(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<SummaryChatThreadData[]>> {
+    try {
+      await this.assertSummaryOwner(userId, summaryId);
+
+      const threads = await prisma.summaryChatThread.findMany({
+        where: { summaryId },
+        orderBy: { updatedAt: "desc" },
+      });
+
+      return {
+        success: true,
+        data: threads.map((thread) => this.formatThread(thread)),
+      };
+    } catch (error) {
+      logger.error("Get summary chat threads failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get chat threads", 500);
+    }
+  }
+
+  /**
+   * Get a chat thread with all of its messages
+   */
+  async getThread(
+    userId: string,
+    summaryId: string,
+    threadId: string
+  ): Promise<ServiceResponse<SummaryChatThreadData>> {
+    try {
+      await this.assertSummaryOwner(userId, summaryId);
+
+      const thread = await prisma.summaryChatThread.findFirst({
+        where: { id: threadId, summaryId },
+        include: { messages: { orderBy: { sequence: "asc" } } },
+      });
+
+      if (!thread) {
+        throw new AppError("Chat thread not found", 404);
+      }
+
+      return {
+        success: true,
+        data: {
+          ...this.formatThread(thread),
+          messages: thread.messages.map((message) =>
+            this.formatMessage(message)
+          ),
+        },
+      };
+    } catch (error) {
+      logger.error("Get summary chat thread failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        threadId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get chat thread", 500);
+    }
+  }
+
+  /**
+   * Delete a chat thread and its messages
+   */
+  async deleteThread(
+    userId: string,
+    summaryId: string,
+    threadId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      await this.assertSummaryOwner(userId, summaryId);
+
+      const { count } = await prisma.summaryChatThread.deleteMany({
+        where: { id: threadId, summaryId },
+      });
+
+      if (count === 0) {
+        throw new AppError("Chat thread not found", 404);
+      }
+
+      logger.info("Summary chat thread deleted", {
+        userId,
+        summaryId,
+        threadId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Delete summary chat thread failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        threadId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete chat thread", 500);
+    }
+  }
+
+  private async assertSummaryOwner(
+    userId: string,
+    summaryId: string
+  ): Promise<void> {
+    const summary = await prisma.summary.findFirst({
+      where: { id: summaryId, userId },
+      select: { id: true },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+  }
+
+  // Timestamped segments when stored, otherwise sentences of transcriptText
+  private getTranscript(
+    summary: Prisma.SummaryGetPayload<object>
+  ): TranscriptSegment[] {
+    if (Array.isArray(summary.transcript) && summary.transcript.length > 0) {
+      return summary.transcript as unknown as TranscriptSegment[];
+    }
+
+    return summary.transcriptText
+      ? segmentsFromText(summary.transcriptText)
+      : [];
+  }
+
+  private formatThread(thread: SummaryChatThread): SummaryChatThreadData {
+    return {
+      id: thread.id,
+      summaryId: thread.summaryId,
+      title: thread.title,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt,
+    };
+  }
+
+  private formatMessage(message: SummaryChatMessage): SummaryChatMessageData {
+    return {
+      id: message.id,
+      role: message.role as SummaryChatRole,
+      content: message.content,
+      citations: (message.citations as unknown as SummaryCitation[]) ?? [],
+      createdAt: message.createdAt,
+    };
+  }
+}
+
+export const summaryChatService = new SummaryChatService();
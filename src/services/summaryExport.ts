@@ -0,0 +1,271 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  DocumentBlock,
+  ExportFile,
+  ExportableSummary,
+  LibraryExportParams,
+  MAX_EXPORT_SUMMARIES,
+  ServiceResponse,
+  SummaryExportFormat,
+} from "../types";
+import { normalizeSummarySections } from "../utils/summarySections";
+import { normalizeModeContent, toSummaryMode } from "../utils/summaryModes";
+import { normalizeChapters } from "../utils/chapters";
+import {
+  summariesToNotes,
+  summaryToBlocks,
+  summaryToMarkdown,
+} from "../utils/summaryExport";
+import { canRenderPdf, renderPdf } from "../utils/pdf";
+import { renderDocx } from "../utils/docx";
+import { createZip } from "../utils/zip";
+import { toFileName } from "../utils/fileNames";
+
+type SummaryRecord = Prisma.SummaryGetPayload<{
+  omit: { transcript: true; transcriptText: true };
+}>;
+
+const CONTENT_TYPES = {
+  markdown: "text/markdown; charset=utf-8",
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  zip: "application/zip",
+};
+
+export class SummaryExportService {
+  /**
+   * Export one summary as Markdown, PDF, DOCX or a zipped Obsidian vault
+   * holding its note
+   */
+  async exportSummary(
+    userId: string,
+    summaryId: string,
+    format: SummaryExportFormat
+  ): Promise<ServiceResponse<ExportFile>> {
+    try {
+      const record = await prisma.summary.findFirst({
+        where: { id: summaryId, userId },
+        omit: { transcript: true, transcriptText: true },
+      });
+
+      if (!record) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      const summary = this.toExportable(record);
+      const baseName = toFileName(summary.title);
+
+      switch (format) {
+        case "markdown":
+          return {
+            success: true,
+            data: {
+              filename: `${baseName}.md`,
+              contentType: CONTENT_TYPES.markdown,
+              body: summaryToMarkdown(summary),
+            },
+          };
+        case "obsidian":
+          return {
+            success: true,
+            data: {
+              filename: `${baseName}-obsidian.zip`,
+              contentType: CONTENT_TYPES.zip,
+              body: this.zipNotes([summary], true),
+            },
+          };
+        default:
+          return {
+            success: true,
+            data: this.renderDocument(
+              summaryToBlocks(summary),
+              summary.title,
+              baseName,
+              format
+            ),
+          };
+      }
+    } catch (error) {
+      logger.error("Summary export failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        format,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to export summary", 500);
+    }
+  }
+
+  /**
+   * Export the user's library, optionally narrowed to some tags or summary
+   * IDs. Markdown and Obsidian give a zip with one note per summary (the
+   * vault adds backlinks and an index); PDF and DOCX give one document with
+   * each summary starting on a new page.
+   */
+  async exportLibrary(
+    userId: string,
+    params: LibraryExportParams
+  ): Promise<ServiceResponse<ExportFile>> {
+    try {
+      const records = await prisma.summary.findMany({
+        where: {
+          userId,
+          status: "COMPLETED",
+          ...(params.ids?.length && { id: { in: params.ids } }),
+          ...(params.tags?.length && { tags: { hasEvery: params.tags } }),
+        },
+        omit: { transcript: true, transcriptText: true },
+        orderBy: { createdAt: "desc" },
+        take: MAX_EXPORT_SUMMARIES + 1,
+      });
+
+      if (records.length === 0) {
+        throw new AppError("No summaries to export", 404);
+      }
+
+      if (records.length > MAX_EXPORT_SUMMARIES) {
+        throw new AppError(
+          `At most ${MAX_EXPORT_SUMMARIES} summaries can be exported at once. Narrow the export with tags or ids.`,
+          400
+        );
+      }
+
+      const summaries = records.map((record) => this.toExportable(record));
+      const baseName = `knugget-summaries-${new Date().toISOString().slice(0, 10)}`;
+      let file: ExportFile;
+
+      if (params.format === "markdown" || params.format === "obsidian") {
+        const vault = params.format === "obsidian";
+        file = {
+          filename: `${baseName}${vault ? "-obsidian" : ""}.zip`,
+          contentType: CONTENT_TYPES.zip,
+          body: this.zipNotes(summaries, vault),
+        };
+      } else {
+        const blocks: DocumentBlock[] = [
+          { type: "title", text: "Knugget summaries" },
+          {
+            type: "meta",
+            text: `${summaries.length} summaries exported on ${new Date().toISOString().slice(0, 10)}`,
+          },
+          ...summaries.map((summary): DocumentBlock => ({
+            type: "bullet",
+            text: `${summary.title} (${summary.channelName})`,
+          })),
+          ...summaries.flatMap((summary): DocumentBlock[] => [
+            { type: "pageBreak" },
+            ...summaryToBlocks(summary),
+          ]),
+        ];
+
+        file = this.renderDocument(
+          blocks,
+          "Knugget summaries",
+          baseName,
+          params.format
+        );
+      }
+
+      logger.info("Summary library exported", {
+        userId,
+        format: params.format,
+        summaries: summaries.length,
+      });
+
+      return { success: true, data: file };
+    } catch (error) {
+      logger.error("Summary library export failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        format: params.format,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to export summaries", 500);
+    }
+  }
+
+  // PDFs use the standard fonts, which cover Latin scripts only; summaries in
+  // other scripts are exported as DOCX or Markdown instead
+  private renderDocument(
+    blocks: DocumentBlock[],
+    title: string,
+    baseName: string,
+    format: "pdf" | "docx"
+  ): ExportFile {
+    if (format === "pdf" && !canRenderPdf(blocks)) {
+      throw new AppError(
+        "PDF export supports Latin scripts only. Export this content as docx or markdown instead.",
+        400,
+        true,
+        undefined,
+        "PDF_SCRIPT_UNSUPPORTED"
+      );
+    }
+
+    return format === "pdf"
+      ? {
+          filename: `${baseName}.pdf`,
+          contentType: CONTENT_TYPES.pdf,
+          body: renderPdf(blocks, title),
+        }
+      : {
+          filename: `${baseName}.docx`,
+          contentType: CONTENT_TYPES.docx,
+          body: renderDocx(blocks, title),
+        };
+  }
+
+  // Notes in a top-level folder, so unzipping does not scatter them
+  private zipNotes(summaries: ExportableSummary[], vault: boolean): Buffer {
+    const folder = vault ? "Knugget" : "knugget-summaries";
+
+    return createZip(
+      summariesToNotes(summaries, vault).map((note) => ({
+        name: `${folder}/${note.name}.md`,
+        data: note.content,
+      }))
+    );
+  }
+
+  /**
+   * Summary content as exported, with normalized sections, mode content and
+   * chapters
+   */
+  toExportable(summary: SummaryRecord): ExportableSummary {
+    const mode = toSummaryMode(summary.mode);
+
+    return {
+      id: summary.id,
+      title: summary.title,
+      keyPoints: summary.keyPoints,
+      fullSummary: summary.fullSummary,
+      sections: normalizeSummarySections(summary),
+      mode,
+      modeContent: normalizeModeContent(mode, summary.modeContent),
+      chapters: normalizeChapters(summary.chapters),
+      language: summary.language,
+      transcriptLanguage: summary.transcriptLanguage,
+      tags: summary.tags,
+      promptVersion: summary.promptVersion,
+      status: summary.status,
+      videoId: summary.videoId,
+      videoTitle: summary.videoTitle,
+      channelName: summary.channelName,
+      videoDuration: summary.videoDuration ?? undefined,
+      videoUrl: summary.videoUrl,
+      thumbnailUrl: summary.thumbnailUrl ?? undefined,
+      infographicUrl: summary.infographicUrl,
+      userId: summary.userId,
+      createdAt: summary.createdAt,
+      updatedAt: summary.updatedAt,
+    };
+  }
+}
+
+export const summaryExportService = new SummaryExportService();
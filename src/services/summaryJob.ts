@@ -0,0 +1,810 @@
+import { Prisma, SummaryBatch, SummaryJob } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { summaryService } from "./summary";
+import {
+  CreateSummaryBatchDto,
+  GenerateSummaryOptions,
+  GenerateSummaryRequest,
+  MAX_SUMMARY_BATCH_ITEMS,
+  RegenerateSummaryDto,
+  ServiceResponse,
+  SkippedBatchItem,
+  SummaryBatchData,
+  SummaryData,
+  SummaryJobData,
+  SummaryMode,
+  SummaryProgressEvent,
+} from "../types";
+
+interface QueuedJob {
+  jobId: string;
+  batchId: string | null;
+}
+
+// Jobs are loaded without their request and result payloads
+type BatchRecord = SummaryBatch & {
+  jobs: Omit<SummaryJob, "request" | "result">[];
+};
+
+export class SummaryJobService {
+  // In-process queue of jobs waiting for a worker slot
+  private queue: QueuedJob[] = [];
+  private activeJobs = 0;
+  private activeBatchJobs = new Map<string, number>(); // Running jobs per batch
+
+  /**
+   * Persist a generation request as a PENDING job with the PENDING summary it
+   * fills in, and schedule it. Clients can follow either one.
+   */
+  async enqueue(
+    userId: string,
+    data: GenerateSummaryRequest
+  ): Promise<ServiceResponse<SummaryJobData>> {
+    try {
+      // Reuse an in-flight job for the same video instead of generating twice
+      const activeJob = await prisma.summaryJob.findFirst({
+        where: {
+          userId,
+          kind: "generate",
+          videoId: data.videoMetadata.videoId,
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (activeJob) {
+        return { success: true, data: this.formatJob(activeJob) };
+      }
+
+      // Queued jobs have not incremented the video count yet, so reserve them
+      await summaryService.checkGenerationAllowance(
+        userId,
+        data,
+        await this.countActiveJobs(userId)
+      );
+
+      const job = await prisma.$transaction((tx) =>
+        this.createGenerationJob(tx, userId, data)
+      );
+
+      logger.info("Summary job queued", {
+        userId,
+        jobId: job.id,
+        summaryId: job.summaryId,
+        videoId: job.videoId,
+        status: job.status,
+      });
+
+      if (job.status === "PENDING") {
+        this.schedule(job.id);
+      }
+
+      return { success: true, data: this.formatJob(job) };
+    } catch (error) {
+      logger.error("Failed to queue summary job", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        videoId: data.videoMetadata.videoId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to queue summary generation", 500);
+    }
+  }
+
+  /**
+   * Queue regeneration of a saved summary in another mode. The job rewrites
+   * the summary in place from its stored transcript once it runs.
+   */
+  async enqueueRegeneration(
+    userId: string,
+    summaryId: string,
+    mode: SummaryMode
+  ): Promise<ServiceResponse<SummaryJobData>> {
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: { id: summaryId, userId },
+        select: { id: true, videoId: true, videoTitle: true, videoUrl: true },
+      });
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      // Reuse an in-flight regeneration instead of rewriting twice
+      const activeJob = await prisma.summaryJob.findFirst({
+        where: {
+          userId,
+          kind: "regenerate",
+          summaryId,
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (activeJob) {
+        return { success: true, data: this.formatJob(activeJob) };
+      }
+
+      await summaryService.checkRegenerationAllowance(userId, summaryId, mode);
+
+      const request: RegenerateSummaryDto = { mode };
+      const job = await prisma.summaryJob.create({
+        data: {
+          userId,
+          kind: "regenerate",
+          summaryId,
+          status: "PENDING",
+          videoId: summary.videoId,
+          videoTitle: summary.videoTitle,
+          videoUrl: summary.videoUrl,
+          request: request as unknown as Prisma.InputJsonValue,
+          progressMessage: "Queued",
+        },
+      });
+
+      logger.info("Summary regeneration queued", {
+        userId,
+        jobId: job.id,
+        summaryId,
+        mode,
+      });
+
+      this.schedule(job.id);
+
+      return { success: true, data: this.formatJob(job) };
+    } catch (error) {
+      logger.error("Failed to queue summary regeneration", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        mode,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to queue summary regeneration", 500);
+    }
+  }
+
+  /**
+   * Queue every video of a batch as its own job. Video limits and the token
+   * budget are checked for the whole batch up front, so it is queued
+   * completely or not at all. Videos already queued on their own are skipped,
+   * and videos already summarized complete at once with their summary.
+   */
+  async enqueueBatch(
+    userId: string,
+    data: CreateSummaryBatchDto
+  ): Promise<ServiceResponse<SummaryBatchData>> {
+    try {
+      if (
+        data.items.length === 0 ||
+        data.items.length > MAX_SUMMARY_BATCH_ITEMS
+      ) {
+        throw new AppError(
+          `A batch holds 1 to ${MAX_SUMMARY_BATCH_ITEMS} videos`,
+          400
+        );
+      }
+
+      const videoIds = data.items.map((item) => item.videoMetadata.videoId);
+      const duplicates = [
+        ...new Set(videoIds.filter((id, i) => videoIds.indexOf(id) !== i)),
+      ];
+
+      if (duplicates.length > 0) {
+        throw new AppError(
+          `Videos appear more than once in the batch: ${duplicates.join(", ")}`,
+          400
+        );
+      }
+
+      const activeJobs = await prisma.summaryJob.findMany({
+        where: {
+          userId,
+          kind: "generate",
+          videoId: { in: videoIds },
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+        select: { id: true, videoId: true },
+      });
+      const activeByVideo = new Map(
+        activeJobs.map((job) => [job.videoId, job.id])
+      );
+
+      const skipped: SkippedBatchItem[] = [];
+      const queued: { position: number; request: GenerateSummaryRequest }[] =
+        [];
+
+      data.items.forEach((item, i) => {
+        const activeJobId = activeByVideo.get(item.videoMetadata.videoId);
+
+        if (activeJobId) {
+          skipped.push({
+            position: i + 1,
+            videoId: item.videoMetadata.videoId,
+            jobId: activeJobId,
+            reason: "already_queued",
+          });
+          return;
+        }
+
+        queued.push({
+          position: i + 1,
+          request: {
+            transcript: item.transcript,
+            videoMetadata: item.videoMetadata,
+            mode: data.mode,
+            language: data.language,
+          },
+        });
+      });
+
+      if (queued.length === 0) {
+        throw new AppError("Every video in the batch is already queued", 409);
+      }
+
+      // Queued jobs have not incremented the video count yet, so reserve them
+      await summaryService.checkBatchAllowance(
+        userId,
+        queued.map((item) => item.request),
+        await this.countActiveJobs(userId)
+      );
+
+      const batch = await prisma.$transaction(
+        async (tx) => {
+          const { id: batchId } = await tx.summaryBatch.create({
+            data: { userId, name: data.name?.trim() || null },
+          });
+
+          for (const { position, request } of queued) {
+            await this.createGenerationJob(tx, userId, request, {
+              batchId,
+              batchPosition: position,
+            });
+          }
+
+          return tx.summaryBatch.findUniqueOrThrow({
+            where: { id: batchId },
+            include: {
+              jobs: {
+                omit: { request: true, result: true },
+                orderBy: { batchPosition: "asc" },
+              },
+            },
+          });
+        },
+        { timeout: 30000 } // Creates a summary and a job per video
+      );
+
+      logger.info("Summary batch queued", {
+        userId,
+        batchId: batch.id,
+        jobs: batch.jobs.length,
+        skipped: skipped.length,
+      });
+
+      batch.jobs
+        .filter((job) => job.status === "PENDING")
+        .forEach((job) => this.schedule(job.id, batch.id));
+
+      return {
+        success: true,
+        data: { ...this.formatBatch(batch), skipped },
+      };
+    } catch (error) {
+      logger.error("Failed to queue summary batch", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        items: data.items.length,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to queue batch summarization", 500);
+    }
+  }
+
+  /**
+   * Get a batch with the status of each item and the batch progress
+   */
+  async getBatch(
+    userId: string,
+    batchId: string
+  ): Promise<ServiceResponse<SummaryBatchData>> {
+    try {
+      const batch = await prisma.summaryBatch.findFirst({
+        where: { id: batchId, userId },
+        include: {
+          jobs: {
+            omit: { request: true, result: true },
+            orderBy: { batchPosition: "asc" },
+          },
+        },
+      });
+
+      if (!batch) {
+        throw new AppError("Summary batch not found", 404);
+      }
+
+      return { success: true, data: this.formatBatch(batch) };
+    } catch (error) {
+      logger.error("Get summary batch failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        batchId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary batch", 500);
+    }
+  }
+
+  /**
+   * List a user's batches with their progress, newest first
+   */
+  async listBatches(
+    userId: string
+  ): Promise<ServiceResponse<SummaryBatchData[]>> {
+    try {
+      const batches = await prisma.summaryBatch.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+        include: {
+          jobs: { omit: { request: true, result: true } },
+        },
+      });
+
+      return {
+        success: true,
+        data: batches.map((batch) => {
+          const { items, ...summary } = this.formatBatch(batch);
+          return summary;
+        }),
+      };
+    } catch (error) {
+      logger.error("Failed to list summary batches", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw new AppError("Failed to get summary batches", 500);
+    }
+  }
+
+  /**
+   * Get a job with its progress and (once completed) the generated summary
+   */
+  async getJob(
+    userId: string,
+    jobId: string
+  ): Promise<ServiceResponse<SummaryJobData>> {
+    try {
+      const job = await prisma.summaryJob.findFirst({
+        where: { id: jobId, userId },
+      });
+
+      if (!job) {
+        throw new AppError("Summary job not found", 404);
+      }
+
+      return { success: true, data: this.formatJob(job) };
+    } catch (error) {
+      logger.error("Get summary job failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        jobId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary job", 500);
+    }
+  }
+
+  /**
+   * Count generations that are queued or running for a user. Regenerations
+   * are left out, as they never add a video, and so are videos that are
+   * already summarized, whose jobs complete when queued.
+   */
+  async countActiveJobs(userId: string): Promise<number> {
+    return prisma.summaryJob.count({
+      where: {
+        userId,
+        kind: "generate",
+        status: { in: ["PENDING", "PROCESSING"] },
+      },
+    });
+  }
+
+  /**
+   * Re-queue jobs that were interrupted by a restart (run at startup). Jobs
+   * that already counted their video do not count it again.
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    try {
+      // PROCESSING jobs lost their worker with the previous process, and so
+      // did the summaries they were generating
+      await prisma.$transaction([
+        prisma.summaryJob.updateMany({
+          where: { status: "PROCESSING" },
+          data: {
+            status: "PENDING",
+            currentChunk: 0,
+            completedChunks: 0,
+            progressMessage: "Re-queued after restart",
+          },
+        }),
+        prisma.summary.updateMany({
+          where: { status: "PROCESSING" },
+          data: { status: "PENDING" },
+        }),
+      ]);
+
+      const pendingJobs = await prisma.summaryJob.findMany({
+        where: { status: "PENDING" },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, batchId: true },
+      });
+
+      pendingJobs.forEach((job) => this.schedule(job.id, job.batchId));
+
+      if (pendingJobs.length > 0) {
+        logger.info("Resumed interrupted summary jobs", {
+          count: pendingJobs.length,
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to resume summary jobs", { error });
+    }
+  }
+
+  /**
+   * Delete finished jobs older than the retention window
+   */
+  async cleanupOldJobs(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - config.summaryJobs.retentionDays * 24 * 60 * 60 * 1000
+      );
+
+      const { count } = await prisma.summaryJob.deleteMany({
+        where: {
+          status: { in: ["COMPLETED", "FAILED"] },
+          createdAt: { lt: cutoff },
+        },
+      });
+
+      // Batches whose jobs have all been purged have nothing left to report
+      const { count: batchCount } = await prisma.summaryBatch.deleteMany({
+        where: { createdAt: { lt: cutoff }, jobs: { none: {} } },
+      });
+
+      if (count > 0 || batchCount > 0) {
+        logger.info("Old summary jobs cleaned up", {
+          deletedCount: count,
+          deletedBatches: batchCount,
+        });
+      }
+    } catch (error) {
+      logger.error("Summary job cleanup failed", { error });
+    }
+  }
+
+  // Create a generation job. A video that is already summarized completes at
+  // once with its summary; any other gets a PENDING summary to fill in.
+  private async createGenerationJob(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    request: GenerateSummaryRequest,
+    batch?: { batchId: string; batchPosition: number }
+  ): Promise<SummaryJob> {
+    const savedSummary = await summaryService.findSavedSummary(userId, request);
+    const summary =
+      savedSummary ??
+      (await summaryService.createPendingSummary(userId, request, tx));
+
+    return tx.summaryJob.create({
+      data: {
+        userId,
+        kind: "generate",
+        summaryId: summary.id,
+        ...batch,
+        videoId: request.videoMetadata.videoId,
+        videoTitle: request.videoMetadata.title,
+        videoUrl:
+          request.videoMetadata.url ||
+          `https://www.youtube.com/watch?v=${request.videoMetadata.videoId}`,
+        request: request as unknown as Prisma.InputJsonValue,
+        ...(savedSummary
+          ? {
+              status: "COMPLETED",
+              result: savedSummary as unknown as Prisma.InputJsonValue,
+              progressMessage: "Already summarized",
+              completedAt: new Date(),
+            }
+          : { status: "PENDING", progressMessage: "Queued" }),
+      },
+    });
+  }
+
+  // Add a job to the queue and start workers if slots are free
+  private schedule(jobId: string, batchId: string | null = null): void {
+    if (!this.queue.some((queued) => queued.jobId === jobId)) {
+      this.queue.push({ jobId, batchId });
+    }
+    this.drainQueue();
+  }
+
+  // Jobs run in queue order, except that a batch using its share of workers
+  // lets jobs queued after it go first
+  private drainQueue(): void {
+    while (this.activeJobs < config.summaryJobs.concurrency) {
+      const index = this.queue.findIndex(
+        ({ batchId }) =>
+          !batchId ||
+          (this.activeBatchJobs.get(batchId) ?? 0) <
+            config.summaryJobs.batchConcurrency
+      );
+
+      if (index === -1) {
+        return;
+      }
+
+      const [{ jobId, batchId }] = this.queue.splice(index, 1);
+      this.activeJobs++;
+      if (batchId) {
+        this.activeBatchJobs.set(
+          batchId,
+          (this.activeBatchJobs.get(batchId) ?? 0) + 1
+        );
+      }
+
+      this.processJob(jobId)
+        .catch((error) => {
+          logger.error("Summary job worker crashed", {
+            error: error instanceof Error ? error.message : "Unknown error",
+            jobId,
+          });
+        })
+        .finally(() => {
+          this.activeJobs--;
+          if (batchId) {
+            const running = this.activeBatchJobs.get(batchId)! - 1;
+            if (running > 0) {
+              this.activeBatchJobs.set(batchId, running);
+            } else {
+              this.activeBatchJobs.delete(batchId);
+            }
+          }
+          this.drainQueue();
+        });
+    }
+  }
+
+  // Drive a job through PROCESSING to COMPLETED or FAILED
+  private async processJob(jobId: string): Promise<void> {
+    // Claim the job atomically so a job is never processed twice
+    const claimed = await prisma.summaryJob.updateMany({
+      where: { id: jobId, status: "PENDING" },
+      data: {
+        status: "PROCESSING",
+        startedAt: new Date(),
+        progressMessage: "Generating summary",
+      },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const job = await prisma.summaryJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      return;
+    }
+
+    const options: GenerateSummaryOptions = {
+      onProgress: (event) => this.recordProgress(jobId, event),
+      jobId,
+    };
+
+    try {
+      // Regeneration jobs rewrite their saved summary, others fill in the
+      // summary created when they were queued
+      const result =
+        job.kind === "regenerate"
+          ? await summaryService.regenerateSummary(
+              job.userId,
+              job.summaryId!,
+              (job.request as unknown as RegenerateSummaryDto).mode,
+              options
+            )
+          : await this.generateForJob(job, options);
+
+      if (!result.success || !result.data) {
+        throw new AppError(result.error || "Summary generation failed", 500);
+      }
+
+      await prisma.summaryJob.update({
+        where: { id: jobId },
+        data: {
+          status: "COMPLETED",
+          summaryId: result.data.id,
+          result: result.data as unknown as Prisma.InputJsonValue,
+          progressMessage: "Completed",
+          completedAt: new Date(),
+        },
+      });
+
+      // The video was saved another way while the job was queued
+      if (job.summaryId && job.summaryId !== result.data.id) {
+        await prisma.summary.deleteMany({
+          where: { id: job.summaryId, status: { not: "COMPLETED" } },
+        });
+      }
+
+      logger.info("Summary job completed", {
+        jobId,
+        userId: job.userId,
+        videoId: job.videoId,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Summary generation failed";
+      const errorCode = error instanceof AppError ? error.code : undefined;
+
+      // The video is only counted once a valid summary is generated, so a
+      // failed job leaves the monthly count and its reservation untouched
+      await prisma.summaryJob.updateMany({
+        where: { id: jobId },
+        data: {
+          status: "FAILED",
+          errorMessage,
+          errorCode,
+          progressMessage: "Failed",
+          completedAt: new Date(),
+        },
+      });
+
+      logger.error("Summary job failed", {
+        jobId,
+        userId: job.userId,
+        videoId: job.videoId,
+        error: errorMessage,
+        errorCode,
+      });
+    }
+  }
+
+  // Generate the summary of a generation job. Jobs queued before summaries
+  // were created up front get theirs now.
+  private async generateForJob(
+    job: SummaryJob,
+    options: GenerateSummaryOptions
+  ): Promise<ServiceResponse<SummaryData>> {
+    const request = job.request as unknown as GenerateSummaryRequest;
+    let summaryId = job.summaryId;
+
+    if (!summaryId) {
+      ({ id: summaryId } = await summaryService.createPendingSummary(
+        job.userId,
+        request
+      ));
+      await prisma.summaryJob.update({
+        where: { id: job.id },
+        data: { summaryId },
+      });
+    }
+
+    return summaryService.generatePendingSummary(
+      job.userId,
+      summaryId,
+      request,
+      options
+    );
+  }
+
+  // Persist chunk progress reported by the AI service
+  private async recordProgress(
+    jobId: string,
+    event: SummaryProgressEvent
+  ): Promise<void> {
+    let data: Prisma.SummaryJobUpdateInput;
+
+    switch (event.type) {
+      case "chunk_started":
+        data = {
+          currentChunk: event.chunkIndex,
+          totalChunks: event.totalChunks,
+          progressMessage: `Processing chunk ${event.chunkIndex} of ${event.totalChunks}`,
+        };
+        break;
+      case "chunk_finished":
+        data = {
+          completedChunks: { increment: 1 },
+          totalChunks: event.totalChunks,
+          progressMessage: `Finished chunk ${event.chunkIndex} of ${event.totalChunks}`,
+        };
+        break;
+      case "finalizing":
+        data = {
+          totalChunks: event.totalChunks,
+          progressMessage: "Combining chunk summaries",
+        };
+        break;
+    }
+
+    await prisma.summaryJob.update({ where: { id: jobId }, data });
+  }
+
+  // Format batch for API response, with per-item status and overall progress
+  private formatBatch(batch: BatchRecord): SummaryBatchData {
+    const count = (status: SummaryJob["status"]) =>
+      batch.jobs.filter((job) => job.status === status).length;
+
+    const total = batch.jobs.length;
+    const completed = count("COMPLETED");
+    const failed = count("FAILED");
+    const finished = completed + failed;
+
+    return {
+      id: batch.id,
+      name: batch.name,
+      status: finished === total ? "COMPLETED" : "PROCESSING",
+      progress: {
+        total,
+        pending: count("PENDING"),
+        processing: count("PROCESSING"),
+        completed,
+        failed,
+        percent: total > 0 ? Math.round((finished / total) * 100) : 100,
+      },
+      items: batch.jobs.map((job) => {
+        const { result, ...item } = this.formatJob({ ...job, result: null });
+        return { ...item, position: job.batchPosition ?? 0 };
+      }),
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  // Format job for API response
+  private formatJob(job: Omit<SummaryJob, "request">): SummaryJobData {
+    // Chunks cover 95% of the work, the rest is saving the result
+    let percent = 0;
+    if (job.status === "COMPLETED") {
+      percent = 100;
+    } else if (job.totalChunks > 0) {
+      percent = Math.min(
+        95,
+        Math.round((job.completedChunks / job.totalChunks) * 95)
+      );
+    }
+
+    return {
+      id: job.id,
+      status: job.status,
+      videoId: job.videoId,
+      videoTitle: job.videoTitle,
+      videoUrl: job.videoUrl,
+      kind: job.kind as SummaryJobData["kind"],
+      summaryId: job.summaryId,
+      progress: {
+        currentChunk: job.currentChunk,
+        completedChunks: job.completedChunks,
+        totalChunks: job.totalChunks,
+        percent,
+        message: job.progressMessage,
+      },
+      result: (job.result as unknown as SummaryData) ?? null,
+      error: job.errorMessage,
+      errorCode: job.errorCode,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
+
+export const summaryJobService = new SummaryJobService();
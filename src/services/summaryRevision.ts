@@ -0,0 +1,230 @@
+import { Prisma, SummaryRevision } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  ServiceResponse,
+  SummaryRevisionContent,
+  SummaryRevisionData,
+  SummaryRevisionDiff,
+  SummaryRevisionSource,
+} from "../types";
+import { diffRevisionContent } from "../utils/summaryRevisions";
+
+interface RevisionEntry {
+  source: SummaryRevisionSource;
+  authorId: string | null;
+  language?: string | null; // Omitted for the summary itself
+  restoredFrom?: number;
+}
+
+export class SummaryRevisionService {
+  /**
+   * Record the state of a summary or translation after a change, inside the
+   * transaction that made it. Nothing is recorded when the content is the
+   * same as the previous revision in that language.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    summaryId: string,
+    content: SummaryRevisionContent,
+    entry: RevisionEntry
+  ): Promise<SummaryRevision | null> {
+    const language = entry.language ?? null;
+
+    // Lock the summary so concurrent changes (an edit during a regeneration
+    // or translation) number their revisions one after the other
+    await tx.$queryRaw`SELECT id FROM "summaries" WHERE id = ${summaryId} FOR UPDATE`;
+
+    const previous = await tx.summaryRevision.findFirst({
+      where: { summaryId, language },
+      orderBy: { revision: "desc" },
+    });
+    const changedFields = previous
+      ? diffRevisionContent(
+          previous.content as unknown as SummaryRevisionContent,
+          content
+        ).map(({ field }) => field)
+      : [];
+
+    if (previous && changedFields.length === 0) {
+      return null;
+    }
+
+    const latest = await tx.summaryRevision.aggregate({
+      where: { summaryId },
+      _max: { revision: true },
+    });
+
+    return tx.summaryRevision.create({
+      data: {
+        summaryId,
+        revision: (latest._max.revision ?? 0) + 1,
+        source: entry.source,
+        language,
+        authorId: entry.authorId,
+        restoredFrom: entry.restoredFrom,
+        changedFields,
+        content: content as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * List the revisions of a summary, newest first, optionally only those of
+   * one translation ("original" for the summary itself)
+   */
+  async listRevisions(
+    userId: string,
+    summaryId: string,
+    language?: string
+  ): Promise<ServiceResponse<SummaryRevisionData[]>> {
+    try {
+      await this.findOwnedSummary(userId, summaryId);
+
+      const revisions = await prisma.summaryRevision.findMany({
+        where: {
+          summaryId,
+          ...(language && {
+            language: language === "original" ? null : language,
+          }),
+        },
+        orderBy: { revision: "desc" },
+        omit: { content: true },
+      });
+
+      return {
+        success: true,
+        data: revisions.map((revision) => this.formatRevision(revision)),
+      };
+    } catch (error) {
+      logger.error("Failed to list summary revisions", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary revisions", 500);
+    }
+  }
+
+  /**
+   * Get one revision with its content
+   */
+  async getRevision(
+    userId: string,
+    summaryId: string,
+    revisionNumber: number
+  ): Promise<ServiceResponse<SummaryRevisionData>> {
+    try {
+      await this.findOwnedSummary(userId, summaryId);
+      const revision = await this.findRevision(summaryId, revisionNumber);
+
+      return { success: true, data: this.formatRevision(revision) };
+    } catch (error) {
+      logger.error("Failed to get summary revision", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        revision: revisionNumber,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary revision", 500);
+    }
+  }
+
+  /**
+   * Field-level differences between two revisions of a summary
+   */
+  async diffRevisions(
+    userId: string,
+    summaryId: string,
+    from: number,
+    to: number
+  ): Promise<ServiceResponse<SummaryRevisionDiff>> {
+    try {
+      await this.findOwnedSummary(userId, summaryId);
+      const [before, after] = await Promise.all([
+        this.findRevision(summaryId, from),
+        this.findRevision(summaryId, to),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          from,
+          to,
+          changes: diffRevisionContent(
+            before.content as unknown as SummaryRevisionContent,
+            after.content as unknown as SummaryRevisionContent
+          ),
+        },
+      };
+    } catch (error) {
+      logger.error("Failed to diff summary revisions", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        from,
+        to,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to compare summary revisions", 500);
+    }
+  }
+
+  private async findOwnedSummary(
+    userId: string,
+    summaryId: string
+  ): Promise<void> {
+    const summary = await prisma.summary.findFirst({
+      where: { id: summaryId, userId },
+      select: { id: true },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+  }
+
+  private async findRevision(
+    summaryId: string,
+    revisionNumber: number
+  ): Promise<SummaryRevision> {
+    const revision = Number.isInteger(revisionNumber)
+      ? await prisma.summaryRevision.findUnique({
+          where: {
+            summaryId_revision: { summaryId, revision: revisionNumber },
+          },
+        })
+      : null;
+
+    if (!revision) {
+      throw new AppError("Revision not found", 404);
+    }
+
+    return revision;
+  }
+
+  private formatRevision(
+    revision: Omit<SummaryRevision, "content"> & { content?: unknown }
+  ): SummaryRevisionData {
+    return {
+      revision: revision.revision,
+      source: revision.source as SummaryRevisionSource,
+      language: revision.language,
+      authorId: revision.authorId,
+      restoredFrom: revision.restoredFrom,
+      changedFields: revision.changedFields,
+      ...(revision.content !== undefined && {
+        content: revision.content as SummaryRevisionContent,
+      }),
+      createdAt: revision.createdAt,
+    };
+  }
+}
+
+export const summaryRevisionService = new SummaryRevisionService();
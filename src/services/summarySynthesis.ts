@@ -0,0 +1,337 @@
+import {
+  Prisma,
+  SummarySynthesis,
+  SummarySynthesisSource,
+} from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { openaiService } from "./openai";
+import { summaryService } from "./summary";
+import { llmProvider } from "./llm";
+import {
+  CreateSynthesisDto,
+  MAX_SYNTHESIS_SOURCES,
+  MIN_SYNTHESIS_SOURCES,
+  ServiceResponse,
+  SummarySynthesisContent,
+  SummarySynthesisData,
+  SynthesisContext,
+} from "../types";
+import { SynthesisOutput } from "../utils/llmOutput";
+import { DEFAULT_LANGUAGE } from "../utils/languages";
+import { truncateToTokens } from "../utils/tokenizer";
+
+const SYNTHESIS_SOURCE_TOKENS = 2500; // Summary text sent per source
+const SYNTHESIS_SOURCE_KEY_POINTS = 10;
+
+type SynthesisRecord = Omit<
+  SummarySynthesis,
+  "themes" | "disagreements" | "outline"
+> &
+  Partial<Pick<SummarySynthesis, "themes" | "disagreements" | "outline">> & {
+    sources: SummarySynthesisSource[];
+  };
+
+// Each source cited once, in order
+const toSources = (sources: number[]): number[] =>
+  [...new Set(sources)].sort((a, b) => a - b);
+
+export class SummarySynthesisService {
+  /**
+   * Combine several saved summaries into shared themes, disagreements and
+   * one outline attributed to the source videos. Sources keep the order
+   * the summaries were given in.
+   */
+  async createSynthesis(
+    userId: string,
+    data: CreateSynthesisDto
+  ): Promise<ServiceResponse<SummarySynthesisData>> {
+    try {
+      const summaryIds = [...new Set(data.summaryIds)];
+
+      if (
+        summaryIds.length < MIN_SYNTHESIS_SOURCES ||
+        summaryIds.length > MAX_SYNTHESIS_SOURCES
+      ) {
+        throw new AppError(
+          `A synthesis combines ${MIN_SYNTHESIS_SOURCES} to ${MAX_SYNTHESIS_SOURCES} different summaries`,
+          400
+        );
+      }
+
+      const found = await prisma.summary.findMany({
+        where: { id: { in: summaryIds }, userId },
+        select: {
+          id: true,
+          keyPoints: true,
+          fullSummary: true,
+          language: true,
+          videoId: true,
+          videoTitle: true,
+          channelName: true,
+          videoUrl: true,
+        },
+      });
+      const byId = new Map(found.map((summary) => [summary.id, summary]));
+      const missing = summaryIds.filter((id) => !byId.has(id));
+
+      if (missing.length > 0) {
+        throw new AppError(`Summaries not found: ${missing.join(", ")}`, 404);
+      }
+
+      const summaries = summaryIds.map((id) => byId.get(id)!);
+      const language =
+        data.language ??
+        (await this.defaultLanguage(
+          userId,
+          summaries.map((summary) => summary.language)
+        ));
+
+      const context: SynthesisContext = {
+        sources: summaries.map((summary) => ({
+          title: summary.videoTitle,
+          channelName: summary.channelName,
+          keyPoints: summary.keyPoints.slice(0, SYNTHESIS_SOURCE_KEY_POINTS),
+          summary: truncateToTokens(
+            summary.fullSummary,
+            SYNTHESIS_SOURCE_TOKENS,
+            llmProvider.model
+          ),
+        })),
+      };
+
+      await summaryService.checkTokenAllowance(
+        userId,
+        await openaiService.estimateSynthesisUsage(context, language, userId)
+      );
+
+      const aiResult = await openaiService.synthesizeSummaries(
+        context,
+        language,
+        userId
+      );
+
+      if (!aiResult.success || !aiResult.data) {
+        throw new AppError(aiResult.error || "AI synthesis failed", 500);
+      }
+
+      const content = this.toContent(aiResult.data.output);
+
+      const synthesis = await prisma.summarySynthesis.create({
+        data: {
+          userId,
+          title: data.title?.trim() || content.title,
+          overview: content.overview,
+          themes: content.themes as unknown as Prisma.InputJsonValue,
+          disagreements:
+            content.disagreements as unknown as Prisma.InputJsonValue,
+          outline: content.outline as unknown as Prisma.InputJsonValue,
+          language,
+          model: aiResult.data.model,
+          promptVersion: aiResult.data.promptVersion,
+          sources: {
+            create: summaries.map((summary, i) => ({
+              summaryId: summary.id,
+              position: i + 1,
+              videoId: summary.videoId,
+              videoTitle: summary.videoTitle,
+              channelName: summary.channelName,
+              videoUrl: summary.videoUrl,
+            })),
+          },
+        },
+        include: { sources: { orderBy: { position: "asc" } } },
+      });
+
+      logger.info("Summary synthesis created", {
+        userId,
+        synthesisId: synthesis.id,
+        sources: summaries.length,
+        themes: content.themes.length,
+        disagreements: content.disagreements.length,
+      });
+
+      return { success: true, data: this.formatSynthesis(synthesis) };
+    } catch (error) {
+      logger.error("Summary synthesis failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryIds: data.summaryIds,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to synthesize summaries", 500);
+    }
+  }
+
+  /**
+   * List a user's syntheses, newest first, optionally only those built from
+   * one summary. Content is left out; get a synthesis to read it.
+   */
+  async listSyntheses(
+    userId: string,
+    summaryId?: string
+  ): Promise<ServiceResponse<SummarySynthesisData[]>> {
+    try {
+      const syntheses = await prisma.summarySynthesis.findMany({
+        where: {
+          userId,
+          ...(summaryId && { sources: { some: { summaryId } } }),
+        },
+        orderBy: { createdAt: "desc" },
+        omit: { themes: true, disagreements: true, outline: true },
+        include: { sources: { orderBy: { position: "asc" } } },
+      });
+
+      return {
+        success: true,
+        data: syntheses.map((synthesis) => this.formatSynthesis(synthesis)),
+      };
+    } catch (error) {
+      logger.error("Failed to list summary syntheses", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw new AppError("Failed to get syntheses", 500);
+    }
+  }
+
+  /**
+   * Get a synthesis with its content and sources
+   */
+  async getSynthesis(
+    userId: string,
+    synthesisId: string
+  ): Promise<ServiceResponse<SummarySynthesisData>> {
+    try {
+      const synthesis = await prisma.summarySynthesis.findFirst({
+        where: { id: synthesisId, userId },
+        include: { sources: { orderBy: { position: "asc" } } },
+      });
+
+      if (!synthesis) {
+        throw new AppError("Synthesis not found", 404);
+      }
+
+      return { success: true, data: this.formatSynthesis(synthesis) };
+    } catch (error) {
+      logger.error("Failed to get summary synthesis", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        synthesisId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get synthesis", 500);
+    }
+  }
+
+  /**
+   * Delete a synthesis; its source summaries are kept
+   */
+  async deleteSynthesis(
+    userId: string,
+    synthesisId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const { count } = await prisma.summarySynthesis.deleteMany({
+        where: { id: synthesisId, userId },
+      });
+
+      if (count === 0) {
+        throw new AppError("Synthesis not found", 404);
+      }
+
+      logger.info("Summary synthesis deleted", { userId, synthesisId });
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Failed to delete summary synthesis", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        synthesisId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete synthesis", 500);
+    }
+  }
+
+  // The user's preferred language, then the language all sources share
+  private async defaultLanguage(
+    userId: string,
+    sourceLanguages: (string | null)[]
+  ): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredLanguage: true },
+    });
+    const shared = new Set(sourceLanguages);
+
+    return (
+      user?.preferredLanguage ??
+      (shared.size === 1 ? sourceLanguages[0] : null) ??
+      DEFAULT_LANGUAGE
+    );
+  }
+
+  // Keep only the fields the synthesis stores, with each source cited once
+  private toContent(output: SynthesisOutput): SummarySynthesisContent {
+    return {
+      title: output.title.trim(),
+      overview: output.overview.trim(),
+      themes: output.themes.map((theme) => ({
+        theme: theme.theme.trim(),
+        description: theme.description.trim(),
+        sources: toSources(theme.sources),
+      })),
+      disagreements: output.disagreements.map((disagreement) => ({
+        topic: disagreement.topic.trim(),
+        positions: disagreement.positions.map((position) => ({
+          source: position.source,
+          position: position.position.trim(),
+        })),
+      })),
+      outline: output.outline.map((section) => ({
+        heading: section.heading.trim(),
+        points: section.points.map((point) => ({
+          text: point.text.trim(),
+          sources: toSources(point.sources),
+        })),
+      })),
+    };
+  }
+
+  private formatSynthesis(synthesis: SynthesisRecord): SummarySynthesisData {
+    return {
+      id: synthesis.id,
+      title: synthesis.title,
+      overview: synthesis.overview,
+      ...(synthesis.themes !== undefined && {
+        themes:
+          synthesis.themes as unknown as SummarySynthesisContent["themes"],
+        disagreements:
+          synthesis.disagreements as unknown as SummarySynthesisContent["disagreements"],
+        outline:
+          synthesis.outline as unknown as SummarySynthesisContent["outline"],
+      }),
+      language: synthesis.language,
+      model: synthesis.model,
+      promptVersion: synthesis.promptVersion,
+      sources: synthesis.sources.map((source) => ({
+        position: source.position,
+        summaryId: source.summaryId,
+        videoId: source.videoId,
+        videoTitle: source.videoTitle,
+        channelName: source.channelName,
+        videoUrl: source.videoUrl,
+      })),
+      createdAt: synthesis.createdAt,
+      updatedAt: synthesis.updatedAt,
+    };
+  }
+}
+
+export const summarySynthesisService = new SummarySynthesisService();
@@ -0,0 +1,500 @@
+import { Prisma, Tag } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { openaiService } from "./openai";
+import { tokenService } from "./token";
+import { embeddingService } from "./embedding";
+import {
+  SEARCH_CONTENT_TYPES,
+  ServiceResponse,
+  TagData,
+  TaggableContentType,
+} from "../types";
+import {
+  MAX_TAGS,
+  matchVocabulary,
+  normalizeTag,
+  normalizeTags,
+} from "../utils/tags";
+
+// Tables holding a "tags" text array for each kind of saved content
+const TAGGED_TABLES: Record<TaggableContentType, string> = {
+  summary: "summaries",
+  linkedin_post: "linkedin_posts",
+  website_summary: "website_summaries",
+};
+
+const emptyCounts = (): Record<TaggableContentType, number> => ({
+  summary: 0,
+  linkedin_post: 0,
+  website_summary: 0,
+});
+
+export class TagService {
+  /**
+   * List a user's tags with how many saved items use each of them
+   */
+  async getVocabulary(userId: string): Promise<ServiceResponse<TagData[]>> {
+    try {
+      const [tags, counts] = await Promise.all([
+        prisma.tag.findMany({ where: { userId }, orderBy: { name: "asc" } }),
+        this.countUsage(userId),
+      ]);
+
+      return {
+        success: true,
+        data: tags.map((tag) =>
+          this.formatTag(tag, counts.get(tag.name) ?? emptyCounts())
+        ),
+      };
+    } catch (error) {
+      logger.error("Get tags failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw new AppError("Failed to get tags", 500);
+    }
+  }
+
+  /**
+   * Add a tag to the user's vocabulary
+   */
+  async createTag(
+    userId: string,
+    name: string
+  ): Promise<ServiceResponse<TagData>> {
+    try {
+      const tagName = this.toTagName(name);
+
+      const existing = await prisma.tag.findUnique({
+        where: { userId_name: { userId, name: tagName } },
+      });
+
+      if (existing) {
+        throw new AppError("Tag already exists", 409);
+      }
+
+      const tag = await prisma.tag.create({ data: { userId, name: tagName } });
+
+      logger.info("Tag created", { userId, tagId: tag.id, name: tagName });
+
+      return { success: true, data: this.formatTag(tag, emptyCounts()) };
+    } catch (error) {
+      logger.error("Tag creation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to create tag", 500);
+    }
+  }
+
+  /**
+   * Rename a tag everywhere it is used. Renaming onto another existing tag
+   * is rejected; merge the tags instead.
+   */
+  async renameTag(
+    userId: string,
+    tagId: string,
+    name: string
+  ): Promise<ServiceResponse<TagData>> {
+    try {
+      const tag = await this.findTag(userId, tagId);
+      const tagName = this.toTagName(name);
+
+      if (tagName === tag.name) {
+        return { success: true, data: await this.formatWithUsage(tag) };
+      }
+
+      const conflict = await prisma.tag.findUnique({
+        where: { userId_name: { userId, name: tagName } },
+      });
+
+      if (conflict) {
+        throw new AppError(
+          "A tag with this name already exists. Merge the tags instead.",
+          409
+        );
+      }
+
+      const [renamed] = await prisma.$transaction([
+        prisma.tag.update({ where: { id: tag.id }, data: { name: tagName } }),
+        ...this.replaceOnItems(userId, tag.name, tagName),
+      ]);
+
+      logger.info("Tag renamed", {
+        userId,
+        tagId,
+        from: tag.name,
+        to: tagName,
+      });
+
+      return { success: true, data: await this.formatWithUsage(renamed) };
+    } catch (error) {
+      logger.error("Tag rename failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        tagId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to rename tag", 500);
+    }
+  }
+
+  /**
+   * Replace the source tags with the target tag on every item and remove
+   * the source tags from the vocabulary
+   */
+  async mergeTags(
+    userId: string,
+    sourceIds: string[],
+    targetId: string
+  ): Promise<ServiceResponse<TagData>> {
+    try {
+      const target = await this.findTag(userId, targetId);
+      const sources = await prisma.tag.findMany({
+        where: {
+          id: { in: sourceIds.filter((id) => id !== targetId) },
+          userId,
+        },
+      });
+
+      if (sources.length === 0) {
+        throw new AppError("No tags to merge", 404);
+      }
+
+      await prisma.$transaction([
+        ...sources.flatMap((source) =>
+          this.replaceOnItems(userId, source.name, target.name)
+        ),
+        prisma.tag.deleteMany({
+          where: { id: { in: sources.map((source) => source.id) }, userId },
+        }),
+      ]);
+
+      logger.info("Tags merged", {
+        userId,
+        targetId,
+        sources: sources.map((source) => source.name),
+        target: target.name,
+      });
+
+      return { success: true, data: await this.formatWithUsage(target) };
+    } catch (error) {
+      logger.error("Tag merge failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        targetId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to merge tags", 500);
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every item
+   */
+  async deleteTag(
+    userId: string,
+    tagId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const tag = await this.findTag(userId, tagId);
+
+      await prisma.$transaction([
+        ...this.replaceOnItems(userId, tag.name, null),
+        prisma.tag.delete({ where: { id: tag.id } }),
+      ]);
+
+      logger.info("Tag deleted", { userId, tagId, name: tag.name });
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Tag deletion failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        tagId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete tag", 500);
+    }
+  }
+
+  /**
+   * Replace the tags of a saved item; new tags join the vocabulary
+   */
+  async setItemTags(
+    userId: string,
+    type: TaggableContentType,
+    itemId: string,
+    values: string[]
+  ): Promise<ServiceResponse<string[]>> {
+    try {
+      const tags = normalizeTags(values);
+      const where = { id: itemId, userId };
+      const data = { tags };
+
+      const { count } =
+        type === "summary"
+          ? await prisma.summary.updateMany({ where, data })
+          : type === "linkedin_post"
+            ? await prisma.linkedinPost.updateMany({ where, data })
+            : await prisma.websiteSummary.updateMany({ where, data });
+
+      if (count === 0) {
+        throw new AppError("Item not found", 404);
+      }
+
+      await this.addToVocabulary(userId, tags);
+      embeddingService.indexInBackground(type, itemId);
+
+      logger.info("Item tags updated", { userId, type, itemId, tags });
+
+      return { success: true, data: tags };
+    } catch (error) {
+      logger.error("Item tag update failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        type,
+        itemId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update tags", 500);
+    }
+  }
+
+  // Record tags in the user's vocabulary, ignoring ones already there
+  async addToVocabulary(userId: string, tags: string[]): Promise<void> {
+    if (tags.length === 0) {
+      return;
+    }
+
+    await prisma.tag.createMany({
+      data: tags.map((name) => ({ userId, name })),
+      skipDuplicates: true,
+    });
+  }
+
+  // Reuse the user's existing spelling of proposed tags
+  async matchUserVocabulary(userId: string, tags: string[]): Promise<string[]> {
+    if (tags.length === 0) {
+      return tags;
+    }
+
+    const vocabulary = await prisma.tag.findMany({
+      where: { userId },
+      select: { name: true },
+    });
+
+    return matchVocabulary(
+      tags,
+      vocabulary.map((tag) => tag.name)
+    );
+  }
+
+  // Tag an untagged LinkedIn post or article without holding up the request
+  autoTagInBackground(
+    type: Exclude<TaggableContentType, "summary">,
+    itemId: string
+  ): void {
+    this.autoTag(type, itemId).catch((error) => {
+      logger.warn("Failed to generate tags", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        type,
+        itemId,
+      });
+    });
+  }
+
+  private async autoTag(
+    type: Exclude<TaggableContentType, "summary">,
+    itemId: string
+  ): Promise<void> {
+    const item =
+      type === "linkedin_post"
+        ? await prisma.linkedinPost.findUnique({ where: { id: itemId } }).then(
+            (post) =>
+              post && {
+                userId: post.userId,
+                tags: post.tags,
+                title: post.title || `Post by ${post.author}`,
+                text: post.content,
+              }
+          )
+        : await prisma.websiteSummary
+            .findUnique({ where: { id: itemId } })
+            .then(
+              (article) =>
+                article && {
+                  userId: article.userId,
+                  tags: article.tags,
+                  title: article.title,
+                  text:
+                    article.textContent ||
+                    article.content.replace(/<[^>]*>/g, " "),
+                }
+            );
+
+    // Tags set by the user are never overwritten
+    if (!item || item.tags.length > 0) {
+      return;
+    }
+
+    const estimate = await openaiService.estimateTaggingUsage(
+      item.title,
+      item.text,
+      item.userId
+    );
+    const tokenStatus = await tokenService.checkTokenAvailability(
+      item.userId,
+      estimate.inputTokens,
+      estimate.outputTokens
+    );
+
+    if (!tokenStatus.data?.hasEnoughTokens) {
+      logger.info("Skipping tag generation, not enough tokens", {
+        userId: item.userId,
+        type,
+        itemId,
+      });
+      return;
+    }
+
+    // Tokens are consumed by the OpenAI service once the tags are in
+    const result = await openaiService.suggestTags(
+      item.title,
+      item.text,
+      item.userId
+    );
+    const tags = await this.matchUserVocabulary(
+      item.userId,
+      (result.data ?? []).slice(0, MAX_TAGS)
+    );
+
+    if (tags.length === 0) {
+      return;
+    }
+
+    // Only fill tags that are still empty in case the user set some meanwhile
+    const where = { id: itemId, tags: { isEmpty: true } };
+    const { count } =
+      type === "linkedin_post"
+        ? await prisma.linkedinPost.updateMany({ where, data: { tags } })
+        : await prisma.websiteSummary.updateMany({ where, data: { tags } });
+
+    if (count > 0) {
+      await this.addToVocabulary(item.userId, tags);
+      embeddingService.indexInBackground(type, itemId);
+      logger.info("Tags generated", {
+        userId: item.userId,
+        type,
+        itemId,
+        tags,
+      });
+    }
+  }
+
+  // Per-type item counts by tag name, optionally for a single tag
+  private async countUsage(
+    userId: string,
+    name?: string
+  ): Promise<Map<string, Record<TaggableContentType, number>>> {
+    const usage = await Promise.all(
+      SEARCH_CONTENT_TYPES.map((type) =>
+        prisma.$queryRaw<{ name: string; count: number }[]>`
+          SELECT "tag" AS "name", COUNT(*)::int AS "count"
+          FROM ${Prisma.raw(`"${TAGGED_TABLES[type]}"`)},
+            unnest("tags") AS "tag"
+          WHERE "userId" = ${userId}
+            ${name ? Prisma.sql`AND "tag" = ${name}` : Prisma.empty}
+          GROUP BY "tag"`.then((rows) => ({ type, rows }))
+      )
+    );
+
+    const counts = new Map<string, Record<TaggableContentType, number>>();
+    for (const { type, rows } of usage) {
+      for (const row of rows) {
+        const tagCounts = counts.get(row.name) ?? emptyCounts();
+        tagCounts[type] = row.count;
+        counts.set(row.name, tagCounts);
+      }
+    }
+
+    return counts;
+  }
+
+  private async formatWithUsage(tag: Tag): Promise<TagData> {
+    const counts = await this.countUsage(tag.userId, tag.name);
+    return this.formatTag(tag, counts.get(tag.name) ?? emptyCounts());
+  }
+
+  // Statements replacing (or with null removing) a tag on all of a user's
+  // items, keeping the original order and dropping resulting duplicates
+  private replaceOnItems(
+    userId: string,
+    from: string,
+    to: string | null
+  ): Prisma.PrismaPromise<number>[] {
+    return SEARCH_CONTENT_TYPES.map((type) => {
+      const table = Prisma.raw(`"${TAGGED_TABLES[type]}"`);
+
+      return to === null
+        ? prisma.$executeRaw`
+            UPDATE ${table}
+            SET "tags" = array_remove("tags", ${from})
+            WHERE "userId" = ${userId} AND ${from} = ANY("tags")`
+        : prisma.$executeRaw`
+            UPDATE ${table}
+            SET "tags" = ARRAY(
+              SELECT "tag"
+              FROM unnest(array_replace("tags", ${from}, ${to}))
+                WITH ORDINALITY AS "item"("tag", "position")
+              GROUP BY "tag"
+              ORDER BY min("position")
+            )
+            WHERE "userId" = ${userId} AND ${from} = ANY("tags")`;
+    });
+  }
+
+  private async findTag(userId: string, tagId: string): Promise<Tag> {
+    const tag = await prisma.tag.findFirst({ where: { id: tagId, userId } });
+
+    if (!tag) {
+      throw new AppError("Tag not found", 404);
+    }
+
+    return tag;
+  }
+
+  private toTagName(name: string): string {
+    const tagName = normalizeTag(name);
+
+    if (!tagName) {
+      throw new AppError("Tag name must contain letters or numbers", 400);
+    }
+
+    return tagName;
+  }
+
+  private formatTag(
+    tag: Tag,
+    counts: Record<TaggableContentType, number>
+  ): TagData {
+    return {
+      id: tag.id,
+      name: tag.name,
+      counts,
+      total: counts.summary + counts.linkedin_post + counts.website_summary,
+      createdAt: tag.createdAt,
+      updatedAt: tag.updatedAt,
+    };
+  }
+}
+
+export const tagService = new TagService();
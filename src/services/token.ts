@@ -4,6 +4,7 @@ import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
 import { ServiceResponse } from "../types";
+import { countTokens } from "../utils/tokenizer";
 
 export interface TokenUsage {
   inputTokens: number;
@@ -482,12 +483,19 @@ export class TokenService {
   }
 
   /**
-   * Estimate token usage for a transcript (rough estimation)
+   * Count tokens in a piece of text with the model's BPE tokenizer
+   */
+  countTokens(text: string, model?: string): number {
+    return countTokens(text, model);
+  }
+
+  /**
+   * Estimate token usage for a piece of text
+   * (summaries use openaiService.estimateSummaryUsage, which counts the full prompts)
    */
   estimateTokenUsage(transcriptText: string): TokenUsage {
-    // Rough estimation: 1 token ≈ 4 characters for input
     // Output is typically 10-20% of input for summaries
-    const inputTokens = Math.ceil(transcriptText.length / 4);
+    const inputTokens = this.countTokens(transcriptText);
     const outputTokens = Math.ceil(inputTokens * 0.15); // 15% of input as rough estimate
 
     return {
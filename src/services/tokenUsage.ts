@@ -10,10 +10,15 @@ interface TrackTokenUsageParams {
   inputTokens: number;
   outputTokens: number;
   model?: string;
+  operation?: string;
   summaryId?: string;
   isSaved?: boolean;
   status?: "success" | "failed" | "partial";
   errorMessage?: string;
+  cacheHit?: boolean;
+  promptVersion?: string;
+  estimatedInputTokens?: number;
+  estimatedOutputTokens?: number;
 }
 
 export class TokenUsageService {
@@ -36,11 +41,15 @@ export class TokenUsageService {
           outputTokens: params.outputTokens,
           totalTokens,
           model: params.model || "gpt-5-nano",
-          operation: "summary_generation",
+          operation: params.operation || "summary_generation",
           summaryId: params.summaryId,
           isSaved: params.isSaved || false,
           status: params.status || "success",
           errorMessage: params.errorMessage,
+          cacheHit: params.cacheHit || false,
+          promptVersion: params.promptVersion,
+          estimatedInputTokens: params.estimatedInputTokens,
+          estimatedOutputTokens: params.estimatedOutputTokens,
         },
       });
 
@@ -51,6 +60,7 @@ export class TokenUsageService {
         outputTokens: params.outputTokens,
         totalTokens,
         isSaved: params.isSaved,
+        cacheHit: params.cacheHit,
       });
     } catch (error) {
       logger.error("❌ Failed to track token usage", {
@@ -147,6 +157,70 @@ export class TokenUsageService {
     });
   }
 
+  /**
+   * Compare pre-call token estimates with actual usage over a user's recent
+   * LLM calls. Error is (estimated - actual) / actual, so a positive value
+   * means calls were over-estimated.
+   */
+  async getEstimationAccuracy(userId: string, limit: number = 100) {
+    const records = await prisma.tokenUsage.findMany({
+      where: {
+        userId,
+        status: "success",
+        estimatedInputTokens: { not: null },
+        estimatedOutputTokens: { not: null },
+      },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      select: {
+        inputTokens: true,
+        outputTokens: true,
+        estimatedInputTokens: true,
+        estimatedOutputTokens: true,
+      },
+    });
+
+    const accuracy = (pairs: { estimated: number; actual: number }[]) => {
+      const measured = pairs.filter((pair) => pair.actual > 0);
+      const estimated = pairs.reduce((sum, pair) => sum + pair.estimated, 0);
+      const actual = pairs.reduce((sum, pair) => sum + pair.actual, 0);
+      const meanAbsoluteError =
+        measured.length > 0
+          ? measured.reduce(
+              (sum, pair) =>
+                sum + Math.abs(pair.estimated - pair.actual) / pair.actual,
+              0
+            ) / measured.length
+          : 0;
+
+      return {
+        estimatedTokens: estimated,
+        actualTokens: actual,
+        errorPercent:
+          actual > 0
+            ? Math.round(((estimated - actual) / actual) * 1000) / 10
+            : 0,
+        meanAbsoluteErrorPercent: Math.round(meanAbsoluteError * 1000) / 10,
+      };
+    };
+
+    return {
+      sampleSize: records.length,
+      input: accuracy(
+        records.map((record) => ({
+          estimated: record.estimatedInputTokens ?? 0,
+          actual: record.inputTokens,
+        }))
+      ),
+      output: accuracy(
+        records.map((record) => ({
+          estimated: record.estimatedOutputTokens ?? 0,
+          actual: record.outputTokens,
+        }))
+      ),
+    };
+  }
+
   /**
    * Get token usage for a specific video
    */
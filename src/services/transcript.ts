@@ -0,0 +1,74 @@
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  ParsedTranscriptData,
+  ServiceResponse,
+  TRANSCRIPT_FORMATS,
+  TranscriptFileDto,
+} from "../types";
+import {
+  MAX_TRANSCRIPT_FILE_LENGTH,
+  detectTranscriptFormat,
+  parseTranscriptFile,
+} from "../utils/transcriptFormats";
+
+export class TranscriptService {
+  /**
+   * Convert an SRT, WebVTT, YouTube timedtext (JSON3 or XML) or timestamped
+   * plain text file into transcript segments. The format is detected from
+   * the content when not given.
+   */
+  parse(file: TranscriptFileDto): ServiceResponse<ParsedTranscriptData> {
+    if (typeof file?.content !== "string" || !file.content.trim()) {
+      throw new AppError("Transcript file content is required", 400);
+    }
+
+    if (file.content.length > MAX_TRANSCRIPT_FILE_LENGTH) {
+      throw new AppError("Transcript file is too large", 413);
+    }
+
+    if (
+      file.format !== undefined &&
+      !TRANSCRIPT_FORMATS.includes(file.format)
+    ) {
+      throw new AppError(
+        `Unsupported transcript format. Use one of: ${TRANSCRIPT_FORMATS.join(", ")}`,
+        400
+      );
+    }
+
+    const format = file.format ?? detectTranscriptFormat(file.content);
+    const segments = parseTranscriptFile(file.content, format);
+
+    if (!segments) {
+      throw new AppError(`Transcript file is not valid ${format}`, 400);
+    }
+
+    if (segments.length === 0) {
+      throw new AppError(
+        format === "text"
+          ? "No timestamped lines found in the transcript"
+          : `No captions found in the ${format} file`,
+        400
+      );
+    }
+
+    const last = segments[segments.length - 1];
+
+    logger.info("Transcript file parsed", {
+      format,
+      segments: segments.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        format,
+        segments,
+        durationSeconds: last.endSeconds ?? last.startSeconds ?? 0,
+      },
+    };
+  }
+}
+
+export const transcriptService = new TranscriptService();
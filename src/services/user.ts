@@ -27,6 +27,7 @@ export class UserService {
           emailVerified: true,
           createdAt: true,
           lastLoginAt: true,
+          preferredLanguage: true,
           inputTokensRemaining: true,
           outputTokensRemaining: true,
           tokenResetDate: true,
@@ -49,6 +50,7 @@ export class UserService {
         emailVerified: user.emailVerified,
         createdAt: user.createdAt.toISOString(),
         lastLoginAt: user.lastLoginAt?.toISOString() || null,
+        preferredLanguage: user.preferredLanguage,
         inputTokensRemaining: user.inputTokensRemaining,
         outputTokensRemaining: user.outputTokensRemaining,
         tokenResetDate: user.tokenResetDate?.toISOString() || null,
@@ -71,7 +73,7 @@ export class UserService {
   // Update user profile
   async updateUserProfile(
     userId: string,
-    updates: Partial<Pick<UserProfile, "name" | "avatar">>
+    updates: Partial<Pick<UserProfile, "name" | "avatar" | "preferredLanguage">>
   ): Promise<ServiceResponse<UserProfile>> {
     try {
       const user = await prisma.user.findUnique({
@@ -87,6 +89,9 @@ export class UserService {
         data: {
           ...(updates.name !== undefined && { name: updates.name }),
           ...(updates.avatar !== undefined && { avatar: updates.avatar }),
+          ...(updates.preferredLanguage !== undefined && {
+            preferredLanguage: updates.preferredLanguage,
+          }),
         },
         select: {
           id: true,
@@ -98,6 +103,7 @@ export class UserService {
           emailVerified: true,
           createdAt: true,
           lastLoginAt: true,
+          preferredLanguage: true,
         },
       });
 
@@ -111,6 +117,7 @@ export class UserService {
         emailVerified: updatedUser.emailVerified,
         createdAt: updatedUser.createdAt.toISOString(),
         lastLoginAt: updatedUser.lastLoginAt?.toISOString() || null,
+        preferredLanguage: updatedUser.preferredLanguage,
       };
 
       logger.info("User profile updated", {
@@ -2,6 +2,8 @@ import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
+import { embeddingService } from "./embedding";
+import { tagService } from "./tag";
 import {
   ServiceResponse,
   PaginatedResponse,
@@ -10,6 +12,7 @@ import {
   WebsiteSummaryQueryParams,
   WebsiteSummaryStats,
 } from "../types";
+import { normalizeTags } from "../utils/tags";
 
 export class WebsiteSummaryService {
   // Create or get existing website article
@@ -51,6 +54,7 @@ export class WebsiteSummaryService {
       // Extract website name and favicon (use provided or generate)
       const websiteName = data.websiteName || this.extractWebsiteName(data.url);
       const favicon = this.generateFaviconUrl(data.url);
+      const tags = normalizeTags(data.tags);
 
       // Create article in database (NO AI processing, just save the Readability data)
       const article = await prisma.websiteSummary.create({
@@ -70,9 +74,19 @@ export class WebsiteSummaryService {
           language: data.language || null,
           direction: data.direction || null,
           publishedTime: data.publishedTime || null,
+          tags,
         },
       });
 
+      embeddingService.indexInBackground("website_summary", article.id);
+
+      // Suggest tags when the user did not pick any
+      if (tags.length > 0) {
+        await tagService.addToVocabulary(userId, tags);
+      } else {
+        tagService.autoTagInBackground("website_summary", article.id);
+      }
+
       logger.info("Website article saved successfully", {
         userId,
         articleId: article.id,
@@ -106,6 +120,7 @@ export class WebsiteSummaryService {
         page = 1,
         limit = 20,
         search,
+        tags,
         startDate,
         endDate,
         sortBy = "savedAt",
@@ -115,6 +130,7 @@ export class WebsiteSummaryService {
       // Build where clause
       const where: Prisma.WebsiteSummaryWhereInput = {
         userId,
+        ...(tags?.length && { tags: { hasEvery: tags } }),
         ...(startDate &&
           endDate && {
             savedAt: {
@@ -353,6 +369,7 @@ export class WebsiteSummaryService {
       language: article.language,
       direction: article.direction,
       publishedTime: article.publishedTime,
+      tags: article.tags,
       savedAt: article.savedAt,
       createdAt: article.createdAt,
       updatedAt: article.updatedAt,
@@ -49,6 +49,39 @@ export interface TranscriptSegment {
   endSeconds?: number;
 }
 
+// Caption and transcript file formats that can be imported
+export const TRANSCRIPT_FORMATS = [
+  "srt",
+  "vtt",
+  "json3", // YouTube timedtext JSON
+  "timedtext", // YouTube timedtext XML
+  "text", // Plain text with a timestamp starting each line or paragraph
+] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export interface TranscriptFileDto {
+  content: string;
+  format?: TranscriptFormat; // Detected from the content when omitted
+}
+
+// What the cleanup before summarization removed, and the input tokens saved
+export interface TranscriptCleanupStats {
+  segmentsBefore: number;
+  segmentsAfter: number;
+  noiseTagsRemoved: number;
+  fillerWordsRemoved: number;
+  duplicateWordsRemoved: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  tokensSaved: number;
+}
+
+export interface ParsedTranscriptData {
+  format: TranscriptFormat;
+  segments: TranscriptSegment[];
+  durationSeconds: number;
+}
+
 export interface VideoMetadata {
   videoId: string;
   title: string;
@@ -62,12 +95,74 @@ export interface VideoMetadata {
   likeCount?: number;
 }
 
+// Structured sections of a summary, as returned by the model
+export interface SummaryNote {
+  title: string;
+  content: string;
+}
+
+// Transcript span a summary item was drawn from
+export interface SummaryCitation {
+  timestamp: string;
+  startSeconds: number;
+  endSeconds?: number;
+}
+
+// Topic segment of a video, detected from its transcript
+export interface SummaryChapter {
+  title: string;
+  summary: string; // One or two sentences
+  timestamp: string; // Start, as written in the transcript
+  startSeconds: number;
+  endSeconds: number; // Start of the next chapter, or the end of the video
+}
+
+// One citation list per section item, aligned by index
+export type SummarySectionCitations = Record<
+  SummarySectionName,
+  SummaryCitation[][]
+>;
+
+export interface SummarySections {
+  keyTakeaways: string[];
+  quotes: string[]; // Only quotes found verbatim in the transcript
+  examples: string[];
+  detailedNotes: SummaryNote[];
+  citations: SummarySectionCitations;
+}
+
+// Output shapes a summary can be generated in
+export const SUMMARY_MODES = [
+  "tldr",
+  "brief",
+  "detailed",
+  "study",
+  "executive",
+] as const;
+
+export type SummaryMode = (typeof SUMMARY_MODES)[number];
+
+// Mode-specific output that has no place in the shared sections
+export interface SummaryModeContent {
+  overview?: string; // tldr, study and executive modes
+  reviewQuestions?: string[]; // study mode
+  recommendations?: string[]; // executive mode
+  risks?: string[]; // executive mode
+}
+
 export interface SummaryData {
   id: string;
   title: string;
   keyPoints: string[];
   fullSummary: string;
+  sections: SummarySections;
+  mode: SummaryMode;
+  modeContent: SummaryModeContent;
+  chapters: SummaryChapter[];
+  language?: string | null; // Output language (ISO 639-1)
+  transcriptLanguage?: string | null; // Detected from the transcript
   tags: string[];
+  promptVersion?: string | null; // Prompt templates used, e.g. "summary@2"
   status: SummaryStatus;
   videoId: string;
   videoTitle: string;
@@ -77,21 +172,464 @@ export interface SummaryData {
   thumbnailUrl?: string;
   transcript?: TranscriptSegment[];
   transcriptText?: string;
+  transcriptCleanup?: TranscriptCleanupStats; // Set on freshly generated summaries
   userId: string;
   createdAt: Date;
   updatedAt: Date;
   isUnsaved?: boolean; // Flag to indicate if summary hasn't been saved to database yet
 }
 
+// Summary text sent for translation; items keep their order
+export interface SummaryTranslationContent {
+  title: string;
+  keyTakeaways: string[];
+  quotes: string[];
+  examples: string[];
+  detailedNotes: SummaryNote[];
+  modeContent: SummaryModeContent;
+  chapters: { title: string; summary: string }[];
+}
+
+// Translated variant stored alongside the original summary
+export interface SummaryTranslationData {
+  id: string;
+  summaryId: string;
+  language: string;
+  title: string;
+  keyPoints: string[];
+  fullSummary: string;
+  sections: SummarySections; // Citations are those of the original items
+  modeContent: SummaryModeContent;
+  chapters: SummaryChapter[]; // Times are those of the original chapters
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Follow-up Q&A over a saved summary's transcript
+export type SummaryChatRole = "user" | "assistant";
+
+export interface SummaryChatMessageData {
+  id: string;
+  role: SummaryChatRole;
+  content: string;
+  citations: SummaryCitation[]; // Transcript spans the answer cites
+  createdAt: Date;
+}
+
+export interface SummaryChatThreadData {
+  id: string;
+  summaryId: string;
+  title: string;
+  messages?: SummaryChatMessageData[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Prompt input for answering a question about a saved summary
+export interface SummaryChatContext {
+  question: string;
+  summary: string; // fullSummary of the saved summary
+  passages: string[]; // Retrieved transcript passages, in video order
+  history: { role: SummaryChatRole; content: string }[]; // Oldest first
+}
+
+// Flashcard and quiz types
+export const STUDY_MATERIAL_KINDS = ["flashcards", "quiz"] as const;
+export type StudyMaterialKind = (typeof STUDY_MATERIAL_KINDS)[number];
+
+export const STUDY_EXPORT_FORMATS = ["apkg", "csv"] as const;
+export type StudyExportFormat = (typeof STUDY_EXPORT_FORMATS)[number];
+
+export const DEFAULT_STUDY_ITEMS = 10;
+export const MAX_STUDY_ITEMS = 30; // Per generation request
+
+export interface FlashcardData {
+  id: string;
+  front: string;
+  back: string;
+  timestamp: string | null;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QuizQuestionData {
+  id: string;
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string | null;
+  timestamp: string | null;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StudyMaterialContext {
+  kind: StudyMaterialKind;
+  count: number; // Items requested
+  title: string;
+  keyPoints: string[];
+  summary: string;
+  transcript: string; // Timestamped lines, truncated to the token budget
+}
+
+export interface StudyExport {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+// Summary exports: one summary or the whole library as a document or a
+// zipped Obsidian vault with one note per summary
+export const SUMMARY_EXPORT_FORMATS = [
+  "markdown",
+  "pdf",
+  "docx",
+  "obsidian",
+] as const;
+export type SummaryExportFormat = (typeof SUMMARY_EXPORT_FORMATS)[number];
+
+export const MAX_EXPORT_SUMMARIES = 500; // Per library export
+
+export interface LibraryExportParams {
+  format: SummaryExportFormat;
+  tags?: string[];
+  ids?: string[];
+}
+
+// Summary content as exported; the transcript is left out
+export interface ExportableSummary
+  extends Omit<SummaryData, "transcript" | "transcriptText"> {
+  infographicUrl?: string | null;
+}
+
+// Layout-neutral document content, rendered to Markdown, PDF or DOCX
+export type DocumentBlock =
+  | {
+      type: "title" | "heading" | "subheading" | "paragraph" | "quote" | "meta";
+      text: string;
+    }
+  | { type: "bullet"; text: string; label?: string; url?: string } // Label, e.g. a timestamp, is linked to url
+  | { type: "link"; text: string; url: string; image?: boolean }
+  | { type: "pageBreak" };
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+// Share links: read-only public links to a summary or a website summary
+export const SHARE_CONTENT_TYPES = ["summary", "website"] as const;
+export type ShareContentType = (typeof SHARE_CONTENT_TYPES)[number];
+
+export const MAX_SHARE_LINKS_PER_ITEM = 20; // Active links per shared item
+
+export interface CreateShareLinkDto {
+  expiresInDays?: number; // Omit for a link that does not expire
+  password?: string;
+}
+
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+export interface ShareLinkData {
+  id: string;
+  token: string;
+  url: string; // Public URL of the shared content
+  contentType: ShareContentType;
+  contentId: string;
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+// Public views leave out the transcript, tags and anything about the owner
+export type SharedSummaryView = Omit<
+  ExportableSummary,
+  | "id"
+  | "userId"
+  | "tags"
+  | "status"
+  | "promptVersion"
+  | "transcriptLanguage"
+  | "updatedAt"
+>;
+
+export type SharedWebsiteSummaryView = Pick<
+  WebsiteSummaryData,
+  | "url"
+  | "title"
+  | "textContent"
+  | "excerpt"
+  | "byline"
+  | "websiteName"
+  | "favicon"
+  | "wordCount"
+  | "readTime"
+  | "language"
+  | "direction"
+  | "publishedTime"
+  | "createdAt"
+>;
+
+export type SharedContent =
+  | { contentType: "summary"; summary: SharedSummaryView }
+  | { contentType: "website"; websiteSummary: SharedWebsiteSummaryView };
+
+// Summary revisions: immutable snapshots taken on every content change
+export const SUMMARY_REVISION_SOURCES = [
+  "baseline", // State when revision history started
+  "generation",
+  "edit",
+  "regeneration",
+  "translation",
+  "restore",
+] as const;
+export type SummaryRevisionSource = (typeof SUMMARY_REVISION_SOURCES)[number];
+
+export interface SummaryRevisionContent {
+  title: string;
+  keyPoints: string[];
+  fullSummary: string;
+  keyTakeaways: string[];
+  quotes: string[];
+  examples: string[];
+  detailedNotes: SummaryNote[];
+  citations: SummarySectionCitations;
+  chapters: SummaryChapter[];
+  modeContent: SummaryModeContent;
+  mode?: SummaryMode; // Absent on translations, which follow the original
+  language?: string | null;
+  promptVersion?: string | null;
+}
+
+export interface SummaryRevisionData {
+  revision: number;
+  source: SummaryRevisionSource;
+  language: string | null; // Set for revisions of a translation
+  authorId: string | null; // User who made the change
+  restoredFrom: number | null;
+  changedFields: string[]; // Compared with the previous revision in the same language
+  content?: SummaryRevisionContent;
+  createdAt: Date;
+}
+
+export interface SummaryRevisionFieldDiff {
+  field: keyof SummaryRevisionContent;
+  before: unknown;
+  after: unknown;
+  added?: string[]; // List fields of plain text only
+  removed?: string[];
+}
+
+export interface SummaryRevisionDiff {
+  from: number;
+  to: number;
+  changes: SummaryRevisionFieldDiff[];
+}
+
+// Multi-video synthesis. Sources are cited by their 1-based position.
+export const MIN_SYNTHESIS_SOURCES = 2;
+export const MAX_SYNTHESIS_SOURCES = 10;
+
+export interface SynthesisTheme {
+  theme: string;
+  description: string;
+  sources: number[];
+}
+
+export interface SynthesisDisagreement {
+  topic: string;
+  positions: { source: number; position: string }[];
+}
+
+export interface SynthesisOutlineSection {
+  heading: string;
+  points: { text: string; sources: number[] }[];
+}
+
+export interface SummarySynthesisContent {
+  title: string;
+  overview: string;
+  themes: SynthesisTheme[];
+  disagreements: SynthesisDisagreement[];
+  outline: SynthesisOutlineSection[];
+}
+
+export interface SummarySynthesisSourceData {
+  position: number;
+  summaryId: string | null; // Null once the summary has been deleted
+  videoId: string;
+  videoTitle: string;
+  channelName: string;
+  videoUrl: string;
+}
+
+export interface SummarySynthesisData {
+  id: string;
+  title: string;
+  overview: string;
+  themes?: SynthesisTheme[]; // Content is left out of listings
+  disagreements?: SynthesisDisagreement[];
+  outline?: SynthesisOutlineSection[];
+  language: string;
+  model: string;
+  promptVersion: string | null;
+  sources: SummarySynthesisSourceData[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Prompt input for a synthesis, one entry per source in position order
+export interface SynthesisContext {
+  sources: {
+    title: string;
+    channelName: string;
+    keyPoints: string[];
+    summary: string; // fullSummary, truncated to the per-source budget
+  }[];
+}
+
+export interface CreateSynthesisDto {
+  summaryIds: string[];
+  title?: string; // Replaces the generated title
+  language?: string;
+}
+
+export interface SummaryChatResult {
+  thread: SummaryChatThreadData;
+  question: SummaryChatMessageData;
+  answer: SummaryChatMessageData;
+}
+
 export interface GenerateSummaryRequest {
   transcript: TranscriptSegment[];
   videoMetadata: VideoMetadata;
+  mode?: SummaryMode; // Defaults to "detailed"
+  language?: string; // Output language, defaults to the user's preferred language
+}
+
+// Progress events emitted while a summary is being generated
+export type SummaryProgressEvent =
+  | { type: "chunk_started"; chunkIndex: number; totalChunks: number }
+  | { type: "chunk_finished"; chunkIndex: number; totalChunks: number }
+  | { type: "finalizing"; totalChunks: number };
+
+// Sections of the structured summary, streamed item by item
+export type SummarySectionName =
+  | "keyTakeaways"
+  | "quotes"
+  | "examples"
+  | "detailedNotes";
+
+export type SummarySectionItem = string | SummaryNote;
+
+export interface SummarySectionEvent {
+  section: SummarySectionName;
+  index: number;
+  item: SummarySectionItem;
+  citations?: SummaryCitation[];
+}
+
+export interface GenerateSummaryOptions {
+  mode?: SummaryMode;
+  language?: string; // Output language (ISO 639-1)
+  onProgress?: (event: SummaryProgressEvent) => void | Promise<void>;
+  onSection?: (event: SummarySectionEvent) => void;
+  signal?: AbortSignal; // Aborts generation; produced output is still charged
+  prompts?: SummaryPrompts; // Resolved from the prompt registry when omitted
+  jobId?: string; // Summary job being run; it counts its video at most once
+}
+
+// Summary Job Types (asynchronous generation)
+export interface SummaryJobData {
+  id: string;
+  status: SummaryStatus;
+  videoId: string;
+  videoTitle: string;
+  videoUrl: string;
+  kind: "generate" | "regenerate";
+  summaryId?: string | null; // Summary the job fills in or regenerates
+  progress: {
+    currentChunk: number;
+    completedChunks: number;
+    totalChunks: number;
+    percent: number;
+    message?: string | null;
+  };
+  result?: SummaryData | null;
+  error?: string | null;
+  errorCode?: string | null; // INVALID_MODEL_OUTPUT when the model's output could not be repaired
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Videos queued together, e.g. a playlist collected by the extension
+export const MAX_SUMMARY_BATCH_ITEMS = 50;
+
+export interface SummaryBatchItemDto {
+  transcript: TranscriptSegment[];
+  transcriptFile?: TranscriptFileDto; // Caption file sent instead of segments
+  videoMetadata: VideoMetadata;
+}
+
+export interface CreateSummaryBatchDto {
+  name?: string;
+  items: SummaryBatchItemDto[];
+  mode?: SummaryMode; // Applies to every item
+  language?: string;
+}
+
+// A batch job; fetch the job itself for its generated summary
+export interface SummaryBatchItemData extends Omit<SummaryJobData, "result"> {
+  position: number;
+}
+
+// Item left out because the video was already queued outside the batch
+export interface SkippedBatchItem {
+  position: number;
+  videoId: string;
+  jobId: string;
+  reason: "already_queued";
+}
+
+export interface SummaryBatchProgress {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  percent: number; // Share of items finished, completed or failed
+}
+
+export interface SummaryBatchData {
+  id: string;
+  name?: string | null;
+  status: "PROCESSING" | "COMPLETED"; // COMPLETED once no item is queued or running
+  progress: SummaryBatchProgress;
+  items?: SummaryBatchItemData[]; // Left out of listings
+  skipped?: SkippedBatchItem[]; // Only when the batch is created
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface OpenAISummaryResponse {
   keyPoints: string[];
   fullSummary: string;
+  sections: SummarySections;
+  mode: SummaryMode;
+  modeContent: SummaryModeContent;
+  chapters: SummaryChapter[];
+  language: string;
   tags: string[];
+  promptVersion?: string; // Prompt templates used, e.g. "summary@2"
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -112,6 +650,58 @@ export interface OpenAIUsageData {
   createdAt: string;
 }
 
+// LLM Provider Types
+export type LLMProviderName = "openai" | "google" | "local";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  model?: string; // Overrides the provider's configured model
+  jsonResponse?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onContent?: (delta: string) => void; // Streams the response when provided
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMEmbeddingRequest {
+  input: string[];
+  model?: string; // Overrides the provider's configured embedding model
+  signal?: AbortSignal;
+}
+
+export interface LLMEmbeddingResult {
+  embeddings: number[][]; // One vector per input, in input order
+  provider: LLMProviderName;
+  model: string;
+  promptTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly embeddingModel: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult>;
+}
+
 // User Types
 export interface UserProfile {
   id: string;
@@ -123,6 +713,7 @@ export interface UserProfile {
   emailVerified: boolean;
   createdAt: string;
   lastLoginAt: string | null;
+  preferredLanguage?: string | null; // Default summary language
   // Token management and video limits
   videosProcessedThisMonth?: number;
   videoResetDate?: string | null;
@@ -177,17 +768,54 @@ export interface VerifyEmailDto {
 export interface UpdateProfileDto {
   name?: string;
   avatar?: string;
+  preferredLanguage?: string | null;
 }
 
 export interface GenerateSummaryDto {
   transcript: TranscriptSegment[];
+  transcriptFile?: TranscriptFileDto; // Caption file sent instead of segments
   videoMetadata: VideoMetadata;
+  mode?: SummaryMode;
+  language?: string;
+}
+
+export interface RegenerateSummaryDto {
+  mode: SummaryMode;
+}
+
+export interface TranslateSummaryDto {
+  language: string;
+}
+
+export interface SummaryChatDto {
+  question: string;
+  threadId?: string; // Continues an existing thread when provided
+}
+
+export interface GenerateStudyMaterialDto {
+  count?: number; // Defaults to DEFAULT_STUDY_ITEMS
+}
+
+export interface FlashcardDto {
+  front: string;
+  back: string;
+  timestamp?: string | null;
+}
+
+export interface QuizQuestionDto {
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation?: string | null;
+  timestamp?: string | null;
 }
 
 export interface UpdateSummaryDto {
   title?: string;
   keyPoints?: string[];
   fullSummary?: string;
+  sections?: Partial<SummarySections>; // Only the provided sections are replaced
+  modeContent?: SummaryModeContent;
   tags?: string[];
 }
 
@@ -215,7 +843,14 @@ export type CreateSummaryData = {
   title: string;
   keyPoints: string[];
   fullSummary: string;
+  sections?: SummarySections;
+  mode?: SummaryMode;
+  modeContent?: SummaryModeContent;
+  chapters?: SummaryChapter[];
+  language?: string | null;
+  transcriptLanguage?: string | null;
   tags: string[];
+  promptVersion?: string | null;
   videoId: string;
   videoTitle: string;
   channelName: string;
@@ -238,6 +873,7 @@ export interface SummaryQueryParams {
   videoId?: string;
   startDate?: string;
   endDate?: string;
+  tags?: string[]; // Summaries having all of these tags
   sortBy?: "createdAt" | "title" | "videoTitle";
   sortOrder?: "asc" | "desc";
 }
@@ -263,6 +899,7 @@ export interface ServiceResponse<T = any> {
 // Constants
 export const MAX_TRANSCRIPT_LENGTH = 1000000; // chars
 export const MAX_SUMMARY_HISTORY = 100; // per user
+export const SUMMARY_PROMPT_VERSION = "6"; // Bump when summary prompts change to invalidate the shared cache
 export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 
@@ -406,6 +1043,7 @@ export interface LinkedinPostData {
     source?: string;
     [key: string]: any;
   };
+  tags: string[];
   savedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -431,6 +1069,7 @@ export interface SaveLinkedinPostDto {
     source?: string;
     [key: string]: any;
   };
+  tags?: string[];
 }
 
 export interface UpdateLinkedinPostDto {
@@ -447,6 +1086,7 @@ export interface UpdateLinkedinPostDto {
     source?: string;
     [key: string]: any;
   };
+  tags?: string[];
 }
 
 export interface LinkedinPostQueryParams {
@@ -454,6 +1094,7 @@ export interface LinkedinPostQueryParams {
   limit?: number;
   search?: string;
   author?: string;
+  tags?: string[]; // Posts having all of these tags
   startDate?: string;
   endDate?: string;
   sortBy?: "savedAt" | "createdAt" | "author" | "title";
@@ -490,6 +1131,7 @@ export interface WebsiteSummaryData {
   language?: string | null;
   direction?: string | null;
   publishedTime?: string | null;
+  tags: string[];
   savedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -506,12 +1148,14 @@ export interface CreateWebsiteSummaryDto {
   language?: string; // Language from Readability
   direction?: string; // Text direction from Readability
   publishedTime?: string; // Published time from Readability
+  tags?: string[];
 }
 
 export interface WebsiteSummaryQueryParams {
   page?: number;
   limit?: number;
   search?: string;
+  tags?: string[]; // Articles having all of these tags
   startDate?: string;
   endDate?: string;
   sortBy?: "savedAt" | "createdAt" | "title";
@@ -530,6 +1174,129 @@ export interface WebsiteSummaryStats {
   }[];
 }
 
+// Semantic Search Types
+export const SEARCH_CONTENT_TYPES = [
+  "summary",
+  "linkedin_post",
+  "website_summary",
+] as const;
+
+export type SearchContentType = (typeof SEARCH_CONTENT_TYPES)[number];
+
+export interface SemanticSearchParams {
+  q: string;
+  limit?: number;
+  types?: SearchContentType[]; // Defaults to all content types
+}
+
+export interface SemanticSearchHit {
+  type: SearchContentType;
+  id: string;
+  title: string;
+  snippet: string;
+  url: string;
+  score: number; // Cosine similarity to the query
+  createdAt: Date;
+}
+
+export interface SemanticSearchResult {
+  query: string;
+  hits: SemanticSearchHit[];
+  engine: "pgvector" | "in_process";
+}
+
+// Tag Types
+export type TaggableContentType = SearchContentType; // Same saved content as search
+
+export interface TagData {
+  id: string;
+  name: string;
+  counts: Record<TaggableContentType, number>; // Items using the tag
+  total: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TagNameDto {
+  name: string;
+}
+
+export interface MergeTagsDto {
+  sourceIds: string[]; // Merged into the target and deleted
+  targetId: string;
+}
+
+export interface SetItemTagsDto {
+  tags: string[];
+}
+
+export interface SemanticReindexResult {
+  indexed: number;
+  unchanged: number;
+  failed: number;
+}
+
+// Prompt Registry Types
+export const PROMPT_NAMES = [
+  "summary",
+  "summary_chunk",
+  "summary_final",
+  "summary_translation",
+  "summary_chat",
+  "summary_synthesis",
+  "study_flashcards",
+  "study_quiz",
+  "content_tagging",
+  "infographic",
+  "output_repair",
+] as const;
+export type PromptName = (typeof PROMPT_NAMES)[number];
+
+// Template version picked for one call
+export interface ResolvedPrompt {
+  name: PromptName;
+  version: number; // 0 is the built-in template
+  system: string | null;
+  template: string;
+}
+
+// Templates a summary generation may use, settled before the cache lookup
+export interface SummaryPrompts {
+  single: ResolvedPrompt;
+  chunk: ResolvedPrompt;
+  final: ResolvedPrompt;
+}
+
+export interface PromptVersionData {
+  version: number;
+  system: string | null;
+  template: string;
+  variables: string[]; // Variables the template uses
+  trafficWeight: number; // Relative share of calls, 0 when not serving
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: Date | null; // Null for the built-in template
+}
+
+export interface PromptData {
+  name: PromptName;
+  variables: string[]; // Variables a template can use
+  servingVersions: number[];
+  builtIn: PromptVersionData;
+  versions: PromptVersionData[]; // Published versions, newest first
+}
+
+export interface PublishPromptVersionDto {
+  system?: string | null;
+  template: string;
+  notes?: string;
+  trafficWeight?: number; // Omit to send all traffic to the new version
+}
+
+export interface SetPromptTrafficDto {
+  weights: Record<string, number>; // Version to weight; unlisted versions stop serving
+}
+
 // Re-export Prisma types
 export {
   User,
@@ -0,0 +1,240 @@
+import { AppError } from "../../middleware/errorHandler";
+import {
+  CircuitBreaker,
+  ProviderError,
+  RetryPolicy,
+  callWithPolicy,
+  getCircuitStatuses,
+  isTransientError,
+  parseRetryAfter,
+} from "../resilience";
+
+const policy: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 50,
+  timeoutMs: 1000,
+};
+
+let breakers = 0;
+const newBreaker = (failureThreshold = 3, resetTimeoutMs = 1000) =>
+  new CircuitBreaker(`test-${++breakers}`, "Test provider", {
+    failureThreshold,
+    resetTimeoutMs,
+  });
+
+describe("resilience", () => {
+  describe("parseRetryAfter", () => {
+    it("reads delay seconds", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter("0.5")).toBe(500);
+    });
+
+    it("reads an HTTP date", () => {
+      const date = new Date(Date.now() + 10_000).toUTCString();
+      const delay = parseRetryAfter(date)!;
+
+      expect(delay).toBeGreaterThan(8000);
+      expect(delay).toBeLessThanOrEqual(10_000);
+    });
+
+    it("never returns a negative delay", () => {
+      expect(parseRetryAfter("-5")).toBe(0);
+      expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0);
+    });
+
+    it("ignores missing and unreadable values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("")).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("isTransientError", () => {
+    it("retries rate limits, server errors and network failures", () => {
+      expect(isTransientError(new ProviderError("Rate limited", 429))).toBe(
+        true
+      );
+      expect(isTransientError(new ProviderError("Bad gateway", 502))).toBe(
+        true
+      );
+      expect(isTransientError(new TypeError("fetch failed"))).toBe(true);
+    });
+
+    it("does not retry other client errors", () => {
+      expect(isTransientError(new ProviderError("Bad request", 400))).toBe(
+        false
+      );
+      expect(isTransientError(new AppError("Unauthorized", 401))).toBe(false);
+    });
+  });
+
+  describe("CircuitBreaker", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("opens after consecutive failures and fails fast", () => {
+      const breaker = newBreaker(2);
+
+      breaker.recordFailure(new Error("down"));
+      expect(() => breaker.acquire()).not.toThrow();
+      breaker.recordFailure(new Error("still down"));
+
+      expect(() => breaker.acquire()).toThrow(
+        "Test provider is temporarily unavailable. Please try again shortly."
+      );
+      expect(breaker.status()).toMatchObject({
+        state: "open",
+        consecutiveFailures: 2,
+        lastError: "still down",
+      });
+    });
+
+    it("resets the failure count on success", () => {
+      const breaker = newBreaker(2);
+
+      breaker.recordFailure(new Error("down"));
+      breaker.recordSuccess();
+      breaker.recordFailure(new Error("down"));
+
+      expect(breaker.status().state).toBe("closed");
+    });
+
+    it("lets one trial call through after the reset timeout", () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(0);
+      const breaker = newBreaker(1, 1000);
+      breaker.recordFailure(new Error("down"));
+
+      now.mockReturnValue(1000);
+      expect(breaker.status().state).toBe("half_open");
+      expect(() => breaker.acquire()).not.toThrow();
+      expect(() => breaker.acquire()).toThrow(AppError);
+
+      breaker.recordSuccess();
+      expect(breaker.status().state).toBe("closed");
+    });
+
+    it("opens again when the trial call fails", () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(0);
+      const breaker = newBreaker(3, 1000);
+      for (let i = 0; i < 3; i++) {
+        breaker.recordFailure(new Error("down"));
+      }
+
+      now.mockReturnValue(1000);
+      breaker.acquire();
+      breaker.recordFailure(new Error("still down"));
+
+      expect(breaker.status().state).toBe("open");
+      expect(() => breaker.acquire()).toThrow(AppError);
+    });
+
+    it("is reported by name", () => {
+      const breaker = newBreaker();
+
+      expect(getCircuitStatuses()).toContainEqual(breaker.status());
+    });
+  });
+
+  describe("callWithPolicy", () => {
+    it("retries transient failures until the call succeeds", async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(new ProviderError("Unavailable", 503))
+        .mockResolvedValueOnce("ok");
+
+      await expect(callWithPolicy(newBreaker(), policy, call)).resolves.toBe(
+        "ok"
+      );
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the configured retries", async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValue(new ProviderError("Unavailable", 503));
+
+      await expect(
+        callWithPolicy(newBreaker(10), policy, call)
+      ).rejects.toThrow("Unavailable");
+      expect(call).toHaveBeenCalledTimes(policy.retries + 1);
+    });
+
+    it("does not retry client errors or count them against the provider", async () => {
+      const breaker = newBreaker();
+      const call = jest
+        .fn()
+        .mockRejectedValue(new ProviderError("Bad request", 400));
+
+      await expect(callWithPolicy(breaker, policy, call)).rejects.toThrow(
+        "Bad request"
+      );
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(breaker.status().consecutiveFailures).toBe(0);
+    });
+
+    it("fails instead of waiting longer than the maximum delay", async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValue(new ProviderError("Rate limited", 429, 60_000));
+
+      await expect(callWithPolicy(newBreaker(), policy, call)).rejects.toThrow(
+        "Rate limited"
+      );
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry a call that already streamed output", async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValue(new ProviderError("Unavailable", 503));
+
+      await expect(
+        callWithPolicy(newBreaker(), policy, call, { canRetry: () => false })
+      ).rejects.toThrow("Unavailable");
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("aborts an attempt at its deadline", async () => {
+      const call = (signal: AbortSignal) =>
+        new Promise((_, reject) =>
+          signal.addEventListener("abort", () => reject(new Error("aborted")))
+        );
+
+      await expect(
+        callWithPolicy(
+          newBreaker(),
+          { ...policy, retries: 0, timeoutMs: 20 },
+          call
+        )
+      ).rejects.toMatchObject({ statusCode: 504, code: "PROVIDER_TIMEOUT" });
+    });
+
+    it("stops without retrying when the caller cancels", async () => {
+      const breaker = newBreaker(1);
+      const controller = new AbortController();
+      const call = jest.fn(async () => {
+        controller.abort();
+        throw new Error("aborted");
+      });
+
+      await expect(
+        callWithPolicy(breaker, policy, call, { signal: controller.signal })
+      ).rejects.toThrow("aborted");
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(breaker.status().state).toBe("closed");
+    });
+
+    it("fails fast while the circuit is open", async () => {
+      const breaker = newBreaker(1);
+      breaker.recordFailure(new Error("down"));
+      const call = jest.fn();
+
+      await expect(callWithPolicy(breaker, policy, call)).rejects.toMatchObject(
+        { statusCode: 503, code: "PROVIDER_UNAVAILABLE" }
+      );
+      expect(call).not.toHaveBeenCalled();
+    });
+  });
+});
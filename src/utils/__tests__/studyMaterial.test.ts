@@ -0,0 +1,265 @@
+import { inflateRawSync } from "zlib";
+import initSqlJs from "sql.js";
+import {
+  MAX_FLASHCARD_FRONT_LENGTH,
+  flashcardsToAnkiPackage,
+  flashcardsToCsv,
+  normalizeFlashcards,
+  normalizeQuizQuestions,
+  quizToAnkiPackage,
+  quizToCsv,
+} from "../studyMaterial";
+import { FlashcardData, QuizQuestionData } from "../../types";
+
+// Only timestamps that are on the transcript survive
+const resolveTimestamp = (value: unknown) =>
+  value === "1:00" || value === "2:30" ? value : null;
+
+const summary = { id: "summary-1", title: "Money::Basics", tags: ["finance"] };
+
+const createdAt = new Date("2026-01-01T00:00:00Z");
+
+const cards: FlashcardData[] = [
+  {
+    id: "card-1",
+    front: "What is <compound> interest?",
+    back: "Interest on interest,\nover time",
+    timestamp: "1:00",
+    position: 0,
+    createdAt,
+    updatedAt: createdAt,
+  },
+  {
+    id: "card-2",
+    front: 'The "rule of 72"',
+    back: "Years to double",
+    timestamp: null,
+    position: 1,
+    createdAt,
+    updatedAt: createdAt,
+  },
+];
+
+const questions: QuizQuestionData[] = [
+  {
+    id: "question-1",
+    question: "Which grows faster?",
+    options: ["Simple interest", "Compound interest"],
+    answerIndex: 1,
+    explanation: "It earns interest on interest.",
+    timestamp: "2:30",
+    position: 0,
+    createdAt,
+    updatedAt: createdAt,
+  },
+];
+
+// Files of a zip archive by name
+const readZip = (archive: Buffer): Map<string, Buffer> => {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength;
+    const body = archive.subarray(start, start + size);
+
+    files.set(
+      archive.toString("utf8", offset + 30, start),
+      method === 8 ? inflateRawSync(body) : body
+    );
+    offset = start + size;
+  }
+
+  return files;
+};
+
+// Rows of a query against the collection inside an .apkg package
+const queryPackage = async (apkg: Buffer, sql: string) => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(readZip(apkg).get("collection.anki2"));
+  try {
+    const [result] = db.exec(sql);
+    return result.values;
+  } finally {
+    db.close();
+  }
+};
+
+describe("studyMaterial", () => {
+  describe("normalizeFlashcards", () => {
+    it("keeps well-formed cards and drops the others", () => {
+      const normalized = normalizeFlashcards(
+        [
+          { front: " Term ", back: "Definition", timestamp: "1:00" },
+          { front: "", back: "No front" },
+          { front: "No back" },
+          "not a card",
+          { front: "Off transcript", back: "Answer", timestamp: "9:99" },
+        ],
+        resolveTimestamp,
+        10
+      );
+
+      expect(normalized).toEqual([
+        { front: "Term", back: "Definition", timestamp: "1:00" },
+        { front: "Off transcript", back: "Answer", timestamp: null },
+      ]);
+    });
+
+    it("cuts long text and limits the number of cards", () => {
+      const normalized = normalizeFlashcards(
+        [
+          { front: "x".repeat(MAX_FLASHCARD_FRONT_LENGTH + 50), back: "a" },
+          { front: "second", back: "b" },
+        ],
+        resolveTimestamp,
+        1
+      );
+
+      expect(normalized).toHaveLength(1);
+      expect(normalized[0].front).toHaveLength(MAX_FLASHCARD_FRONT_LENGTH);
+    });
+
+    it("treats a response that is not a list as empty", () => {
+      expect(normalizeFlashcards({ cards: [] }, resolveTimestamp, 5)).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("normalizeQuizQuestions", () => {
+    const question = {
+      question: "Which grows faster?",
+      options: ["Simple", "Compound"],
+      answerIndex: 1,
+      explanation: "  Interest on interest  ",
+      timestamp: "2:30",
+    };
+
+    it("keeps well-formed questions", () => {
+      expect(normalizeQuizQuestions([question], resolveTimestamp, 5)).toEqual([
+        {
+          question: "Which grows faster?",
+          options: ["Simple", "Compound"],
+          answerIndex: 1,
+          explanation: "Interest on interest",
+          timestamp: "2:30",
+        },
+      ]);
+    });
+
+    it("drops questions whose answer is not one of the options", () => {
+      expect(
+        normalizeQuizQuestions(
+          [
+            { ...question, answerIndex: 2 },
+            { ...question, answerIndex: -1 },
+            { ...question, answerIndex: 0.5 },
+          ],
+          resolveTimestamp,
+          5
+        )
+      ).toEqual([]);
+    });
+
+    it("drops questions with too few or duplicate options", () => {
+      expect(
+        normalizeQuizQuestions(
+          [
+            { ...question, options: ["Only"], answerIndex: 0 },
+            { ...question, options: ["Same", "Same"] },
+            { ...question, options: ["A", ""] },
+          ],
+          resolveTimestamp,
+          5
+        )
+      ).toEqual([]);
+    });
+
+    it("leaves out an empty explanation", () => {
+      const [normalized] = normalizeQuizQuestions(
+        [{ ...question, explanation: "   " }],
+        resolveTimestamp,
+        5
+      );
+
+      expect(normalized.explanation).toBeNull();
+    });
+  });
+
+  describe("CSV export", () => {
+    it("quotes fields with commas, quotes and line breaks", () => {
+      expect(flashcardsToCsv(cards)).toBe(
+        "front,back,timestamp\r\n" +
+          'What is <compound> interest?,"Interest on interest,\nover time",1:00\r\n' +
+          '"The ""rule of 72""",Years to double,\r\n'
+      );
+    });
+
+    it("labels quiz options and the answer with letters", () => {
+      expect(quizToCsv(questions)).toBe(
+        "question,options,answer,explanation,timestamp\r\n" +
+          'Which grows faster?,"A. Simple interest\nB. Compound interest",B,It earns interest on interest.,2:30\r\n'
+      );
+    });
+  });
+
+  describe("Anki export", () => {
+    it("packages flashcards as notes with escaped HTML fields", async () => {
+      const apkg = await flashcardsToAnkiPackage(cards, summary);
+
+      expect([...readZip(apkg).keys()]).toEqual(["collection.anki2", "media"]);
+      expect(
+        await queryPackage(apkg, "SELECT flds, sfld, tags FROM notes")
+      ).toEqual([
+        [
+          "What is &lt;compound&gt; interest?\x1fInterest on interest,<br>over time<br><br>[1:00]",
+          "What is <compound> interest?",
+          " knugget finance ",
+        ],
+        [
+          "The &quot;rule of 72&quot;\x1fYears to double",
+          'The "rule of 72"',
+          " knugget finance ",
+        ],
+      ]);
+    });
+
+    it("puts every card in a deck named after the summary", async () => {
+      const apkg = await flashcardsToAnkiPackage(cards, summary);
+      const [[decks]] = await queryPackage(apkg, "SELECT decks FROM col");
+      const [[deckIds]] = await queryPackage(
+        apkg,
+        "SELECT group_concat(DISTINCT did) FROM cards"
+      );
+      const deck = JSON.parse(String(decks))[String(deckIds)];
+
+      expect(deck.name).toBe("Knugget::Money Basics");
+    });
+
+    it("keeps note identities across exports", async () => {
+      const guids = async () =>
+        queryPackage(
+          await flashcardsToAnkiPackage(cards, summary),
+          "SELECT guid FROM notes"
+        );
+      const first = await guids();
+
+      expect(new Set(first.flat()).size).toBe(cards.length);
+      expect(await guids()).toEqual(first);
+    });
+
+    it("shows quiz options on the front and the answer on the back", async () => {
+      const apkg = await quizToAnkiPackage(questions, summary);
+      const [[fields]] = await queryPackage(apkg, "SELECT flds FROM notes");
+
+      expect(String(fields).split("\x1f")).toEqual([
+        "Which grows faster?<br><br>A. Simple interest<br>B. Compound interest",
+        "<b>B. Compound interest</b><br><br>It earns interest on interest.<br><br>[2:30]",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { mergeChunkSummaries } from "../summaryMerge";
+import { ChunkSummaryOutput } from "../llmOutput";
+
+const chunk = (
+  overrides: Partial<ChunkSummaryOutput> = {}
+): ChunkSummaryOutput => ({
+  keyTakeaways: [],
+  quotes: [],
+  examples: [],
+  detailedNotes: [],
+  chapters: [],
+  ...overrides,
+});
+
+describe("mergeChunkSummaries", () => {
+  it("folds near-duplicate points into the first occurrence", () => {
+    const merged = mergeChunkSummaries([
+      chunk({
+        keyTakeaways: [
+          { text: "Start saving early for retirement", timestamps: ["1:00"] },
+        ],
+      }),
+      chunk({
+        keyTakeaways: [
+          { text: "Start saving early for retirement!", timestamps: ["9:30"] },
+          "Index funds keep fees low",
+        ],
+      }),
+    ]);
+
+    expect(merged.keyTakeaways).toEqual([
+      {
+        text: "Start saving early for retirement",
+        timestamps: ["1:00", "9:30"],
+      },
+      { text: "Index funds keep fees low", timestamps: [] },
+    ]);
+  });
+
+  it("keeps points that only share some words", () => {
+    const merged = mergeChunkSummaries([
+      chunk({ quotes: ["Time in the market beats timing the market"] }),
+      chunk({ quotes: ["Timing the market rarely works"] }),
+    ]);
+
+    expect(merged.quotes).toHaveLength(2);
+  });
+
+  it("skips empty items", () => {
+    const merged = mergeChunkSummaries([
+      chunk({
+        examples: ["", { text: "   " }, "A 7% return doubles in 10 years"],
+      }),
+    ]);
+
+    expect(merged.examples).toEqual([
+      { text: "A 7% return doubles in 10 years", timestamps: [] },
+    ]);
+  });
+
+  it("combines notes on the same topic without repeating content", () => {
+    const merged = mergeChunkSummaries([
+      chunk({
+        detailedNotes: [
+          {
+            title: "Emergency fund",
+            content: "Keep three months of expenses in cash.",
+            timestamps: ["2:00"],
+          },
+        ],
+      }),
+      chunk({
+        detailedNotes: [
+          {
+            title: "Emergency Fund",
+            content: "Keep three months of expenses in cash.",
+            timestamps: ["2:00"],
+          },
+          {
+            title: "Emergency fund",
+            content: "Use a high-yield savings account.",
+            timestamps: ["12:10"],
+          },
+        ],
+      }),
+    ]);
+
+    expect(merged.detailedNotes).toEqual([
+      {
+        title: "Emergency fund",
+        content:
+          "Keep three months of expenses in cash. Use a high-yield savings account.",
+        timestamps: ["2:00", "12:10"],
+      },
+    ]);
+  });
+
+  it("orders chapters by start time and keeps overlapping ones once", () => {
+    const merged = mergeChunkSummaries([
+      chunk({
+        chapters: [
+          { title: "Intro", start: "0:00", summary: "Welcome" },
+          { title: "Budgeting", start: "4:30" },
+        ],
+      }),
+      chunk({
+        chapters: [
+          { title: "Budget basics", start: "4:30" },
+          { title: "Investing", start: "10:15", summary: " Index funds " },
+          { title: "No start", start: "soon" },
+        ],
+      }),
+    ]);
+
+    expect(merged.chapters).toEqual([
+      { title: "Intro", start: "0:00", summary: "Welcome" },
+      { title: "Budgeting", start: "4:30", summary: "" },
+      { title: "Investing", start: "10:15", summary: "Index funds" },
+    ]);
+  });
+});
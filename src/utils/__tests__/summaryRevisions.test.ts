@@ -0,0 +1,88 @@
+import { Summary } from "@prisma/client";
+import {
+  diffRevisionContent,
+  summaryRevisionContent,
+} from "../summaryRevisions";
+import { SummaryRevisionContent } from "../../types";
+
+const content: SummaryRevisionContent = {
+  title: "Compound interest",
+  keyPoints: ["Start early", "Keep fees low"],
+  fullSummary: "Time matters more than amount.",
+  keyTakeaways: ["Start early"],
+  quotes: [],
+  examples: [],
+  detailedNotes: [{ title: "Fees", content: "Fees compound too." }],
+  citations: { keyTakeaways: [], quotes: [], examples: [], detailedNotes: [] },
+  chapters: [],
+  modeContent: {},
+  mode: "detailed",
+  language: "en",
+  promptVersion: "summary@0",
+};
+
+describe("summaryRevisions", () => {
+  describe("summaryRevisionContent", () => {
+    it("snapshots the content of a summary but not its tags", () => {
+      const summary = {
+        ...content,
+        id: "summary-1",
+        tags: ["finance"],
+        videoId: "vid-1",
+      } as unknown as Summary;
+
+      expect(summaryRevisionContent(summary)).toEqual(content);
+    });
+  });
+
+  describe("diffRevisionContent", () => {
+    it("reports no changes for equal content", () => {
+      expect(diffRevisionContent(content, { ...content })).toEqual([]);
+    });
+
+    it("ignores the key order of nested objects", () => {
+      const reordered = {
+        ...content,
+        detailedNotes: [{ content: "Fees compound too.", title: "Fees" }],
+      };
+
+      expect(diffRevisionContent(content, reordered)).toEqual([]);
+    });
+
+    it("reports changed fields in display order", () => {
+      const changed = {
+        ...content,
+        mode: "tldr" as const,
+        title: "Compound interest, explained",
+        detailedNotes: [],
+      };
+
+      expect(
+        diffRevisionContent(content, changed).map(({ field }) => field)
+      ).toEqual(["title", "detailedNotes", "mode"]);
+    });
+
+    it("lists the items added to and removed from text lists", () => {
+      const [change] = diffRevisionContent(content, {
+        ...content,
+        keyPoints: ["Start early", "Automate contributions"],
+      });
+
+      expect(change).toEqual({
+        field: "keyPoints",
+        before: ["Start early", "Keep fees low"],
+        after: ["Start early", "Automate contributions"],
+        added: ["Automate contributions"],
+        removed: ["Keep fees low"],
+      });
+    });
+
+    it("treats a field missing on one side as null", () => {
+      const { promptVersion, ...withoutVersion } = content;
+
+      expect(diffRevisionContent(content, withoutVersion)).toEqual([
+        { field: "promptVersion", before: promptVersion, after: null },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { countChatTokens, countTokens, truncateToTokens } from "../tokenizer";
+
+const mixedScripts = "Привет, как дела? 今日は良い天気ですね";
+
+describe("tokenizer", () => {
+  describe("countTokens", () => {
+    it("counts BPE tokens", () => {
+      expect(countTokens("hello world", "gpt-4o-mini")).toBe(2);
+      expect(countTokens("tiktoken is great!", "gpt-4o-mini")).toBe(6);
+    });
+
+    it("is zero for empty text", () => {
+      expect(countTokens("")).toBe(0);
+    });
+
+    it("uses the tokenizer of the model", () => {
+      // cl100k for GPT-4 and GPT-3.5, o200k for newer and non-OpenAI models
+      expect(countTokens(mixedScripts, "gpt-4-turbo")).toBe(20);
+      expect(countTokens(mixedScripts, "gpt-3.5-turbo")).toBe(20);
+      expect(countTokens(mixedScripts, "gpt-4o")).toBe(13);
+      expect(countTokens(mixedScripts, "gpt-4.1")).toBe(13);
+      expect(countTokens(mixedScripts, "gemini-2.5-flash")).toBe(13);
+      expect(countTokens(mixedScripts)).toBe(13);
+    });
+
+    it("counts special tokens in user text instead of rejecting them", () => {
+      expect(countTokens("<|endoftext|>", "gpt-4o")).toBe(1);
+    });
+  });
+
+  describe("countChatTokens", () => {
+    it("adds message framing to the content tokens", () => {
+      const messages = [
+        { role: "system" as const, content: "hello world" },
+        { role: "user" as const, content: "tiktoken is great!" },
+      ];
+
+      // 3 to prime the reply, then 3 per message plus its role and content
+      expect(countChatTokens(messages, "gpt-4o")).toBe(
+        3 + (3 + 1 + 2) + (3 + 1 + 6)
+      );
+    });
+
+    it("counts only the reply priming for no messages", () => {
+      expect(countChatTokens([])).toBe(3);
+    });
+  });
+
+  describe("truncateToTokens", () => {
+    it("cuts text to the token budget", () => {
+      const text = "one two three four five six seven eight";
+      const truncated = truncateToTokens(text, 3, "gpt-4o");
+
+      expect(truncated).toBe("one two three");
+      expect(countTokens(truncated, "gpt-4o")).toBe(3);
+    });
+
+    it("leaves text within the budget unchanged", () => {
+      expect(truncateToTokens("hello world", 10)).toBe("hello world");
+    });
+  });
+});
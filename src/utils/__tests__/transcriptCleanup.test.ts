@@ -0,0 +1,147 @@
+import { cleanTranscript, formatTranscriptLines } from "../transcriptCleanup";
+import { countTokens } from "../tokenizer";
+import { TranscriptSegment } from "../../types";
+
+const english = { removeFillers: true };
+
+const texts = (transcript: TranscriptSegment[]) =>
+  transcript.map((segment) => segment.text);
+
+describe("transcriptCleanup", () => {
+  describe("formatTranscriptLines", () => {
+    it("prefixes each line with its timestamp", () => {
+      expect(
+        formatTranscriptLines([
+          { timestamp: "0:00", text: "Hello." },
+          { timestamp: "1:02:03", text: "Bye." },
+        ])
+      ).toBe("[0:00] Hello.\n[1:02:03] Bye.");
+    });
+  });
+
+  describe("cleanTranscript", () => {
+    it("removes noise tags and speaker markers", () => {
+      const { transcript, stats } = cleanTranscript(
+        [
+          { timestamp: "0:00", text: "[Music] Welcome back." },
+          {
+            timestamp: "0:04",
+            text: ">> What the [ __ ] happened? (laughter)",
+          },
+          { timestamp: "0:08", text: "♪ la la la ♪ That was fun." },
+        ],
+        english
+      );
+
+      expect(texts(transcript)).toEqual([
+        "Welcome back.",
+        "What the happened?",
+        "That was fun.",
+      ]);
+      expect(stats.noiseTagsRemoved).toBe(5);
+    });
+
+    it("removes English filler words only when asked to", () => {
+      const transcript = [
+        { timestamp: "0:00", text: "Um, so, uh, the hmm plan works." },
+      ];
+
+      expect(texts(cleanTranscript(transcript, english).transcript)).toEqual([
+        "so, the plan works.",
+      ]);
+      expect(
+        texts(cleanTranscript(transcript, { removeFillers: false }).transcript)
+      ).toEqual(["Um, so, uh, the hmm plan works."]);
+    });
+
+    it("keeps words that contain filler sounds", () => {
+      const { transcript, stats } = cleanTranscript(
+        [{ timestamp: "0:00", text: "Umbrellas and humming err on the side." }],
+        english
+      );
+
+      expect(texts(transcript)).toEqual([
+        "Umbrellas and humming err on the side.",
+      ]);
+      expect(stats.fillerWordsRemoved).toBe(0);
+    });
+
+    it("drops words rolling captions repeat from the line before", () => {
+      const { transcript, stats } = cleanTranscript(
+        [
+          { timestamp: "0:00", text: "today we are going", endSeconds: 2 },
+          {
+            timestamp: "0:02",
+            text: "we are going to talk about money.",
+            startSeconds: 2,
+            endSeconds: 4,
+          },
+        ],
+        english
+      );
+
+      expect(texts(transcript)).toEqual([
+        "today we are going to talk about money.",
+      ]);
+      expect(stats.duplicateWordsRemoved).toBe(3);
+    });
+
+    it("keeps a single repeated word, which is likely real speech", () => {
+      const { transcript } = cleanTranscript(
+        [
+          { timestamp: "0:00", text: "it is very" },
+          { timestamp: "0:01", text: "very good." },
+        ],
+        english
+      );
+
+      expect(texts(transcript)).toEqual(["it is very very good."]);
+    });
+
+    it("regroups fragments into sentences and keeps the first start time", () => {
+      const { transcript } = cleanTranscript(
+        [
+          { timestamp: "0:10", text: "first part", startSeconds: 10 },
+          { timestamp: "0:11", text: "of a sentence.", startSeconds: 11 },
+          { timestamp: "0:12", text: "Next one", startSeconds: 12 },
+          // A long pause ends the sentence without punctuation
+          { timestamp: "0:20", text: "after a pause", startSeconds: 20 },
+        ],
+        english
+      );
+
+      expect(transcript).toEqual([
+        {
+          timestamp: "0:10",
+          text: "first part of a sentence.",
+          startSeconds: 10,
+        },
+        { timestamp: "0:12", text: "Next one", startSeconds: 12 },
+        { timestamp: "0:20", text: "after a pause", startSeconds: 20 },
+      ]);
+    });
+
+    it("drops segments with nothing left and reports the savings", () => {
+      const original = [
+        { timestamp: "0:00", text: "[Music]" },
+        { timestamp: "0:03", text: "Uh, hello there." },
+        { timestamp: "0:05", text: "(applause)" },
+      ];
+
+      const { transcript, stats } = cleanTranscript(original, english);
+      const tokensBefore = countTokens(formatTranscriptLines(original));
+
+      expect(transcript).toEqual([{ timestamp: "0:03", text: "hello there." }]);
+      expect(stats).toEqual({
+        segmentsBefore: 3,
+        segmentsAfter: 1,
+        noiseTagsRemoved: 2,
+        fillerWordsRemoved: 1,
+        duplicateWordsRemoved: 0,
+        tokensBefore,
+        tokensAfter: countTokens("[0:03] hello there."),
+        tokensSaved: tokensBefore - countTokens("[0:03] hello there."),
+      });
+    });
+  });
+});
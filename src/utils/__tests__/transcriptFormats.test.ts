@@ -0,0 +1,169 @@
+import {
+  detectTranscriptFormat,
+  formatTimestamp,
+  parseTranscriptFile,
+} from "../transcriptFormats";
+
+describe("transcriptFormats", () => {
+  describe("formatTimestamp", () => {
+    it("formats like YouTube", () => {
+      expect(formatTimestamp(0)).toBe("0:00");
+      expect(formatTimestamp(245.9)).toBe("4:05");
+      expect(formatTimestamp(3845)).toBe("1:04:05");
+    });
+  });
+
+  describe("detectTranscriptFormat", () => {
+    it.each([
+      ["\uFEFFWEBVTT\n\n00:01.000 --> 00:02.000\nHi", "vtt"],
+      ["1\n00:00:01,000 --> 00:00:02,000\nHi", "srt"],
+      ['{"events": []}', "json3"],
+      ['<?xml version="1.0"?><transcript></transcript>', "timedtext"],
+      ["[0:01] Hi", "text"],
+    ] as const)("detects %j as %s", (content, format) => {
+      expect(detectTranscriptFormat(content)).toBe(format);
+    });
+  });
+
+  describe("parseTranscriptFile", () => {
+    it("reads SRT cues with their end times", () => {
+      const srt = [
+        "1",
+        "00:00:01,500 --> 00:00:04,000",
+        "<i>Welcome</i> to the",
+        "show &amp; more",
+        "",
+        "2",
+        "01:00:05,000 --> 01:00:07,250",
+        "Goodbye",
+        "",
+      ].join("\r\n");
+
+      expect(parseTranscriptFile(srt, "srt")).toEqual([
+        {
+          timestamp: "0:01",
+          text: "Welcome to the show & more",
+          startSeconds: 1.5,
+          endSeconds: 4,
+        },
+        {
+          timestamp: "1:00:05",
+          text: "Goodbye",
+          startSeconds: 3605,
+          endSeconds: 3607.25,
+        },
+      ]);
+    });
+
+    it("skips WebVTT headers and notes and drops rolled-over caption lines", () => {
+      const vtt = [
+        "WEBVTT",
+        "Kind: captions",
+        "",
+        "NOTE auto-generated",
+        "",
+        "00:01.000 --> 00:03.000 align:start",
+        "<c.colorE5E5E5>so today</c>",
+        "",
+        "00:03.000 --> 00:05.000",
+        "so today",
+        "we talk<00:00:04.100><c> about</c> money",
+        "",
+      ].join("\n");
+
+      expect(parseTranscriptFile(vtt, "vtt")).toEqual([
+        { timestamp: "0:01", text: "so today", startSeconds: 1, endSeconds: 3 },
+        {
+          timestamp: "0:03",
+          text: "we talk about money",
+          startSeconds: 3,
+          endSeconds: 5,
+        },
+      ]);
+    });
+
+    it("reads YouTube json3 events", () => {
+      const json3 = JSON.stringify({
+        events: [
+          { tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: "Hello" }] },
+          { tStartMs: 1500, segs: [{ utf8: "\n" }] }, // Line break only
+          {
+            tStartMs: 2000,
+            dDurationMs: 1000,
+            segs: [{ utf8: "big " }, { utf8: "world" }],
+          },
+        ],
+      });
+
+      expect(parseTranscriptFile(json3, "json3")).toEqual([
+        { timestamp: "0:00", text: "Hello", startSeconds: 0, endSeconds: 1.5 },
+        {
+          timestamp: "0:02",
+          text: "big world",
+          startSeconds: 2,
+          endSeconds: 3,
+        },
+      ]);
+    });
+
+    it("reads both forms of YouTube timedtext XML", () => {
+      const legacy =
+        '<transcript><text start="1.5" dur="2">It&amp;#39;s here</text></transcript>';
+      const srv3 =
+        '<timedtext><body><p t="1500" d="2000">It&#39;s here</p></body></timedtext>';
+      const expected = [
+        {
+          timestamp: "0:01",
+          text: "It's here",
+          startSeconds: 1.5,
+          endSeconds: 3.5,
+        },
+      ];
+
+      expect(parseTranscriptFile(legacy, "timedtext")).toEqual(expected);
+      expect(parseTranscriptFile(srv3, "timedtext")).toEqual(expected);
+    });
+
+    it("reads timestamped text, running each line until the next", () => {
+      const text = [
+        "My video transcript",
+        "[0:05] First point",
+        "(1:02) - Second point",
+        "that continues here",
+        "2:00",
+        "Third point",
+      ].join("\n");
+
+      expect(parseTranscriptFile(text, "text")).toEqual([
+        {
+          timestamp: "0:05",
+          text: "First point",
+          startSeconds: 5,
+          endSeconds: 62,
+        },
+        {
+          timestamp: "1:02",
+          text: "Second point that continues here",
+          startSeconds: 62,
+          endSeconds: 120,
+        },
+        { timestamp: "2:00", text: "Third point", startSeconds: 120 },
+      ]);
+    });
+
+    it("puts captions in time order", () => {
+      const srt =
+        "2\n00:00:05,000 --> 00:00:06,000\nLater\n\n1\n00:00:01,000 --> 00:00:02,000\nEarlier\n";
+
+      expect(
+        parseTranscriptFile(srt, "srt")?.map((segment) => segment.text)
+      ).toEqual(["Earlier", "Later"]);
+    });
+
+    it("returns null for JSON and XML it cannot read", () => {
+      expect(parseTranscriptFile("{not json", "json3")).toBeNull();
+      expect(parseTranscriptFile('{"items": []}', "json3")).toBeNull();
+      expect(parseTranscriptFile("<html></html>", "timedtext")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { createHash } from "crypto";
+import initSqlJs, { SqlJsStatic } from "sql.js";
+import { createZip } from "./zip";
+
+export interface AnkiNote {
+  key: string; // Stable per item, so importing again updates the note
+  front: string; // HTML
+  back: string; // HTML
+}
+
+export interface AnkiDeck {
+  key: string; // Stable per deck, e.g. the summary ID
+  name: string; // "::" nests decks
+  tags: string[];
+  notes: AnkiNote[];
+}
+
+// Collection schema 11, the format of .apkg packages Anki imports
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null,
+  scm integer not null, ver integer not null, dty integer not null,
+  usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null,
+  tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null,
+  mod integer not null, usn integer not null, tags text not null,
+  flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null,
+  ord integer not null, mod integer not null, usn integer not null,
+  type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null,
+  odid integer not null, flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null,
+  ease integer not null, ivl integer not null, lastIvl integer not null,
+  factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (
+  usn integer not null, oid integer not null, type integer not null
+);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed, so every export shares one note type in the user's collection
+const MODEL_ID = 1729400000000;
+const DEFAULT_DECK_ID = 1;
+const FIELD_SEPARATOR = "\x1f";
+
+const DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    bury: true,
+    delays: [1, 10],
+    initialFactor: 2500,
+    ints: [1, 4, 7],
+    order: 1,
+    perDay: 20,
+    separate: true,
+  },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: {
+    bury: true,
+    ease4: 1.3,
+    fuzz: 0.05,
+    ivlFct: 1,
+    maxIvl: 36500,
+    minSpace: 1,
+    perDay: 100,
+  },
+};
+
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: left;
+  color: black;
+  background-color: white;
+}`;
+
+// sql.js compiles SQLite to WebAssembly; it is loaded on first use
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// A positive integer below 2^48 derived from a key, used for deck IDs
+const idFromKey = (key: string): number =>
+  parseInt(createHash("sha256").update(key).digest("hex").slice(0, 12), 16);
+
+const guidFromKey = (key: string): string =>
+  createHash("sha256").update(key).digest("base64url").slice(0, 10);
+
+// Field text without tags and the entities fields are escaped with, as
+// Anki sorts and checksums it
+const plainText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+
+// Anki's checksum of the sort field: the first 8 hex digits of its SHA-1
+const fieldChecksum = (text: string): number =>
+  parseInt(createHash("sha1").update(text).digest("hex").slice(0, 8), 16);
+
+const noteType = (deckId: number, modified: number) => ({
+  id: MODEL_ID,
+  name: "Knugget Basic",
+  type: 0,
+  mod: modified,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  flds: ["Front", "Back"].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: "Arial",
+    size: 20,
+    media: [],
+  })),
+  tmpls: [
+    {
+      name: "Card 1",
+      ord: 0,
+      qfmt: "{{Front}}",
+      afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Back}}',
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+      bfont: "",
+      bsize: 0,
+    },
+  ],
+  css: CARD_CSS,
+  latexPre:
+    "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+  latexPost: "\\end{document}",
+  latexsvg: false,
+  req: [[0, "any", [0]]],
+  tags: [],
+  vers: [],
+});
+
+const deckEntry = (id: number, name: string, modified: number) => ({
+  id,
+  name,
+  mod: modified,
+  usn: -1,
+  desc: "",
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 0,
+  extendRev: 50,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+/**
+ * Build an .apkg package (File > Import in Anki): a zipped SQLite collection
+ * with one deck of two-sided notes. Notes and the deck keep their identity
+ * across exports, so importing again updates them instead of duplicating.
+ */
+export const createAnkiPackage = async (
+  deck: AnkiDeck,
+  now: Date = new Date()
+): Promise<Buffer> => {
+  sqlJs ??= initSqlJs();
+  const { Database } = await sqlJs;
+  const db = new Database();
+
+  try {
+    const modifiedMs = now.getTime();
+    const modified = Math.floor(modifiedMs / 1000);
+    const deckId = idFromKey(deck.key);
+    const tags = ` ${["knugget", ...deck.tags].join(" ")} `;
+
+    db.run(SCHEMA);
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [
+        modified,
+        modifiedMs,
+        modifiedMs,
+        JSON.stringify({
+          activeDecks: [deckId],
+          curDeck: deckId,
+          curModel: String(MODEL_ID),
+          nextPos: deck.notes.length + 1,
+          newSpread: 0,
+          collapseTime: 1200,
+          timeLim: 0,
+          estTimes: true,
+          dueCounts: true,
+          sortType: "noteFld",
+          sortBackwards: false,
+          addToCur: true,
+        }),
+        JSON.stringify({ [MODEL_ID]: noteType(deckId, modified) }),
+        JSON.stringify({
+          [DEFAULT_DECK_ID]: deckEntry(DEFAULT_DECK_ID, "Default", modified),
+          [deckId]: deckEntry(deckId, deck.name, modified),
+        }),
+        JSON.stringify({ 1: DECK_CONFIG }),
+      ]
+    );
+
+    // Note and card IDs only need to be unique inside the package
+    deck.notes.forEach((note, i) => {
+      const id = modifiedMs + i;
+      const sortField = plainText(note.front);
+
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id,
+        guidFromKey(note.key),
+        MODEL_ID,
+        modified,
+        tags,
+        [note.front, note.back].join(FIELD_SEPARATOR),
+        sortField,
+        fieldChecksum(sortField),
+      ]);
+      // A new card, due in export order
+      db.run(
+        "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')",
+        [id, id, deckId, modified, i + 1]
+      );
+    });
+
+    return createZip(
+      [
+        { name: "collection.anki2", data: Buffer.from(db.export()) },
+        { name: "media", data: "{}" }, // No media files
+      ],
+      now
+    );
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,56 @@
+import { SummaryChapter } from "../types";
+
+export const MAX_CHAPTERS = 20;
+export const MAX_CHAPTER_TITLE_LENGTH = 120;
+export const MAX_CHAPTER_SUMMARY_LENGTH = 500;
+
+const toText = (value: unknown, maxLength: number): string =>
+  typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+
+// Well-formed chapters from stored or client-supplied data, in video order
+export const normalizeChapters = (value: unknown): SummaryChapter[] =>
+  (Array.isArray(value) ? value : [])
+    .flatMap((raw: any) => {
+      const title = toText(raw?.title, MAX_CHAPTER_TITLE_LENGTH);
+      const startSeconds = Number(raw?.startSeconds);
+      const endSeconds = Number(raw?.endSeconds);
+
+      if (
+        !title ||
+        typeof raw.timestamp !== "string" ||
+        !Number.isFinite(startSeconds) ||
+        !Number.isFinite(endSeconds) ||
+        startSeconds < 0 ||
+        endSeconds < startSeconds
+      ) {
+        return [];
+      }
+
+      return [
+        {
+          title,
+          summary: toText(raw.summary, MAX_CHAPTER_SUMMARY_LENGTH),
+          timestamp: raw.timestamp,
+          startSeconds,
+          endSeconds,
+        },
+      ];
+    })
+    .sort((a, b) => a.startSeconds - b.startSeconds)
+    .slice(0, MAX_CHAPTERS);
+
+// Replace chapter text with its translation, matched by position; chapters
+// the translation left out keep the original text
+export const applyChapterTranslation = (
+  chapters: SummaryChapter[],
+  translated: unknown
+): SummaryChapter[] => {
+  const items = Array.isArray(translated) ? translated : [];
+
+  return chapters.map((chapter, i) => ({
+    ...chapter,
+    title: toText(items[i]?.title, MAX_CHAPTER_TITLE_LENGTH) || chapter.title,
+    summary:
+      toText(items[i]?.summary, MAX_CHAPTER_SUMMARY_LENGTH) || chapter.summary,
+  }));
+};
@@ -0,0 +1,111 @@
+import { DocumentBlock } from "../types";
+import { createZip } from "./zip";
+
+const RELATIONSHIP_TYPES =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const PARAGRAPH_STYLES: Record<
+  Exclude<DocumentBlock["type"], "pageBreak">,
+  string
+> = {
+  title: "Title",
+  heading: "Heading1",
+  subheading: "Heading2",
+  paragraph: "Normal",
+  bullet: "ListParagraph",
+  quote: "Quote",
+  meta: "Meta",
+  link: "Normal",
+};
+
+// Escape text for XML, dropping control characters XML does not allow
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const run = (text: string, properties = ""): string =>
+  `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const PACKAGE_RELATIONSHIPS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const STYLES = `${XML_HEADER}
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="160"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/><w:szCs w:val="40"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="280" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="160" w:after="60"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="23"/><w:szCs w:val="23"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="80"/><w:ind w:left="720"/></w:pPr></w:style><w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style><w:style w:type="paragraph" w:customStyle="1" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:i/><w:color w:val="6B6B6B"/><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style><w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="1254CC"/><w:u w:val="single"/></w:rPr></w:style></w:styles>`;
+
+const NUMBERING = `${XML_HEADER}
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+/**
+ * Render document blocks as a Word document (Office Open XML) with real
+ * headings, bullet lists, hyperlinks and page breaks
+ */
+export const renderDocx = (
+  blocks: DocumentBlock[],
+  title: string,
+  created: Date = new Date()
+): Buffer => {
+  const hyperlinks: string[] = [];
+
+  // Relationship IDs 1 and 2 are taken by styles and numbering
+  const hyperlink = (text: string, url: string): string => {
+    hyperlinks.push(url);
+    return `<w:hyperlink r:id="rId${hyperlinks.length + 2}" w:history="1">${run(text, '<w:rStyle w:val="Hyperlink"/>')}</w:hyperlink>`;
+  };
+
+  const paragraphs = blocks.map((block) => {
+    if (block.type === "pageBreak") {
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    }
+
+    const style = `<w:pStyle w:val="${PARAGRAPH_STYLES[block.type]}"/>`;
+
+    switch (block.type) {
+      case "bullet":
+        return `<w:p><w:pPr>${style}<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr>${
+          block.label
+            ? `${block.url ? hyperlink(block.label, block.url) : run(block.label, "<w:b/>")}${run(" ")}`
+            : ""
+        }${run(block.text)}</w:p>`;
+      case "link":
+        return `<w:p><w:pPr>${style}</w:pPr>${hyperlink(block.text, block.url)}</w:p>`;
+      default:
+        return `<w:p><w:pPr>${style}</w:pPr>${run(block.text)}</w:p>`;
+    }
+  });
+
+  const document = `${XML_HEADER}
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="${RELATIONSHIP_TYPES}"><w:body>${paragraphs.join("")}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const documentRelationships = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/styles" Target="styles.xml"/><Relationship Id="rId2" Type="${RELATIONSHIP_TYPES}/numbering" Target="numbering.xml"/>${hyperlinks
+    .map(
+      (url, i) =>
+        `<Relationship Id="rId${i + 3}" Type="${RELATIONSHIP_TYPES}/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`
+    )
+    .join("")}</Relationships>`;
+
+  const timestamp = `${created.toISOString().slice(0, 19)}Z`;
+  const coreProperties = `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>Knugget</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified></cp:coreProperties>`;
+
+  return createZip(
+    [
+      { name: "[Content_Types].xml", data: CONTENT_TYPES },
+      { name: "_rels/.rels", data: PACKAGE_RELATIONSHIPS },
+      { name: "word/document.xml", data: document },
+      { name: "word/_rels/document.xml.rels", data: documentRelationships },
+      { name: "word/styles.xml", data: STYLES },
+      { name: "word/numbering.xml", data: NUMBERING },
+      { name: "docProps/core.xml", data: coreProperties },
+    ],
+    created
+  );
+};
@@ -0,0 +1,28 @@
+// File name friendly form of a summary title
+export const toFileName = (title: string, fallback = "summary"): string =>
+  title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60) || fallback;
+
+// Obsidian note name: readable, without the characters links and file
+// systems reserve
+export const toNoteName = (title: string): string =>
+  title
+    .replace(/[\\/:*?"<>|#^[\]]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100)
+    .trim() || "Untitled";
+
+// Content-Disposition for a download, with an ASCII fallback name for
+// clients that do not read the UTF-8 one
+export const attachmentHeader = (filename: string): string => {
+  const ascii = filename
+    .normalize("NFD")
+    .replace(/[^\x20-\x7e]/g, "")
+    .replace(/["\\]/g, "");
+
+  return `attachment; filename="${ascii || "download"}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
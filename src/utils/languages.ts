@@ -0,0 +1,106 @@
+// Output languages for summaries, keyed by ISO 639-1 code
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  hi: "Hindi",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+  it: "Italian",
+  nl: "Dutch",
+  pl: "Polish",
+  tr: "Turkish",
+  id: "Indonesian",
+  vi: "Vietnamese",
+  ru: "Russian",
+  ar: "Arabic",
+  ur: "Urdu",
+  bn: "Bengali",
+  mr: "Marathi",
+  ta: "Tamil",
+  te: "Telugu",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+};
+
+export const DEFAULT_LANGUAGE = "en";
+
+// Only the start of a transcript is needed to tell its language
+const SAMPLE_LENGTH = 5000;
+// Share of letters a script must reach to decide the language on its own
+const SCRIPT_THRESHOLD = 0.3;
+// Share of words that must be common words of the best Latin-script match
+const COMMON_WORD_THRESHOLD = 0.08;
+
+// Scripts used by a single supported language. Kana is checked before Han
+// because Japanese text mixes both.
+const SCRIPT_LANGUAGES: { pattern: RegExp; language: string }[] = [
+  { pattern: /[\u3040-\u30FF]/g, language: "ja" },
+  { pattern: /[\uAC00-\uD7AF]/g, language: "ko" },
+  { pattern: /[\u4E00-\u9FFF]/g, language: "zh" },
+  { pattern: /[\u0900-\u097F]/g, language: "hi" },
+  { pattern: /[\u0980-\u09FF]/g, language: "bn" },
+  { pattern: /[\u0B80-\u0BFF]/g, language: "ta" },
+  { pattern: /[\u0C00-\u0C7F]/g, language: "te" },
+  { pattern: /[\u0600-\u06FF]/g, language: "ar" },
+  { pattern: /[\u0400-\u04FF]/g, language: "ru" },
+];
+
+// Most frequent words of Latin-script languages
+const COMMON_WORDS: Record<string, string> = {
+  en: "the and is to of that it you in this for with was",
+  es: "el la que de y en los es por con para una las",
+  fr: "le les et est que des une pour dans pas vous ce qui",
+  de: "der die und das ist nicht ich zu den mit ein sie auf",
+  pt: "o que de e não é um uma para com os você isso",
+  it: "il che di e non è un una per con sono questo della",
+  nl: "de het een en van ik je dat is niet op te zijn",
+  id: "yang dan di ini itu dengan untuk tidak ada saya kita akan dari",
+  tr: "bir ve bu da de için çok ne ben olarak gibi daha var",
+};
+
+export const isSupportedLanguage = (code: unknown): code is string =>
+  typeof code === "string" &&
+  Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+
+export const languageName = (code: string): string =>
+  SUPPORTED_LANGUAGES[code] ?? code;
+
+/**
+ * Detect the language of a transcript from its script, or for Latin-script
+ * text from its most common words. Returns null when no supported language
+ * is a confident match.
+ */
+export const detectLanguage = (text: string): string | null => {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) {
+    return null;
+  }
+
+  for (const { pattern, language } of SCRIPT_LANGUAGES) {
+    const count = sample.match(pattern)?.length ?? 0;
+    if (count / letters >= SCRIPT_THRESHOLD) {
+      return language;
+    }
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+
+  let best: { language: string; hits: number } | null = null;
+  for (const [language, common] of Object.entries(COMMON_WORDS)) {
+    const commonSet = new Set(common.split(" "));
+    const hits = words.filter((word) => commonSet.has(word)).length;
+    if (!best || hits > best.hits) {
+      best = { language, hits };
+    }
+  }
+
+  return best && best.hits / words.length >= COMMON_WORD_THRESHOLD
+    ? best.language
+    : null;
+};
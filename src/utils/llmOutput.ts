@@ -0,0 +1,254 @@
+import { z } from "zod";
+import {
+  StudyMaterialKind,
+  SummaryMode,
+  SummaryTranslationContent,
+} from "../types";
+import { SUMMARY_MODE_DEFINITIONS } from "./summaryModes";
+import {
+  flashcardOutputSchema,
+  quizQuestionOutputSchema,
+} from "./studyMaterial";
+
+// Validation errors listed in a repair request
+const MAX_REPORTED_ISSUES = 10;
+
+export type LLMOutputResult<T> =
+  { success: true; data: T } | { success: false; errors: string[] };
+
+const textSchema = z.string().trim().min(1, "Must not be empty");
+
+const timestampsSchema = z.array(z.string()).optional();
+
+// Section items may be plain text or text with the lines they come from
+const itemSchema = z.union([
+  textSchema,
+  z.object({ text: textSchema, timestamps: timestampsSchema }).passthrough(),
+]);
+
+const noteSchema = z
+  .object({
+    title: textSchema,
+    content: textSchema,
+    timestamps: timestampsSchema,
+  })
+  .passthrough();
+
+const chapterSchema = z
+  .object({
+    title: textSchema,
+    start: z.union([z.string(), z.number()]),
+    summary: z.string().optional(),
+  })
+  .passthrough();
+
+// Every section and field a summary can have; which ones are required
+// depends on the mode
+const summaryFieldsSchema = z
+  .object({
+    keyTakeaways: z.array(itemSchema).optional(),
+    quotes: z.array(itemSchema).optional(),
+    examples: z.array(itemSchema).optional(),
+    detailedNotes: z.array(noteSchema).optional(),
+    overview: textSchema.optional(),
+    reviewQuestions: z.array(itemSchema).optional(),
+    recommendations: z.array(itemSchema).optional(),
+    risks: z.array(itemSchema).optional(),
+    chapters: z.array(chapterSchema).optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+export type SummaryOutput = z.infer<typeof summaryFieldsSchema>;
+
+/**
+ * Summary output for a mode: every section and field the mode's structure
+ * asks for must be present, with at least one key takeaway
+ */
+export const summaryOutputSchema = (
+  mode: SummaryMode
+): z.ZodType<SummaryOutput, z.ZodTypeDef, unknown> => {
+  const definition = SUMMARY_MODE_DEFINITIONS[mode];
+  const shape: z.ZodRawShape = {};
+
+  for (const section of definition.sections) {
+    shape[section] =
+      section === "detailedNotes"
+        ? z.array(noteSchema)
+        : section === "keyTakeaways"
+          ? z.array(itemSchema).min(1, "At least one item is required")
+          : z.array(itemSchema);
+  }
+
+  for (const field of definition.extras) {
+    shape[field] = field === "overview" ? textSchema : z.array(itemSchema);
+  }
+
+  return summaryFieldsSchema.extend(shape);
+};
+
+// Notes extracted from one chunk of a long transcript
+export const chunkSummaryOutputSchema = z
+  .object({
+    keyTakeaways: z.array(itemSchema),
+    quotes: z.array(itemSchema).default([]),
+    examples: z.array(itemSchema).default([]),
+    detailedNotes: z.array(noteSchema),
+    chapters: z.array(chapterSchema).default([]),
+  })
+  .passthrough();
+
+export type ChunkSummaryOutput = z.infer<typeof chunkSummaryOutputSchema>;
+
+// Translated lists must keep the length of the original so citations and
+// chapter times still line up
+const sameLength = <T extends z.ZodTypeAny>(schema: T, source: unknown[]) =>
+  z
+    .array(schema)
+    .length(
+      source.length,
+      `Must keep all ${source.length} items of the original, in order`
+    );
+
+export const translationOutputSchema = (content: SummaryTranslationContent) =>
+  z
+    .object({
+      title: textSchema,
+      keyTakeaways: sameLength(itemSchema, content.keyTakeaways),
+      quotes: sameLength(itemSchema, content.quotes),
+      examples: sameLength(itemSchema, content.examples),
+      detailedNotes: sameLength(noteSchema, content.detailedNotes),
+      modeContent: z.record(z.unknown()).optional(),
+      chapters: sameLength(
+        z.object({ title: textSchema, summary: z.string() }).passthrough(),
+        content.chapters
+      ),
+    })
+    .passthrough();
+
+export const chatAnswerOutputSchema = z.object({ answer: textSchema });
+
+export const studyMaterialOutputSchemas = {
+  flashcards: z.object({
+    flashcards: z
+      .array(flashcardOutputSchema)
+      .min(1, "At least one card is required"),
+  }),
+  quiz: z.object({
+    questions: z
+      .array(quizQuestionOutputSchema)
+      .min(1, "At least one question is required"),
+  }),
+} satisfies Record<StudyMaterialKind, z.ZodTypeAny>;
+
+export const tagsOutputSchema = z.object({ tags: z.array(z.string()) });
+
+// Sources are cited by their number in the prompt
+const sourceNumberSchema = (sourceCount: number) =>
+  z.coerce
+    .number()
+    .int()
+    .min(1, `Sources are numbered 1 to ${sourceCount}`)
+    .max(sourceCount, `Sources are numbered 1 to ${sourceCount}`);
+
+const sourceListSchema = (sourceCount: number) =>
+  z.array(sourceNumberSchema(sourceCount)).min(1, "Cite at least one source");
+
+export const synthesisOutputSchema = (sourceCount: number) =>
+  z
+    .object({
+      title: textSchema,
+      overview: textSchema,
+      themes: z.array(
+        z
+          .object({
+            theme: textSchema,
+            description: textSchema,
+            sources: sourceListSchema(sourceCount),
+          })
+          .passthrough()
+      ),
+      disagreements: z
+        .array(
+          z
+            .object({
+              topic: textSchema,
+              positions: z
+                .array(
+                  z
+                    .object({
+                      source: sourceNumberSchema(sourceCount),
+                      position: textSchema,
+                    })
+                    .passthrough()
+                )
+                .min(2, "A disagreement needs at least two positions"),
+            })
+            .passthrough()
+        )
+        .default([]),
+      outline: z
+        .array(
+          z
+            .object({
+              heading: textSchema,
+              points: z
+                .array(
+                  z
+                    .object({
+                      text: textSchema,
+                      sources: sourceListSchema(sourceCount),
+                    })
+                    .passthrough()
+                )
+                .min(1, "At least one point is required"),
+            })
+            .passthrough()
+        )
+        .min(1, "At least one outline section is required"),
+    })
+    .passthrough();
+
+export type SynthesisOutput = z.infer<ReturnType<typeof synthesisOutputSchema>>;
+
+/**
+ * Parse and validate a JSON model response. Errors are written for the
+ * model to read when it is asked to repair its response.
+ */
+export const parseLLMOutput = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  responseText: string
+): LLMOutputResult<T> => {
+  let json: unknown;
+  try {
+    // Some models wrap JSON in a markdown code fence despite instructions
+    json = JSON.parse(
+      responseText
+        .trim()
+        .replace(/^```(?:json)?\s*/i, "")
+        .replace(/\s*```$/, "")
+    );
+  } catch (error) {
+    return {
+      success: false,
+      errors: [
+        `The response is not valid JSON (${error instanceof Error ? error.message : "parse error"})`,
+      ],
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(
+        (issue) =>
+          `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`
+      ),
+  };
+};
@@ -0,0 +1,561 @@
+import { deflateSync } from "zlib";
+import { DocumentBlock } from "../types";
+
+// A4 in points, with 2cm margins
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.7;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 28;
+const BULLET_INDENT = 14;
+
+type FontName = "F1" | "F2" | "F3"; // Helvetica, bold and oblique
+type Color = [number, number, number];
+
+const FONTS: Record<FontName, string> = {
+  F1: "Helvetica",
+  F2: "Helvetica-Bold",
+  F3: "Helvetica-Oblique",
+};
+
+interface BlockStyle {
+  font: FontName;
+  size: number;
+  color: Color;
+  spaceBefore: number;
+  spaceAfter: number;
+  indent: number;
+}
+
+const BLACK: Color = [0.1, 0.1, 0.1];
+const GRAY: Color = [0.42, 0.42, 0.42];
+const BLUE: Color = [0.07, 0.33, 0.8];
+
+const STYLES: Record<
+  Exclude<DocumentBlock["type"], "pageBreak">,
+  BlockStyle
+> = {
+  title: {
+    font: "F2",
+    size: 20,
+    color: BLACK,
+    spaceBefore: 0,
+    spaceAfter: 8,
+    indent: 0,
+  },
+  heading: {
+    font: "F2",
+    size: 14,
+    color: BLACK,
+    spaceBefore: 14,
+    spaceAfter: 6,
+    indent: 0,
+  },
+  subheading: {
+    font: "F2",
+    size: 11.5,
+    color: BLACK,
+    spaceBefore: 8,
+    spaceAfter: 3,
+    indent: 0,
+  },
+  paragraph: {
+    font: "F1",
+    size: 11,
+    color: BLACK,
+    spaceBefore: 0,
+    spaceAfter: 6,
+    indent: 0,
+  },
+  bullet: {
+    font: "F1",
+    size: 11,
+    color: BLACK,
+    spaceBefore: 0,
+    spaceAfter: 4,
+    indent: BULLET_INDENT,
+  },
+  quote: {
+    font: "F3",
+    size: 11,
+    color: GRAY,
+    spaceBefore: 0,
+    spaceAfter: 4,
+    indent: BULLET_INDENT,
+  },
+  meta: {
+    font: "F3",
+    size: 9.5,
+    color: GRAY,
+    spaceBefore: 0,
+    spaceAfter: 3,
+    indent: 0,
+  },
+  link: {
+    font: "F1",
+    size: 10.5,
+    color: BLUE,
+    spaceBefore: 0,
+    spaceAfter: 4,
+    indent: 0,
+  },
+};
+
+// Glyph widths (1/1000 em) of printable ASCII, from the standard font metrics
+// prettier-ignore
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// prettier-ignore
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsiEncoding places in 0x80-0x9F, with their widths
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  "€": [0x80, 556],
+  "‚": [0x82, 222],
+  ƒ: [0x83, 556],
+  "„": [0x84, 333],
+  "…": [0x85, 1000],
+  "†": [0x86, 556],
+  "‡": [0x87, 556],
+  ˆ: [0x88, 333],
+  "‰": [0x89, 1000],
+  Š: [0x8a, 667],
+  "‹": [0x8b, 333],
+  Œ: [0x8c, 1000],
+  Ž: [0x8e, 611],
+  "‘": [0x91, 222],
+  "’": [0x92, 222],
+  "“": [0x93, 333],
+  "”": [0x94, 333],
+  "•": [0x95, 350],
+  "–": [0x96, 556],
+  "—": [0x97, 1000],
+  "˜": [0x98, 333],
+  "™": [0x99, 1000],
+  š: [0x9a, 500],
+  "›": [0x9b, 333],
+  œ: [0x9c, 944],
+  ž: [0x9e, 500],
+  Ÿ: [0x9f, 667],
+};
+
+const EXTRA_WIDTHS = new Map(
+  Object.values(WIN_ANSI_EXTRAS).map(([code, width]) => [code, width])
+);
+
+// Latin letters with a stroke or bar, which have no decomposition to strip
+const LATIN_FALLBACKS: Record<string, string> = {
+  Ł: "L",
+  ł: "l",
+  Đ: "D",
+  đ: "d",
+  Ħ: "H",
+  ħ: "h",
+  Ŧ: "T",
+  ŧ: "t",
+  Ŀ: "L",
+  ŀ: "l",
+  ı: "i",
+  Ŋ: "N",
+  ŋ: "n",
+};
+
+// A character in the single-byte encoding of the standard fonts; accented
+// letters outside it lose their accents. Null when it cannot be shown.
+const encodeChar = (char: string): string | null => {
+  const code = char.codePointAt(0)!;
+
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return char;
+  }
+  if (WIN_ANSI_EXTRAS[char]) {
+    return String.fromCharCode(WIN_ANSI_EXTRAS[char][0]);
+  }
+  if (/\s/.test(char)) {
+    return " ";
+  }
+  if (LATIN_FALLBACKS[char]) {
+    return LATIN_FALLBACKS[char];
+  }
+
+  const base = char.normalize("NFD").replace(/\p{M}/gu, "");
+  return base && base !== char && [...base].every((c) => c < "Ā") ? base : null;
+};
+
+/**
+ * Text in the single-byte encoding of the standard fonts. Characters it
+ * cannot show become "?".
+ */
+const toWinAnsi = (text: string): string =>
+  [...text.normalize("NFC")].map((char) => encodeChar(char) ?? "?").join("");
+
+/**
+ * Whether the standard fonts can show every letter and digit of the blocks.
+ * Symbols such as emoji may still become "?"; other scripts cannot be
+ * rendered at all.
+ */
+export const canRenderPdf = (blocks: DocumentBlock[]): boolean =>
+  blocks.every((block) => {
+    if (block.type === "pageBreak") {
+      return true;
+    }
+
+    const text =
+      block.type === "bullet"
+        ? `${block.label ?? ""}${block.text}`
+        : block.text;
+    return [...text.normalize("NFC")].every(
+      (char) => !/[\p{L}\p{N}]/u.test(char) || encodeChar(char) !== null
+    );
+  });
+
+const charWidth = (code: number, font: FontName): number => {
+  const widths = font === "F2" ? BOLD_WIDTHS : REGULAR_WIDTHS;
+
+  if (code >= 0x20 && code <= 0x7e) {
+    return widths[code - 0x20];
+  }
+  if (EXTRA_WIDTHS.has(code)) {
+    return EXTRA_WIDTHS.get(code)!;
+  }
+
+  // Latin-1 letters are about as wide as their unaccented form
+  const base = String.fromCharCode(code).normalize("NFD").charCodeAt(0);
+  return base >= 0x20 && base <= 0x7e ? widths[base - 0x20] : 556;
+};
+
+const textWidth = (text: string, font: FontName, size: number): number =>
+  ([...text].reduce(
+    (sum, char) => sum + charWidth(char.charCodeAt(0), font),
+    0
+  ) *
+    size) /
+  1000;
+
+// Break encoded text into lines that fit the width, splitting words longer
+// than a whole line
+const wrapText = (
+  text: string,
+  font: FontName,
+  size: number,
+  width: number
+): string[] => {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(" ").filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+
+    if (textWidth(candidate, font, size) <= width) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+
+    line = "";
+    for (const char of word) {
+      if (line && textWidth(line + char, font, size) > width) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+// PDF literal string; bytes outside printable ASCII are written as octal
+const pdfString = (text: string): string =>
+  `(${[...text]
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === "(" || char === ")" || char === "\\") {
+        return `\\${char}`;
+      }
+      return code < 0x20 || code > 0x7e
+        ? `\\${code.toString(8).padStart(3, "0")}`
+        : char;
+    })
+    .join("")})`;
+
+// Metadata strings as UTF-16, which covers every script
+const pdfTextString = (text: string): string =>
+  `<FEFF${[...Buffer.from(text, "utf16le").swap16()]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}>`;
+
+const fixed = (value: number): string => value.toFixed(2);
+
+// Link targets are written as ASCII, with anything else percent-encoded
+const toAsciiUrl = (url: string): string => {
+  try {
+    return encodeURI(decodeURI(url));
+  } catch {
+    return encodeURI(url);
+  }
+};
+
+interface PdfLink {
+  rect: [number, number, number, number];
+  url: string;
+}
+
+interface PdfPage {
+  content: string[];
+  links: PdfLink[];
+}
+
+class PdfLayout {
+  pages: PdfPage[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.pages.push({ content: [], links: [] });
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  get atTop(): boolean {
+    return this.y === PAGE_HEIGHT - MARGIN;
+  }
+
+  // Move down by a line, starting a new page when it does not fit
+  nextLine(height: number): number {
+    if (this.y - height < MARGIN) {
+      this.newPage();
+    }
+    this.y -= height;
+    return this.y;
+  }
+
+  space(height: number): void {
+    if (!this.atTop) {
+      this.y = Math.max(this.y - height, MARGIN);
+    }
+  }
+
+  // Keep a heading with at least one line after it
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.newPage();
+    }
+  }
+
+  text(
+    text: string,
+    x: number,
+    y: number,
+    font: FontName,
+    size: number,
+    color: Color
+  ): void {
+    this.page.content.push(
+      `BT /${font} ${size} Tf ${color.map(fixed).join(" ")} rg ${fixed(x)} ${fixed(y)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  link(x: number, y: number, width: number, size: number, url: string): void {
+    this.page.links.push({
+      rect: [x, y - size * 0.25, x + width, y + size * 0.85],
+      url,
+    });
+  }
+}
+
+const layoutBlock = (layout: PdfLayout, block: DocumentBlock): void => {
+  if (block.type === "pageBreak") {
+    if (!layout.atTop) {
+      layout.newPage();
+    }
+    return;
+  }
+
+  const style = STYLES[block.type];
+  const lineHeight = style.size * 1.35;
+  const x = MARGIN + style.indent;
+  const label =
+    block.type === "bullet" && block.label ? toWinAnsi(block.label) : "";
+  const labelWidth = label ? textWidth(`${label} `, "F2", style.size) : 0;
+  const lines = wrapText(
+    toWinAnsi(block.text),
+    style.font,
+    style.size,
+    CONTENT_WIDTH - style.indent - labelWidth
+  );
+
+  layout.space(style.spaceBefore);
+  if (block.type === "heading" || block.type === "subheading") {
+    layout.ensureSpace(lineHeight * 2 + 14);
+  }
+
+  lines.forEach((line, i) => {
+    const y = layout.nextLine(lineHeight);
+
+    if (i === 0 && block.type === "bullet") {
+      layout.text("\x95", x - 10, y, "F1", style.size, style.color);
+      if (label) {
+        const color = block.url ? BLUE : style.color;
+        layout.text(label, x, y, "F2", style.size, color);
+        if (block.url) {
+          layout.link(
+            x,
+            y,
+            textWidth(label, "F2", style.size),
+            style.size,
+            block.url
+          );
+        }
+      }
+    }
+
+    const lineX = x + labelWidth;
+    layout.text(line, lineX, y, style.font, style.size, style.color);
+
+    if (block.type === "link") {
+      layout.link(
+        lineX,
+        y,
+        textWidth(line, style.font, style.size),
+        style.size,
+        block.url
+      );
+    }
+  });
+
+  layout.space(style.spaceAfter);
+};
+
+/**
+ * Render document blocks as an A4 PDF with the standard Helvetica fonts,
+ * wrapped text, clickable links and page numbers. The standard fonts cover
+ * Latin scripts only; check blocks with canRenderPdf first.
+ */
+export const renderPdf = (
+  blocks: DocumentBlock[],
+  title: string,
+  created: Date = new Date()
+): Buffer => {
+  const layout = new PdfLayout();
+  blocks.forEach((block) => layoutBlock(layout, block));
+
+  const pageCount = layout.pages.length;
+  layout.pages.forEach((page, i) => {
+    const footer = `${i + 1} / ${pageCount}`;
+    page.content.push(
+      `BT /F1 9 Tf ${GRAY.map(fixed).join(" ")} rg ${fixed(PAGE_WIDTH - MARGIN - textWidth(footer, "F1", 9))} ${FOOTER_Y} Td ${pdfString(footer)} Tj ET`
+    );
+  });
+
+  // Object numbers: catalog, page tree, info and fonts come first, then
+  // each page with its content stream and link annotations
+  const objects: (string | Buffer)[] = [];
+  const fontIds: Record<string, number> = {};
+  const reserve = (): number => objects.push("");
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = reserve();
+  for (const font of Object.keys(FONTS) as FontName[]) {
+    fontIds[font] = reserve();
+    objects[fontIds[font] - 1] =
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font]} /Encoding /WinAnsiEncoding >>`;
+  }
+  const fontResources = (Object.keys(FONTS) as FontName[])
+    .map((font) => `/${font} ${fontIds[font]} 0 R`)
+    .join(" ");
+
+  const pageIds: number[] = [];
+  for (const page of layout.pages) {
+    const pageId = reserve();
+    const contentId = reserve();
+    const linkIds = page.links.map((link) => {
+      const id = reserve();
+      objects[id - 1] =
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(fixed).join(" ")}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(toAsciiUrl(link.url))} >> >>`;
+      return id;
+    });
+
+    const stream = deflateSync(Buffer.from(page.content.join("\n"), "latin1"));
+    objects[contentId - 1] = Buffer.concat([
+      Buffer.from(
+        `<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+        "latin1"
+      ),
+      stream,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+    objects[pageId - 1] =
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R${linkIds.length > 0 ? ` /Annots [${linkIds.map((id) => `${id} 0 R`).join(" ")}]` : ""} >>`;
+    pageIds.push(pageId);
+  }
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[infoId - 1] =
+    `<< /Title ${pdfTextString(title)} /Producer (Knugget) /CreationDate (D:${created.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z) >>`;
+
+  const parts: Buffer[] = [
+    Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+  ];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((object, i) => {
+    const body =
+      typeof object === "string" ? Buffer.from(object, "latin1") : object;
+    const part = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    offsets.push(offset);
+    parts.push(part);
+    offset += part.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  parts.push(Buffer.from(`${xref}\n`, "latin1"));
+
+  return Buffer.concat(parts);
+};
@@ -0,0 +1,289 @@
+import { PromptName, ResolvedPrompt, SummaryPrompts } from "../types";
+
+export interface PromptTemplateDefinition {
+  system: string | null;
+  template: string;
+  variables: string[]; // Variables a template for this prompt can use
+}
+
+const JSON_SUMMARY_SYSTEM =
+  "You are a helpful assistant that creates structured summaries in JSON format. Always respond with valid JSON only.";
+
+const STUDY_MATERIAL_SYSTEM =
+  "You are a helpful assistant that writes study material from video transcripts. Always respond with valid JSON only.";
+
+const STUDY_MATERIAL_INSTRUCTIONS = `- Use only what the video says, not outside knowledge
+- "timestamp" is the [timestamp] of the transcript line the answer comes from, exactly as written in the transcript, or null
+- Write in the language of the summary
+- Return ONLY valid JSON, no additional text
+
+**Key points:**
+{{keyPoints}}
+
+**Summary:**
+{{summary}}
+
+**Transcript:**
+{{transcript}}`;
+
+/**
+ * Built-in templates, served as version 0 until a version is published
+ * through the registry. Placeholders are written as {{variable}}.
+ */
+export const BUILT_IN_PROMPTS: Record<PromptName, PromptTemplateDefinition> = {
+  summary: {
+    system: JSON_SUMMARY_SYSTEM,
+    template: `Analyze this transcript and create {{task}} in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{{structure}}
+
+**INSTRUCTIONS:**
+{{instructions}}
+
+**Transcript to analyze:**
+{{transcript}}`,
+    variables: ["task", "structure", "instructions", "transcript"],
+  },
+  summary_chunk: {
+    system: JSON_SUMMARY_SYSTEM,
+    template: `Analyze this transcript chunk (Part {{part}} of {{totalParts}}) and extract key information in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "keyTakeaways": [{ "text": "insight 1", "timestamps": ["02:15"] }, ...],
+  "quotes": [{ "text": "quote 1", "timestamps": ["03:12"] }, ...],
+  "examples": [{ "text": "example 1", "timestamps": ["04:20"] }, ...],
+  "detailedNotes": [
+    { "title": "Topic 1", "content": "Detailed explanation...", "timestamps": ["00:45"] },
+    { "title": "Topic 2", "content": "Detailed explanation...", "timestamps": ["01:30"] }
+  ],
+  "chapters": [
+    { "title": "Chapter title", "start": "00:45", "summary": "What this part covers" }
+  ]
+}
+
+Extract all relevant information from this chunk. For every item, list in "timestamps" the [timestamp] of the transcript lines it comes from, exactly as written. Copy quotes word for word. Split the chunk into chapters where the topic changes; "start" is the [timestamp] of the chapter's first line, exactly as written. Return ONLY valid JSON, no additional text.
+
+Transcript Chunk {{part}}/{{totalParts}}:
+{{transcript}}`,
+    variables: ["part", "totalParts", "transcript"],
+  },
+  summary_final: {
+    system: JSON_SUMMARY_SYSTEM,
+    template: `I have processed a long transcript in multiple parts. Here are the notes from all parts, merged with duplicates removed:
+
+{{notes}}
+
+Now synthesize all parts into {{task}} in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{{structure}}
+
+**INSTRUCTIONS:**
+{{instructions}}`,
+    variables: ["notes", "task", "structure", "instructions"],
+  },
+  summary_translation: {
+    system:
+      "You are a helpful assistant that translates structured summaries. Always respond with valid JSON only.",
+    template: `Translate every text value in this JSON summary into {{language}}.
+
+**INSTRUCTIONS:**
+1. Keep the JSON structure and keys exactly as they are
+2. Keep the number and order of items in every list
+3. Translate quotes faithfully; do not paraphrase them
+4. Return ONLY valid JSON, no additional text
+
+**Summary to translate:**
+{{summary}}`,
+    variables: ["language", "summary"],
+  },
+  summary_chat: {
+    system:
+      "You are a helpful assistant that answers questions about a video using only its transcript. Always respond with valid JSON only.",
+    template: `Answer this question about the video "{{title}}" using the summary and transcript excerpts below.
+
+**Question:**
+{{question}}
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "answer": "The answer, citing the transcript lines it comes from like [02:15]"
+}
+
+**INSTRUCTIONS:**
+1. Answer only from the summary and transcript excerpts, not from outside knowledge
+2. If they do not cover the question, say that the video does not address it
+3. After each statement, cite the [timestamp] of the 1-3 transcript lines it comes from, exactly as written in the excerpts
+4. Answer in the language of the question
+5. Return ONLY valid JSON, no additional text
+
+**Summary of the video:**
+{{summary}}
+
+**Transcript excerpts:**
+{{excerpts}}`,
+    variables: ["title", "question", "summary", "excerpts"],
+  },
+  summary_synthesis: {
+    system:
+      "You are a helpful assistant that compares and combines what several videos say about a topic. Always respond with valid JSON only.",
+    template: `Combine the summaries of these {{sourceCount}} videos into one synthesis in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "title": "A short title for the combined material",
+  "overview": "2-4 sentences on what the videos cover together",
+  "themes": [
+    {
+      "theme": "An idea several videos share",
+      "description": "What they say about it",
+      "sources": [1, 2]
+    }
+  ],
+  "disagreements": [
+    {
+      "topic": "A point the videos disagree on",
+      "positions": [
+        { "source": 1, "position": "What this video claims" },
+        { "source": 2, "position": "What this video claims instead" }
+      ]
+    }
+  ],
+  "outline": [
+    {
+      "heading": "A section of the combined outline",
+      "points": [{ "text": "A point", "sources": [1, 3] }]
+    }
+  ]
+}
+
+**INSTRUCTIONS:**
+1. "sources" and "source" are the numbers of the videos a statement comes from (1 for Source 1, and so on); cite every video that makes the point
+2. Themes are ideas that at least two videos share
+3. Disagreements are points where videos contradict each other or recommend different things, with each side's position; return an empty list when they agree
+4. The outline merges everything into one structure, ordered for someone new to the topic, stating each point once however many videos make it
+5. Use only what the summaries say, not outside knowledge
+6. Write the synthesis in {{language}}
+7. Return ONLY valid JSON, no additional text
+
+{{sources}}`,
+    variables: ["sourceCount", "language", "sources"],
+  },
+  study_flashcards: {
+    system: STUDY_MATERIAL_SYSTEM,
+    template: `Create {{count}} flashcards about the video "{{title}}" in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "flashcards": [
+    {
+      "front": "A question or term to recall",
+      "back": "The answer or definition",
+      "timestamp": "02:15"
+    }
+  ]
+}
+
+**INSTRUCTIONS:**
+- Each card tests one fact, concept or definition; the front is a question or cue, the back a short answer
+- Prefer the key points and the ideas the video spends the most time on
+${STUDY_MATERIAL_INSTRUCTIONS}`,
+    variables: ["count", "title", "keyPoints", "summary", "transcript"],
+  },
+  study_quiz: {
+    system: STUDY_MATERIAL_SYSTEM,
+    template: `Create a {{count}}-question multiple-choice quiz about the video "{{title}}" in JSON format.
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "questions": [
+    {
+      "question": "The question",
+      "options": ["First option", "Second option", "Third option", "Fourth option"],
+      "answerIndex": 1,
+      "explanation": "Why the correct option is right",
+      "timestamp": "02:15"
+    }
+  ]
+}
+
+**INSTRUCTIONS:**
+- Each question has 4 distinct options with exactly one correct; answerIndex is the 0-based index of the correct option
+- Wrong options are plausible to someone who did not watch the video
+- Test understanding of the key points rather than trivia
+${STUDY_MATERIAL_INSTRUCTIONS}`,
+    variables: ["count", "title", "keyPoints", "summary", "transcript"],
+  },
+  content_tagging: {
+    system:
+      "You are a helpful assistant that categorizes content. Always respond with valid JSON only.",
+    template: `Propose topical tags for this content.
+
+**REQUIRED JSON STRUCTURE:**
+{
+  "tags": ["specific-topic", "another-topic", "broader-field"]
+}
+
+**INSTRUCTIONS:**
+1. List 3 to {{maxTags}} tags: lowercase, hyphenated, about the subject rather than the format (e.g. "machine-learning", not "article")
+2. Write tags in English
+3. Return ONLY valid JSON, no additional text
+
+**Title:** {{title}}
+
+**Content:**
+{{content}}`,
+    variables: ["maxTags", "title", "content"],
+  },
+  infographic: {
+    system: null,
+    template: `Generate Image :- Take the following transcript and generate a detailed infographic image.
+    Video Title: {{title}}
+    Transcript:
+    {{transcript}}
+`,
+    variables: ["title", "transcript"],
+  },
+  // Sent after a response that failed validation, following the original
+  // conversation, so it has no system prompt of its own
+  output_repair: {
+    system: null,
+    template: `Your previous response did not match the required JSON structure:
+{{errors}}
+
+Return the complete corrected JSON, following the structure and instructions above. Return ONLY valid JSON, no additional text.`,
+    variables: ["errors"],
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Variables a template uses, in order of first use
+export const templateVariables = (template: string): string[] => [
+  ...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (m) => m[1])),
+];
+
+// Fill {{variable}} placeholders in one pass, so placeholders inside the
+// values (e.g. in a transcript) are left alone. Missing values render empty.
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, string | number>
+): string =>
+  template.replace(VARIABLE_PATTERN, (_, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name)
+      ? String(variables[name])
+      : ""
+  );
+
+// Label recorded with usage, e.g. "summary@2"
+export const promptLabel = (prompt: ResolvedPrompt): string =>
+  `${prompt.name}@${prompt.version}`;
+
+export const joinPromptLabels = (prompts: ResolvedPrompt[]): string =>
+  prompts.map(promptLabel).join(",");
+
+// Every template a summary generation may use, keying the shared cache
+export const summaryPromptsLabel = (prompts: SummaryPrompts): string =>
+  joinPromptLabels([prompts.single, prompts.chunk, prompts.final]);
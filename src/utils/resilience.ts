@@ -0,0 +1,273 @@
+import { AppError } from "../middleware/errorHandler";
+import { sleep } from "./concurrency";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // Time open before a trial call is let through
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // Longer Retry-After waits are not worth retrying
+  timeoutMs: number; // Deadline for each attempt
+}
+
+/**
+ * Provider error carrying the HTTP status and, for rate limits and outages,
+ * how long the provider asked callers to wait (Retry-After)
+ */
+export class ProviderError extends AppError {
+  public retryAfterMs?: number;
+
+  constructor(message: string, statusCode: number, retryAfterMs?: number) {
+    super(
+      message,
+      statusCode,
+      true,
+      undefined,
+      "PROVIDER_ERROR",
+      statusCode === 429 || statusCode >= 500
+    );
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either delay seconds or an HTTP date
+export const parseRetryAfter = (
+  value: string | null | undefined
+): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Breakers by name, reported by the health check
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitStatuses = (): CircuitStatus[] =>
+  [...circuitBreakers.values()].map((breaker) => breaker.status());
+
+/**
+ * Fails calls fast while a provider is down. The circuit opens after a run
+ * of consecutive failures, lets one trial call through once the reset
+ * timeout has passed, and closes again when that call succeeds.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    readonly label: string, // Names the service in error messages
+    private options: CircuitBreakerOptions
+  ) {
+    circuitBreakers.set(name, this);
+  }
+
+  // Reserve a call, or throw while the circuit is open
+  acquire(): void {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt! >= this.options.resetTimeoutMs
+    ) {
+      this.state = "half_open";
+    }
+
+    if (
+      this.state === "open" ||
+      (this.state === "half_open" && this.trialInFlight)
+    ) {
+      throw new AppError(
+        `${this.label} is temporarily unavailable. Please try again shortly.`,
+        503,
+        true,
+        undefined,
+        "PROVIDER_UNAVAILABLE",
+        true
+      );
+    }
+
+    if (this.state === "half_open") {
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : "Unknown error";
+    this.trialInFlight = false;
+
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Give back a reserved call that ended without saying anything about the
+  // provider's health, such as a cancellation
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  status(): CircuitStatus {
+    // Report an expired open circuit as ready for a trial call
+    const state =
+      this.state === "open" &&
+      Date.now() - this.openedAt! >= this.options.resetTimeoutMs
+        ? "half_open"
+        : this.state;
+
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+// Rate limits, server errors, timeouts and network failures are worth
+// another attempt; other client errors are not
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof AppError) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return true;
+};
+
+// Rate limits and client errors mean the provider is up and answering
+const isProviderFailure = (error: unknown): boolean =>
+  !(error instanceof AppError) || error.statusCode >= 500;
+
+// Exponential backoff with jitter, or the provider's Retry-After if longer
+const retryDelay = (
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number => {
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2)
+  );
+  const retryAfter =
+    error instanceof ProviderError ? error.retryAfterMs : undefined;
+
+  return retryAfter !== undefined ? Math.max(backoff, retryAfter) : backoff;
+};
+
+// Abort signal for one attempt: fires when the caller cancels or the
+// deadline passes
+const attemptSignal = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => controller.signal.aborted && !signal?.aborted,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+/**
+ * Run a provider call under the breaker with a deadline per attempt,
+ * retrying transient failures with backoff. The call gets an abort signal
+ * that fires on the deadline or when the caller cancels. Calls that have
+ * already streamed output are not retried, as it was passed on.
+ */
+export const callWithPolicy = async <T>(
+  breaker: CircuitBreaker,
+  policy: RetryPolicy,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    breaker.acquire();
+    const attemptAbort = attemptSignal(policy.timeoutMs, options.signal);
+    let delay: number;
+
+    try {
+      const result = await call(attemptAbort.signal);
+      breaker.recordSuccess();
+      return result;
+    } catch (caught) {
+      if (options.signal?.aborted) {
+        breaker.release();
+        throw caught;
+      }
+
+      const error = attemptAbort.timedOut()
+        ? new AppError(
+            `${breaker.label} did not respond within ${Math.round(policy.timeoutMs / 1000)}s`,
+            504,
+            true,
+            undefined,
+            "PROVIDER_TIMEOUT",
+            true
+          )
+        : caught;
+
+      if (isProviderFailure(error)) {
+        breaker.recordFailure(error);
+      } else {
+        breaker.recordSuccess();
+      }
+
+      delay = retryDelay(error, attempt, policy);
+      if (
+        attempt >= policy.retries ||
+        !isTransientError(error) ||
+        delay > policy.maxDelayMs ||
+        options.canRetry?.() === false
+      ) {
+        throw error;
+      }
+    } finally {
+      attemptAbort.dispose();
+    }
+
+    await sleep(delay);
+  }
+};
@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { FlashcardData, QuizQuestionData } from "../types";
+import { AnkiDeck, AnkiNote, createAnkiPackage } from "./anki";
+
+export const MAX_FLASHCARD_FRONT_LENGTH = 500;
+export const MAX_FLASHCARD_BACK_LENGTH = 2000;
+export const MAX_QUESTION_LENGTH = 1000;
+export const MAX_OPTION_LENGTH = 300;
+export const MAX_EXPLANATION_LENGTH = 2000;
+export const MIN_QUIZ_OPTIONS = 2;
+export const MAX_QUIZ_OPTIONS = 6;
+
+export interface FlashcardContent {
+  front: string;
+  back: string;
+  timestamp: string | null;
+}
+
+export interface QuizQuestionContent {
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string | null;
+  timestamp: string | null;
+}
+
+// Summary a deck is exported from
+export interface StudySummary {
+  id: string;
+  title: string;
+  tags: string[];
+}
+
+// Checks a model timestamp against the transcript, null when it is not on it
+type TimestampResolver = (value: unknown) => string | null;
+
+const itemTextSchema = z.string().trim().min(1, "Must not be empty");
+
+// A flashcard as the model returns it
+export const flashcardOutputSchema = z
+  .object({
+    front: itemTextSchema,
+    back: itemTextSchema,
+    timestamp: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+// A quiz question as the model returns it
+export const quizQuestionOutputSchema = z
+  .object({
+    question: itemTextSchema,
+    options: z
+      .array(itemTextSchema)
+      .min(MIN_QUIZ_OPTIONS, `At least ${MIN_QUIZ_OPTIONS} options`)
+      .max(MAX_QUIZ_OPTIONS, `At most ${MAX_QUIZ_OPTIONS} options`),
+    answerIndex: z.number().int(),
+    explanation: z.string().nullable().optional(),
+    timestamp: z.string().nullable().optional(),
+  })
+  .passthrough()
+  .refine(
+    (item) => item.answerIndex >= 0 && item.answerIndex < item.options.length,
+    {
+      message: "Must be the index of one of the options",
+      path: ["answerIndex"],
+    }
+  );
+
+export type FlashcardOutput = z.infer<typeof flashcardOutputSchema>;
+export type QuizQuestionOutput = z.infer<typeof quizQuestionOutputSchema>;
+
+// Items of a model response that match their schema; the others are dropped
+const parseItems = <T>(
+  raw: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): T[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+// Text cut to its maximum length, null when there is none
+const toText = (
+  value: string | null | undefined,
+  maxLength: number
+): string | null => value?.trim().slice(0, maxLength) || null;
+
+// Well-formed flashcards from a model response; malformed cards are dropped
+export const normalizeFlashcards = (
+  raw: unknown,
+  resolveTimestamp: TimestampResolver,
+  max: number
+): FlashcardContent[] =>
+  parseItems(raw, flashcardOutputSchema)
+    .map((card: FlashcardOutput) => ({
+      front: card.front.slice(0, MAX_FLASHCARD_FRONT_LENGTH),
+      back: card.back.slice(0, MAX_FLASHCARD_BACK_LENGTH),
+      timestamp: resolveTimestamp(card.timestamp),
+    }))
+    .slice(0, max);
+
+// Well-formed questions from a model response. Questions with duplicate or
+// too few options, or an answer that is not one of them, are dropped.
+export const normalizeQuizQuestions = (
+  raw: unknown,
+  resolveTimestamp: TimestampResolver,
+  max: number
+): QuizQuestionContent[] =>
+  parseItems(raw, quizQuestionOutputSchema)
+    .map((item: QuizQuestionOutput) => ({
+      question: item.question.slice(0, MAX_QUESTION_LENGTH),
+      options: item.options.map((option) => option.slice(0, MAX_OPTION_LENGTH)),
+      answerIndex: item.answerIndex,
+      explanation: toText(item.explanation, MAX_EXPLANATION_LENGTH),
+      timestamp: resolveTimestamp(item.timestamp),
+    }))
+    .filter((item) => new Set(item.options).size === item.options.length)
+    .slice(0, max);
+
+const optionLabel = (index: number): string => String.fromCharCode(65 + index);
+
+// RFC 4180 CSV: fields with commas, quotes or line breaks are quoted
+const toCsv = (rows: (string | number | null)[][]): string =>
+  rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = value === null ? "" : String(value);
+          return /[",\r\n]/.test(field)
+            ? `"${field.replace(/"/g, '""')}"`
+            : field;
+        })
+        .join(",")
+    )
+    .join("\r\n") + "\r\n";
+
+export const flashcardsToCsv = (cards: FlashcardData[]): string =>
+  toCsv([
+    ["front", "back", "timestamp"],
+    ...cards.map((card) => [card.front, card.back, card.timestamp]),
+  ]);
+
+export const quizToCsv = (questions: QuizQuestionData[]): string =>
+  toCsv([
+    ["question", "options", "answer", "explanation", "timestamp"],
+    ...questions.map((item) => [
+      item.question,
+      item.options
+        .map((option, i) => `${optionLabel(i)}. ${option}`)
+        .join("\n"),
+      optionLabel(item.answerIndex),
+      item.explanation,
+      item.timestamp,
+    ]),
+  ]);
+
+// Field text for Anki's HTML fields
+const toAnkiField = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r?\n/g, "<br>");
+
+// The summary's notes go in a Knugget::<title> deck
+const toAnkiDeck = (summary: StudySummary, notes: AnkiNote[]): AnkiDeck => ({
+  key: summary.id,
+  name: `Knugget::${summary.title.replace(/::/g, " ").trim()}`,
+  tags: summary.tags,
+  notes,
+});
+
+const withTimestamp = (text: string, timestamp: string | null): string =>
+  timestamp ? `${text}<br><br>[${timestamp}]` : text;
+
+export const flashcardsToAnkiPackage = (
+  cards: FlashcardData[],
+  summary: StudySummary
+): Promise<Buffer> =>
+  createAnkiPackage(
+    toAnkiDeck(
+      summary,
+      cards.map((card) => ({
+        key: card.id,
+        front: toAnkiField(card.front),
+        back: withTimestamp(toAnkiField(card.back), card.timestamp),
+      }))
+    )
+  );
+
+// Each question becomes a card with the options on the front and the
+// correct option and explanation on the back
+export const quizToAnkiPackage = (
+  questions: QuizQuestionData[],
+  summary: StudySummary
+): Promise<Buffer> =>
+  createAnkiPackage(
+    toAnkiDeck(
+      summary,
+      questions.map((item) => ({
+        key: item.id,
+        front: [
+          toAnkiField(item.question),
+          item.options
+            .map((option, i) => `${optionLabel(i)}. ${toAnkiField(option)}`)
+            .join("<br>"),
+        ].join("<br><br>"),
+        back: withTimestamp(
+          [
+            `<b>${optionLabel(item.answerIndex)}. ${toAnkiField(
+              item.options[item.answerIndex]
+            )}</b>`,
+            item.explanation && toAnkiField(item.explanation),
+          ]
+            .filter(Boolean)
+            .join("<br><br>"),
+          item.timestamp
+        ),
+      }))
+    )
+  );
@@ -0,0 +1,328 @@
+import {
+  DocumentBlock,
+  ExportableSummary,
+  SummaryModeContent,
+  SummarySectionName,
+} from "../types";
+import { SUMMARY_MODE_DEFINITIONS } from "./summaryModes";
+import { toNoteName } from "./fileNames";
+
+const MAX_RELATED_NOTES = 15; // Backlinks listed per Obsidian note
+
+type LayoutField = SummarySectionName | keyof SummaryModeContent;
+
+// Detailed summaries use the legacy section format, which has no layout
+const DETAILED_LAYOUT: { field: LayoutField; heading: string }[] = [
+  { field: "keyTakeaways", heading: "Key Takeaways" },
+  { field: "quotes", heading: "Memorable Quotes" },
+  { field: "examples", heading: "Examples" },
+  { field: "detailedNotes", heading: "Detailed Notes" },
+];
+
+export interface ExportNote {
+  name: string; // Note name without the .md extension
+  content: string;
+}
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// The video URL opened at a point in the video
+const timestampUrl = (
+  videoUrl: string,
+  seconds: number
+): string | undefined => {
+  try {
+    const url = new URL(videoUrl);
+    url.searchParams.set("t", `${Math.floor(seconds)}s`);
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+};
+
+const sectionBlocks = (
+  summary: ExportableSummary,
+  field: LayoutField
+): DocumentBlock[] => {
+  switch (field) {
+    case "overview":
+      return summary.modeContent.overview
+        ? [{ type: "paragraph", text: summary.modeContent.overview }]
+        : [];
+    case "detailedNotes":
+      return summary.sections.detailedNotes.flatMap((note): DocumentBlock[] => [
+        { type: "subheading", text: note.title },
+        { type: "paragraph", text: note.content },
+      ]);
+    case "quotes":
+      return summary.sections.quotes.map((text) => ({ type: "quote", text }));
+    case "keyTakeaways":
+    case "examples":
+      return summary.sections[field].map((text) => ({ type: "bullet", text }));
+    default:
+      return (summary.modeContent[field] ?? []).map((text) => ({
+        type: "bullet",
+        text,
+      }));
+  }
+};
+
+// Summaries saved before structured sections only have the flattened text
+const legacyBlocks = (summary: ExportableSummary): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+
+  if (summary.keyPoints.length > 0) {
+    blocks.push({ type: "heading", text: "Key Points" });
+    summary.keyPoints.forEach((text) => blocks.push({ type: "bullet", text }));
+  }
+
+  if (summary.fullSummary.trim()) {
+    blocks.push({ type: "heading", text: "Summary" });
+    for (const line of summary.fullSummary.split("\n")) {
+      const text = line.trim();
+      if (text.startsWith("- ")) {
+        blocks.push({ type: "bullet", text: text.slice(2) });
+      } else if (text) {
+        blocks.push({ type: "paragraph", text });
+      }
+    }
+  }
+
+  return blocks;
+};
+
+/**
+ * A summary as document blocks: title, video details, the sections of its
+ * mode, chapters linked to their moment in the video, and tags
+ */
+export const summaryToBlocks = (
+  summary: ExportableSummary
+): DocumentBlock[] => {
+  const layout =
+    summary.mode === "detailed"
+      ? DETAILED_LAYOUT
+      : SUMMARY_MODE_DEFINITIONS[summary.mode].layout;
+
+  const blocks: DocumentBlock[] = [
+    { type: "title", text: summary.title },
+    {
+      type: "meta",
+      text: [
+        summary.channelName,
+        summary.videoDuration,
+        SUMMARY_MODE_DEFINITIONS[summary.mode].label,
+        formatDate(summary.createdAt),
+      ]
+        .filter(Boolean)
+        .join(" · "),
+    },
+    { type: "link", text: "Watch on YouTube", url: summary.videoUrl },
+  ];
+
+  if (summary.infographicUrl) {
+    blocks.push({
+      type: "link",
+      text: "Infographic",
+      url: summary.infographicUrl,
+      image: true,
+    });
+  }
+
+  const sections = layout.flatMap(({ field, heading }): DocumentBlock[] => {
+    const body = sectionBlocks(summary, field);
+    return body.length > 0 ? [{ type: "heading", text: heading }, ...body] : [];
+  });
+
+  blocks.push(...(sections.length > 0 ? sections : legacyBlocks(summary)));
+
+  if (summary.chapters.length > 0) {
+    blocks.push({ type: "heading", text: "Chapters" });
+    summary.chapters.forEach((chapter) =>
+      blocks.push({
+        type: "bullet",
+        label: chapter.timestamp,
+        url: timestampUrl(summary.videoUrl, chapter.startSeconds),
+        text: `${chapter.title} — ${chapter.summary}`,
+      })
+    );
+  }
+
+  if (summary.tags.length > 0) {
+    blocks.push({
+      type: "meta",
+      text: summary.tags.map((tag) => `#${tag}`).join(" "),
+    });
+  }
+
+  return blocks;
+};
+
+const toMarkdownBlock = (block: DocumentBlock): string => {
+  switch (block.type) {
+    case "title":
+      return `# ${block.text}`;
+    case "heading":
+      return `## ${block.text}`;
+    case "subheading":
+      return `### ${block.text}`;
+    case "quote":
+      return `> ${block.text}`;
+    case "bullet": {
+      const label = block.label
+        ? block.url
+          ? `[${block.label}](${block.url}) `
+          : `**${block.label}** `
+        : "";
+      return `- ${label}${block.text}`;
+    }
+    case "link":
+      return `${block.image ? "!" : ""}[${block.text}](${block.url})`;
+    case "pageBreak":
+      return "---";
+    default:
+      return block.text;
+  }
+};
+
+// Blocks as Markdown; list items are kept together in one list
+const blocksToMarkdown = (blocks: DocumentBlock[]): string =>
+  blocks
+    .map((block, i) => {
+      const separator =
+        i === 0
+          ? ""
+          : block.type === "bullet" && blocks[i - 1].type === "bullet"
+            ? "\n"
+            : "\n\n";
+      return `${separator}${toMarkdownBlock(block)}`;
+    })
+    .join("");
+
+// YAML front-matter; strings are quoted as JSON, which YAML accepts
+const frontMatter = (summary: ExportableSummary): string => {
+  const lines = [
+    `title: ${JSON.stringify(summary.title)}`,
+    `channel: ${JSON.stringify(summary.channelName)}`,
+    `video: ${JSON.stringify(summary.videoUrl)}`,
+    `video_id: ${JSON.stringify(summary.videoId)}`,
+    ...(summary.videoDuration
+      ? [`duration: ${JSON.stringify(summary.videoDuration)}`]
+      : []),
+    `mode: ${summary.mode}`,
+    ...(summary.language ? [`language: ${summary.language}`] : []),
+    ...(summary.tags.length > 0
+      ? ["tags:", ...summary.tags.map((tag) => `  - ${JSON.stringify(tag)}`)]
+      : ["tags: []"]),
+    `created: ${formatDate(summary.createdAt)}`,
+  ];
+
+  return `---\n${lines.join("\n")}\n---`;
+};
+
+/**
+ * A summary as a Markdown file with YAML front-matter
+ */
+export const summaryToMarkdown = (summary: ExportableSummary): string =>
+  `${frontMatter(summary)}\n\n${blocksToMarkdown(summaryToBlocks(summary))}\n`;
+
+// Other summaries sharing tags or the channel, most in common first
+const relatedSummaries = (
+  summary: ExportableSummary,
+  summaries: ExportableSummary[]
+): { summary: ExportableSummary; reasons: string[] }[] =>
+  summaries
+    .filter((other) => other.id !== summary.id)
+    .map((other) => {
+      const sharedTags = other.tags.filter((tag) => summary.tags.includes(tag));
+      const sameChannel = other.channelName === summary.channelName;
+      return {
+        summary: other,
+        reasons: [
+          ...(sameChannel ? ["same channel"] : []),
+          ...sharedTags.map((tag) => `#${tag}`),
+        ],
+      };
+    })
+    .filter(({ reasons }) => reasons.length > 0)
+    .sort(
+      (a, b) =>
+        b.reasons.length - a.reasons.length ||
+        b.summary.createdAt.getTime() - a.summary.createdAt.getTime()
+    )
+    .slice(0, MAX_RELATED_NOTES);
+
+/**
+ * One Markdown note per summary with unique note names. With backlinks,
+ * each note links the notes sharing its tags or channel, and an index note
+ * lists every summary by channel (an Obsidian vault).
+ */
+export const summariesToNotes = (
+  summaries: ExportableSummary[],
+  withBacklinks: boolean
+): ExportNote[] => {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const summary of summaries) {
+    const base = toNoteName(summary.title);
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    taken.add(name.toLowerCase());
+    names.set(summary.id, name);
+  }
+
+  const notes = summaries.map((summary) => {
+    let content = summaryToMarkdown(summary);
+
+    if (withBacklinks) {
+      const related = relatedSummaries(summary, summaries);
+      if (related.length > 0) {
+        content += `\n## Related\n\n${related
+          .map(
+            ({ summary: other, reasons }) =>
+              `- [[${names.get(other.id)}]] · ${reasons.join(" ")}`
+          )
+          .join("\n")}\n`;
+      }
+    }
+
+    return { name: names.get(summary.id)!, content };
+  });
+
+  if (!withBacklinks) {
+    return notes;
+  }
+
+  const channels = new Map<string, ExportableSummary[]>();
+  for (const summary of summaries) {
+    channels.set(summary.channelName, [
+      ...(channels.get(summary.channelName) ?? []),
+      summary,
+    ]);
+  }
+
+  const index = [...channels.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([channel, videos]) =>
+        `## ${channel}\n\n${videos
+          .map((summary) => `- [[${names.get(summary.id)}]]`)
+          .join("\n")}`
+    )
+    .join("\n\n");
+
+  let indexName = "Knugget Index";
+  while (taken.has(indexName.toLowerCase())) {
+    indexName = `_${indexName}`;
+  }
+
+  return [
+    ...notes,
+    {
+      name: indexName,
+      content: `# Knugget summaries\n\n${summaries.length} summaries exported on ${formatDate(new Date())}\n\n${index}\n`,
+    },
+  ];
+};
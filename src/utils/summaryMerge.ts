@@ -0,0 +1,185 @@
+import { toItemText, toNote } from "./summarySections";
+import { parseTimestamp } from "./transcriptCitations";
+import { ChunkSummaryOutput } from "./llmOutput";
+
+interface MergedItem {
+  text: string;
+  timestamps: string[];
+}
+
+interface MergedNote {
+  title: string;
+  content: string;
+  timestamps: string[];
+}
+
+interface MergedChapter {
+  title: string;
+  start: string;
+  summary: string;
+}
+
+export interface MergedChunkSummary {
+  keyTakeaways: MergedItem[];
+  quotes: MergedItem[];
+  examples: MergedItem[];
+  detailedNotes: MergedNote[];
+  chapters: MergedChapter[];
+}
+
+// Items sharing this fraction of their words are treated as the same point
+const DUPLICATE_THRESHOLD = 0.8;
+
+const toWordSet = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter(Boolean)
+  );
+
+const isSimilar = (a: Set<string>, b: Set<string>): boolean => {
+  if (a.size === 0 || b.size === 0) {
+    return false;
+  }
+
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) {
+      shared++;
+    }
+  });
+
+  // Jaccard similarity
+  return shared / (a.size + b.size - shared) >= DUPLICATE_THRESHOLD;
+};
+
+const toTimestamps = (value: any): string[] =>
+  Array.isArray(value?.timestamps)
+    ? value.timestamps.filter((t: unknown) => typeof t === "string")
+    : [];
+
+const addTimestamps = (target: string[], timestamps: string[]) => {
+  timestamps.forEach((timestamp) => {
+    if (!target.includes(timestamp)) {
+      target.push(timestamp);
+    }
+  });
+};
+
+// Merge one section's items, folding near-duplicates into the first occurrence
+const mergeItems = (lists: any[][]): MergedItem[] => {
+  const merged: (MergedItem & { words: Set<string> })[] = [];
+
+  for (const list of lists) {
+    for (const raw of list) {
+      const text = toItemText(raw);
+      if (!text) {
+        continue;
+      }
+
+      const words = toWordSet(text);
+      const existing = merged.find((item) => isSimilar(item.words, words));
+
+      if (existing) {
+        addTimestamps(existing.timestamps, toTimestamps(raw));
+      } else {
+        merged.push({ text, timestamps: toTimestamps(raw), words });
+      }
+    }
+  }
+
+  return merged.map(({ text, timestamps }) => ({ text, timestamps }));
+};
+
+// Notes on the same topic are combined; repeated content is dropped
+const mergeNotes = (lists: any[][]): MergedNote[] => {
+  const merged: (MergedNote & {
+    titleWords: Set<string>;
+    parts: Set<string>[];
+  })[] = [];
+
+  for (const list of lists) {
+    for (const raw of list) {
+      const note = toNote(raw);
+      if (!note) {
+        continue;
+      }
+
+      const titleWords = toWordSet(note.title);
+      const contentWords = toWordSet(note.content);
+      const existing = merged.find((item) =>
+        isSimilar(item.titleWords, titleWords)
+      );
+
+      if (!existing) {
+        merged.push({
+          ...note,
+          timestamps: toTimestamps(raw),
+          titleWords,
+          parts: [contentWords],
+        });
+        continue;
+      }
+
+      addTimestamps(existing.timestamps, toTimestamps(raw));
+      if (!existing.parts.some((part) => isSimilar(part, contentWords))) {
+        existing.content += ` ${note.content}`;
+        existing.parts.push(contentWords);
+      }
+    }
+  }
+
+  return merged.map(({ title, content, timestamps }) => ({
+    title,
+    content,
+    timestamps,
+  }));
+};
+
+// Chapters of all chunks in video order; chunks overlap, so a chapter
+// reported twice at the same start is kept once
+const mergeChapters = (lists: any[][]): MergedChapter[] => {
+  const byStart = new Map<number, MergedChapter>();
+
+  for (const list of lists) {
+    for (const raw of list) {
+      const title = typeof raw?.title === "string" ? raw.title.trim() : "";
+      const start = typeof raw?.start === "string" ? raw.start : "";
+      const seconds = parseTimestamp(start);
+
+      if (title && seconds !== null && !byStart.has(seconds)) {
+        byStart.set(seconds, {
+          title,
+          start,
+          summary: typeof raw.summary === "string" ? raw.summary.trim() : "",
+        });
+      }
+    }
+  }
+
+  return [...byStart.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, chapter]) => chapter);
+};
+
+/**
+ * Reduce step of chunked summarization: combine the validated notes of all
+ * chunks into one structure, de-duplicating points that chunks (and their
+ * overlapping segments) reported more than once
+ */
+export const mergeChunkSummaries = (
+  chunks: ChunkSummaryOutput[]
+): MergedChunkSummary => {
+  const lists = (key: keyof MergedChunkSummary) =>
+    chunks.map((chunk) => chunk[key] as any[]);
+
+  return {
+    keyTakeaways: mergeItems(lists("keyTakeaways")),
+    quotes: mergeItems(lists("quotes")),
+    examples: mergeItems(lists("examples")),
+    detailedNotes: mergeNotes(lists("detailedNotes")),
+    chapters: mergeChapters(lists("chapters")),
+  };
+};
@@ -0,0 +1,295 @@
+import {
+  SUMMARY_MODES,
+  SummaryMode,
+  SummaryModeContent,
+  SummarySectionName,
+  SummarySections,
+} from "../types";
+import { formatSummarySections, toItemText } from "./summarySections";
+import { languageName } from "./languages";
+import { MAX_TAGS } from "./tags";
+
+export const DEFAULT_SUMMARY_MODE: SummaryMode = "detailed";
+
+type SummaryModeField = SummarySectionName | keyof SummaryModeContent;
+
+interface SummaryModeDefinition {
+  label: string;
+  description: string;
+  task: string; // What the model is asked to create
+  structure: string; // Example of the JSON the model must return
+  instructions: string[]; // Mode-specific instructions, shared closing ones are appended
+  sections: SummarySectionName[]; // Shared sections the mode fills
+  extras: (keyof SummaryModeContent)[]; // Fields stored in modeContent
+  layout: { field: SummaryModeField; heading: string }[]; // fullSummary text
+}
+
+export const SUMMARY_MODE_DEFINITIONS: Record<
+  SummaryMode,
+  SummaryModeDefinition
+> = {
+  tldr: {
+    label: "TL;DR",
+    description: "A few sentences and three one-line takeaways",
+    task: "a TL;DR summary",
+    structure: `{
+  "overview": "Two or three sentences capturing what the video is about and its main conclusion",
+  "keyTakeaways": [
+    { "text": "First takeaway in one short sentence", "timestamps": ["02:15"] },
+    { "text": "Second takeaway in one short sentence", "timestamps": ["05:40"] },
+    { "text": "Third takeaway in one short sentence", "timestamps": ["11:02"] }
+  ]
+}`,
+    instructions: [
+      "Write the overview in at most 3 sentences",
+      "Extract exactly 3 key takeaways, one short sentence each",
+      "Leave out anything that is not essential to the main point",
+    ],
+    sections: ["keyTakeaways"],
+    extras: ["overview"],
+    layout: [
+      { field: "overview", heading: "TL;DR" },
+      { field: "keyTakeaways", heading: "Key Takeaways" },
+    ],
+  },
+  brief: {
+    label: "Bullet brief",
+    description: "Five to eight one-sentence bullets in video order",
+    task: "a bullet-point brief",
+    structure: `{
+  "keyTakeaways": [
+    { "text": "First point in one sentence", "timestamps": ["00:45"] },
+    { "text": "Second point in one sentence", "timestamps": ["03:10"] },
+    { "text": "Third point in one sentence", "timestamps": ["06:25"] }
+  ]
+}`,
+    instructions: [
+      "List 5 to 8 bullet points covering the main points in the order they appear",
+      "Keep each bullet to one sentence",
+    ],
+    sections: ["keyTakeaways"],
+    extras: [],
+    layout: [{ field: "keyTakeaways", heading: "Brief" }],
+  },
+  detailed: {
+    label: "Detailed notes",
+    description: "Key takeaways, quotes, examples and detailed topic notes",
+    task: "a comprehensive summary",
+    structure: `{
+  "keyTakeaways": [
+    { "text": "First key takeaway - be very specific and detailed with full context", "timestamps": ["02:15"] },
+    { "text": "Second key takeaway - be very specific and detailed with full context", "timestamps": ["05:40", "06:10"] },
+    { "text": "Third key takeaway - be very specific and detailed with full context", "timestamps": ["11:02"] }
+  ],
+  "quotes": [
+    { "text": "First memorable quote from the transcript", "timestamps": ["03:12"] },
+    { "text": "Second memorable quote from the transcript", "timestamps": ["08:47"] },
+    { "text": "Third memorable quote from the transcript", "timestamps": ["14:05"] }
+  ],
+  "examples": [
+    { "text": "First example or case study mentioned with full description", "timestamps": ["04:20"] },
+    { "text": "Second example or case study mentioned with full description", "timestamps": ["09:33"] },
+    { "text": "Third example or case study mentioned with full description", "timestamps": ["12:58"] }
+  ],
+  "detailedNotes": [
+    {
+      "title": "Topic or Section Title",
+      "content": "Detailed explanation of this topic with full context and key details",
+      "timestamps": ["00:45", "01:30"]
+    }
+  ]
+}`,
+    instructions: [
+      "Extract exactly 3 key takeaways (most important insights)",
+      "Extract exactly 3 memorable quotes (actual quotes from the transcript)",
+      "Extract exactly 3 examples (case studies, projects, or specific examples mentioned)",
+      "Create multiple detailed notes covering all major topics (as many as needed)",
+      "Make each item detailed and comprehensive",
+    ],
+    sections: ["keyTakeaways", "quotes", "examples", "detailedNotes"],
+    extras: [],
+    layout: [], // Uses the legacy section format
+  },
+  study: {
+    label: "Study guide",
+    description: "Key concepts, study notes, examples and review questions",
+    task: "a study guide",
+    structure: `{
+  "overview": "A short paragraph on what the video teaches",
+  "keyTakeaways": [
+    { "text": "Key concept or term - a one-line definition", "timestamps": ["02:15"] }
+  ],
+  "detailedNotes": [
+    {
+      "title": "Topic",
+      "content": "Explanation written for someone learning this for the first time",
+      "timestamps": ["00:45", "01:30"]
+    }
+  ],
+  "examples": [
+    { "text": "Worked example or illustration used in the video", "timestamps": ["04:20"] }
+  ],
+  "reviewQuestions": ["A question that checks understanding of a key concept"]
+}`,
+    instructions: [
+      "Write the overview as one short paragraph",
+      "List every key concept or term with a one-line definition",
+      "Create study notes for each major topic, explaining it step by step",
+      "Include the examples the video uses to illustrate the concepts",
+      "Write 5 review questions that test understanding rather than trivia",
+    ],
+    sections: ["keyTakeaways", "examples", "detailedNotes"],
+    extras: ["overview", "reviewQuestions"],
+    layout: [
+      { field: "overview", heading: "Overview" },
+      { field: "keyTakeaways", heading: "Key Concepts" },
+      { field: "detailedNotes", heading: "Study Notes" },
+      { field: "examples", heading: "Examples" },
+      { field: "reviewQuestions", heading: "Review Questions" },
+    ],
+  },
+  executive: {
+    label: "Executive memo",
+    description: "Bottom line, key points, recommendations and risks",
+    task: "an executive memo",
+    structure: `{
+  "overview": "The bottom line in two or three sentences",
+  "keyTakeaways": [
+    { "text": "Key point a decision maker needs to know", "timestamps": ["02:15"] }
+  ],
+  "recommendations": ["A concrete action or next step to consider"],
+  "risks": ["A risk, caveat or open question raised in the video"]
+}`,
+    instructions: [
+      "Lead with the bottom line in the overview",
+      "List 3 to 5 key points a decision maker needs to know",
+      "List concrete recommendations or next steps",
+      "List risks, caveats and open questions",
+      "Write plainly and concisely, without jargon",
+    ],
+    sections: ["keyTakeaways"],
+    extras: ["overview", "recommendations", "risks"],
+    layout: [
+      { field: "overview", heading: "Bottom Line" },
+      { field: "keyTakeaways", heading: "Key Points" },
+      { field: "recommendations", heading: "Recommendations" },
+      { field: "risks", heading: "Risks and Open Questions" },
+    ],
+  },
+};
+
+// Stored or requested values that are not a known mode fall back to the default
+export const toSummaryMode = (value: unknown): SummaryMode =>
+  SUMMARY_MODES.includes(value as SummaryMode)
+    ? (value as SummaryMode)
+    : DEFAULT_SUMMARY_MODE;
+
+// JSON the model must return: the mode's structure plus topical tags
+export const formatModeStructure = (mode: SummaryMode): string =>
+  SUMMARY_MODE_DEFINITIONS[mode].structure.replace(
+    /\n}$/,
+    ',\n  "chapters": [\n    { "title": "Chapter title", "start": "00:00", "summary": "What this part of the video covers" }\n  ],\n  "tags": ["specific-topic", "another-topic", "broader-field"]\n}'
+  );
+
+// Numbered prompt instructions for summarizing the transcript itself
+// or the merged notes of a chunked transcript
+export const formatModeInstructions = (
+  mode: SummaryMode,
+  source: "transcript" | "chunks",
+  language: string
+): string => {
+  const definition = SUMMARY_MODE_DEFINITIONS[mode];
+  const hasQuotes = definition.sections.includes("quotes");
+
+  // Quotes are matched against the transcript, so they are never translated
+  const languageInstruction = hasQuotes
+    ? `Write all text in ${languageName(language)}, except quotes, which stay in the language of the transcript`
+    : `Write all text in ${languageName(language)}`;
+
+  const chapterInstruction =
+    source === "transcript"
+      ? 'Split the video into 2 to 12 chapters in "chapters", in order, starting a new chapter where the topic changes; "start" is the [timestamp] of the chapter\'s first transcript line, exactly as written, and "summary" is one sentence on what the chapter covers'
+      : 'Build "chapters" from the chapters of the parts, in order: join adjacent chapters on the same topic (keeping the start of the first), aiming for 2 to 12 chapters, and keep their start timestamps exactly';
+
+  const closing =
+    source === "transcript"
+      ? [
+          'For every item, list in "timestamps" the [timestamp] of the 1-3 transcript lines it comes from, exactly as written in the transcript',
+          ...(hasQuotes
+            ? ["Copy quotes word for word from the transcript"]
+            : []),
+        ]
+      : [
+          hasQuotes
+            ? "Keep the timestamps from the parts for every item; quotes must stay word for word"
+            : "Keep the timestamps from the parts for every item",
+        ];
+
+  return [
+    ...definition.instructions,
+    chapterInstruction,
+    `List 3 to ${MAX_TAGS} topical tags in "tags": lowercase, hyphenated, about the subject of the video rather than its format (e.g. "machine-learning", not "tutorial"), written in English`,
+    languageInstruction,
+    ...closing,
+    "Return ONLY valid JSON, no additional text",
+  ]
+    .map((instruction, index) => `${index + 1}. ${instruction}`)
+    .join("\n");
+};
+
+// Keep only the mode-specific fields the mode defines
+export const normalizeModeContent = (
+  mode: SummaryMode,
+  value: any
+): SummaryModeContent => {
+  const content: SummaryModeContent = {};
+
+  for (const field of SUMMARY_MODE_DEFINITIONS[mode].extras) {
+    if (field === "overview") {
+      const overview = toItemText(value?.overview);
+      if (overview) {
+        content.overview = overview.trim();
+      }
+    } else if (Array.isArray(value?.[field])) {
+      content[field] = value[field]
+        .map(toItemText)
+        .filter((item: string | null): item is string => item !== null);
+    }
+  }
+
+  return content;
+};
+
+// Flatten a mode's output into the fullSummary text
+export const formatModeSummary = (
+  mode: SummaryMode,
+  sections: SummarySections,
+  content: SummaryModeContent
+): string => {
+  if (mode === "detailed") {
+    return formatSummarySections(sections);
+  }
+
+  const lines = (field: SummaryModeField): string[] => {
+    switch (field) {
+      case "overview":
+        return content.overview ? [content.overview] : [];
+      case "detailedNotes":
+        return sections.detailedNotes.map(
+          (note) => `- ${note.title}: ${note.content}`
+        );
+      case "keyTakeaways":
+      case "quotes":
+      case "examples":
+        return sections[field].map((item) => `- ${item}`);
+      default:
+        return (content[field] ?? []).map((item) => `- ${item}`);
+    }
+  };
+
+  return SUMMARY_MODE_DEFINITIONS[mode].layout
+    .map(({ field, heading }) => ({ heading, body: lines(field) }))
+    .filter(({ body }) => body.length > 0)
+    .map(({ heading, body }) => `${heading}\n${body.join("\n")}`)
+    .join("\n\n");
+};
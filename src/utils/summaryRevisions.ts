@@ -0,0 +1,109 @@
+import { Summary, SummaryTranslation } from "@prisma/client";
+import { SummaryRevisionContent, SummaryRevisionFieldDiff } from "../types";
+
+// Fields compared between revisions, in display order
+const REVISION_FIELDS: (keyof SummaryRevisionContent)[] = [
+  "title",
+  "keyPoints",
+  "fullSummary",
+  "keyTakeaways",
+  "quotes",
+  "examples",
+  "detailedNotes",
+  "citations",
+  "chapters",
+  "mode",
+  "modeContent",
+  "language",
+  "promptVersion",
+];
+
+// Lists of plain text, diffed item by item
+const TEXT_LIST_FIELDS = new Set<keyof SummaryRevisionContent>([
+  "keyPoints",
+  "keyTakeaways",
+  "quotes",
+  "examples",
+]);
+
+// Snapshot of the content of a saved summary. Tags are left out as they
+// are organized through the tag vocabulary rather than edited as content.
+export const summaryRevisionContent = (
+  summary: Summary
+): SummaryRevisionContent => ({
+  title: summary.title,
+  keyPoints: summary.keyPoints,
+  fullSummary: summary.fullSummary,
+  keyTakeaways: summary.keyTakeaways,
+  quotes: summary.quotes,
+  examples: summary.examples,
+  detailedNotes:
+    summary.detailedNotes as unknown as SummaryRevisionContent["detailedNotes"],
+  citations:
+    summary.citations as unknown as SummaryRevisionContent["citations"],
+  chapters: summary.chapters as unknown as SummaryRevisionContent["chapters"],
+  modeContent:
+    summary.modeContent as unknown as SummaryRevisionContent["modeContent"],
+  mode: summary.mode as SummaryRevisionContent["mode"],
+  language: summary.language,
+  promptVersion: summary.promptVersion,
+});
+
+export const translationRevisionContent = (
+  translation: SummaryTranslation
+): SummaryRevisionContent => ({
+  title: translation.title,
+  keyPoints: translation.keyPoints,
+  fullSummary: translation.fullSummary,
+  keyTakeaways: translation.keyTakeaways,
+  quotes: translation.quotes,
+  examples: translation.examples,
+  detailedNotes:
+    translation.detailedNotes as unknown as SummaryRevisionContent["detailedNotes"],
+  citations:
+    translation.citations as unknown as SummaryRevisionContent["citations"],
+  chapters:
+    translation.chapters as unknown as SummaryRevisionContent["chapters"],
+  modeContent:
+    translation.modeContent as unknown as SummaryRevisionContent["modeContent"],
+  language: translation.language,
+});
+
+// Stable JSON for comparing values regardless of object key order
+const canonical = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]])
+        )
+      : item
+  );
+
+/**
+ * Field-level differences between two revisions. Lists of plain text also
+ * report the items added and removed.
+ */
+export const diffRevisionContent = (
+  before: SummaryRevisionContent,
+  after: SummaryRevisionContent
+): SummaryRevisionFieldDiff[] =>
+  REVISION_FIELDS.filter(
+    (field) => canonical(before[field]) !== canonical(after[field])
+  ).map((field) => {
+    const change: SummaryRevisionFieldDiff = {
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    };
+
+    if (TEXT_LIST_FIELDS.has(field)) {
+      const beforeItems = (before[field] as string[] | undefined) ?? [];
+      const afterItems = (after[field] as string[] | undefined) ?? [];
+      change.added = afterItems.filter((item) => !beforeItems.includes(item));
+      change.removed = beforeItems.filter((item) => !afterItems.includes(item));
+    }
+
+    return change;
+  });
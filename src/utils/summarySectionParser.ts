@@ -0,0 +1,127 @@
+import {
+  SummarySectionEvent,
+  SummarySectionItem,
+  SummarySectionName,
+} from "../types";
+
+const SUMMARY_SECTIONS: SummarySectionName[] = [
+  "keyTakeaways",
+  "quotes",
+  "examples",
+  "detailedNotes",
+];
+
+/**
+ * Incrementally scans a streamed JSON summary and emits each array item of
+ * the known summary sections as soon as the item is complete.
+ *
+ * Only tracks enough JSON structure (strings, nesting depth, top-level keys)
+ * to find item boundaries; each complete item is then handed to JSON.parse.
+ */
+export class SummarySectionStreamParser {
+  private buffer = "";
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  // Top-level key tracking
+  private stringStart = -1;
+  private lastTopLevelString: string | null = null;
+  private currentSection: SummarySectionName | null = null;
+
+  // Array item tracking
+  private itemStart = -1;
+  private itemIndex = 0;
+
+  constructor(private onSection: (event: SummarySectionEvent) => void) {}
+
+  write(delta: string): void {
+    this.buffer += delta;
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.stringStart >= 0) {
+            this.lastTopLevelString = this.buffer.slice(
+              this.stringStart,
+              this.position
+            );
+          }
+        }
+        continue;
+      }
+
+      // Inside a section array, any non-separator character starts an item
+      if (
+        this.currentSection &&
+        this.depth === 2 &&
+        this.itemStart < 0 &&
+        !/[\s,\]]/.test(char)
+      ) {
+        this.itemStart = this.position;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position + 1;
+          break;
+        case "{":
+        case "[":
+          if (this.depth === 1 && char === "[") {
+            this.currentSection = this.toSection(this.lastTopLevelString);
+            this.itemIndex = 0;
+            this.itemStart = -1;
+          }
+          this.depth++;
+          break;
+        case "}":
+        case "]":
+          if (this.depth === 2 && char === "]") {
+            this.flushItem();
+            this.currentSection = null;
+          }
+          this.depth--;
+          break;
+        case ",":
+          if (this.depth === 2) {
+            this.flushItem();
+          }
+          break;
+      }
+    }
+  }
+
+  // Emit the item that just ended at the current position
+  private flushItem(): void {
+    if (!this.currentSection || this.itemStart < 0) {
+      return;
+    }
+
+    const raw = this.buffer.slice(this.itemStart, this.position).trim();
+    this.itemStart = -1;
+
+    try {
+      const item = JSON.parse(raw) as SummarySectionItem;
+      this.onSection({
+        section: this.currentSection,
+        index: this.itemIndex++,
+        item,
+      });
+    } catch {
+      // Malformed item - the final parse of the full response will handle it
+    }
+  }
+
+  private toSection(key: string | null): SummarySectionName | null {
+    return SUMMARY_SECTIONS.find((section) => section === key) ?? null;
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  SummaryCitation,
+  SummaryNote,
+  SummarySectionCitations,
+  SummarySectionName,
+  SummarySections,
+} from "../types";
+
+export const SUMMARY_SECTION_NAMES: SummarySectionName[] = [
+  "keyTakeaways",
+  "quotes",
+  "examples",
+  "detailedNotes",
+];
+
+// Items come back from the model either as plain strings or as { text, timestamps }
+export const toItemText = (value: any): string | null => {
+  const text = typeof value === "string" ? value : value?.text;
+  return typeof text === "string" && text.trim() !== "" ? text : null;
+};
+
+export const toNote = (value: any): SummaryNote | null =>
+  value &&
+  typeof value === "object" &&
+  typeof value.title === "string" &&
+  typeof value.content === "string"
+    ? { title: value.title, content: value.content }
+    : null;
+
+const toCitation = (value: any): SummaryCitation | null =>
+  value &&
+  typeof value.timestamp === "string" &&
+  typeof value.startSeconds === "number"
+    ? {
+        timestamp: value.timestamp,
+        startSeconds: value.startSeconds,
+        ...(typeof value.endSeconds === "number" && {
+          endSeconds: value.endSeconds,
+        }),
+      }
+    : null;
+
+// Align stored citations with the items of each section
+const normalizeCitations = (
+  value: any,
+  sections: Omit<SummarySections, "citations">
+): SummarySectionCitations => {
+  const citations = {} as SummarySectionCitations;
+
+  for (const section of SUMMARY_SECTION_NAMES) {
+    const stored = Array.isArray(value?.[section]) ? value[section] : [];
+
+    citations[section] = sections[section].map((_, index) =>
+      Array.isArray(stored[index])
+        ? stored[index]
+            .map(toCitation)
+            .filter((c: SummaryCitation | null): c is SummaryCitation => !!c)
+        : []
+    );
+  }
+
+  return citations;
+};
+
+// Coerce stored JSON or request bodies into well-formed sections
+export const normalizeSummarySections = (value: any): SummarySections => {
+  const toList = <T>(items: any, map: (item: any) => T | null): T[] =>
+    Array.isArray(items)
+      ? items.map(map).filter((item): item is T => item !== null)
+      : [];
+
+  const sections = {
+    keyTakeaways: toList(value?.keyTakeaways, toItemText),
+    quotes: toList(value?.quotes, toItemText),
+    examples: toList(value?.examples, toItemText),
+    detailedNotes: toList(value?.detailedNotes, toNote),
+  };
+
+  return {
+    ...sections,
+    citations: normalizeCitations(value?.citations, sections),
+  };
+};
+
+// Flatten sections into the legacy fullSummary text
+export const formatSummarySections = (sections: SummarySections): string => {
+  let fullSummary = "";
+
+  // Add Top 3 Key Takeaways
+  if (sections.keyTakeaways.length > 0) {
+    fullSummary += "Top 3 Key Takeaways\n";
+    sections.keyTakeaways.forEach((item) => {
+      fullSummary += `- ${item}\n`;
+    });
+    fullSummary += "\n";
+  }
+
+  // Add Top 3 Memorable Quotes
+  if (sections.quotes.length > 0) {
+    fullSummary += "Top 3 Memorable Quotes\n";
+    sections.quotes.forEach((item) => {
+      fullSummary += `- ${item}\n`;
+    });
+    fullSummary += "\n";
+  }
+
+  // Add Top 3 Examples
+  if (sections.examples.length > 0) {
+    fullSummary += "Top 3 Examples\n";
+    sections.examples.forEach((item) => {
+      fullSummary += `- ${item}\n`;
+    });
+    fullSummary += "\n";
+  }
+
+  // Add Detailed Note of All Key Points
+  if (sections.detailedNotes.length > 0) {
+    fullSummary += "Detailed Note of All Key Points\n";
+    sections.detailedNotes.forEach((note) => {
+      fullSummary += `- ${note.title}: ${note.content}\n`;
+    });
+  }
+
+  return fullSummary.trim();
+};
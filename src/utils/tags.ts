@@ -0,0 +1,66 @@
+export const MAX_TAGS = 5; // Tags proposed by the model per item
+export const MAX_TAG_LENGTH = 40;
+
+// Lowercase, hyphen-separated form tags are stored in, e.g. "Machine Learning" → "machine-learning"
+export const normalizeTag = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const tag = value
+    .toLowerCase()
+    .replace(/^#/, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}-]/gu, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+
+  return tag || null;
+};
+
+// Normalize a list of tags, dropping invalid entries and duplicates
+export const normalizeTags = (values: unknown, max?: number): string[] => {
+  const tags = Array.isArray(values) ? values : [];
+  const normalized = [
+    ...new Set(
+      tags
+        .map(normalizeTag)
+        .filter((tag: string | null): tag is string => tag !== null)
+    ),
+  ];
+
+  return max === undefined ? normalized : normalized.slice(0, max);
+};
+
+// Tags from a comma-separated query parameter, e.g. "?tags=ai,startups"
+export const parseTagList = (value: unknown): string[] | undefined => {
+  const tags = normalizeTags(
+    typeof value === "string" ? value.split(",") : undefined
+  );
+  return tags.length > 0 ? tags : undefined;
+};
+
+// Singular form used to match "podcasts" to an existing "podcast" tag
+const tagStem = (tag: string): string =>
+  tag
+    .split("-")
+    .map((word) =>
+      word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word
+    )
+    .join("-");
+
+/**
+ * Replace proposed tags with the user's existing spelling of the same tag,
+ * so model output does not fragment the vocabulary
+ */
+export const matchVocabulary = (
+  proposed: string[],
+  vocabulary: string[]
+): string[] => {
+  const byStem = new Map(vocabulary.map((tag) => [tagStem(tag), tag]));
+
+  return [...new Set(proposed.map((tag) => byStem.get(tagStem(tag)) ?? tag))];
+};
@@ -0,0 +1,59 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from "js-tiktoken";
+import { LLMMessage } from "../types";
+
+// Chat formatting overhead per message and for priming the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+// Older OpenAI models use cl100k; newer ones (and the closest match for
+// non-OpenAI models, whose tokenizers are not bundled) use o200k
+const encodingNameForModel = (model?: string): TiktokenEncoding =>
+  model && /^(gpt-4(?!o|\.)|gpt-3\.5)/.test(model)
+    ? "cl100k_base"
+    : "o200k_base";
+
+// BPE tables are bundled with js-tiktoken and loaded on first use
+const encodingForModel = (model?: string): Tiktoken => {
+  const name = encodingNameForModel(model);
+  let encoding = encodings.get(name);
+
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+
+  return encoding;
+};
+
+export const countTokens = (text: string, model?: string): number =>
+  text ? encodingForModel(model).encode(text, "all").length : 0;
+
+// Count the tokens a chat request consumes, including message framing
+export const countChatTokens = (
+  messages: LLMMessage[],
+  model?: string
+): number =>
+  messages.reduce(
+    (total, message) =>
+      total +
+      TOKENS_PER_MESSAGE +
+      countTokens(message.role, model) +
+      countTokens(message.content, model),
+    TOKENS_PER_REPLY
+  );
+
+// Cut text down to at most maxTokens tokens
+export const truncateToTokens = (
+  text: string,
+  maxTokens: number,
+  model?: string
+): string => {
+  const encoding = encodingForModel(model);
+  const tokens = encoding.encode(text, "all");
+
+  return tokens.length > maxTokens
+    ? encoding.decode(tokens.slice(0, maxTokens))
+    : text;
+};
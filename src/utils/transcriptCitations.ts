@@ -0,0 +1,304 @@
+import {
+  SummaryChapter,
+  SummaryCitation,
+  SummaryNote,
+  SummarySectionCitations,
+  SummarySectionItem,
+  SummarySectionName,
+  SummarySections,
+  TranscriptSegment,
+} from "../types";
+import { SUMMARY_SECTION_NAMES, toItemText, toNote } from "./summarySections";
+import {
+  MAX_CHAPTERS,
+  MAX_CHAPTER_SUMMARY_LENGTH,
+  MAX_CHAPTER_TITLE_LENGTH,
+} from "./chapters";
+
+const MAX_CITATIONS_PER_ITEM = 3;
+
+// Parse "12:34", "1:02:03" or "[12:34]" into seconds
+export const parseTimestamp = (value: string): number | null => {
+  const parts = value.replace(/[[\]()\s]/g, "").split(":");
+  if (parts.length < 2 || parts.length > 3) {
+    return null;
+  }
+
+  const numbers = parts.map(Number);
+  if (numbers.some((n) => !Number.isFinite(n) || n < 0)) {
+    return null;
+  }
+
+  return numbers.reduce((total, n) => total * 60 + n, 0);
+};
+
+// Lowercase, strip punctuation and collapse whitespace for verbatim matching
+const normalizeForMatch = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Validates model-reported timestamps and locates quotes against the
+ * transcript that was actually submitted
+ */
+export class TranscriptCitationResolver {
+  private starts: (number | null)[];
+  private ends: (number | null)[];
+  private labels: (number | null)[]; // The [m:ss] labels the model sees, in seconds
+  private normalizedText = "";
+  private segmentOffsets: number[] = []; // Start offset of each segment in normalizedText
+
+  constructor(private transcript: TranscriptSegment[]) {
+    this.starts = transcript.map(
+      (segment) => segment.startSeconds ?? parseTimestamp(segment.timestamp)
+    );
+    this.ends = transcript.map(
+      (segment, i) => segment.endSeconds ?? this.starts[i + 1] ?? null
+    );
+    this.labels = transcript.map((segment) =>
+      parseTimestamp(segment.timestamp)
+    );
+
+    for (const segment of transcript) {
+      this.segmentOffsets.push(this.normalizedText.length);
+      this.normalizedText += normalizeForMatch(segment.text) + " ";
+    }
+  }
+
+  // Keep only timestamps that fall on a submitted segment
+  fromTimestamps(timestamps: unknown): SummaryCitation[] {
+    const values = Array.isArray(timestamps) ? timestamps : [timestamps];
+    const segmentIndexes = new Set<number>();
+
+    for (const value of values) {
+      if (typeof value !== "string") {
+        continue;
+      }
+
+      const seconds = parseTimestamp(value);
+      const index = seconds === null ? -1 : this.findSegment(seconds);
+
+      if (index >= 0) {
+        segmentIndexes.add(index);
+      }
+    }
+
+    return [...segmentIndexes]
+      .sort((a, b) => a - b)
+      .slice(0, MAX_CITATIONS_PER_ITEM)
+      .map((index) => this.citation(index, index));
+  }
+
+  // Find a quote verbatim in the transcript (ignoring case and punctuation)
+  locateQuote(quote: string): SummaryCitation | null {
+    const needle = normalizeForMatch(quote.replace(/^["'“]+|["'”]+$/g, ""));
+    if (!needle) {
+      return null;
+    }
+
+    const offset = this.normalizedText.indexOf(needle);
+    if (offset < 0) {
+      return null;
+    }
+
+    return this.citation(
+      this.segmentAt(offset),
+      this.segmentAt(offset + needle.length - 1)
+    );
+  }
+
+  // Validate inline [12:34] markers in free text. Markers that fall on no
+  // submitted segment are removed from the text.
+  resolveInline(text: string): { text: string; citations: SummaryCitation[] } {
+    const segmentIndexes = new Set<number>();
+
+    const cleaned = text.replace(
+      /\s*\[(\d{1,2}(?::\d{2}){1,2})\]/g,
+      (marker, value) => {
+        const seconds = parseTimestamp(value);
+        const index = seconds === null ? -1 : this.findSegment(seconds);
+        if (index < 0) {
+          return "";
+        }
+
+        segmentIndexes.add(index);
+        return marker;
+      }
+    );
+
+    return {
+      text: cleaned.trim(),
+      citations: [...segmentIndexes]
+        .sort((a, b) => a - b)
+        .map((index) => this.citation(index, index)),
+    };
+  }
+
+  // Resolve one raw model item into its display form and citations.
+  // Returns null for malformed items and quotes that are not in the transcript.
+  resolveItem(
+    section: SummarySectionName,
+    raw: any
+  ): { item: SummarySectionItem; citations: SummaryCitation[] } | null {
+    if (section === "detailedNotes") {
+      const note = toNote(raw);
+      return note
+        ? { item: note, citations: this.fromTimestamps(raw.timestamps) }
+        : null;
+    }
+
+    const text = toItemText(raw);
+    if (!text) {
+      return null;
+    }
+
+    if (section === "quotes") {
+      const citation = this.locateQuote(text);
+      return citation ? { item: text, citations: [citation] } : null;
+    }
+
+    return { item: text, citations: this.fromTimestamps(raw?.timestamps) };
+  }
+
+  // Resolve all sections of a model response
+  resolveSections(raw: any): SummarySections {
+    const resolved = {} as Record<
+      SummarySectionName,
+      { item: SummarySectionItem; citations: SummaryCitation[] }[]
+    >;
+
+    for (const section of SUMMARY_SECTION_NAMES) {
+      const items: unknown[] = Array.isArray(raw?.[section])
+        ? raw[section]
+        : [];
+      resolved[section] = items
+        .map((item) => this.resolveItem(section, item))
+        .filter((item) => item !== null);
+    }
+
+    const citations = {} as SummarySectionCitations;
+    for (const section of SUMMARY_SECTION_NAMES) {
+      citations[section] = resolved[section].map((item) => item.citations);
+    }
+
+    return {
+      keyTakeaways: resolved.keyTakeaways.map((r) => r.item as string),
+      quotes: resolved.quotes.map((r) => r.item as string),
+      examples: resolved.examples.map((r) => r.item as string),
+      detailedNotes: resolved.detailedNotes.map((r) => r.item as SummaryNote),
+      citations,
+    };
+  }
+
+  // Turn model chapters into time ranges. Chapters must start on a submitted
+  // segment; each one runs until the next, and the first is extended back to
+  // the start of the video so the chapters cover all of it.
+  resolveChapters(raw: unknown): SummaryChapter[] {
+    const firstTimed = this.starts.findIndex((start) => start !== null);
+    if (firstTimed < 0) {
+      return [];
+    }
+
+    const chapters = new Map<number, { title: string; summary: string }>();
+
+    for (const item of Array.isArray(raw) ? raw : []) {
+      const title =
+        typeof item?.title === "string"
+          ? item.title.trim().slice(0, MAX_CHAPTER_TITLE_LENGTH)
+          : "";
+      const seconds =
+        typeof item?.start === "string" ? parseTimestamp(item.start) : null;
+      const index = seconds === null ? -1 : this.findSegment(seconds);
+
+      if (!title || index < 0 || chapters.has(index)) {
+        continue;
+      }
+
+      chapters.set(index, {
+        title,
+        summary:
+          typeof item.summary === "string"
+            ? item.summary.trim().slice(0, MAX_CHAPTER_SUMMARY_LENGTH)
+            : "",
+      });
+    }
+
+    const indexes = [...chapters.keys()]
+      .sort((a, b) => a - b)
+      .slice(0, MAX_CHAPTERS);
+
+    let lastTimed = this.starts.length - 1;
+    while (this.starts[lastTimed] === null) {
+      lastTimed--;
+    }
+    const videoEnd = this.ends[lastTimed] ?? this.starts[lastTimed] ?? 0;
+
+    return indexes.map((index, i) => {
+      const startIndex = i === 0 ? firstTimed : index;
+      const startSeconds = this.starts[startIndex] ?? 0;
+      const next = indexes[i + 1];
+
+      return {
+        ...chapters.get(index)!,
+        timestamp: this.transcript[startIndex].timestamp,
+        startSeconds,
+        endSeconds:
+          next !== undefined
+            ? (this.starts[next] ?? startSeconds)
+            : Math.max(videoEnd, startSeconds),
+      };
+    });
+  }
+
+  // Cited times are whole seconds, as in the segment labels, while segment
+  // starts are usually fractional: match a label first, then a segment whose
+  // floored start the time falls into
+  private findSegment(seconds: number): number {
+    const labelled = this.labels.findIndex(
+      (label, i) => label === seconds && this.starts[i] !== null
+    );
+    if (labelled >= 0) {
+      return labelled;
+    }
+
+    for (let i = 0; i < this.transcript.length; i++) {
+      const start = this.starts[i];
+      if (start === null) {
+        continue;
+      }
+
+      const end = this.ends[i];
+      if (
+        seconds === Math.floor(start) ||
+        (end !== null && seconds > start && seconds < end)
+      ) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private segmentAt(offset: number): number {
+    let index = 0;
+    while (
+      index + 1 < this.segmentOffsets.length &&
+      this.segmentOffsets[index + 1] <= offset
+    ) {
+      index++;
+    }
+    return index;
+  }
+
+  private citation(firstIndex: number, lastIndex: number): SummaryCitation {
+    const end = this.ends[lastIndex];
+    return {
+      timestamp: this.transcript[firstIndex].timestamp,
+      startSeconds: this.starts[firstIndex] ?? 0,
+      ...(end !== null && { endSeconds: end }),
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { TranscriptCleanupStats, TranscriptSegment } from "../types";
+import { countTokens } from "./tokenizer";
+import { parseTimestamp } from "./transcriptCitations";
+
+// Rolling captions repeat the end of the previous line; shorter overlaps
+// are too likely to be a real repetition
+const MIN_OVERLAP_WORDS = 2;
+const MAX_OVERLAP_WORDS = 50;
+
+// Limits for the segments fragments are regrouped into
+const MAX_SEGMENT_WORDS = 40;
+const MAX_SEGMENT_SECONDS = 30;
+const PAUSE_SECONDS = 3; // A longer gap between captions ends a sentence
+
+// Sound and caption markers such as [Music], (applause), ♪ lyrics ♪, the
+// [ __ ] YouTube puts in place of profanity and >> speaker changes
+const NOISE_TAGS = [
+  /\[\s*\p{L}[\p{L}\s'’-]{0,30}\]/gu,
+  /\[\s*_+\s*\]/g,
+  /\(\s*(?:music|applause|laughter|laughs|laughing|inaudible|silence|cheering|crosstalk|coughs?|sighs?)\s*\)/gi,
+  /♪[^♪]*♪/g,
+  /[♪♫]+/g,
+  /(?<!\S)>>+(?!\S)/g,
+];
+
+// English hesitation sounds; other languages use some of these as words
+const FILLER_WORDS =
+  /(?<![\p{L}'-])(?:u+m+|u+h+|e+r+m+|h+m+|mhm|m{2,})(?![\p{L}'-]),?/giu;
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+interface CleanupOptions {
+  removeFillers: boolean; // Only safe for English transcripts
+  model?: string; // Tokenizer used for the stats
+}
+
+// Transcript lines as sent to the model
+export const formatTranscriptLines = (
+  transcript: TranscriptSegment[]
+): string =>
+  transcript
+    .map((segment) => `[${segment.timestamp}] ${segment.text}`)
+    .join("\n");
+
+const collapseWhitespace = (text: string): string =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;:!?…])/g, "$1")
+    .replace(/^[,;:]\s*/, "")
+    .trim();
+
+const toWord = (token: string): string =>
+  token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+// Words at the start of a caption that repeat the end of the previous one
+const overlapLength = (previous: string[], current: string[]): number => {
+  const max = Math.min(previous.length, current.length, MAX_OVERLAP_WORDS);
+
+  for (let length = max; length > 0; length--) {
+    const wholeRepeat = length === current.length && length === previous.length;
+    if (length < MIN_OVERLAP_WORDS && !wholeRepeat) {
+      return 0;
+    }
+
+    const tail = previous.slice(-length);
+    if (current.slice(0, length).every((word, i) => word && word === tail[i])) {
+      return length;
+    }
+  }
+
+  return 0;
+};
+
+const startOf = (segment: TranscriptSegment): number | null =>
+  segment.startSeconds ?? parseTimestamp(segment.timestamp);
+
+const endOf = (segment: TranscriptSegment): number | null =>
+  segment.endSeconds ?? startOf(segment);
+
+// Join caption fragments into sentence-sized segments. A segment ends at
+// sentence punctuation, a pause, or once it reaches the word or time limit.
+const regroupSentences = (
+  transcript: TranscriptSegment[]
+): TranscriptSegment[] => {
+  const grouped: TranscriptSegment[] = [];
+  let last: TranscriptSegment | null = null; // Latest fragment joined
+
+  for (const segment of transcript) {
+    const current = grouped[grouped.length - 1];
+
+    if (current && last) {
+      const start = startOf(current);
+      const previousEnd = endOf(last);
+      const next = startOf(segment);
+      const ended =
+        SENTENCE_END.test(current.text) ||
+        current.text.split(" ").length >= MAX_SEGMENT_WORDS ||
+        (start !== null &&
+          next !== null &&
+          next - start >= MAX_SEGMENT_SECONDS) ||
+        (previousEnd !== null &&
+          next !== null &&
+          next - previousEnd > PAUSE_SECONDS);
+
+      if (!ended) {
+        grouped[grouped.length - 1] = {
+          timestamp: current.timestamp,
+          text: `${current.text} ${segment.text}`,
+          ...(current.startSeconds !== undefined && {
+            startSeconds: current.startSeconds,
+          }),
+          ...(segment.endSeconds !== undefined && {
+            endSeconds: segment.endSeconds,
+          }),
+        };
+        last = segment;
+        continue;
+      }
+    }
+
+    grouped.push({ ...segment });
+    last = segment;
+  }
+
+  return grouped;
+};
+
+/**
+ * Deterministic cleanup of caption text before it is sent to the model:
+ * noise tags (and, for English, filler words) are removed, lines repeated
+ * by rolling captions are de-duplicated, fragments are regrouped into
+ * sentences and whitespace is collapsed. Segment start times are kept, so
+ * citations still point at the right moment.
+ */
+export const cleanTranscript = (
+  transcript: TranscriptSegment[],
+  options: CleanupOptions
+): { transcript: TranscriptSegment[]; stats: TranscriptCleanupStats } => {
+  let noiseTagsRemoved = 0;
+  let fillerWordsRemoved = 0;
+  let duplicateWordsRemoved = 0;
+
+  const stripped = transcript.map((segment) => {
+    let text = segment.text;
+
+    for (const pattern of NOISE_TAGS) {
+      text = text.replace(pattern, () => {
+        noiseTagsRemoved++;
+        return " ";
+      });
+    }
+
+    if (options.removeFillers) {
+      text = text.replace(FILLER_WORDS, () => {
+        fillerWordsRemoved++;
+        return " ";
+      });
+    }
+
+    return { ...segment, text: collapseWhitespace(text) };
+  });
+
+  const deduplicated: TranscriptSegment[] = [];
+  let previousWords: string[] = [];
+
+  for (const segment of stripped) {
+    const tokens = segment.text ? segment.text.split(" ") : [];
+    const words = tokens.map(toWord);
+    const overlap = overlapLength(previousWords, words);
+    const text = tokens.slice(overlap).join(" ");
+
+    duplicateWordsRemoved += overlap;
+    if (words.length > 0) {
+      previousWords = words;
+    }
+
+    if (text) {
+      deduplicated.push({ ...segment, text });
+    } else if (deduplicated.length > 0 && segment.endSeconds !== undefined) {
+      // The previous caption stays on screen for the dropped one's time
+      const previous = deduplicated[deduplicated.length - 1];
+      previous.endSeconds = Math.max(
+        previous.endSeconds ?? 0,
+        segment.endSeconds
+      );
+    }
+  }
+
+  const cleaned = regroupSentences(deduplicated).map((segment) => ({
+    ...segment,
+    text: collapseWhitespace(segment.text),
+  }));
+
+  const tokensBefore = countTokens(
+    formatTranscriptLines(transcript),
+    options.model
+  );
+  const tokensAfter = countTokens(
+    formatTranscriptLines(cleaned),
+    options.model
+  );
+
+  return {
+    transcript: cleaned,
+    stats: {
+      segmentsBefore: transcript.length,
+      segmentsAfter: cleaned.length,
+      noiseTagsRemoved,
+      fillerWordsRemoved,
+      duplicateWordsRemoved,
+      tokensBefore,
+      tokensAfter,
+      tokensSaved: tokensBefore - tokensAfter,
+    },
+  };
+};
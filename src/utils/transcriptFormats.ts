@@ -0,0 +1,292 @@
+import { TranscriptFormat, TranscriptSegment } from "../types";
+import { parseTimestamp } from "./transcriptCitations";
+
+export const MAX_TRANSCRIPT_FILE_LENGTH = 5_000_000; // Characters
+
+// A caption as read from a file, before it becomes a segment
+interface TimedText {
+  start: number;
+  end?: number;
+  text: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const point =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Drop markup such as <i>, <c.colorE5E5E5>, inline cue times like
+// <00:00:01.200> and SSA overrides like {\an8}, then collapse whitespace
+const cleanCaptionText = (text: string): string =>
+  decodeEntities(text.replace(/<[^>]*>/g, "").replace(/\{\\[^}]*\}/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Timestamps as YouTube shows them: "4:05", or "1:04:05" past the hour
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+};
+
+// Cue times: "00:01:02,500" (SRT), "01:02.500" or "00:01:02.500" (WebVTT)
+const parseCueTime = (value: string): number | null => {
+  const match = value.match(
+    /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(`0.${fraction}`) : 0)
+  );
+};
+
+const toLines = (content: string): string[] =>
+  content.replace(/^\uFEFF/, "").split(/\r\n?|\n/);
+
+/**
+ * Cues of an SRT or WebVTT file. Blocks without a timing line, such as the
+ * WEBVTT header and NOTE or STYLE blocks, are skipped. Auto-generated
+ * captions roll each line into the next cue, so a line repeating the one
+ * before it is dropped.
+ */
+const parseCues = (content: string): TimedText[] => {
+  const blocks = toLines(content)
+    .join("\n")
+    .split(/\n[ \t]*\n/);
+  const cues: TimedText[] = [];
+  let previousLine = "";
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const timing = lines[timingIndex].match(/^\s*(\S+)\s+-->\s+(\S+)/);
+    const start = timing ? parseCueTime(timing[1]) : null;
+    const end = timing ? parseCueTime(timing[2]) : null;
+    if (start === null) {
+      continue;
+    }
+
+    const textLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCaptionText)
+      .filter(Boolean);
+    const newLines = textLines.filter(
+      (line, i) => !(i === 0 && line === previousLine)
+    );
+
+    if (textLines.length > 0) {
+      previousLine = textLines[textLines.length - 1];
+    }
+
+    cues.push({ start, end: end ?? undefined, text: newLines.join(" ") });
+  }
+
+  return cues;
+};
+
+// YouTube timedtext JSON: events with a start and duration in milliseconds
+// and the caption split into runs of text
+const parseJson3 = (content: string): TimedText[] | null => {
+  let json: any;
+  try {
+    json = JSON.parse(content.replace(/^\uFEFF/, ""));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(json?.events)) {
+    return null;
+  }
+
+  return json.events.flatMap((event: any) => {
+    const start = Number(event?.tStartMs) / 1000;
+    const duration = Number(event?.dDurationMs) / 1000;
+    if (!Array.isArray(event?.segs) || !Number.isFinite(start)) {
+      return [];
+    }
+
+    const text = event.segs
+      .map((seg: any) => (typeof seg?.utf8 === "string" ? seg.utf8 : ""))
+      .join("");
+
+    return [
+      {
+        start,
+        end: Number.isFinite(duration) ? start + duration : undefined,
+        text: cleanCaptionText(text),
+      },
+    ];
+  });
+};
+
+const readAttribute = (attributes: string, name: string): number => {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? Number(match[1]) : NaN;
+};
+
+// YouTube timedtext XML, either <text start="1.5" dur="2"> in seconds or
+// the srv3 form <p t="1500" d="2000"> in milliseconds. Caption text is
+// escaped twice in the older form ("&amp;#39;").
+const parseTimedText = (content: string): TimedText[] | null => {
+  const captions: TimedText[] = [];
+
+  for (const [, attributes, body] of content.matchAll(
+    /<text\b([^>]*)>([\s\S]*?)<\/text>/g
+  )) {
+    const start = readAttribute(attributes, "start");
+    const duration = readAttribute(attributes, "dur");
+    captions.push({
+      start,
+      end: Number.isFinite(duration) ? start + duration : undefined,
+      text: cleanCaptionText(decodeEntities(body)),
+    });
+  }
+
+  for (const [, attributes, body] of content.matchAll(
+    /<p\b([^>]*)>([\s\S]*?)<\/p>/g
+  )) {
+    const start = readAttribute(attributes, "t") / 1000;
+    const duration = readAttribute(attributes, "d") / 1000;
+    captions.push({
+      start,
+      end: Number.isFinite(duration) ? start + duration : undefined,
+      text: cleanCaptionText(decodeEntities(body)),
+    });
+  }
+
+  return captions.length > 0 || /<(transcript|timedtext)\b/.test(content)
+    ? captions
+    : null;
+};
+
+// "[12:34] text", "(1:02:03) text", "12:34 - text", or a timestamp alone on
+// its line with the text on the lines below it
+const TEXT_TIMESTAMP =
+  /^\s*[[(]?((?:\d+:)?\d{1,2}:\d{2})(?:[.,]\d+)?[\])]?\s*(?:[-–—|:]\s+)?(.*)$/;
+
+const parseTimestampedText = (content: string): TimedText[] => {
+  const captions: TimedText[] = [];
+
+  for (const line of toLines(content)) {
+    const match = line.match(TEXT_TIMESTAMP);
+    const start = match ? parseTimestamp(match[1]) : null;
+
+    if (match && start !== null) {
+      captions.push({ start, text: cleanCaptionText(match[2]) });
+    } else if (captions.length > 0 && line.trim()) {
+      // Lines before the first timestamp, such as a title, are left out
+      const current = captions[captions.length - 1];
+      current.text = `${current.text} ${cleanCaptionText(line)}`.trim();
+    }
+  }
+
+  return captions;
+};
+
+const roundSeconds = (seconds: number): number =>
+  Math.round(seconds * 1000) / 1000;
+
+// Segments in time order; captions without an end run until the next one
+const toSegments = (captions: TimedText[]): TranscriptSegment[] => {
+  const timed = captions
+    .filter(
+      (caption) =>
+        caption.text && Number.isFinite(caption.start) && caption.start >= 0
+    )
+    .sort((a, b) => a.start - b.start);
+
+  return timed.map((caption, i) => {
+    const end =
+      caption.end !== undefined && caption.end > caption.start
+        ? caption.end
+        : timed[i + 1]?.start;
+
+    return {
+      timestamp: formatTimestamp(caption.start),
+      text: caption.text,
+      startSeconds: roundSeconds(caption.start),
+      ...(end !== undefined &&
+        end > caption.start && { endSeconds: roundSeconds(end) }),
+    };
+  });
+};
+
+// Guess the format of a transcript file from its content
+export const detectTranscriptFormat = (content: string): TranscriptFormat => {
+  const head = content.replace(/^\uFEFF/, "").trimStart();
+
+  if (/^WEBVTT\b/.test(head)) {
+    return "vtt";
+  }
+  if (head.startsWith("{")) {
+    return "json3";
+  }
+  if (head.startsWith("<")) {
+    return "timedtext";
+  }
+  if (/^\s*\S+\s+-->\s+\S+/m.test(head)) {
+    return "srt";
+  }
+  return "text";
+};
+
+/**
+ * Convert a caption or transcript file into transcript segments with start
+ * and end times. Returns null when a JSON or XML file cannot be read at all.
+ */
+export const parseTranscriptFile = (
+  content: string,
+  format: TranscriptFormat
+): TranscriptSegment[] | null => {
+  let captions: TimedText[] | null;
+
+  switch (format) {
+    case "srt":
+    case "vtt":
+      captions = parseCues(content);
+      break;
+    case "json3":
+      captions = parseJson3(content);
+      break;
+    case "timedtext":
+      captions = parseTimedText(content);
+      break;
+    case "text":
+      captions = parseTimestampedText(content);
+      break;
+  }
+
+  return captions && toSegments(captions);
+};
@@ -0,0 +1,136 @@
+import { TranscriptSegment } from "../types";
+import { countTokens } from "./tokenizer";
+
+export interface TranscriptPassage {
+  index: number; // Position of the passage in the transcript
+  segments: TranscriptSegment[];
+}
+
+// BM25 ranking parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Words that say nothing about which part of a video a question is about
+const STOP_WORDS = new Set(
+  (
+    "a about an and any are as at be but by can could did do does for from " +
+    "had has have he her him his how i if in into is it its me mention " +
+    "mentioned my of on or our said say says she so talk talked tell than " +
+    "that the their them then there these they this to video was we were " +
+    "what when where which who why will with would you your"
+  ).split(" ")
+);
+
+// Lowercased words without stop words; plural "s" is dropped so
+// "prices" matches "price"
+export const toSearchTerms = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+    .map((term) =>
+      term.length > 3 && term.endsWith("s") && !term.endsWith("ss")
+        ? term.slice(0, -1)
+        : term
+    );
+
+export const formatSegment = (segment: TranscriptSegment): string =>
+  segment.timestamp ? `[${segment.timestamp}] ${segment.text}` : segment.text;
+
+// Split plain transcript text into sentence segments without timestamps,
+// for summaries that only stored the flattened transcript
+export const segmentsFromText = (text: string): TranscriptSegment[] =>
+  (text.match(/[^.!?]+[.!?]*/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .map((sentence) => ({ timestamp: "", text: sentence }));
+
+/**
+ * Keyword retrieval over a transcript: consecutive segments are grouped into
+ * token-bounded passages that are ranked against a query with BM25
+ */
+export class TranscriptRetriever {
+  private passages: TranscriptPassage[] = [];
+  private termCounts: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(transcript: TranscriptSegment[], passageTokens: number) {
+    let current: TranscriptSegment[] = [];
+    let currentTokens = 0;
+
+    for (const segment of transcript) {
+      const tokens = countTokens(formatSegment(segment));
+
+      if (current.length > 0 && currentTokens + tokens > passageTokens) {
+        this.addPassage(current);
+        current = [];
+        currentTokens = 0;
+      }
+
+      current.push(segment);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      this.addPassage(current);
+    }
+
+    const totalLength = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.passages.length
+      ? totalLength / this.passages.length
+      : 0;
+  }
+
+  // Best matching passages in transcript order; none when no term matches
+  search(query: string, limit: number): TranscriptPassage[] {
+    const terms = [...new Set(toSearchTerms(query))];
+    const total = this.passages.length;
+
+    return this.passages
+      .map((passage, i) => {
+        let score = 0;
+
+        for (const term of terms) {
+          const frequency = this.termCounts[i].get(term) ?? 0;
+          if (frequency === 0) {
+            continue;
+          }
+
+          const documents = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(
+            1 + (total - documents + 0.5) / (documents + 0.5)
+          );
+          score +=
+            (idf * frequency * (K1 + 1)) /
+            (frequency +
+              K1 * (1 - B + (B * this.lengths[i]) / this.averageLength));
+        }
+
+        return { passage, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ passage }) => passage)
+      .sort((a, b) => a.index - b.index);
+  }
+
+  private addPassage(segments: TranscriptSegment[]) {
+    const counts = new Map<string, number>();
+    const terms = toSearchTerms(segments.map((s) => s.text).join(" "));
+
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    counts.forEach((_, term) => {
+      this.documentFrequency.set(
+        term,
+        (this.documentFrequency.get(term) ?? 0) + 1
+      );
+    });
+
+    this.passages.push({ index: this.passages.length, segments });
+    this.termCounts.push(counts);
+    this.lengths.push(terms.length);
+  }
+}
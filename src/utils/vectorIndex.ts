@@ -0,0 +1,45 @@
+const vectorNorm = (vector: number[]): number =>
+  Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+// Postgres literal for a pgvector value, e.g. "[0.1,0.2]"
+export const toVectorLiteral = (vector: number[]): string =>
+  `[${vector.join(",")}]`;
+
+/**
+ * Exact nearest-neighbour search held in memory, used to rank stored
+ * embeddings when Postgres has no pgvector extension
+ */
+export class InMemoryVectorIndex<T> {
+  private entries: { item: T; vector: number[]; norm: number }[] = [];
+
+  add(item: T, vector: number[]) {
+    this.entries.push({ item, vector, norm: vectorNorm(vector) });
+  }
+
+  // Most similar items first, skipping those below minScore
+  search(
+    vector: number[],
+    limit: number,
+    minScore = -1
+  ): { item: T; score: number }[] {
+    const queryNorm = vectorNorm(vector);
+    if (queryNorm === 0) {
+      return [];
+    }
+
+    return this.entries
+      .filter(
+        (entry) => entry.norm > 0 && entry.vector.length === vector.length
+      )
+      .map((entry) => {
+        let dot = 0;
+        for (let i = 0; i < vector.length; i++) {
+          dot += vector[i] * entry.vector[i];
+        }
+        return { item: entry.item, score: dot / (entry.norm * queryNorm) };
+      })
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}